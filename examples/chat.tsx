@@ -11,20 +11,21 @@
  *   - Type characters to compose a message
  *   - Enter to send
  *   - Backspace/Delete to edit
- *   - Up/Down arrows to scroll message history
+ *   - Tab to move between the input and the message history
+ *   - Up/Down arrows to scroll the history
  *   - Page Up/Page Down for fast scrolling
  *   - Home/End to jump to start/end
  *   - Ctrl+C to exit
  */
 
-import { createElement, useState, useCallback, useRef, useEffect } from "react";
+import { createElement, useRef, useState } from "react";
 import { createApp } from "../src/app";
-import { colorize } from "../src/color";
-import {
-	calculateWindow,
-	getScrollFraction,
-	renderScrollIndicator,
-} from "../src/hooks/use-virtualized-list";
+import { Box } from "../src/components/Box";
+import { Text } from "../src/components/Text";
+import { TextInput } from "../src/components/TextInput";
+import { VirtualizedList } from "../src/components/VirtualizedList";
+import { useMeasureElement } from "../src/hooks/use-measure-element";
+import type { EcsInstance } from "../src/host-config";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -43,12 +44,14 @@ type Message = {
 
 const SEED_COUNT = Number(process.env.CHAT_SEED_COUNT ?? "0");
 
+const formatTime = (date: Date): string =>
+	`${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+
 const generateSeedMessages = (count: number): Message[] => {
 	const messages: Message[] = [];
 	const now = Date.now();
 
 	for (let i = 0; i < count; i++) {
-		const date = new Date(now - (count - i) * 1000);
 		messages.push({
 			id: i,
 			text: `Seeded message #${i}: ${
@@ -58,7 +61,7 @@ const generateSeedMessages = (count: number): Message[] => {
 						? "How are you doing today?"
 						: "This is a test message for performance validation."
 			}`,
-			timestamp: `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`,
+			timestamp: formatTime(new Date(now - (count - i) * 1000)),
 			sender: i % 2 === 0 ? "user" : "system",
 		});
 	}
@@ -66,262 +69,134 @@ const generateSeedMessages = (count: number): Message[] => {
 	return messages;
 };
 
-// ---------------------------------------------------------------------------
-// Format timestamp
-// ---------------------------------------------------------------------------
-
-const formatTime = (): string => {
-	const now = new Date();
-	return `${now.getHours().toString().padStart(2, "0")}:${now.getMinutes().toString().padStart(2, "0")}`;
+// If seeded, follow the seeds with a welcome message
+const initialMessages = (): Message[] => {
+	const messages = generateSeedMessages(SEED_COUNT);
+	if (SEED_COUNT === 0) return messages;
+	return [
+		...messages,
+		{
+			id: SEED_COUNT,
+			text: `Loaded ${SEED_COUNT} messages. Press Tab, then scroll with arrows/PgUp/PgDn.`,
+			timestamp: formatTime(new Date()),
+			sender: "system",
+		},
+	];
 };
 
 // ---------------------------------------------------------------------------
-// Chat application (pure render loop with ECS)
+// Message row: wraps to as many lines as it needs, which the list measures
 // ---------------------------------------------------------------------------
 
-const ITEM_HEIGHT = 1;
-const INPUT_AREA_HEIGHT = 3; // prompt + input + blank line
-
-const main = () => {
-	let messages: Message[] = generateSeedMessages(SEED_COUNT);
-	let nextId = messages.length;
-	let inputBuffer = "";
-	let scrollIndex = Math.max(0, messages.length - 1);
-	let lastOutput = "";
-
-	const stdout = process.stdout;
-	const stdin = process.stdin;
-	const cols = stdout.columns || 80;
-	const rows = stdout.rows || 24;
-	const viewportHeight = Math.max(1, rows - INPUT_AREA_HEIGHT - 2); // -2 for header
+const renderMessage = (message: Message) =>
+	createElement(
+		Text,
+		{ key: String(message.id) },
+		createElement(Text, { color: "gray" }, `[${message.timestamp}]`),
+		" ",
+		message.sender === "user"
+			? createElement(Text, { color: "green" }, "You")
+			: createElement(Text, { color: "cyan" }, "Bot"),
+		`: ${message.text}`,
+	);
 
-	// Hide cursor
-	stdout.write("\x1b[?25l");
-
-	// Enable raw mode for keypress handling
-	if (stdin.isTTY) {
-		stdin.setRawMode(true);
-		stdin.resume();
-		stdin.setEncoding("utf8");
-	}
+// ---------------------------------------------------------------------------
+// Chat component: the history fills whatever the header and input leave
+// ---------------------------------------------------------------------------
 
-	const addMessage = (text: string, sender: "user" | "system") => {
-		messages = [
-			...messages,
-			{
-				id: nextId++,
-				text,
-				timestamp: formatTime(),
-				sender,
-			},
-		];
-		// Auto-scroll to bottom
-		const maxScroll = Math.max(0, messages.length - viewportHeight);
-		scrollIndex = maxScroll;
+const Chat = () => {
+	const [messages, setMessages] = useState(initialMessages);
+	const [draft, setDraft] = useState("");
+	const nextIdRef = useRef(messages.length);
+
+	const historyRef = useRef<EcsInstance>(null);
+	const { height: historyHeight } = useMeasureElement(historyRef);
+
+	const addMessage = (text: string, sender: Message["sender"]) => {
+		const message: Message = {
+			id: nextIdRef.current++,
+			text,
+			timestamp: formatTime(new Date()),
+			sender,
+		};
+		setMessages((previous) => [...previous, message]);
 	};
 
-	const render = () => {
-		const window = calculateWindow(
-			messages.length,
-			scrollIndex,
-			viewportHeight,
-			ITEM_HEIGHT,
-			3,
-		);
-		const fraction = getScrollFraction(window);
-		const scrollBar = renderScrollIndicator(viewportHeight, fraction);
-		const showScrollBar = messages.length > viewportHeight;
-
-		const lines: string[] = [];
-
-		// Header
-		const header = colorize(
-			` Chat (${messages.length} messages) `,
-			{ color: "white", backgroundColor: "blue" },
-		);
-		lines.push(header);
-		lines.push(colorize("\u2500".repeat(cols), { color: "gray" }));
-
-		// Message area
-		for (let row = 0; row < viewportHeight; row++) {
-			const msgIndex = window.renderStartIndex + row;
-			let line = "";
-
-			if (
-				msgIndex >= window.renderStartIndex &&
-				msgIndex < window.renderEndIndex &&
-				msgIndex < messages.length
-			) {
-				const msg = messages[msgIndex];
-				const time = colorize(
-					`[${msg.timestamp}]`,
-					{ color: "gray" },
-				);
-				const sender =
-					msg.sender === "user"
-						? colorize("You", { color: "green" })
-						: colorize("Bot", { color: "cyan" });
-				line = `${time} ${sender}: ${msg.text}`;
-			}
+	const send = (value: string) => {
+		const text = value.trim();
+		if (text.length === 0) return;
+		addMessage(text, "user");
+		setDraft("");
 
-			// Truncate to terminal width
-			const maxWidth = showScrollBar ? cols - 2 : cols;
-			if (line.length > maxWidth + 50) {
-				// rough ANSI overhead estimate
-				line = line.slice(0, maxWidth + 50);
-			}
-
-			if (showScrollBar) {
-				const indicator = colorize(scrollBar[row] || " ", {
-					color: "gray",
-				});
-				lines.push(`${line} ${indicator}`);
-			} else {
-				lines.push(line);
-			}
-		}
-
-		// Separator
-		lines.push(colorize("\u2500".repeat(cols), { color: "gray" }));
-
-		// Input area
-		const prompt = colorize("> ", { color: "green" });
-		const cursor = colorize("\u2588", { color: "white" });
-		lines.push(`${prompt}${inputBuffer}${cursor}`);
-
-		const output = lines.join("\n");
-		if (output !== lastOutput) {
-			lastOutput = output;
-			stdout.write("\x1b[H\x1b[2J");
-			stdout.write(output);
-		}
+		// Simulate bot response
+		setTimeout(() => addMessage(`Echo: ${text}`, "system"), 100);
 	};
 
-	// Key handling
-	stdin.on("data", (data: string) => {
-		const char = data;
-
-		// Ctrl+C: exit
-		if (char === "\x03") {
-			cleanup();
-			return;
-		}
-
-		// Enter: send message
-		if (char === "\r" || char === "\n") {
-			if (inputBuffer.trim().length > 0) {
-				addMessage(inputBuffer.trim(), "user");
-				inputBuffer = "";
-
-				// Simulate bot response
-				setTimeout(() => {
-					addMessage(
-						`Echo: ${messages[messages.length - 1].text}`,
-						"system",
-					);
-					render();
-				}, 100);
-			}
-			render();
-			return;
-		}
-
-		// Backspace
-		if (char === "\x7f" || char === "\b") {
-			inputBuffer = inputBuffer.slice(0, -1);
-			render();
-			return;
-		}
-
-		// Delete (escape sequence)
-		if (char === "\x1b[3~") {
-			inputBuffer = inputBuffer.slice(0, -1);
-			render();
-			return;
-		}
-
-		// Arrow Up
-		if (char === "\x1b[A") {
-			scrollIndex = Math.max(0, scrollIndex - 1);
-			render();
-			return;
-		}
-
-		// Arrow Down
-		if (char === "\x1b[B") {
-			const maxScroll = Math.max(0, messages.length - viewportHeight);
-			scrollIndex = Math.min(maxScroll, scrollIndex + 1);
-			render();
-			return;
-		}
-
-		// Page Up
-		if (char === "\x1b[5~") {
-			scrollIndex = Math.max(0, scrollIndex - viewportHeight);
-			render();
-			return;
-		}
-
-		// Page Down
-		if (char === "\x1b[6~") {
-			const maxScroll = Math.max(0, messages.length - viewportHeight);
-			scrollIndex = Math.min(maxScroll, scrollIndex + viewportHeight);
-			render();
-			return;
-		}
-
-		// Home
-		if (char === "\x1b[H" || char === "\x1b[1~") {
-			scrollIndex = 0;
-			render();
-			return;
-		}
-
-		// End
-		if (char === "\x1b[F" || char === "\x1b[4~") {
-			const maxScroll = Math.max(0, messages.length - viewportHeight);
-			scrollIndex = maxScroll;
-			render();
-			return;
-		}
-
-		// Regular character input (ignore other escape sequences)
-		if (char.length === 1 && char >= " ") {
-			inputBuffer += char;
-			render();
-		}
-	});
-
-	const cleanup = () => {
-		stdout.write("\x1b[?25h\x1b[2J\x1b[H");
-		stdout.write(
-			colorize(`Goodbye! Sent ${messages.length} messages.\n`, {
-				color: "green",
+	return createElement(
+		Box,
+		{ flexDirection: "column", flexGrow: 1 },
+		createElement(
+			Box,
+			{ justifyContent: "space-between" },
+			createElement(
+				Text,
+				{ color: "white", backgroundColor: "blue" },
+				` Chat (${messages.length} messages) `,
+			),
+			createElement(Text, { dimColor: true }, "Tab: input / history"),
+		),
+		createElement(
+			Box,
+			{
+				flexGrow: 1,
+				flexBasis: 0,
+				borderStyle: "single",
+				borderColor: "gray",
+				borderLeft: false,
+				borderRight: false,
+			},
+			// Measured inside the border, so the list gets the lines left
+			createElement(
+				Box,
+				{ ref: historyRef, flexGrow: 1, overflow: "hidden" },
+				createElement(VirtualizedList<Message>, {
+					items: messages,
+					renderItem: renderMessage,
+					height: Math.max(1, historyHeight),
+					follow: true,
+					// Scroll-only, but a Tab stop so the keys can reach it
+					focusable: true,
+					id: "history",
+				}),
+			),
+		),
+		createElement(
+			Box,
+			null,
+			createElement(Text, { color: "green" }, "> "),
+			createElement(TextInput, {
+				value: draft,
+				onChange: setDraft,
+				onSubmit: send,
+				placeholder: "Type a message",
+				autoFocus: true,
+				id: "input",
 			}),
-		);
-		if (stdin.isTTY) {
-			stdin.setRawMode(false);
-		}
-		process.exit(0);
-	};
-
-	// Handle resize
-	stdout.on("resize", () => {
-		lastOutput = "";
-		render();
-	});
+		),
+	);
+};
 
-	// Initial render
-	render();
+// ---------------------------------------------------------------------------
+// Boot
+// ---------------------------------------------------------------------------
 
-	// If seeded, show a welcome message
-	if (SEED_COUNT > 0) {
-		addMessage(
-			`Loaded ${SEED_COUNT} messages. Scroll with arrows/PgUp/PgDn.`,
-			"system",
-		);
-		render();
-	}
-};
+const app = createApp(createElement(Chat), {
+	stdout: process.stdout,
+	stdin: process.stdin,
+	exitOnCtrlC: true,
+	fullscreen: true,
+});
 
-main();
+app.waitUntilExit().then(() => {
+	process.exit(0);
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createAnimationClock } from "../animation-clock";
+
+beforeEach(() => {
+	vi.useFakeTimers();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("createAnimationClock", () => {
+	it("returns a frozen object", () => {
+		const clock = createAnimationClock({ interval: 10 });
+		expect(Object.isFrozen(clock)).toBe(true);
+		clock.destroy();
+	});
+
+	it("stays idle until something subscribes", () => {
+		const clock = createAnimationClock({ interval: 10 });
+		expect(clock.isRunning()).toBe(false);
+		expect(vi.getTimerCount()).toBe(0);
+
+		const unsubscribe = clock.subscribe(() => {});
+		expect(clock.isRunning()).toBe(true);
+
+		unsubscribe();
+		clock.destroy();
+	});
+
+	it("drives every listener from one timer", () => {
+		const clock = createAnimationClock({ interval: 10 });
+		const listeners = Array.from({ length: 10 }, () => vi.fn());
+		for (const listener of listeners) clock.subscribe(listener);
+
+		expect(vi.getTimerCount()).toBe(1);
+		vi.advanceTimersByTime(30);
+		for (const listener of listeners) {
+			expect(listener).toHaveBeenCalledTimes(3);
+		}
+
+		clock.destroy();
+	});
+
+	it("passes the current time to listeners", () => {
+		vi.setSystemTime(1000);
+		const clock = createAnimationClock({ interval: 10 });
+		const listener = vi.fn();
+		clock.subscribe(listener);
+
+		vi.advanceTimersByTime(10);
+		expect(listener).toHaveBeenCalledWith(1010);
+
+		clock.destroy();
+	});
+
+	it("stops when the last listener unsubscribes", () => {
+		const clock = createAnimationClock({ interval: 10 });
+		const first = clock.subscribe(() => {});
+		const second = clock.subscribe(() => {});
+
+		first();
+		expect(clock.isRunning()).toBe(true);
+		second();
+		expect(clock.isRunning()).toBe(false);
+		expect(vi.getTimerCount()).toBe(0);
+	});
+
+	it("keeps one timer when a listener resubscribes mid-tick", () => {
+		const clock = createAnimationClock({ interval: 10 });
+		let unsubscribe = (): void => {};
+		const listener = (): void => {
+			unsubscribe();
+			unsubscribe = clock.subscribe(listener);
+		};
+		unsubscribe = clock.subscribe(listener);
+
+		vi.advanceTimersByTime(10);
+		expect(vi.getTimerCount()).toBe(1);
+
+		clock.destroy();
+	});
+
+	it("ignores subscriptions after destroy", () => {
+		const clock = createAnimationClock({ interval: 10 });
+		const listener = vi.fn();
+		clock.subscribe(listener);
+		clock.destroy();
+		clock.subscribe(listener);
+
+		vi.advanceTimersByTime(50);
+		expect(listener).not.toHaveBeenCalled();
+		expect(clock.isRunning()).toBe(false);
+	});
+
+	it("validates config with Zod", () => {
+		expect(() => createAnimationClock({ interval: 0 })).toThrow();
+	});
+});
@@ -1,7 +1,18 @@
 import { Readable, Writable } from "node:stream";
+import { getDimensions } from "blecsd/components";
 import { createElement } from "react";
 import { describe, expect, it, vi } from "vitest";
 import { createApp } from "../app";
+import { stripAnsi } from "../color";
+import { Box } from "../components/Box";
+import { SPINNERS, Spinner } from "../components/Spinner";
+import { Table } from "../components/Table";
+import { Text } from "../components/Text";
+import { useInput } from "../hooks/use-input";
+import {
+	DISABLE_EXTENDED_KEYS,
+	ENABLE_EXTENDED_KEYS,
+} from "../input/extended-keys";
 import { render } from "../render";
 
 const makeElement = () => createElement("blecsdui-box", null, "hello");
@@ -163,6 +174,351 @@ describe("createApp", () => {
 	});
 });
 
+describe("createApp fullscreen", () => {
+	const ENTER_ALT_SCREEN = "\x1b[?1049h";
+	const EXIT_ALT_SCREEN = "\x1b[?1049l";
+
+	const makeTerminal = (columns: number, rows: number) => {
+		const terminal = makeStdout();
+		Object.assign(terminal.stdout, { columns, rows });
+		return terminal;
+	};
+
+	it("enters the alternate screen and leaves it on unmount", () => {
+		const { stdout, chunks } = makeTerminal(40, 10);
+		const app = createApp(makeElement(), {
+			stdout,
+			fullscreen: true,
+			ci: false,
+		});
+
+		expect(chunks[0]).toContain(ENTER_ALT_SCREEN);
+		expect(chunks.join("")).not.toContain(EXIT_ALT_SCREEN);
+
+		app.unmount();
+		expect(chunks.at(-1)).toContain(EXIT_ALT_SCREEN);
+	});
+
+	it("accepts alternateScreen as an alias of fullscreen", () => {
+		const { stdout, chunks } = makeTerminal(40, 10);
+		const app = createApp(makeElement(), {
+			stdout,
+			alternateScreen: true,
+			ci: false,
+		});
+
+		expect(chunks[0]).toContain(ENTER_ALT_SCREEN);
+		app.unmount();
+	});
+
+	it("leaves the alternate screen and mouse tracking on cleanup", () => {
+		const { stdout, chunks } = makeTerminal(40, 10);
+		const app = createApp(makeElement(), {
+			stdout,
+			fullscreen: true,
+			mouse: true,
+			ci: false,
+		});
+
+		chunks.length = 0;
+		app.cleanup();
+		const written = chunks.join("");
+		expect(written).toContain(EXIT_ALT_SCREEN);
+		expect(written).toContain("\x1b[?1000l");
+		expect(written).toContain("\x1b[?25h");
+		app.unmount();
+	});
+
+	it("sizes the root to the terminal", () => {
+		const { stdout } = makeTerminal(40, 10);
+		const app = createApp(makeElement(), {
+			stdout,
+			fullscreen: true,
+			ci: false,
+		});
+		const { world, rootEid } = app.container;
+
+		expect(getDimensions(world, rootEid)).toMatchObject({
+			width: 40,
+			height: 10,
+		});
+		app.unmount();
+	});
+
+	it("clears the screen and resizes the root on terminal resize", async () => {
+		const { stdout, chunks } = makeTerminal(40, 10);
+		const app = createApp(makeElement(), {
+			stdout,
+			fullscreen: true,
+			ci: false,
+		});
+		const { world, rootEid } = app.container;
+
+		chunks.length = 0;
+		Object.assign(stdout, { columns: 60, rows: 20 });
+		stdout.emit("resize");
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(chunks).toContain("\x1b[2J\x1b[H");
+		expect(getDimensions(world, rootEid)).toMatchObject({
+			width: 60,
+			height: 20,
+		});
+		app.unmount();
+	});
+
+	it("re-measures a Table to the resized terminal", async () => {
+		const { stdout, chunks } = makeTerminal(30, 10);
+		const app = createApp(
+			createElement(Table, {
+				data: [{ name: "apple" }],
+				columns: [{ key: "name" }],
+			}),
+			{ stdout, fullscreen: true, ci: false },
+		);
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		expect(stripAnsi(chunks.join(""))).toContain(`┌${"─".repeat(28)}┐`);
+
+		chunks.length = 0;
+		Object.assign(stdout, { columns: 16, rows: 10 });
+		stdout.emit("resize");
+		await new Promise((resolve) => setTimeout(resolve, 100));
+
+		expect(stripAnsi(chunks.join(""))).toContain(`┌${"─".repeat(14)}┐`);
+		app.unmount();
+	});
+
+	it("restores the primary screen when the exit handler catches a crash", async () => {
+		const spy = vi.spyOn(process, "on");
+		const { stdout, chunks } = makeTerminal(40, 10);
+		const app = createApp(makeElement(), {
+			stdout,
+			fullscreen: true,
+			ci: false,
+		});
+		const promise = app.waitUntilExit();
+
+		const onCrash = spy.mock.calls.find(
+			(call) => call[0] === "uncaughtException",
+		)?.[1] as (error: Error) => void;
+		spy.mockRestore();
+
+		onCrash(new Error("boom"));
+		await expect(promise).rejects.toThrow("boom");
+		expect(chunks.join("")).toContain(EXIT_ALT_SCREEN);
+	});
+
+	it("stays inline in CI mode", () => {
+		const { stdout, chunks } = makeTerminal(40, 10);
+		const app = createApp(makeElement(), {
+			stdout,
+			fullscreen: true,
+			ci: true,
+		});
+		app.unmount();
+
+		expect(chunks.join("")).not.toContain(ENTER_ALT_SCREEN);
+	});
+});
+
+describe("createApp animation", () => {
+	const wait = (ms: number) =>
+		new Promise((resolve) => setTimeout(resolve, ms));
+	const { frames, interval } = SPINNERS.line;
+
+	it("animates spinners on the shared clock", async () => {
+		const { stdout, chunks } = makeStdout();
+		const app = createApp(createElement(Spinner, { type: "line" }), {
+			stdout,
+			ci: false,
+		});
+		await wait(interval * 2);
+		app.unmount();
+
+		expect(chunks.join("")).toContain(frames[1]);
+	});
+
+	it("renders a static frame in CI mode", async () => {
+		const { stdout, chunks } = makeStdout();
+		const app = createApp(createElement(Spinner, { type: "line" }), {
+			stdout,
+			ci: true,
+		});
+		await wait(interval * 2);
+		app.unmount();
+
+		expect(chunks.join("")).toContain(frames[0]);
+		expect(chunks.join("")).not.toContain(frames[1]);
+	});
+
+	it("renders a static frame in debug mode", async () => {
+		const { stdout, chunks } = makeStdout();
+		const app = createApp(createElement(Spinner, { type: "line" }), {
+			stdout,
+			debug: true,
+		});
+		await wait(interval * 2);
+		app.unmount();
+
+		expect(chunks.join("")).not.toContain(frames[1]);
+	});
+});
+
+describe("createApp input", () => {
+	const makeStdin = () => new Readable({ read() {} });
+	const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+	it("delivers stdin data to useInput", async () => {
+		const stdin = makeStdin();
+		const { stdout } = makeStdout();
+		const handler = vi.fn();
+		const Listener = () => {
+			useInput(handler);
+			return null;
+		};
+
+		const app = createApp(createElement(Listener), { stdin, stdout });
+		await tick();
+		stdin.push("x");
+		await tick();
+
+		expect(handler).toHaveBeenCalledWith("x", expect.anything());
+		app.unmount();
+	});
+
+	it("sends a lone Escape once no paste marker follows it", async () => {
+		const stdin = makeStdin();
+		const { stdout } = makeStdout();
+		const handler = vi.fn();
+		const Listener = () => {
+			useInput(handler);
+			return null;
+		};
+
+		const app = createApp(createElement(Listener), { stdin, stdout });
+		await tick();
+		stdin.push("\x1b");
+		await tick();
+		expect(handler).not.toHaveBeenCalled();
+
+		await new Promise((resolve) => setTimeout(resolve, 60));
+		expect(handler).toHaveBeenCalledWith(
+			"",
+			expect.objectContaining({ escape: true }),
+		);
+		app.unmount();
+	});
+
+	it("joins a paste start marker split across reads", async () => {
+		const stdin = makeStdin();
+		const { stdout } = makeStdout();
+		const handler = vi.fn();
+		const Listener = () => {
+			useInput(handler);
+			return null;
+		};
+
+		const app = createApp(createElement(Listener), { stdin, stdout });
+		await tick();
+		stdin.push("\x1b[20");
+		await tick();
+		stdin.push("0~hi\x1b[201~");
+		await tick();
+
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler).toHaveBeenCalledWith("hi", expect.anything());
+		app.unmount();
+	});
+
+	it("exits on Ctrl+C while reading input", async () => {
+		const stdin = makeStdin();
+		const { stdout } = makeStdout();
+		const Listener = () => {
+			useInput(() => {});
+			return null;
+		};
+
+		const app = createApp(createElement(Listener), { stdin, stdout });
+		const promise = app.waitUntilExit();
+		stdin.push("\x03");
+
+		await expect(promise).resolves.toBeUndefined();
+	});
+
+	it("exits on a kitty-encoded Ctrl+C", async () => {
+		const stdin = makeStdin();
+		const { stdout } = makeStdout();
+		const Listener = () => {
+			useInput(() => {});
+			return null;
+		};
+
+		const app = createApp(createElement(Listener), {
+			stdin,
+			stdout,
+			extendedKeys: true,
+		});
+		const promise = app.waitUntilExit();
+		stdin.push("\x1b[99;5u");
+
+		await expect(promise).resolves.toBeUndefined();
+	});
+
+	it("asks for extended keys with raw mode and pops them on unmount", async () => {
+		const stdin = Object.assign(makeStdin(), {
+			isTTY: true,
+			setRawMode: vi.fn(),
+		});
+		const { stdout, chunks } = makeStdout();
+		const Listener = () => {
+			useInput(() => {});
+			return null;
+		};
+
+		const app = createApp(createElement(Listener), {
+			stdin,
+			stdout,
+			extendedKeys: true,
+		});
+		await tick();
+		expect(stdin.setRawMode).toHaveBeenCalledWith(true);
+		expect(chunks.join("")).toContain(ENABLE_EXTENDED_KEYS);
+
+		chunks.length = 0;
+		app.unmount();
+		expect(chunks.join("")).toContain(DISABLE_EXTENDED_KEYS);
+	});
+
+	it("enables mouse tracking and disables it on unmount", () => {
+		const stdin = makeStdin();
+		const { stdout, chunks } = makeStdout();
+		const app = createApp(makeElement(), { stdin, stdout, mouse: true });
+
+		expect(chunks.join("")).toContain("\x1b[?1006h");
+		app.unmount();
+		expect(chunks.at(-1)).toContain("\x1b[?1006l");
+	});
+
+	it("routes mouse reports to Box onClick", async () => {
+		const stdin = makeStdin();
+		const { stdout } = makeStdout();
+		const onClick = vi.fn();
+		const app = createApp(
+			createElement(Box, { onClick }, createElement(Text, null, "hello")),
+			{ stdin, stdout, mouse: true },
+		);
+		await tick();
+
+		stdin.push("\x1b[<0;1;1M");
+		await tick();
+
+		expect(onClick).toHaveBeenCalledWith(
+			expect.objectContaining({ type: "press", x: 0, y: 0 }),
+		);
+		app.unmount();
+	});
+});
+
 describe("createApp with exitOnCtrlC", () => {
 	it("registers SIGINT handler when exitOnCtrlC is true", () => {
 		const spy = vi.spyOn(process, "on");
@@ -148,6 +148,11 @@ describe("extractAriaProps", () => {
 		expect(result?.["aria-state"]).toBe(state);
 	});
 
+	it("extracts aria-valuetext", () => {
+		const result = extractAriaProps({ "aria-valuetext": "42%" });
+		expect(result?.["aria-valuetext"]).toBe("42%");
+	});
+
 	it("extracts all ARIA props together", () => {
 		const result = extractAriaProps({
 			"aria-role": "checkbox",
@@ -1,10 +1,12 @@
 import { describe, expect, it } from "vitest";
 import {
+	BORDER_JUNCTIONS,
 	BORDER_STYLES,
 	type BorderCharset,
 	type BorderStyleName,
 	renderBorder,
 	resolveBorderCharset,
+	resolveBorderJunctions,
 } from "../rendering/border";
 import {
 	createOutputBuffer,
@@ -88,6 +90,35 @@ describe("resolveBorderCharset", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// Junctions
+// ---------------------------------------------------------------------------
+
+describe("resolveBorderJunctions", () => {
+	it("has junctions for every style", () => {
+		for (const name of Object.keys(BORDER_STYLES) as BorderStyleName[]) {
+			expect(BORDER_JUNCTIONS[name]).toBeDefined();
+		}
+	});
+
+	it("matches the line weight of the style", () => {
+		expect(resolveBorderJunctions("single")).toEqual({
+			top: "\u252c",
+			bottom: "\u2534",
+			left: "\u251c",
+			right: "\u2524",
+			cross: "\u253c",
+		});
+		expect(resolveBorderJunctions("double").cross).toBe("\u256c");
+		expect(resolveBorderJunctions("ascii").cross).toBe("+");
+	});
+
+	it("falls back to single lines for a custom charset", () => {
+		const custom = { ...BORDER_STYLES.classic };
+		expect(resolveBorderJunctions(custom).cross).toBe("\u253c");
+	});
+});
+
 // ---------------------------------------------------------------------------
 // renderBorder
 // ---------------------------------------------------------------------------
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { createPasteBuffer } from "../input/bracketed-paste";
+
+const START = "\x1b[200~";
+const END = "\x1b[201~";
+
+// ---------------------------------------------------------------------------
+// createPasteBuffer
+// ---------------------------------------------------------------------------
+
+describe("createPasteBuffer", () => {
+	it("passes plain input through", () => {
+		const buffer = createPasteBuffer();
+		expect(buffer.push("abc")).toEqual([{ type: "input", data: "abc" }]);
+	});
+
+	it("emits a bracketed paste as one chunk", () => {
+		const buffer = createPasteBuffer();
+		expect(buffer.push(`${START}line 1\rline 2${END}`)).toEqual([
+			{ type: "paste", text: "line 1\rline 2" },
+		]);
+	});
+
+	it("keeps keystrokes around a paste in order", () => {
+		const buffer = createPasteBuffer();
+		expect(buffer.push(`a${START}pasted${END}b`)).toEqual([
+			{ type: "input", data: "a" },
+			{ type: "paste", text: "pasted" },
+			{ type: "input", data: "b" },
+		]);
+	});
+
+	it("holds a paste back until its end marker arrives", () => {
+		const buffer = createPasteBuffer();
+
+		expect(buffer.push(`${START}first `)).toEqual([]);
+		expect(buffer.isPasting()).toBe(true);
+		expect(buffer.push("second")).toEqual([]);
+
+		expect(buffer.push(`${END}x`)).toEqual([
+			{ type: "paste", text: "first second" },
+			{ type: "input", data: "x" },
+		]);
+		expect(buffer.isPasting()).toBe(false);
+	});
+
+	it("handles several pastes in one chunk", () => {
+		const buffer = createPasteBuffer();
+		expect(buffer.push(`${START}one${END}${START}two${END}`)).toEqual([
+			{ type: "paste", text: "one" },
+			{ type: "paste", text: "two" },
+		]);
+	});
+
+	it("joins a start marker split at any offset", () => {
+		for (let cut = 1; cut < START.length; cut++) {
+			const buffer = createPasteBuffer();
+			expect(buffer.push(`a${START.slice(0, cut)}`)).toEqual([
+				{ type: "input", data: "a" },
+			]);
+			expect(buffer.isHolding()).toBe(true);
+			expect(buffer.push(`${START.slice(cut)}text${END}b`)).toEqual([
+				{ type: "paste", text: "text" },
+				{ type: "input", data: "b" },
+			]);
+		}
+	});
+
+	it("joins an end marker split at any offset", () => {
+		for (let cut = 1; cut < END.length; cut++) {
+			const buffer = createPasteBuffer();
+			expect(buffer.push(`${START}text${END.slice(0, cut)}`)).toEqual([]);
+			expect(buffer.flush()).toEqual([]);
+			expect(buffer.push(`${END.slice(cut)}b`)).toEqual([
+				{ type: "paste", text: "text" },
+				{ type: "input", data: "b" },
+			]);
+			expect(buffer.isPasting()).toBe(false);
+		}
+	});
+
+	it("releases a held Escape on flush", () => {
+		const buffer = createPasteBuffer();
+		expect(buffer.push("\x1b")).toEqual([]);
+		expect(buffer.flush()).toEqual([{ type: "input", data: "\x1b" }]);
+		expect(buffer.isHolding()).toBe(false);
+	});
+});
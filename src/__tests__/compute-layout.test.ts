@@ -0,0 +1,638 @@
+import { Dimensions, getChildren } from "blecsd/components";
+import { createElement, type ReactElement } from "react";
+import { describe, expect, it } from "vitest";
+import { Box } from "../components/Box";
+import { Text } from "../components/Text";
+import {
+	collectTextContent,
+	computeLayout,
+	readLayoutStyle,
+} from "../layout/compute-layout";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Lays out an element and returns the layouts of the root's first child and
+// that child's children, in document order.
+const layoutOf = (element: ReactElement, width = 40) => {
+	const instance = create(element, { columns: width, rows: 24 });
+	const { world, rootEid } = instance.container;
+	const layouts = computeLayout(instance.container, width);
+
+	const [top] = getChildren(world, rootEid);
+	const children = getChildren(world, top).map((eid) => layouts.get(eid));
+
+	instance.unmount();
+	return { root: layouts.get(rootEid), top: layouts.get(top), children };
+};
+
+// ---------------------------------------------------------------------------
+// readLayoutStyle
+// ---------------------------------------------------------------------------
+
+describe("readLayoutStyle", () => {
+	it("applies Ink-compatible defaults", () => {
+		const style = readLayoutStyle({});
+		expect(style.flexDirection).toBe("row");
+		expect(style.alignItems).toBe("stretch");
+		expect(style.flexShrink).toBe(1);
+		expect(style.flexGrow).toBe(0);
+	});
+
+	it("expands spacing shorthands", () => {
+		const style = readLayoutStyle({ paddingX: 2, margin: 1, marginTop: 3 });
+		expect(style.padding).toEqual({ top: 0, bottom: 0, left: 2, right: 2 });
+		expect(style.margin).toEqual({ top: 3, bottom: 1, left: 1, right: 1 });
+	});
+
+	it("derives border edges from borderStyle", () => {
+		expect(readLayoutStyle({}).border.left).toBe(0);
+		const style = readLayoutStyle({ borderStyle: "single", borderTop: false });
+		expect(style.border).toEqual({ top: 0, right: 1, bottom: 1, left: 1 });
+	});
+
+	it("flags hidden and absolute nodes", () => {
+		expect(readLayoutStyle({ display: "none" }).hidden).toBe(true);
+		expect(readLayoutStyle({ position: "absolute" }).absolute).toBe(true);
+	});
+
+	it("parses grid templates and placements", () => {
+		const style = readLayoutStyle({
+			display: "grid",
+			gridTemplateColumns: "4 1fr",
+			gridRow: "2 / span 3",
+		});
+		expect(style.grid).toBe(true);
+		expect(style.gridTemplateColumns).toEqual([
+			{ kind: "fixed", size: 4 },
+			{ kind: "fr", fr: 1 },
+		]);
+		expect(style.gridRow).toEqual({ start: 2, span: 3 });
+		expect(style.gridColumn).toEqual({ start: undefined, span: 1 });
+	});
+});
+
+// ---------------------------------------------------------------------------
+// computeLayout
+// ---------------------------------------------------------------------------
+
+describe("computeLayout", () => {
+	it("sizes the root to the given width and content height", () => {
+		const { root } = layoutOf(
+			createElement(
+				Box,
+				{ flexDirection: "column" },
+				createElement(Text, null, "a"),
+				createElement(Text, null, "b"),
+			),
+			30,
+		);
+		expect(root).toEqual({ x: 0, y: 0, width: 30, height: 2 });
+	});
+
+	it("stretches a top-level box across the root", () => {
+		const { top } = layoutOf(createElement(Box), 25);
+		expect(top?.width).toBe(25);
+	});
+
+	it("places row children side by side", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				null,
+				createElement(Text, null, "abc"),
+				createElement(Text, null, "de"),
+			),
+		);
+		expect(children[0]).toEqual({ x: 0, y: 0, width: 3, height: 1 });
+		expect(children[1]).toEqual({ x: 3, y: 0, width: 2, height: 1 });
+	});
+
+	it("offsets children by padding and border", () => {
+		const { top, children } = layoutOf(
+			createElement(
+				Box,
+				{ borderStyle: "single", padding: 1 },
+				createElement(Text, null, "x"),
+			),
+		);
+		expect(children[0]?.x).toBe(2);
+		expect(children[0]?.y).toBe(2);
+		expect(top?.height).toBe(5);
+	});
+
+	it("offsets children by their margins", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				null,
+				createElement(Box, { marginLeft: 2, marginTop: 1 }),
+			),
+		);
+		expect(children[0]?.x).toBe(2);
+		expect(children[0]?.y).toBe(1);
+	});
+
+	it("grows a child into the free space", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 20 },
+				createElement(Text, null, "ab"),
+				createElement(Box, { flexGrow: 1 }),
+			),
+		);
+		expect(children[1]).toMatchObject({ x: 2, width: 18 });
+	});
+
+	it("resolves percentage widths against the parent content box", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 22, paddingX: 1 },
+				createElement(Box, { width: "50%" }),
+			),
+		);
+		expect(children[0]?.width).toBe(10);
+	});
+
+	it("centers items on the cross axis of a sized container", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ height: 5, alignItems: "center" },
+				createElement(Text, null, "x"),
+			),
+		);
+		expect(children[0]?.y).toBe(2);
+	});
+
+	it("does not stretch an item with an explicit cross size", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ height: 6 },
+				createElement(Box, { height: 2 }),
+				createElement(Box, { width: 1 }),
+			),
+		);
+		expect(children[0]?.height).toBe(2);
+		expect(children[1]?.height).toBe(6);
+	});
+
+	it("gives display none children no layout", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				null,
+				createElement(Box, { display: "none" }),
+				createElement(Text, null, "x"),
+			),
+		);
+		expect(children[0]).toBeUndefined();
+		expect(children[1]?.x).toBe(0);
+	});
+
+	it("lays an overlay over the whole frame, out of the flow", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ paddingLeft: 2, paddingTop: 1 },
+				createElement(
+					Box,
+					null,
+					createElement(
+						Box,
+						{ overlay: true },
+						createElement(Box, { height: 5 }, createElement(Text, null, "x")),
+					),
+					createElement(Text, null, "y"),
+				),
+			),
+			{ columns: 40, rows: 24 },
+		);
+		const { world, rootEid } = instance.container;
+		const layouts = computeLayout(instance.container, 40);
+
+		const [top] = getChildren(world, rootEid);
+		const [inner] = getChildren(world, top);
+		const [overlay, text] = getChildren(world, inner);
+
+		// The frame grows to fit the overlay's content
+		expect(layouts.get(rootEid)?.height).toBe(5);
+		expect(layouts.get(overlay)).toEqual({
+			x: -2,
+			y: -1,
+			width: 40,
+			height: 5,
+		});
+		expect(layouts.get(text)).toMatchObject({ x: 0, y: 0, width: 1 });
+		instance.unmount();
+	});
+
+	it("keeps scrolled content at full height beside the scrollbar", () => {
+		const { top, children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 10, height: 2, flexDirection: "column", overflowY: "scroll" },
+				createElement(Text, null, "a"),
+				createElement(Text, null, "b"),
+				createElement(Text, null, "c"),
+			),
+		);
+		expect(top).toMatchObject({ width: 10, height: 2 });
+		expect(children.map((layout) => layout?.y)).toEqual([0, 1, 2]);
+		expect(children[0]).toMatchObject({ width: 9, height: 1 });
+	});
+
+	it("resolves offsets against the padding box of a positioned parent", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 20, height: 6, position: "relative", borderStyle: "single" },
+				createElement(
+					Box,
+					{ position: "absolute", bottom: 0, left: "50%" },
+					createElement(Text, null, "x"),
+				),
+			),
+		);
+		// Inside the border: 18 x 4 cells starting at (1, 1)
+		expect(children[0]).toEqual({ x: 10, y: 4, width: 1, height: 1 });
+	});
+
+	it("places an absolute box against its nearest positioned ancestor", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ width: 20, height: 6, position: "relative", borderStyle: "single" },
+				createElement(
+					Box,
+					{ paddingLeft: 3 },
+					createElement(
+						Box,
+						{ position: "absolute", top: 1, right: 2 },
+						createElement(Text, null, "tip"),
+					),
+				),
+			),
+			{ columns: 40, rows: 24 },
+		);
+		const { world, rootEid } = instance.container;
+		const layouts = computeLayout(instance.container, 40);
+		const [top] = getChildren(world, rootEid);
+		const [wrapper] = getChildren(world, top);
+		const [tip] = getChildren(world, wrapper);
+
+		// Relative to the wrapper at (1, 1): the tip ends 2 cells short of
+		// the positioned box's right border
+		expect(layouts.get(tip)).toEqual({ x: 13, y: 1, width: 3, height: 1 });
+		instance.unmount();
+	});
+
+	it("places an absolute box without a positioned ancestor against the frame", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ marginLeft: 4, width: 10 },
+				createElement(
+					Box,
+					{ position: "absolute", left: 1, top: 0 },
+					createElement(Text, null, "a"),
+				),
+			),
+		);
+		expect(children[0]).toMatchObject({ x: -3, y: 0 });
+	});
+
+	it("stretches an absolute box between opposite offsets", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 20, height: 4, position: "relative" },
+				createElement(Box, { position: "absolute", left: 2, right: 3 }),
+				createElement(Box, {
+					position: "absolute",
+					left: 2,
+					right: 3,
+					width: 4,
+				}),
+			),
+		);
+		expect(children[0]).toMatchObject({ x: 2, width: 15 });
+		expect(children[1]).toMatchObject({ x: 2, width: 4 });
+	});
+
+	it("keeps an absolute box without offsets where the flow starts", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 20, padding: 1, position: "relative" },
+				createElement(Text, null, "a"),
+				createElement(
+					Box,
+					{ position: "absolute" },
+					createElement(Text, null, "b"),
+				),
+			),
+		);
+		expect(children[1]).toMatchObject({ x: 1, y: 1 });
+	});
+
+	it("shifts a relative box without moving its siblings", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 20 },
+				createElement(
+					Box,
+					{ position: "relative", left: 2, bottom: 1 },
+					createElement(Text, null, "ab"),
+				),
+				createElement(Text, null, "c"),
+			),
+		);
+		expect(children[0]).toMatchObject({ x: 2, y: -1 });
+		expect(children[1]).toMatchObject({ x: 2, y: 0 });
+	});
+
+	it("ignores offsets on a box without a position", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 20 },
+				createElement(Box, { left: 5 }, createElement(Text, null, "a")),
+			),
+		);
+		expect(children[0]).toMatchObject({ x: 0 });
+	});
+
+	it("stops a growing box at maxWidth", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 30 },
+				createElement(Box, { flexGrow: 1, maxWidth: 10 }),
+				createElement(Box, { flexGrow: 1 }),
+			),
+		);
+		expect(children[0]).toMatchObject({ x: 0, width: 10 });
+		expect(children[1]).toMatchObject({ x: 10, width: 20 });
+	});
+
+	it("caps a stretched box at maxHeight", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 30, height: 8 },
+				createElement(Box, { width: 5, maxHeight: 3 }),
+			),
+		);
+		expect(children[0]).toMatchObject({ width: 5, height: 3 });
+	});
+
+	it("fits a fit-content box to its text up to the space available", () => {
+		const text = "one two three four";
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 30, flexDirection: "column", alignItems: "flex-start" },
+				createElement(
+					Box,
+					{ width: "fit-content" },
+					createElement(Text, null, text),
+				),
+				createElement(
+					Box,
+					{ width: "fit-content", marginLeft: 20 },
+					createElement(Text, null, text),
+				),
+			),
+		);
+		expect(children[0]?.width).toBe(18);
+		expect(children[1]?.width).toBe(10);
+	});
+
+	it("sizes a min-content box to its widest word", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 30, alignItems: "flex-start" },
+				createElement(
+					Box,
+					{ width: "min-content", paddingX: 1 },
+					createElement(Text, null, "one three"),
+				),
+			),
+		);
+		expect(children[0]?.width).toBe(7);
+	});
+
+	it("derives the height from the width with aspectRatio", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 30, height: 20 },
+				createElement(Box, { width: 12, aspectRatio: 3 }),
+			),
+		);
+		expect(children[0]).toMatchObject({ width: 12, height: 4 });
+	});
+
+	it("wraps text across a column and pushes the next sibling down", () => {
+		const { top, children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 10, flexDirection: "column" },
+				createElement(Text, null, "aaaa bbbb cccc"),
+				createElement(Text, null, "next"),
+			),
+		);
+		expect(children[0]).toMatchObject({ y: 0, width: 10, height: 2 });
+		expect(children[1]).toMatchObject({ y: 2, height: 1 });
+		expect(top?.height).toBe(3);
+	});
+
+	it("measures text again at the width a row shrinks it to", () => {
+		const { top, children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 12 },
+				createElement(Box, { width: 4, flexShrink: 0 }),
+				createElement(Text, null, "one two three"),
+			),
+		);
+		expect(children[1]).toMatchObject({ x: 4, width: 8, height: 2 });
+		expect(top?.height).toBe(2);
+	});
+
+	it("holds an auto-width box in a column to the space available", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 10, flexDirection: "column", alignItems: "flex-start" },
+				createElement(Box, null, createElement(Text, null, "aaaa bbbb cccc")),
+			),
+		);
+		expect(children[0]).toMatchObject({ width: 10, height: 2 });
+	});
+
+	it("keeps truncated text on one line", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ width: 10, flexDirection: "column" },
+				createElement(Text, { wrap: "truncate" }, "aaaa bbbb cccc"),
+			),
+		);
+		expect(children[0]?.height).toBe(1);
+	});
+
+	it("grows the frame to fit wrapped text", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ flexDirection: "column" },
+				createElement(Text, null, "aaaa bbbb cccc"),
+				createElement(Text, null, "end"),
+			),
+			{ columns: 10, rows: 24 },
+		);
+		const layouts = computeLayout(instance.container, 10);
+		expect(layouts.get(instance.container.rootEid)?.height).toBe(3);
+		instance.unmount();
+	});
+
+	it("lines up the first line of text across a baseline row", () => {
+		const { top, children } = layoutOf(
+			createElement(
+				Box,
+				{ alignItems: "baseline" },
+				createElement(Text, null, "a"),
+				createElement(
+					Box,
+					{ borderStyle: "single" },
+					createElement(Text, null, "b"),
+				),
+				createElement(Text, null, "c"),
+			),
+		);
+		expect(children[0]).toMatchObject({ y: 1, height: 1 });
+		expect(children[1]).toMatchObject({ y: 0, height: 3 });
+		expect(children[2]).toMatchObject({ y: 1, height: 1 });
+		expect(top?.height).toBe(3);
+	});
+
+	it("stretches an item with alignSelf stretch", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{ alignItems: "flex-start", height: 4 },
+				createElement(Box, { alignSelf: "stretch", width: 2 }),
+				createElement(Text, null, "x"),
+			),
+		);
+		expect(children[0]?.height).toBe(4);
+		expect(children[1]?.height).toBe(1);
+	});
+
+	it("spreads wrapped lines with alignContent", () => {
+		const { children } = layoutOf(
+			createElement(
+				Box,
+				{
+					width: 4,
+					height: 6,
+					flexWrap: "wrap",
+					alignContent: "space-between",
+				},
+				createElement(Text, null, "aaa"),
+				createElement(Text, null, "bbb"),
+			),
+		);
+		expect(children[0]?.y).toBe(0);
+		expect(children[1]?.y).toBe(5);
+	});
+
+	it("lays out a grid's children in its template tracks", () => {
+		const { top, children } = layoutOf(
+			createElement(
+				Box,
+				{
+					display: "grid",
+					width: 31,
+					gridTemplateColumns: "10 1fr",
+					columnGap: 1,
+					rowGap: 1,
+				},
+				createElement(Text, null, "a"),
+				createElement(Text, null, "b"),
+				createElement(Box, { gridColumn: "1 / span 2", height: 1 }),
+			),
+		);
+		expect(children[0]).toMatchObject({ x: 0, y: 0, width: 10, height: 1 });
+		expect(children[1]).toMatchObject({ x: 11, y: 0, width: 20, height: 1 });
+		expect(children[2]).toMatchObject({ x: 0, y: 2, width: 31 });
+		expect(top?.height).toBe(3);
+	});
+
+	it("wraps text at the width of its grid cell", () => {
+		const { top, children } = layoutOf(
+			createElement(
+				Box,
+				{ display: "grid", width: 20, gridTemplateColumns: "1fr 1fr" },
+				createElement(Text, null, "aaaa bbbb cccc"),
+				createElement(Text, null, "x"),
+			),
+		);
+		expect(children[0]).toMatchObject({ width: 10, height: 2 });
+		expect(children[1]).toMatchObject({ x: 10, height: 2 });
+		expect(top?.height).toBe(2);
+	});
+
+	it("mirrors computed box sizes onto Dimensions", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ width: 20, flexDirection: "column" },
+				createElement(Box, null, createElement(Text, null, "ab")),
+			),
+			{ columns: 40, rows: 24 },
+		);
+		const { world, rootEid } = instance.container;
+		const rootWidth = Dimensions.width[rootEid];
+		computeLayout(instance.container, 40);
+
+		const [top] = getChildren(world, rootEid);
+		const [inner] = getChildren(world, top);
+		expect(Dimensions.width[inner]).toBe(20);
+		expect(Dimensions.height[inner]).toBe(1);
+		expect(Dimensions.width[rootEid]).toBe(rootWidth);
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// collectTextContent
+// ---------------------------------------------------------------------------
+
+describe("collectTextContent", () => {
+	it("joins nested text in document order", () => {
+		const instance = create(
+			createElement(
+				Text,
+				null,
+				"a",
+				createElement(Text, { bold: true }, "b"),
+				"c",
+			),
+		);
+		const { world, rootEid } = instance.container;
+		const [text] = getChildren(world, rootEid);
+
+		expect(collectTextContent(world, text)).toBe("abc");
+		instance.unmount();
+	});
+});
@@ -9,6 +9,8 @@ describe("AppConfigSchema", () => {
 		expect(config.exitOnCtrlC).toBe(true);
 		expect(config.patchConsole).toBe(true);
 		expect(config.maxFps).toBe(30);
+		expect(config.fullscreen).toBe(false);
+		expect(config.extendedKeys).toBe(false);
 		expect(config.stdin).toBeUndefined();
 		expect(config.stdout).toBeUndefined();
 		expect(config.stderr).toBeUndefined();
@@ -0,0 +1,200 @@
+import { createElement, type ReactNode } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import { Box } from "../components/Box";
+import {
+	calculateColumnWindow,
+	DataGrid,
+	type DataGridColumn,
+	type DataGridProps,
+	DataGridPropsSchema,
+	keepColumnVisible,
+} from "../components/DataGrid";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const plain = (frame: string | undefined): string[] =>
+	stripAnsi(frame ?? "")
+		.split("\n")
+		.map((line) => line.trimEnd());
+
+// SGR inverse marks the focused cell
+const focusedCell = (frame: string | undefined): string | undefined =>
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escapes
+	(frame ?? "").match(/\x1b\[7m([^\x1b]*)/)?.[1]?.trim();
+
+type Entry = { readonly id: number; readonly a: string; readonly b: string };
+
+const makeRows = (count: number): Entry[] =>
+	Array.from({ length: count }, (_, id) => ({
+		id,
+		a: `a${id}`,
+		b: `b${id}`,
+	}));
+
+// id, then a and b alternating across six scrolling columns
+const COLUMNS: readonly DataGridColumn<Entry>[] = [
+	{ key: "id", width: 5, align: "right" },
+	...Array.from({ length: 6 }, (_, index) => ({
+		key: `c${index}`,
+		width: 4,
+		render: (row: Entry) => `${index % 2 === 0 ? row.a : row.b}`,
+	})),
+];
+
+const setup = (props: Partial<DataGridProps<Entry>> = {}) => {
+	const onCellSelect = vi.fn();
+	const Harness = (): ReactNode =>
+		createElement(
+			Box,
+			{ width: 22 },
+			createElement(DataGrid<Entry>, {
+				rows: makeRows(20),
+				columns: COLUMNS,
+				height: 5,
+				autoFocus: true,
+				onCellSelect,
+				...props,
+			}),
+		);
+	return { instance: create(createElement(Harness)), onCellSelect };
+};
+
+const UP = "\x1b[A";
+const DOWN = "\x1b[B";
+const RIGHT = "\x1b[C";
+const LEFT = "\x1b[D";
+const END = "\x1b[F";
+const CTRL_END = "\x1b[1;5F";
+const PAGE_DOWN = "\x1b[6~";
+
+// ---------------------------------------------------------------------------
+// Column windowing
+// ---------------------------------------------------------------------------
+
+describe("calculateColumnWindow", () => {
+	it("takes the columns that fit with gaps between them", () => {
+		expect(calculateColumnWindow([4, 4, 4], 0, 9)).toEqual({
+			startIndex: 0,
+			endIndex: 2,
+		});
+		expect(calculateColumnWindow([4, 4, 4], 1, 20)).toEqual({
+			startIndex: 1,
+			endIndex: 3,
+		});
+	});
+
+	it("always includes the first column", () => {
+		expect(calculateColumnWindow([30, 4], 0, 10)).toEqual({
+			startIndex: 0,
+			endIndex: 1,
+		});
+	});
+});
+
+describe("keepColumnVisible", () => {
+	it("scrolls only as far as needed", () => {
+		expect(keepColumnVisible([4, 4, 4, 4], 0, 1, 9)).toBe(0);
+		expect(keepColumnVisible([4, 4, 4, 4], 0, 3, 9)).toBe(2);
+		expect(keepColumnVisible([4, 4, 4, 4], 2, 1, 9)).toBe(1);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+describe("DataGrid: rendering", () => {
+	it("draws the header, a rule and the rows that fit", () => {
+		const { instance } = setup();
+		// 22 cells: a 5-cell frozen column, " │ ", three 4-cell columns
+		expect(plain(instance.lastFrame())).toEqual([
+			"   id │ c0   c1   c2",
+			"──────┼───────────────",
+			"    0 │ a0   b0   a0",
+			"    1 │ a1   b1   a1",
+			"    2 │ a2   b2   a2",
+		]);
+		instance.unmount();
+	});
+
+	it("keeps the header and first column while scrolling", () => {
+		const { instance } = setup();
+		instance.stdin.write(END);
+		instance.stdin.write(PAGE_DOWN);
+		const lines = plain(instance.lastFrame());
+		expect(lines[0]).toBe("   id │ c3   c4   c5");
+		expect(lines[4]).toBe("    3 │ b3   a3   b3");
+		expect(focusedCell(instance.lastFrame())).toBe("b3");
+		instance.unmount();
+	});
+
+	it("draws only the empty frame without columns", () => {
+		const { instance, onCellSelect } = setup({ columns: [] });
+		expect(plain(instance.lastFrame()).join("")).toBe("");
+		instance.stdin.write("\r");
+		expect(onCellSelect).not.toHaveBeenCalled();
+		instance.unmount();
+	});
+
+	it("accepts empty columns in its props schema", () => {
+		expect(
+			DataGridPropsSchema.safeParse({ rows: [], columns: [], height: 3 })
+				.success,
+		).toBe(true);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Cell focus
+// ---------------------------------------------------------------------------
+
+describe("DataGrid: cell focus", () => {
+	it("moves with the arrow keys and stops at the edges", () => {
+		const { instance } = setup();
+		expect(focusedCell(instance.lastFrame())).toBe("0");
+		instance.stdin.write(RIGHT);
+		instance.stdin.write(DOWN);
+		expect(focusedCell(instance.lastFrame())).toBe("a1");
+		instance.stdin.write(UP);
+		instance.stdin.write(UP);
+		instance.stdin.write(LEFT);
+		instance.stdin.write(LEFT);
+		expect(focusedCell(instance.lastFrame())).toBe("0");
+		instance.unmount();
+	});
+
+	it("selects the focused cell on Enter", () => {
+		const { instance, onCellSelect } = setup();
+		instance.stdin.write(RIGHT);
+		instance.stdin.write(RIGHT);
+		instance.stdin.write(DOWN);
+		instance.stdin.write("\r");
+		expect(onCellSelect).toHaveBeenCalledWith(
+			expect.objectContaining({ rowIndex: 1, columnIndex: 2 }),
+		);
+		expect(onCellSelect.mock.calls[0]?.[0].row.b).toBe("b1");
+		instance.unmount();
+	});
+
+	it("ignores keys when unfocused", () => {
+		const { instance, onCellSelect } = setup({ autoFocus: false });
+		instance.stdin.write(DOWN);
+		instance.stdin.write("\r");
+		expect(onCellSelect).not.toHaveBeenCalled();
+		expect(plain(instance.lastFrame())[2]).toBe("    0 │ a0   b0   a0");
+		instance.unmount();
+	});
+
+	it("renders only the visible window of a large data set", () => {
+		const { instance } = setup({ rows: makeRows(100_000) });
+		instance.stdin.write(CTRL_END);
+		const lines = plain(instance.lastFrame());
+		expect(lines).toHaveLength(5);
+		expect(lines[4]).toBe("99999 │ a... b... a...");
+		instance.unmount();
+	});
+});
@@ -0,0 +1,141 @@
+import { createElement, type ReactNode } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import { Box } from "../components/Box";
+import { Dialog, type DialogProps } from "../components/Dialog";
+import { Text } from "../components/Text";
+import { useFocus } from "../hooks/use-focus";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const plain = (frame: string | undefined): string => stripAnsi(frame ?? "");
+
+// Shows whether it holds focus
+const Field = ({
+	id,
+	autoFocus = false,
+}: {
+	readonly id: string;
+	readonly autoFocus?: boolean;
+}): ReactNode => {
+	const { isFocused } = useFocus({ id, autoFocus });
+	return createElement(Text, null, `${id}:${isFocused ? "focused" : "idle"}`);
+};
+
+const app = (props: Partial<DialogProps> = {}) =>
+	createElement(
+		Box,
+		{ flexDirection: "column" },
+		createElement(Field, { id: "page", autoFocus: true }),
+		createElement(Field, { id: "other" }),
+		createElement(
+			Dialog,
+			{ open: false, title: "Confirm", ...props },
+			createElement(Field, { id: "ok" }),
+			createElement(Field, { id: "cancel" }),
+		),
+	);
+
+const TAB = "\t";
+const SHIFT_TAB = "\x1b[Z";
+const ESCAPE = "\x1b";
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+describe("Dialog: drawing", () => {
+	it("renders nothing while closed", () => {
+		const instance = create(app(), { columns: 30 });
+		expect(plain(instance.lastFrame())).not.toContain("Confirm");
+		instance.unmount();
+	});
+
+	it("draws a bordered panel centered over the content", () => {
+		const instance = create(app({ open: true }), { columns: 30 });
+		const lines = plain(instance.lastFrame()).split("\n");
+		expect(lines).toEqual([
+			"page:id╭─────────────╮",
+			"other:i│ Confirm     │",
+			"       │ ok:focused  │",
+			"       │ cancel:idle │",
+			"       ╰─────────────╯",
+		]);
+		instance.unmount();
+	});
+
+	it("dims the content behind the panel", () => {
+		const instance = create(app({ open: true }), { columns: 30 });
+		expect(instance.lastFrame()).toContain("\x1b[2mp");
+		instance.unmount();
+	});
+
+	it("leaves the background alone without dimBackground", () => {
+		const instance = create(app({ open: true, dimBackground: false }), {
+			columns: 30,
+		});
+		expect(instance.lastFrame()).not.toContain("\x1b[2mp");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Focus
+// ---------------------------------------------------------------------------
+
+describe("Dialog: focus", () => {
+	it("keeps Tab and Shift+Tab inside the dialog", () => {
+		const instance = create(app({ open: true }), { columns: 30 });
+		instance.stdin.write(TAB);
+		expect(plain(instance.lastFrame())).toContain("cancel:focused");
+		instance.stdin.write(TAB);
+		expect(plain(instance.lastFrame())).toContain("ok:focused");
+		instance.stdin.write(SHIFT_TAB);
+		expect(plain(instance.lastFrame())).toContain("cancel:focused");
+		instance.unmount();
+	});
+
+	it("gives focus back to what had it before opening", () => {
+		const instance = create(app(), { columns: 30 });
+		instance.rerender(app({ open: true }));
+		expect(plain(instance.lastFrame())).toContain("ok:focused");
+		instance.rerender(app({ open: false }));
+		const frame = plain(instance.lastFrame());
+		expect(frame).toContain("page:focused");
+		expect(frame).not.toContain("ok:");
+		instance.unmount();
+	});
+
+	it("closes on Escape", () => {
+		const onClose = vi.fn();
+		const instance = create(app({ open: true, onClose }), { columns: 30 });
+		instance.stdin.write(ESCAPE);
+		expect(onClose).toHaveBeenCalledTimes(1);
+		instance.unmount();
+	});
+
+	it("sends Escape to the innermost dialog only", () => {
+		const outer = vi.fn();
+		const inner = vi.fn();
+		const instance = create(
+			createElement(
+				Dialog,
+				{ open: true, onClose: outer },
+				createElement(Field, { id: "outer-field" }),
+				createElement(
+					Dialog,
+					{ open: true, onClose: inner },
+					createElement(Field, { id: "inner-field" }),
+				),
+			),
+			{ columns: 30 },
+		);
+		instance.stdin.write(ESCAPE);
+		expect(inner).toHaveBeenCalledTimes(1);
+		expect(outer).not.toHaveBeenCalled();
+		instance.unmount();
+	});
+});
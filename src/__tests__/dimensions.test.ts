@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import {
+	applyAspectRatio,
 	applyConstraints,
 	applyHeightConstraints,
 	type BoxEdges,
@@ -9,10 +10,14 @@ import {
 	constrainFlexSize,
 	DimensionConstraintsSchema,
 	DimensionValueSchema,
+	isFixedSize,
+	resolveConstraint,
 	resolveDimension,
 	resolveElementDimensions,
 	resolveFlexBasis,
 	resolvePercentage,
+	resolveSize,
+	SizeValueSchema,
 	ZERO_EDGES,
 } from "../layout/dimensions";
 
@@ -310,11 +315,117 @@ describe("constrainFlexSize", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// Content-based sizes
+// ---------------------------------------------------------------------------
+
+describe("resolveSize", () => {
+	const content = { minContent: 8, maxContent: 30 };
+
+	it("accepts the content keywords", () => {
+		expect(SizeValueSchema.safeParse("fit-content").success).toBe(true);
+		expect(SizeValueSchema.safeParse("stretch").success).toBe(false);
+	});
+
+	it("resolves min-content and max-content from the content", () => {
+		expect(resolveSize("min-content", 100, content)).toBe(8);
+		expect(resolveSize("max-content", 100, content)).toBe(30);
+		expect(resolveSize("auto", 100, content)).toBe(30);
+	});
+
+	it("fits fit-content between the content sizes", () => {
+		expect(resolveSize("fit-content", 100, content)).toBe(30);
+		expect(resolveSize("fit-content", 20, content)).toBe(20);
+		expect(resolveSize("fit-content", 4, content)).toBe(8);
+	});
+
+	it("resolves cells and percentages like resolveDimension", () => {
+		expect(resolveSize(12, 100, content)).toBe(12);
+		expect(resolveSize("25%", 100, content)).toBe(25);
+	});
+});
+
+describe("resolveConstraint", () => {
+	it("has no constraint for undefined or auto", () => {
+		expect(resolveConstraint(undefined, 100)).toBeUndefined();
+		expect(resolveConstraint("auto", 100)).toBeUndefined();
+	});
+
+	it("resolves cells and percentages", () => {
+		expect(resolveConstraint(40, 100)).toBe(40);
+		expect(resolveConstraint("50%", 80)).toBe(40);
+	});
+});
+
+describe("applyAspectRatio", () => {
+	const size = { width: 20, height: 3 };
+
+	it("derives the height from a fixed width", () => {
+		expect(applyAspectRatio(size, 2, { width: true, height: false })).toEqual({
+			width: 20,
+			height: 10,
+		});
+	});
+
+	it("derives the width from a fixed height", () => {
+		expect(applyAspectRatio(size, 2, { width: false, height: true })).toEqual({
+			width: 6,
+			height: 3,
+		});
+	});
+
+	it("leaves both fixed sides alone", () => {
+		expect(applyAspectRatio(size, 2, { width: true, height: true })).toBe(size);
+	});
+
+	it("treats only cells and percentages as fixed", () => {
+		expect(isFixedSize(10)).toBe(true);
+		expect(isFixedSize("50%")).toBe(true);
+		expect(isFixedSize("auto")).toBe(false);
+		expect(isFixedSize("fit-content")).toBe(false);
+		expect(isFixedSize(undefined)).toBe(false);
+	});
+});
+
 // ---------------------------------------------------------------------------
 // resolveElementDimensions
 // ---------------------------------------------------------------------------
 
 describe("resolveElementDimensions", () => {
+	it("width: fit-content shrinks to the container above min-content", () => {
+		const resolve = (containerWidth: number) =>
+			resolveElementDimensions(
+				"fit-content",
+				undefined,
+				containerWidth,
+				50,
+				30,
+				2,
+				{},
+				ZERO_EDGES,
+				ZERO_EDGES,
+				6,
+			).width;
+		expect(resolve(100)).toBe(30);
+		expect(resolve(20)).toBe(20);
+		expect(resolve(3)).toBe(6);
+	});
+
+	it("aspectRatio derives the height, then maxHeight caps it", () => {
+		const result = resolveElementDimensions(
+			40,
+			undefined,
+			100,
+			50,
+			0,
+			0,
+			{ aspectRatio: 2, maxHeight: 15 },
+			ZERO_EDGES,
+			ZERO_EDGES,
+		);
+		expect(result).toEqual({ width: 40, height: 15 });
+	});
+
 	it("width: 20 sets exactly 20 columns", () => {
 		const result = resolveElementDimensions(
 			20,
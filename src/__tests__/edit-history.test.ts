@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+	breakRun,
+	type EditHistory,
+	EMPTY_EDIT_HISTORY,
+	recordEdit,
+	redoEdit,
+	undoEdit,
+} from "../text/edit-history";
+import { insertText, type TextEditState } from "../text/edit-text";
+
+// Types each character as its own insert, like keystrokes
+const type = (
+	history: EditHistory,
+	state: TextEditState,
+	text: string,
+): { history: EditHistory; state: TextEditState } => {
+	let current = { history, state };
+	for (const char of text) {
+		const next = insertText(current.state, char);
+		current = {
+			history: recordEdit(current.history, current.state, next, "insert"),
+			state: next,
+		};
+	}
+	return current;
+};
+
+const EMPTY: TextEditState = { value: "", cursor: 0 };
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+describe("edit-history: recording", () => {
+	it("coalesces a typing run into one entry", () => {
+		const { history } = type(EMPTY_EDIT_HISTORY, EMPTY, "hello");
+		expect(history.undo).toEqual([EMPTY]);
+	});
+
+	it("starts a new entry after the run is broken", () => {
+		const first = type(EMPTY_EDIT_HISTORY, EMPTY, "ab");
+		const second = type(breakRun(first.history), first.state, "cd");
+		expect(second.history.undo).toHaveLength(2);
+		expect(second.history.undo[1]?.value).toBe("ab");
+	});
+
+	it("starts a new entry when the edit kind changes", () => {
+		const typed = type(EMPTY_EDIT_HISTORY, EMPTY, "ab");
+		const deleted = { value: "a", cursor: 1 };
+		const history = recordEdit(typed.history, typed.state, deleted, "delete");
+		expect(history.undo).toHaveLength(2);
+	});
+
+	it("never coalesces other edits", () => {
+		const next = insertText(EMPTY, "pasted");
+		let history = recordEdit(EMPTY_EDIT_HISTORY, EMPTY, next, "other");
+		history = recordEdit(history, next, insertText(next, "!"), "other");
+		expect(history.undo).toHaveLength(2);
+	});
+
+	it("drops the oldest entries past the limit", () => {
+		let history = EMPTY_EDIT_HISTORY;
+		let state = EMPTY;
+		for (let i = 0; i < 5; i++) {
+			const next = insertText(state, "x");
+			history = recordEdit(history, state, next, "other", 3);
+			state = next;
+		}
+		expect(history.undo.map((entry) => entry.value)).toEqual([
+			"xx",
+			"xxx",
+			"xxxx",
+		]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Undo / redo
+// ---------------------------------------------------------------------------
+
+describe("edit-history: undo and redo", () => {
+	it("undoes and redoes a run", () => {
+		const typed = type(EMPTY_EDIT_HISTORY, EMPTY, "hi");
+
+		const undone = undoEdit(typed.history, typed.state);
+		expect(undone?.state).toEqual(EMPTY);
+
+		const redone = undone && redoEdit(undone.history, undone.state);
+		expect(redone?.state).toEqual({ value: "hi", cursor: 2 });
+	});
+
+	it("returns undefined with nothing to undo or redo", () => {
+		expect(undoEdit(EMPTY_EDIT_HISTORY, EMPTY)).toBeUndefined();
+		expect(redoEdit(EMPTY_EDIT_HISTORY, EMPTY)).toBeUndefined();
+	});
+
+	it("clears the redo stack on a new edit", () => {
+		const typed = type(EMPTY_EDIT_HISTORY, EMPTY, "a");
+		const undone = undoEdit(typed.history, typed.state);
+		if (!undone) throw new Error("expected an undo step");
+
+		const { history } = type(undone.history, undone.state, "b");
+		expect(history.redo).toEqual([]);
+	});
+
+	it("does not join a run across an undo", () => {
+		const typed = type(EMPTY_EDIT_HISTORY, EMPTY, "ab");
+		const undone = undoEdit(typed.history, typed.state);
+		if (!undone) throw new Error("expected an undo step");
+
+		const retyped = type(undone.history, undone.state, "c");
+		expect(retyped.history.undo).toHaveLength(1);
+		expect(retyped.history.run?.kind).toBe("insert");
+	});
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import {
+	clampCursor,
+	cursorColumn,
+	deleteBackward,
+	deleteForward,
+	deleteToLineEnd,
+	deleteToLineStart,
+	deleteWordBackward,
+	insertText,
+	layoutVisualLines,
+	moveLeft,
+	moveRight,
+	moveToLineEnd,
+	moveToLineStart,
+	moveVisualLine,
+	moveWordLeft,
+	moveWordRight,
+	offsetAtColumn,
+	visualColumn,
+	visualLineIndex,
+} from "../text/edit-text";
+
+const FAMILY = "👨‍👩‍👧";
+
+// ---------------------------------------------------------------------------
+// Cursor movement
+// ---------------------------------------------------------------------------
+
+describe("edit-text: movement", () => {
+	it("moves over a whole grapheme cluster", () => {
+		const value = `a${FAMILY}b`;
+		const state = moveLeft({ value, cursor: 1 + FAMILY.length });
+		expect(state.cursor).toBe(1);
+		expect(moveRight(state).cursor).toBe(1 + FAMILY.length);
+	});
+
+	it("stops at the ends", () => {
+		const state = { value: "ab", cursor: 0 };
+		expect(moveLeft(state)).toBe(state);
+		expect(moveRight({ value: "ab", cursor: 2 }).cursor).toBe(2);
+	});
+
+	it("jumps over words and the whitespace before them", () => {
+		const value = "one  two three";
+		expect(moveWordLeft({ value, cursor: value.length }).cursor).toBe(9);
+		expect(moveWordLeft({ value, cursor: 9 }).cursor).toBe(5);
+		expect(moveWordRight({ value, cursor: 3 }).cursor).toBe(8);
+	});
+
+	it("moves to the start and end of the current line", () => {
+		const value = "first\nsecond";
+		expect(moveToLineStart({ value, cursor: 9 }).cursor).toBe(6);
+		expect(moveToLineEnd({ value, cursor: 2 }).cursor).toBe(5);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Editing
+// ---------------------------------------------------------------------------
+
+describe("edit-text: editing", () => {
+	it("inserts text at the cursor", () => {
+		expect(insertText({ value: "ac", cursor: 1 }, "b")).toEqual({
+			value: "abc",
+			cursor: 2,
+		});
+	});
+
+	it("deletes whole graphemes", () => {
+		const value = `${FAMILY}中`;
+		expect(deleteBackward({ value, cursor: value.length }).value).toBe(FAMILY);
+		expect(deleteForward({ value, cursor: 0 }).value).toBe("中");
+	});
+
+	it("deletes the previous word", () => {
+		expect(deleteWordBackward({ value: "foo bar ", cursor: 8 })).toEqual({
+			value: "foo ",
+			cursor: 4,
+		});
+	});
+
+	it("deletes to the line start and end", () => {
+		const value = "one\ntwo three";
+		expect(deleteToLineStart({ value, cursor: 8 }).value).toBe("one\nthree");
+		expect(deleteToLineEnd({ value, cursor: 7 }).value).toBe("one\ntwo");
+	});
+
+	it("returns the same state when nothing changes", () => {
+		const state = { value: "", cursor: 0 };
+		expect(deleteBackward(state)).toBe(state);
+		expect(deleteToLineEnd(state)).toBe(state);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Columns and clamping
+// ---------------------------------------------------------------------------
+
+describe("edit-text: columns", () => {
+	it("counts wide graphemes as two columns", () => {
+		expect(cursorColumn("a中b", 2)).toBe(3);
+		expect(cursorColumn("x\n中", 3)).toBe(2);
+	});
+
+	it("never lands inside a wide grapheme", () => {
+		expect(offsetAtColumn("中文", 1)).toBe(0);
+		expect(offsetAtColumn("中文", 2)).toBe(1);
+		expect(offsetAtColumn("ab", 10)).toBe(2);
+	});
+
+	it("snaps a cursor onto a grapheme boundary", () => {
+		expect(clampCursor(FAMILY, 3)).toBe(0);
+		expect(clampCursor("abc", 10)).toBe(3);
+		expect(clampCursor("abc", -1)).toBe(0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Visual lines
+// ---------------------------------------------------------------------------
+
+describe("edit-text: visual lines", () => {
+	it("soft-wraps each line and maps rows back to offsets", () => {
+		const rows = layoutVisualLines("hello world\nab", 6);
+		expect(rows.map((row) => row.text)).toEqual(["hello ", "world", "ab"]);
+		expect(rows.map((row) => [row.start, row.end])).toEqual([
+			[0, 6],
+			[6, 11],
+			[12, 14],
+		]);
+	});
+
+	it("leaves lines unwrapped without a width", () => {
+		const rows = layoutVisualLines("hello world", 0);
+		expect(rows).toEqual([{ start: 0, end: 11, text: "hello world" }]);
+	});
+
+	it("gives a cursor after a full row a row of its own", () => {
+		const rows = layoutVisualLines("abc", 3);
+		expect(rows).toHaveLength(2);
+		expect(visualLineIndex(rows, 2)).toBe(0);
+		expect(visualLineIndex(rows, 3)).toBe(1);
+	});
+
+	it("keeps empty lines as rows", () => {
+		const rows = layoutVisualLines("a\n\nb", 10);
+		expect(rows.map((row) => row.text)).toEqual(["a", "", "b"]);
+		expect(visualLineIndex(rows, 2)).toBe(1);
+	});
+
+	it("measures the cursor column within its row", () => {
+		const value = "hello world";
+		const rows = layoutVisualLines(value, 6);
+		expect(visualColumn(value, rows, 8)).toBe(2);
+		expect(visualColumn("中文字", layoutVisualLines("中文字", 4), 3)).toBe(2);
+	});
+
+	it("moves between rows keeping the column", () => {
+		const value = "hello world";
+		const rows = layoutVisualLines(value, 6);
+		const down = moveVisualLine({ value, cursor: 2 }, rows, 1, 2);
+		expect(down.cursor).toBe(8);
+		expect(moveVisualLine(down, rows, -1, 2).cursor).toBe(2);
+	});
+
+	it("stops short of a row that continues without a gap", () => {
+		const value = "abcdef";
+		const rows = layoutVisualLines(value, 3);
+		const up = moveVisualLine({ value, cursor: 6 }, rows, -1, 5);
+		expect(up.cursor).toBe(5);
+		expect(moveVisualLine({ value, cursor: 5 }, rows, -1, 5).cursor).toBe(2);
+	});
+
+	it("goes to the ends past the first and last row", () => {
+		const value = "ab\ncd";
+		const rows = layoutVisualLines(value, 10);
+		expect(moveVisualLine({ value, cursor: 1 }, rows, -1, 1).cursor).toBe(0);
+		expect(moveVisualLine({ value, cursor: 4 }, rows, 1, 1).cursor).toBe(5);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+	isExtendedKeySequence,
+	parseExtendedKey,
+	splitExtendedKeys,
+} from "../input/extended-keys";
+
+// ---------------------------------------------------------------------------
+// parseExtendedKey
+// ---------------------------------------------------------------------------
+
+describe("parseExtendedKey", () => {
+	it("decodes a CSI u report", () => {
+		const event = parseExtendedKey("\x1b[97;6u");
+		expect(event).toMatchObject({
+			name: "a",
+			text: "a",
+			shift: true,
+			ctrl: true,
+			alt: false,
+			eventType: "press",
+		});
+	});
+
+	it("ignores alternate keys and associated text", () => {
+		const event = parseExtendedKey("\x1b[97:65;2;65u");
+		expect(event).toMatchObject({ name: "a", shift: true });
+	});
+
+	it("names functional codepoints", () => {
+		expect(parseExtendedKey("\x1b[9u")?.name).toBe("tab");
+		expect(parseExtendedKey("\x1b[127u")?.name).toBe("backspace");
+		expect(parseExtendedKey("\x1b[32u")?.name).toBe("space");
+	});
+
+	it("leaves private-use keys unnamed", () => {
+		expect(parseExtendedKey("\x1b[57376u")?.name).toBe("");
+	});
+
+	it("decodes tilde and letter keys with event types", () => {
+		expect(parseExtendedKey("\x1b[2;1:2~")).toMatchObject({
+			name: "insert",
+			eventType: "repeat",
+		});
+		expect(parseExtendedKey("\x1b[1;1:3D")).toMatchObject({
+			name: "left",
+			eventType: "release",
+		});
+	});
+
+	it("decodes modifyOtherKeys reports", () => {
+		expect(parseExtendedKey("\x1b[27;3;120~")).toMatchObject({
+			name: "x",
+			alt: true,
+		});
+	});
+
+	it("returns undefined for legacy sequences", () => {
+		expect(parseExtendedKey("\x1b[A")).toBeUndefined();
+		expect(parseExtendedKey("\x1b[1;2A")).toBeUndefined();
+		expect(isExtendedKeySequence("a")).toBe(false);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// splitExtendedKeys
+// ---------------------------------------------------------------------------
+
+describe("splitExtendedKeys", () => {
+	it("passes legacy input through untouched", () => {
+		expect(splitExtendedKeys("ab\x1b[A")).toEqual([
+			{ type: "legacy", data: "ab\x1b[A" },
+		]);
+	});
+
+	it("splits extended reports out in order", () => {
+		const tokens = splitExtendedKeys("x\x1b[13;5uy\x1b[27;5;9~");
+		expect(tokens.map((token) => token.type)).toEqual([
+			"legacy",
+			"key",
+			"legacy",
+			"key",
+		]);
+		expect(tokens[3]).toMatchObject({
+			type: "key",
+			event: { name: "tab", ctrl: true },
+		});
+	});
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
 	calculateFlexLayout,
+	calculateLineBaseline,
 	calculateLineCrossSize,
 	createFlexLines,
 	type FlexContainer,
@@ -11,6 +12,7 @@ import {
 	getMainGap,
 	isReversedDirection,
 	isRowDirection,
+	measureLinesCrossSize,
 	positionItemOnCrossAxis,
 	positionLinesOnCrossAxis,
 	positionOnMainAxis,
@@ -275,6 +277,31 @@ describe("resolveFlexSizes", () => {
 		expect(resolved[0].mainSize).toBe(45);
 		expect(resolved[1].mainSize).toBe(45);
 	});
+
+	it("freezes an item at its max size and grows the rest", () => {
+		const items = [
+			makeItem(1, 10, 10, { flexGrow: 1, maxMainSize: 20 }),
+			makeItem(2, 10, 10, { flexGrow: 1 }),
+		];
+		const resolved = resolveFlexSizes(items, 100, 0);
+		expect(resolved[0].mainSize).toBe(20);
+		expect(resolved[1].mainSize).toBe(80);
+	});
+
+	it("freezes an item at its min size and shrinks the rest", () => {
+		const items = [
+			makeItem(1, 60, 10, { minMainSize: 55 }),
+			makeItem(2, 60, 10),
+		];
+		const resolved = resolveFlexSizes(items, 100, 0);
+		expect(resolved[0].mainSize).toBe(55);
+		expect(resolved[1].mainSize).toBe(45);
+	});
+
+	it("caps a base size over its max without flexing", () => {
+		const items = [makeItem(1, 50, 10, { maxMainSize: 30 })];
+		expect(resolveFlexSizes(items, 100, 0)[0].mainSize).toBe(30);
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -376,6 +403,16 @@ describe("calculateLineCrossSize", () => {
 		];
 		expect(calculateLineCrossSize(items)).toBe(15);
 	});
+
+	it("makes room for items shifted down to a shared baseline", () => {
+		const items = [
+			{ eid: 1, mainSize: 10, crossSize: 3, alignSelf: undefined, baseline: 2 },
+			{ eid: 2, mainSize: 10, crossSize: 4, alignSelf: undefined, baseline: 0 },
+		];
+		expect(calculateLineBaseline(items, "baseline")).toBe(2);
+		expect(calculateLineCrossSize(items, "baseline")).toBe(6);
+		expect(calculateLineCrossSize(items, "flex-start")).toBe(4);
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -393,6 +430,39 @@ describe("positionLinesOnCrossAxis", () => {
 		// Normal: [0, 12], reversed: [50-0-10, 50-12-8] = [40, 30]
 		expect(offsets).toEqual([40, 30]);
 	});
+
+	it.each([
+		["flex-start", [0, 12]],
+		["flex-end", [30, 42]],
+		["center", [15, 27]],
+		["space-between", [0, 42]],
+		["space-around", [7.5, 34.5]],
+		["space-evenly", [10, 32]],
+	] as const)("alignContent %s", (alignContent, expected) => {
+		const offsets = positionLinesOnCrossAxis(
+			[10, 8],
+			50,
+			2,
+			"wrap",
+			alignContent,
+		);
+		expect(offsets).toEqual(expected);
+	});
+
+	it("alignContent flex-end with wrap-reverse packs at the start", () => {
+		const offsets = positionLinesOnCrossAxis(
+			[10, 8],
+			50,
+			2,
+			"wrap-reverse",
+			"flex-end",
+		);
+		expect(offsets).toEqual([10, 0]);
+	});
+
+	it("returns no offsets without lines", () => {
+		expect(positionLinesOnCrossAxis([], 50, 2, "wrap", "center")).toEqual([]);
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -402,7 +472,7 @@ describe("positionLinesOnCrossAxis", () => {
 describe("positionItemOnCrossAxis", () => {
 	const item = (
 		crossSize: number,
-		alignSelf?: "auto" | "flex-start" | "center" | "flex-end",
+		alignSelf?: "auto" | "flex-start" | "center" | "flex-end" | "stretch",
 	) => ({
 		eid: 1,
 		mainSize: 10,
@@ -434,6 +504,16 @@ describe("positionItemOnCrossAxis", () => {
 		expect(result.size).toBe(20);
 	});
 
+	it("stretch stops at maxCrossSize", () => {
+		const result = positionItemOnCrossAxis(
+			{ ...item(5), maxCrossSize: 12 },
+			20,
+			"stretch",
+		);
+		expect(result.pos).toBe(0);
+		expect(result.size).toBe(12);
+	});
+
 	it("alignSelf overrides alignItems", () => {
 		const result = positionItemOnCrossAxis(
 			item(5, "flex-end"),
@@ -447,6 +527,25 @@ describe("positionItemOnCrossAxis", () => {
 		const result = positionItemOnCrossAxis(item(5, "auto"), 20, "flex-end");
 		expect(result.pos).toBe(15);
 	});
+
+	it("alignSelf stretch fills the line", () => {
+		const result = positionItemOnCrossAxis(
+			item(5, "stretch"),
+			20,
+			"flex-start",
+		);
+		expect(result.size).toBe(20);
+	});
+
+	it("baseline moves the item's baseline onto the line's", () => {
+		const result = positionItemOnCrossAxis(
+			{ ...item(5), baseline: 1 },
+			20,
+			"baseline",
+			3,
+		);
+		expect(result).toEqual({ pos: 2, size: 5 });
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -715,6 +814,114 @@ describe("calculateFlexLayout: alignSelf", () => {
 		// auto => use flex-end: pos = 10-5 = 5
 		expect(result.get(1)?.y).toBe(5);
 	});
+
+	it("alignSelf stretch fills the line when alignItems does not", () => {
+		const result = calculateFlexLayout(
+			makeContainer({ alignItems: "center" }),
+			[makeItem(1, 20, 5, { alignSelf: "stretch" }), makeItem(2, 20, 10)],
+		);
+		expect(result.get(1)).toMatchObject({ y: 0, height: 10 });
+	});
+
+	it("alignSelf baseline joins the line's baseline", () => {
+		const result = calculateFlexLayout(
+			makeContainer({ alignItems: "flex-start" }),
+			[
+				makeItem(1, 20, 1, { alignSelf: "baseline" }),
+				makeItem(2, 20, 3, { alignSelf: "baseline", baseline: 1 }),
+				makeItem(3, 20, 2),
+			],
+		);
+		expect(result.get(1)?.y).toBe(1);
+		expect(result.get(2)?.y).toBe(0);
+		expect(result.get(3)?.y).toBe(0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// calculateFlexLayout: baseline
+// ---------------------------------------------------------------------------
+
+describe("calculateFlexLayout: baseline", () => {
+	it("lines up the first line of text across a row", () => {
+		// A bordered box has its text a row down; plain text moves to meet it
+		const result = calculateFlexLayout(
+			makeContainer({ alignItems: "baseline" }),
+			[
+				makeItem(1, 10, 1, { baseline: 0 }),
+				makeItem(2, 10, 3, { baseline: 1 }),
+				makeItem(3, 10, 2, { baseline: 0 }),
+			],
+		);
+		expect(result.get(1)).toMatchObject({ y: 1, height: 1 });
+		expect(result.get(2)).toMatchObject({ y: 0, height: 3 });
+		expect(result.get(3)).toMatchObject({ y: 1, height: 2 });
+	});
+
+	it("grows the line to fit items pushed down", () => {
+		const container = makeContainer({ alignItems: "baseline" });
+		const items = [
+			makeItem(1, 10, 3, { baseline: 2 }),
+			makeItem(2, 10, 3, { baseline: 0 }),
+		];
+		expect(measureLinesCrossSize(container, items)).toBe(5);
+		expect(calculateFlexLayout(container, items).get(2)?.y).toBe(2);
+	});
+
+	it("falls back to flex-start in a column", () => {
+		const result = calculateFlexLayout(
+			makeContainer({ flexDirection: "column", alignItems: "baseline" }),
+			[makeItem(1, 1, 10, { baseline: 2 }), makeItem(2, 1, 5)],
+		);
+		expect(result.get(1)?.x).toBe(0);
+		expect(result.get(2)?.x).toBe(0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// calculateFlexLayout: alignContent
+// ---------------------------------------------------------------------------
+
+describe("calculateFlexLayout: alignContent", () => {
+	// Three 10-wide items wrap into lines of heights 4, 2 and 3
+	const wrapped = (overrides?: Partial<FlexContainer>) =>
+		calculateFlexLayout(
+			makeContainer({
+				mainSize: 10,
+				crossSize: 15,
+				flexWrap: "wrap",
+				...overrides,
+			}),
+			[makeItem(1, 10, 4), makeItem(2, 10, 2), makeItem(3, 10, 3)],
+		);
+	const ys = (result: ReadonlyMap<number, { y: number }>) =>
+		[1, 2, 3].map((eid) => result.get(eid)?.y);
+
+	it("packs lines at the start by default", () => {
+		expect(ys(wrapped())).toEqual([0, 4, 6]);
+	});
+
+	it("distributes the free space between lines", () => {
+		expect(ys(wrapped({ alignContent: "flex-end" }))).toEqual([6, 10, 12]);
+		expect(ys(wrapped({ alignContent: "center" }))).toEqual([3, 7, 9]);
+		expect(ys(wrapped({ alignContent: "space-between" }))).toEqual([0, 7, 12]);
+		expect(ys(wrapped({ alignContent: "space-around" }))).toEqual([1, 7, 11]);
+		expect(ys(wrapped({ alignContent: "space-evenly" }))).toEqual([1, 7, 10]);
+	});
+
+	it("stretch grows the lines and the items stretched across them", () => {
+		const result = wrapped({ alignContent: "stretch", alignItems: "stretch" });
+		expect(ys(result)).toEqual([0, 6, 10]);
+		expect([1, 2, 3].map((eid) => result.get(eid)?.height)).toEqual([6, 4, 5]);
+	});
+
+	it("has no effect on a single-line container", () => {
+		const result = calculateFlexLayout(
+			makeContainer({ crossSize: 20, alignContent: "flex-end" }),
+			[makeItem(1, 10, 4)],
+		);
+		expect(result.get(1)?.y).toBe(0);
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -830,6 +1037,58 @@ describe("calculateFlexLayout: nested containers", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// calculateFlexLayout: re-measuring cross sizes
+// ---------------------------------------------------------------------------
+
+// Stands in for text 40 cells long, wrapped to whatever width it gets
+const wrappedHeight = (_eid: number, mainSize: number) =>
+	Math.ceil(40 / mainSize);
+
+describe("calculateFlexLayout: measureCrossSize", () => {
+	it("measures cross sizes at the resolved main sizes", () => {
+		const layout = calculateFlexLayout(
+			makeContainer({ mainSize: 30 }),
+			[makeItem(1, 40, 1), makeItem(2, 10, 1, { flexShrink: 0 })],
+			wrappedHeight,
+		);
+		expect(layout.get(1)).toEqual({ x: 0, y: 0, width: 20, height: 2 });
+		expect(layout.get(2)).toEqual({ x: 20, y: 0, width: 10, height: 4 });
+	});
+
+	it("sizes each line to its tallest re-measured item", () => {
+		const layout = calculateFlexLayout(
+			makeContainer({ mainSize: 20, flexWrap: "wrap" }),
+			[makeItem(1, 20, 1), makeItem(2, 10, 1)],
+			wrappedHeight,
+		);
+		expect(layout.get(2)).toMatchObject({ y: 2, height: 4 });
+	});
+});
+
+describe("measureLinesCrossSize", () => {
+	it("adds up the lines and the gaps between them", () => {
+		const container = makeContainer({
+			mainSize: 20,
+			flexWrap: "wrap",
+			rowGap: 1,
+		});
+		const items = [makeItem(1, 20, 3), makeItem(2, 10, 2), makeItem(3, 5, 4)];
+		expect(measureLinesCrossSize(container, items)).toBe(8);
+		expect(measureLinesCrossSize(container, items, wrappedHeight)).toBe(11);
+	});
+
+	it("skips hidden and absolute items", () => {
+		const items = [
+			makeItem(1, 10, 3),
+			makeItem(2, 10, 9, { hidden: true }),
+			makeItem(3, 10, 9, { absolute: true }),
+		];
+		expect(measureLinesCrossSize(makeContainer(), items)).toBe(3);
+		expect(measureLinesCrossSize(makeContainer(), [])).toBe(0);
+	});
+});
+
 // ---------------------------------------------------------------------------
 // calculateFlexLayout: edge cases
 // ---------------------------------------------------------------------------
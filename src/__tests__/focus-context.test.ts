@@ -307,6 +307,113 @@ describe("focusReducer - FOCUS", () => {
 	});
 });
 
+describe("focusReducer - FOCUS_SCOPE", () => {
+	const register = (
+		state: FocusState,
+		id: string,
+		scopes?: string[],
+		isActive = true,
+	): FocusState =>
+		focusReducer(state, {
+			type: "REGISTER",
+			id,
+			options: { autoFocus: false, isActive, scopes },
+		});
+
+	it("focuses the first active entry inside the scope", () => {
+		let state = register(INITIAL_FOCUS_STATE, "outside");
+		state = register(state, "hidden", ["panel"], false);
+		state = register(state, "first", ["tabs", "panel"]);
+		state = register(state, "second", ["panel"]);
+		state = focusReducer(state, { type: "FOCUS_SCOPE", scope: "panel" });
+		expect(state.focusedId).toBe("first");
+	});
+
+	it("keeps focus when the scope has no active entries", () => {
+		let state = register(INITIAL_FOCUS_STATE, "a");
+		state = focusReducer(state, { type: "FOCUS", id: "a" });
+		state = focusReducer(state, { type: "FOCUS_SCOPE", scope: "empty" });
+		expect(state.focusedId).toBe("a");
+	});
+});
+
+describe("focusReducer - TRAP / RELEASE", () => {
+	const register = (
+		state: FocusState,
+		id: string,
+		scopes?: string[],
+	): FocusState =>
+		focusReducer(state, {
+			type: "REGISTER",
+			id,
+			options: { autoFocus: false, isActive: true, scopes },
+		});
+
+	const withDialog = (): FocusState => {
+		let state = register(INITIAL_FOCUS_STATE, "page");
+		state = register(state, "ok", ["dialog"]);
+		state = register(state, "cancel", ["dialog"]);
+		return focusReducer(state, { type: "FOCUS", id: "page" });
+	};
+
+	it("moves focus into the trap", () => {
+		const state = focusReducer(withDialog(), { type: "TRAP", scope: "dialog" });
+		expect(state.traps).toEqual(["dialog"]);
+		expect(state.focusedId).toBe("ok");
+	});
+
+	it("blurs when the trap has nothing to focus", () => {
+		const state = focusReducer(withDialog(), { type: "TRAP", scope: "empty" });
+		expect(state.focusedId).toBeUndefined();
+	});
+
+	it("cycles Tab and Shift+Tab within the trap", () => {
+		let state = focusReducer(withDialog(), { type: "TRAP", scope: "dialog" });
+		state = focusReducer(state, { type: "FOCUS_NEXT" });
+		expect(state.focusedId).toBe("cancel");
+		state = focusReducer(state, { type: "FOCUS_NEXT" });
+		expect(state.focusedId).toBe("ok");
+		state = focusReducer(state, { type: "FOCUS_PREVIOUS" });
+		expect(state.focusedId).toBe("cancel");
+	});
+
+	it("ignores focus requests outside the trap", () => {
+		let state = focusReducer(withDialog(), { type: "TRAP", scope: "dialog" });
+		state = focusReducer(state, { type: "FOCUS", id: "page" });
+		expect(state.focusedId).toBe("ok");
+	});
+
+	it("traps in the innermost scope and restores the outer one", () => {
+		let state = register(withDialog(), "nested", ["dialog", "confirm"]);
+		state = focusReducer(state, { type: "TRAP", scope: "dialog" });
+		state = focusReducer(state, { type: "TRAP", scope: "confirm" });
+		expect(state.focusedId).toBe("nested");
+		state = focusReducer(state, { type: "FOCUS_NEXT" });
+		expect(state.focusedId).toBe("nested");
+
+		state = focusReducer(state, { type: "RELEASE", scope: "confirm" });
+		expect(state.traps).toEqual(["dialog"]);
+		state = focusReducer(state, { type: "FOCUS_NEXT" });
+		expect(state.focusedId).toBe("ok");
+	});
+
+	it("keeps a nested trap innermost when the outer one is set last", () => {
+		let state = register(withDialog(), "nested", ["dialog", "confirm"]);
+		state = focusReducer(state, { type: "TRAP", scope: "confirm" });
+		state = focusReducer(state, { type: "TRAP", scope: "dialog" });
+		expect(state.traps).toEqual(["dialog", "confirm"]);
+		expect(state.focusedId).toBe("nested");
+	});
+
+	it("allows focus anywhere once released", () => {
+		let state = focusReducer(withDialog(), { type: "TRAP", scope: "dialog" });
+		state = focusReducer(state, { type: "RELEASE", scope: "dialog" });
+		state = focusReducer(state, { type: "FOCUS", id: "page" });
+		expect(state.traps).toEqual([]);
+		expect(state.focusedId).toBe("page");
+	});
+});
+
 // ---------------------------------------------------------------------------
 // focusReducer - FOCUS_NEXT / FOCUS_PREVIOUS
 // ---------------------------------------------------------------------------
@@ -0,0 +1,96 @@
+import { createElement } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { Text } from "../components/Text";
+import { type FocusState, INITIAL_FOCUS_STATE } from "../focus/focus-context";
+import { createFocusManager } from "../focus/focus-provider";
+import { useFocus } from "../hooks/use-focus";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// createFocusManager
+// ---------------------------------------------------------------------------
+
+describe("createFocusManager", () => {
+	it("dispatches focus actions", () => {
+		const dispatch = vi.fn();
+		const manager = createFocusManager(() => INITIAL_FOCUS_STATE, dispatch);
+
+		manager.register("a", { autoFocus: true });
+		manager.focusNext();
+		manager.focus("a");
+
+		expect(dispatch.mock.calls.map(([action]) => action.type)).toEqual([
+			"REGISTER",
+			"FOCUS_NEXT",
+			"FOCUS",
+		]);
+		expect(dispatch.mock.calls[0][0].options).toEqual({
+			autoFocus: true,
+			isActive: true,
+		});
+	});
+
+	it("reads the latest state", () => {
+		let state: FocusState = INITIAL_FOCUS_STATE;
+		const manager = createFocusManager(() => state, vi.fn());
+
+		state = {
+			entries: [{ id: "a", isActive: true }],
+			focusedId: "a",
+			enabled: true,
+			traps: [],
+		};
+
+		expect(manager.getFocusedId()).toBe("a");
+		expect(manager.getOrderedList()).toEqual(["a"]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// FocusProvider (installed by create())
+// ---------------------------------------------------------------------------
+
+const Item = ({ label, autoFocus }: { label: string; autoFocus?: boolean }) => {
+	const { isFocused } = useFocus({ autoFocus });
+	return createElement(Text, null, `${label}${isFocused ? "*" : ""}`);
+};
+
+const renderItems = (autoFocus = false) =>
+	create(
+		createElement(
+			"blecsdui-box",
+			{ flexDirection: "column" },
+			createElement(Item, { key: "a", label: "a", autoFocus }),
+			createElement(Item, { key: "b", label: "b" }),
+		),
+	);
+
+describe("FocusProvider", () => {
+	it("focuses an autoFocus component", () => {
+		const instance = renderItems(true);
+		expect(instance.lastFrame()).toContain("a*");
+		instance.unmount();
+	});
+
+	it("cycles focus with Tab and Shift+Tab", () => {
+		const instance = renderItems();
+		expect(instance.lastFrame()).not.toContain("*");
+
+		instance.stdin.write("\t");
+		expect(instance.lastFrame()).toContain("a*");
+
+		instance.stdin.write("\t");
+		expect(instance.lastFrame()).toContain("b*");
+
+		instance.stdin.write("\x1b[Z");
+		expect(instance.lastFrame()).toContain("a*");
+		instance.unmount();
+	});
+
+	it("blurs with Escape", () => {
+		const instance = renderItems(true);
+		instance.stdin.write("\x1b");
+		expect(instance.lastFrame()).not.toContain("*");
+		instance.unmount();
+	});
+});
@@ -0,0 +1,262 @@
+import { describe, expect, it } from "vitest";
+import {
+	calculateGridLayout,
+	type GridContainer,
+	type GridItem,
+	measureGrid,
+	parseGridPlacement,
+	parseGridTemplate,
+	placeGridItems,
+	resolveTrackSizes,
+} from "../layout/grid";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const item = (eid: number, overrides: Partial<GridItem> = {}): GridItem => ({
+	eid,
+	column: { start: undefined, span: 1 },
+	row: { start: undefined, span: 1 },
+	width: 0,
+	height: 1,
+	minWidth: 0,
+	hasWidth: false,
+	hasHeight: false,
+	hidden: false,
+	absolute: false,
+	...overrides,
+});
+
+const container = (overrides: Partial<GridContainer> = {}): GridContainer => ({
+	columns: [],
+	rows: [],
+	gap: { columnGap: 0, rowGap: 0 },
+	...overrides,
+});
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+describe("parseGridTemplate", () => {
+	it("reads sizes, fractions and auto from a string", () => {
+		expect(parseGridTemplate("10 1fr auto 2.5fr")).toEqual([
+			{ kind: "fixed", size: 10 },
+			{ kind: "fr", fr: 1 },
+			{ kind: "auto" },
+			{ kind: "fr", fr: 2.5 },
+		]);
+	});
+
+	it("reads an array of tracks", () => {
+		expect(parseGridTemplate([4, "1fr"])).toEqual([
+			{ kind: "fixed", size: 4 },
+			{ kind: "fr", fr: 1 },
+		]);
+	});
+
+	it("has no tracks when unset", () => {
+		expect(parseGridTemplate(undefined)).toEqual([]);
+	});
+});
+
+describe("parseGridPlacement", () => {
+	it("reads a line", () => {
+		expect(parseGridPlacement(2)).toEqual({ start: 2, span: 1 });
+		expect(parseGridPlacement("3")).toEqual({ start: 3, span: 1 });
+	});
+
+	it("reads a span to auto-place", () => {
+		expect(parseGridPlacement("span 2")).toEqual({
+			start: undefined,
+			span: 2,
+		});
+	});
+
+	it("reads start and end lines", () => {
+		expect(parseGridPlacement("1 / 3")).toEqual({ start: 1, span: 2 });
+		expect(parseGridPlacement("2 / span 3")).toEqual({ start: 2, span: 3 });
+		expect(parseGridPlacement("span 2 / 4")).toEqual({ start: 2, span: 2 });
+	});
+
+	it("auto-places when unset", () => {
+		expect(parseGridPlacement(undefined)).toEqual({
+			start: undefined,
+			span: 1,
+		});
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Placement
+// ---------------------------------------------------------------------------
+
+describe("placeGridItems", () => {
+	it("fills the cells row by row", () => {
+		const areas = placeGridItems([item(1), item(2), item(3)], 2);
+		expect(areas.map(({ column, row }) => [column, row])).toEqual([
+			[0, 0],
+			[1, 0],
+			[0, 1],
+		]);
+	});
+
+	it("moves an item that does not fit to the next row", () => {
+		const areas = placeGridItems(
+			[item(1), item(2, { column: { start: undefined, span: 2 } })],
+			2,
+		);
+		expect(areas[1]).toMatchObject({ column: 0, row: 1, columnSpan: 2 });
+	});
+
+	it("keeps explicitly placed items and flows the rest around them", () => {
+		const areas = placeGridItems(
+			[
+				item(1),
+				item(2, { column: { start: 1, span: 1 }, row: { start: 1, span: 1 } }),
+			],
+			2,
+		);
+		expect(areas[1]).toMatchObject({ column: 0, row: 0 });
+		expect(areas[0]).toMatchObject({ column: 1, row: 0 });
+	});
+
+	it("adds columns for items placed past the template", () => {
+		const areas = placeGridItems(
+			[item(1, { column: { start: 3, span: 1 } })],
+			1,
+		);
+		expect(areas[0]).toMatchObject({ column: 2, row: 0 });
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Track sizing
+// ---------------------------------------------------------------------------
+
+describe("resolveTrackSizes", () => {
+	it("shares the free space between fr tracks by fraction", () => {
+		expect(
+			resolveTrackSizes(parseGridTemplate("10 1fr 2fr"), 40, 0, []),
+		).toEqual([10, 10, 20]);
+	});
+
+	it("takes the gaps out of the free space", () => {
+		expect(resolveTrackSizes(parseGridTemplate("1fr 1fr"), 21, 1, [])).toEqual([
+			10, 10,
+		]);
+	});
+
+	it("keeps an fr track at least as wide as its content", () => {
+		expect(
+			resolveTrackSizes(parseGridTemplate("1fr 1fr"), 20, 0, [
+				{ start: 0, span: 1, size: 15 },
+			]),
+		).toEqual([15, 5]);
+	});
+
+	it("lets an fr track shrink content to its minimum size", () => {
+		expect(
+			resolveTrackSizes(parseGridTemplate("1fr 1fr"), 20, 0, [
+				{ start: 0, span: 1, size: 15, minSize: 4 },
+				{ start: 1, span: 1, size: 12, minSize: 12 },
+			]),
+		).toEqual([8, 12]);
+	});
+
+	it("fits auto tracks to their content and lets them share the rest", () => {
+		expect(
+			resolveTrackSizes(parseGridTemplate("auto auto"), 20, 0, [
+				{ start: 0, span: 1, size: 4 },
+				{ start: 1, span: 1, size: 6 },
+			]),
+		).toEqual([9, 11]);
+	});
+
+	it("keeps fr tracks in proportion without a definite size", () => {
+		expect(
+			resolveTrackSizes(parseGridTemplate("1fr 2fr"), undefined, 0, [
+				{ start: 0, span: 1, size: 5 },
+			]),
+		).toEqual([5, 10]);
+	});
+
+	it("grows the tracks an item spans to fit it", () => {
+		expect(
+			resolveTrackSizes(parseGridTemplate("auto auto"), undefined, 1, [
+				{ start: 0, span: 2, size: 9 },
+			]),
+		).toEqual([4, 4]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+describe("calculateGridLayout", () => {
+	it("stretches items over their areas", () => {
+		const layouts = calculateGridLayout(
+			container({
+				width: 21,
+				columns: parseGridTemplate("1fr 1fr"),
+				gap: { columnGap: 1, rowGap: 1 },
+			}),
+			[item(1), item(2), item(3, { height: 2 })],
+		);
+		expect(layouts.get(1)).toEqual({ x: 0, y: 0, width: 10, height: 1 });
+		expect(layouts.get(2)).toEqual({ x: 11, y: 0, width: 10, height: 1 });
+		expect(layouts.get(3)).toEqual({ x: 0, y: 2, width: 10, height: 2 });
+	});
+
+	it("keeps the size of items that set one", () => {
+		const layouts = calculateGridLayout(
+			container({ width: 20, columns: parseGridTemplate("1fr") }),
+			[item(1, { width: 5, hasWidth: true })],
+		);
+		expect(layouts.get(1)).toMatchObject({ width: 5, height: 1 });
+	});
+
+	it("measures heights at the width of the area", () => {
+		const layouts = calculateGridLayout(
+			container({ width: 10, columns: parseGridTemplate("1fr 1fr") }),
+			[item(1, { width: 8 }), item(2)],
+			(eid, width) => (eid === 1 ? Math.ceil(8 / width) : 1),
+		);
+		expect(layouts.get(1)).toMatchObject({ width: 5, height: 2 });
+		expect(layouts.get(2)).toMatchObject({ x: 5, height: 2 });
+	});
+
+	it("skips hidden items and puts absolute ones at the origin", () => {
+		const layouts = calculateGridLayout(
+			container({ width: 10, columns: parseGridTemplate("1fr 1fr") }),
+			[
+				item(1, { hidden: true }),
+				item(2, { absolute: true, width: 3, height: 2 }),
+				item(3),
+			],
+		);
+		expect(layouts.has(1)).toBe(false);
+		expect(layouts.get(2)).toEqual({ x: 0, y: 0, width: 3, height: 2 });
+		expect(layouts.get(3)).toMatchObject({ x: 0, y: 0 });
+	});
+});
+
+describe("measureGrid", () => {
+	it("adds up the tracks and gaps", () => {
+		expect(
+			measureGrid(
+				container({
+					columns: parseGridTemplate("3 auto"),
+					gap: { columnGap: 2, rowGap: 1 },
+				}),
+				[item(1, { width: 2 }), item(2, { width: 6 }), item(3)],
+			),
+		).toEqual({ width: 11, height: 3 });
+	});
+
+	it("has no height without items", () => {
+		expect(measureGrid(container(), [])).toEqual({ width: 0, height: 0 });
+	});
+});
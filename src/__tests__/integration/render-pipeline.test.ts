@@ -13,9 +13,8 @@ import { create } from "../../testing/index";
 // Render pipeline integration tests
 //
 // These tests verify that JSX components go through the reconciler and
-// produce correct ECS entity structures. When the full render pipeline
-// is connected (layout + rendering → terminal output), lastFrame() tests
-// can be added for verifying actual terminal output.
+// produce correct ECS entity structures, and that layout + rendering turn
+// them into the terminal output captured by lastFrame().
 // ---------------------------------------------------------------------------
 
 describe("render pipeline: basic rendering", () => {
@@ -346,3 +345,141 @@ describe("render pipeline: stdout.write integration", () => {
 		instance.unmount();
 	});
 });
+
+describe("render pipeline: terminal output", () => {
+	it("renders plain text", () => {
+		const instance = create(createElement(Text, null, "Hello"));
+		expect(instance.lastFrame()).toBe("Hello");
+		instance.unmount();
+	});
+
+	it("lays out a Box row side by side", () => {
+		const instance = create(
+			createElement(
+				Box,
+				null,
+				createElement(Text, null, "A"),
+				createElement(Text, null, "B"),
+			),
+		);
+		expect(instance.lastFrame()).toBe("AB");
+		instance.unmount();
+	});
+
+	it("stacks a column Box vertically", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ flexDirection: "column" },
+				createElement(Text, null, "one"),
+				createElement(Text, null, "two"),
+			),
+		);
+		expect(instance.lastFrame()).toBe("one\ntwo");
+		instance.unmount();
+	});
+
+	it("applies padding and gap", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ paddingLeft: 2, gap: 1 },
+				createElement(Text, null, "a"),
+				createElement(Text, null, "b"),
+			),
+		);
+		expect(instance.lastFrame()).toBe("  a b");
+		instance.unmount();
+	});
+
+	it("pushes content apart with Spacer", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ width: 10 },
+				createElement(Text, null, "L"),
+				createElement(Spacer),
+				createElement(Text, null, "R"),
+			),
+		);
+		expect(instance.lastFrame()).toBe("L        R");
+		instance.unmount();
+	});
+
+	it("draws a border around its content", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ borderStyle: "single", width: 6 },
+				createElement(Text, null, "hi"),
+			),
+		);
+		expect(instance.lastFrame()).toBe("┌────┐\n│hi  │\n└────┘");
+		instance.unmount();
+	});
+
+	it("truncates text to the available width", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ width: 6 },
+				createElement(Text, { wrap: "truncate" }, "abcdefghij"),
+			),
+		);
+		expect(instance.lastFrame()).toBe("abc...");
+		instance.unmount();
+	});
+
+	it("wraps text to the width a row leaves it and moves siblings down", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ flexDirection: "column", width: 12 },
+				createElement(
+					Box,
+					null,
+					createElement(Box, { width: 3, flexShrink: 0 }),
+					createElement(Text, null, "one two three four"),
+				),
+				createElement(Text, null, "after"),
+			),
+		);
+		expect(instance.lastFrame()).toBe("   one two\n   three\n   four\nafter");
+		instance.unmount();
+	});
+
+	it("keeps nested text styles", () => {
+		const instance = create(
+			createElement(
+				Text,
+				null,
+				"plain ",
+				createElement(Text, { bold: true }, "bold"),
+			),
+		);
+		const frame = instance.lastFrame() ?? "";
+		expect(frame).toContain("plain ");
+		expect(frame).toContain("\x1b[1mbold");
+		instance.unmount();
+	});
+
+	it("updates the frame when text changes", () => {
+		const instance = create(createElement(Text, null, "before"));
+		instance.rerender(createElement(Text, null, "after"));
+		expect(instance.lastFrame()).toBe("after");
+		instance.unmount();
+	});
+
+	it("skips display none boxes", () => {
+		const instance = create(
+			createElement(
+				Box,
+				{ flexDirection: "column" },
+				createElement(Box, { display: "none" }, createElement(Text, null, "x")),
+				createElement(Text, null, "shown"),
+			),
+		);
+		expect(instance.lastFrame()).toBe("shown");
+		instance.unmount();
+	});
+});
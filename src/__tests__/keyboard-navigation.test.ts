@@ -77,6 +77,9 @@ const createTestManager = (): {
 		focusNext: () => dispatch({ type: "FOCUS_NEXT" }),
 		focusPrevious: () => dispatch({ type: "FOCUS_PREVIOUS" }),
 		focus: (id) => dispatch({ type: "FOCUS", id }),
+		focusScope: (scope) => dispatch({ type: "FOCUS_SCOPE", scope }),
+		trapFocus: (scope) => dispatch({ type: "TRAP", scope }),
+		releaseFocus: (scope) => dispatch({ type: "RELEASE", scope }),
 	};
 
 	return { manager, getState: () => state };
@@ -7,6 +7,7 @@ import {
 	MeasureCacheConfigSchema,
 	type MeasureResult,
 	MeasureResultSchema,
+	measureMinContentWidth,
 	measureText,
 } from "../text/measure-text";
 
@@ -126,6 +127,24 @@ describe("measureText", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// measureMinContentWidth
+// ---------------------------------------------------------------------------
+
+describe("measureMinContentWidth", () => {
+	it("returns the widest word across lines", () => {
+		expect(measureMinContentWidth("one three\ntwo")).toBe(5);
+	});
+
+	it("ignores ANSI escapes and counts wide characters", () => {
+		expect(measureMinContentWidth("\x1b[1mbold\x1b[22m 世界")).toBe(4);
+	});
+
+	it("returns 0 for empty text", () => {
+		expect(measureMinContentWidth("")).toBe(0);
+	});
+});
+
 // ---------------------------------------------------------------------------
 // Cache behavior
 // ---------------------------------------------------------------------------
@@ -0,0 +1,293 @@
+import { getChildren } from "blecsd/components";
+import { createElement } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { Box } from "../components/Box";
+import { Text } from "../components/Text";
+import { hitTest } from "../input/mouse-dispatch";
+import { computeLayout } from "../layout/compute-layout";
+import { create } from "../testing/index";
+
+// SGR reports use one-based cells; handlers see zero-based coordinates
+const press = (x: number, y: number) => `\x1b[<0;${x + 1};${y + 1}M`;
+const move = (x: number, y: number) => `\x1b[<35;${x + 1};${y + 1}M`;
+
+// Two 5-cell wide buttons side by side
+const buttons = (props: {
+	readonly onA?: () => void;
+	readonly onB?: () => void;
+	readonly onEnter?: () => void;
+	readonly onLeave?: () => void;
+}) =>
+	createElement(
+		Box,
+		null,
+		createElement(
+			Box,
+			{
+				width: 5,
+				onClick: props.onA,
+				onMouseEnter: props.onEnter,
+				onMouseLeave: props.onLeave,
+			},
+			createElement(Text, null, "A"),
+		),
+		createElement(
+			Box,
+			{ width: 5, onClick: props.onB },
+			createElement(Text, null, "B"),
+		),
+	);
+
+// ---------------------------------------------------------------------------
+// hitTest
+// ---------------------------------------------------------------------------
+
+describe("hitTest", () => {
+	it("returns the path to the deepest node under a cell", () => {
+		const instance = create(buttons({}), { columns: 20, rows: 5 });
+		const { container } = instance;
+		const layouts = computeLayout(container, 20);
+
+		const [row] = getChildren(container.world, container.rootEid);
+		const [, second] = getChildren(container.world, row);
+
+		const path = hitTest(container, layouts, 6, 0);
+		expect(path.slice(0, 3)).toEqual([container.rootEid, row, second]);
+
+		instance.unmount();
+	});
+
+	it("returns an empty path outside the root", () => {
+		const instance = create(buttons({}), { columns: 20, rows: 5 });
+		const layouts = computeLayout(instance.container, 20);
+
+		expect(hitTest(instance.container, layouts, 0, 10)).toEqual([]);
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Box mouse props
+// ---------------------------------------------------------------------------
+
+describe("Box mouse handlers", () => {
+	it("calls onClick on the box under a left press", () => {
+		const onA = vi.fn();
+		const onB = vi.fn();
+		const instance = create(buttons({ onA, onB }), { columns: 20, rows: 5 });
+
+		instance.stdin.write(press(7, 0));
+		expect(onB).toHaveBeenCalledWith(
+			expect.objectContaining({ type: "press", x: 7, y: 0 }),
+		);
+		expect(onA).not.toHaveBeenCalled();
+
+		instance.unmount();
+	});
+
+	it("ignores presses outside every clickable box", () => {
+		const onA = vi.fn();
+		const instance = create(buttons({ onA }), { columns: 20, rows: 5 });
+
+		instance.stdin.write(press(15, 0));
+		expect(onA).not.toHaveBeenCalled();
+
+		instance.unmount();
+	});
+
+	it("only clicks the innermost clickable box", () => {
+		const outer = vi.fn();
+		const inner = vi.fn();
+		const instance = create(
+			createElement(
+				Box,
+				{ onClick: outer },
+				createElement(Box, { onClick: inner }, createElement(Text, null, "x")),
+			),
+		);
+
+		instance.stdin.write(press(0, 0));
+		expect(inner).toHaveBeenCalledTimes(1);
+		expect(outer).not.toHaveBeenCalled();
+
+		instance.unmount();
+	});
+
+	it("fires onMouseEnter and onMouseLeave as the pointer crosses a box", () => {
+		const onEnter = vi.fn();
+		const onLeave = vi.fn();
+		const instance = create(buttons({ onEnter, onLeave }), {
+			columns: 20,
+			rows: 5,
+		});
+
+		instance.stdin.write(move(1, 0));
+		instance.stdin.write(move(2, 0));
+		expect(onEnter).toHaveBeenCalledTimes(1);
+		expect(onLeave).not.toHaveBeenCalled();
+
+		instance.stdin.write(move(8, 0));
+		expect(onLeave).toHaveBeenCalledTimes(1);
+
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Scrolling, clipping and stacking
+// ---------------------------------------------------------------------------
+
+describe("Box mouse handlers: scrolling and stacking", () => {
+	const rows = (count: number, onClick: (index: number) => void) =>
+		Array.from({ length: count }, (_, index) =>
+			createElement(
+				Box,
+				{ key: index, flexShrink: 0, onClick: () => onClick(index) },
+				createElement(Text, null, `r${index}`),
+			),
+		);
+
+	it("clicks the row a scrolled box shows under the pointer", () => {
+		const onClick = vi.fn();
+		const instance = create(
+			createElement(
+				Box,
+				{
+					flexDirection: "column",
+					height: 2,
+					overflowY: "hidden",
+					scrollTop: 3,
+				},
+				...rows(6, onClick),
+			),
+			{ columns: 10, rows: 5 },
+		);
+		expect(instance.lastFrame()).toContain("r3");
+
+		instance.stdin.write(press(0, 0));
+		instance.stdin.write(press(0, 1));
+		expect(onClick.mock.calls).toEqual([[3], [4]]);
+
+		instance.unmount();
+	});
+
+	it("ignores rows scrolled out of a clipped box", () => {
+		const onClick = vi.fn();
+		const instance = create(
+			createElement(
+				Box,
+				{ flexDirection: "column" },
+				createElement(
+					Box,
+					{ flexDirection: "column", height: 2, overflowY: "hidden" },
+					...rows(6, onClick),
+				),
+				createElement(Text, null, "below"),
+			),
+			{ columns: 10, rows: 5 },
+		);
+
+		instance.stdin.write(press(0, 2));
+		expect(onClick).not.toHaveBeenCalled();
+
+		instance.unmount();
+	});
+
+	it("clicks a raised popover over the sibling painted after it", () => {
+		const onPopover = vi.fn();
+		const onSibling = vi.fn();
+		const instance = create(
+			createElement(
+				Box,
+				{ flexDirection: "column", width: 10 },
+				createElement(
+					Box,
+					{ height: 1 },
+					createElement(
+						Box,
+						{
+							position: "absolute",
+							top: 1,
+							zIndex: 5,
+							onClick: onPopover,
+						},
+						createElement(Text, null, "popover"),
+					),
+				),
+				createElement(
+					Box,
+					{ onClick: onSibling },
+					createElement(Text, null, "sibling"),
+				),
+			),
+			{ columns: 10, rows: 5 },
+		);
+		expect(instance.lastFrame()).toContain("popover");
+
+		instance.stdin.write(press(2, 1));
+		expect(onPopover).toHaveBeenCalledTimes(1);
+		expect(onSibling).not.toHaveBeenCalled();
+
+		instance.unmount();
+	});
+
+	it("clicks a badge placed outside its parent", () => {
+		const onBadge = vi.fn();
+		const instance = create(
+			createElement(
+				Box,
+				{ flexDirection: "column", width: 10 },
+				createElement(Text, null, "title"),
+				createElement(
+					Box,
+					{ position: "relative", height: 1 },
+					createElement(Text, null, "card"),
+					createElement(
+						Box,
+						{ position: "absolute", top: -1, left: 7, onClick: onBadge },
+						createElement(Text, null, "!"),
+					),
+				),
+			),
+			{ columns: 10, rows: 5 },
+		);
+
+		expect(instance.lastFrame()).toBe("title  !\ncard");
+		instance.stdin.write(press(7, 0));
+		expect(onBadge).toHaveBeenCalledTimes(1);
+
+		instance.unmount();
+	});
+
+	it("clicks an overlay's content over the tree beneath it", () => {
+		const onUnder = vi.fn();
+		const onDialog = vi.fn();
+		const instance = create(
+			createElement(
+				Box,
+				{ flexDirection: "column", width: 10 },
+				createElement(
+					Box,
+					{ onClick: onUnder },
+					createElement(Text, null, "under"),
+				),
+				createElement(
+					Box,
+					{ overlay: true },
+					createElement(
+						Box,
+						{ onClick: onDialog },
+						createElement(Text, null, "dialog"),
+					),
+				),
+			),
+			{ columns: 10, rows: 5 },
+		);
+
+		instance.stdin.write(press(1, 0));
+		expect(onDialog).toHaveBeenCalledTimes(1);
+		expect(onUnder).not.toHaveBeenCalled();
+
+		instance.unmount();
+	});
+});
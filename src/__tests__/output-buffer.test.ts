@@ -1,11 +1,17 @@
+import { stripAnsi } from "blecsd/terminal";
 import { describe, expect, it } from "vitest";
 import {
+	clearRegion,
+	compareStackingOrder,
 	createOutputBuffer,
+	dimBuffer,
 	getBufferContent,
 	getBufferHeight,
 	type OutputTransformer,
 	popClip,
+	popLayer,
 	pushClip,
+	pushLayer,
 	writeToBuffer,
 } from "../rendering/output-buffer";
 
@@ -228,6 +234,83 @@ describe("clip regions", () => {
 // getBufferContent
 // ---------------------------------------------------------------------------
 
+// ---------------------------------------------------------------------------
+// Layers
+// ---------------------------------------------------------------------------
+
+describe("dimBuffer", () => {
+	it("dims painted cells and resets at the end of each row", () => {
+		const buf = createOutputBuffer(4, 2);
+		writeToBuffer(buf, 0, 0, "ab");
+		dimBuffer(buf);
+		expect(getBufferContent(buf)).toBe("\x1b[2ma\x1b[2mb\x1b[0m\n");
+	});
+});
+
+describe("stacking layers", () => {
+	it("orders stacking orders level by level, missing levels as 0", () => {
+		expect(compareStackingOrder([1], [])).toBeGreaterThan(0);
+		expect(compareStackingOrder([], [0, 0])).toBe(0);
+		expect(compareStackingOrder([2, -1], [2])).toBeLessThan(0);
+		expect(compareStackingOrder([2, -1], [1, 5])).toBeGreaterThan(0);
+	});
+
+	it("leaves cells painted from a higher layer alone", () => {
+		const buf = createOutputBuffer(6, 1);
+		pushLayer(buf, 1);
+		writeToBuffer(buf, 2, 0, "XY");
+		popLayer(buf);
+		writeToBuffer(buf, 0, 0, "abcdef");
+		expect(getBufferContent(buf)).toBe("abXYef");
+	});
+
+	it("paints under anything from the frame level with a negative zIndex", () => {
+		const buf = createOutputBuffer(6, 1);
+		writeToBuffer(buf, 0, 0, "ab");
+		pushLayer(buf, -1);
+		writeToBuffer(buf, 0, 0, "xyz");
+		popLayer(buf);
+		expect(getBufferContent(buf)).toBe("abz");
+	});
+
+	it("carries styles opened in covered cells to the next cell written", () => {
+		const buf = createOutputBuffer(4, 1);
+		pushLayer(buf, 1);
+		writeToBuffer(buf, 0, 0, "X");
+		popLayer(buf);
+		writeToBuffer(buf, 0, 0, "\x1b[1mabc\x1b[22m");
+		const content = getBufferContent(buf);
+		expect(stripAnsi(content).trimEnd()).toBe("Xbc");
+		expect(content).toContain("X\x1b[1mb");
+	});
+
+	it("lets anything paint over a dimmed backdrop", () => {
+		const buf = createOutputBuffer(2, 1);
+		pushLayer(buf, 5);
+		writeToBuffer(buf, 0, 0, "ab");
+		popLayer(buf);
+		dimBuffer(buf);
+		writeToBuffer(buf, 0, 0, "c");
+		expect(stripAnsi(getBufferContent(buf))).toBe("cb");
+	});
+});
+
+describe("clearRegion", () => {
+	it("blanks the rectangle", () => {
+		const buf = createOutputBuffer(5, 2);
+		writeToBuffer(buf, 0, 0, "abcde\nfghij");
+		clearRegion(buf, 1, 0, 3, 1);
+		expect(stripAnsi(getBufferContent(buf))).toBe("a   e\nfghij");
+	});
+
+	it("blanks wide characters cut by an edge", () => {
+		const buf = createOutputBuffer(6, 1);
+		writeToBuffer(buf, 0, 0, "a你好");
+		clearRegion(buf, 2, 0, 2, 1);
+		expect(stripAnsi(getBufferContent(buf))).toBe("a");
+	});
+});
+
 describe("getBufferContent", () => {
 	it("returns lines joined by newlines", () => {
 		const buf = createOutputBuffer(5, 3);
@@ -70,7 +70,7 @@ describe("OverflowConfigSchema", () => {
 	});
 
 	it("rejects invalid overflow values", () => {
-		expect(() => OverflowConfigSchema.parse({ overflow: "scroll" })).toThrow();
+		expect(() => OverflowConfigSchema.parse({ overflow: "auto" })).toThrow();
 	});
 });
 
@@ -180,6 +180,15 @@ describe("shouldClip", () => {
 	it("returns true for hidden/hidden", () => {
 		expect(shouldClip({ overflowX: "hidden", overflowY: "hidden" })).toBe(true);
 	});
+
+	it("clips scroll containers", () => {
+		expect(shouldClip({ overflowX: "visible", overflowY: "scroll" })).toBe(
+			true,
+		);
+		expect(shouldClipX({ overflowX: "visible", overflowY: "scroll" })).toBe(
+			false,
+		);
+	});
 });
 
 describe("shouldClipX", () => {
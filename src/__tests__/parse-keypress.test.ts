@@ -127,19 +127,122 @@ describe("parseKeypress: special keys", () => {
 describe("parseKeypress: function keys", () => {
 	it("parses F1 (xterm)", () => {
 		const result = parseKeypress("\x1bOP");
-		// F1 should not set any of the named booleans (they're arrows/nav only)
-		// But input should be empty (it's a non-alphanumeric key)
+		// Input should be empty (it's a non-alphanumeric key)
 		expect(result.input).toBe("");
+		expect(result.key.f1).toBe(true);
+		expect(result.key.name).toBe("f1");
 	});
 
 	it("parses F5", () => {
 		const result = parseKeypress("\x1b[15~");
 		expect(result.input).toBe("");
+		expect(result.key.f5).toBe(true);
+		expect(result.key.f1).toBe(false);
 	});
 
 	it("parses F12", () => {
 		const result = parseKeypress("\x1b[24~");
 		expect(result.input).toBe("");
+		expect(result.key.f12).toBe(true);
+	});
+
+	it("parses insert", () => {
+		const result = parseKeypress("\x1b[2~");
+		expect(result.input).toBe("");
+		expect(result.key.insert).toBe(true);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Normalized names
+// ---------------------------------------------------------------------------
+
+describe("parseKeypress: key names", () => {
+	it("names arrows and navigation keys", () => {
+		expect(parseKeypress("\x1b[A").key.name).toBe("up");
+		expect(parseKeypress("\x1b[6~").key.name).toBe("pagedown");
+	});
+
+	it("names return consistently", () => {
+		expect(parseKeypress("\r").key.name).toBe("return");
+	});
+
+	it("names letters in lower case", () => {
+		expect(parseKeypress("a").key.name).toBe("a");
+		expect(parseKeypress("\x01").key.name).toBe("a");
+	});
+
+	it("reports legacy keystrokes as presses", () => {
+		expect(parseKeypress("a").key.eventType).toBe("press");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Kitty keyboard protocol and modifyOtherKeys
+// ---------------------------------------------------------------------------
+
+describe("parseKeypress: extended keys", () => {
+	it("tells Ctrl+Enter apart from Enter", () => {
+		const result = parseKeypress("\x1b[13;5u");
+		expect(result.key.return).toBe(true);
+		expect(result.key.ctrl).toBe(true);
+		expect(result.input).toBe("");
+	});
+
+	it("parses a kitty Escape", () => {
+		const result = parseKeypress("\x1b[27u");
+		expect(result.key.escape).toBe(true);
+		expect(result.key.meta).toBe(true);
+	});
+
+	it("parses Ctrl+letter like the legacy byte", () => {
+		const result = parseKeypress("\x1b[99;5u");
+		expect(result.input).toBe("c");
+		expect(result.key.ctrl).toBe(true);
+	});
+
+	it("maps alt to meta", () => {
+		const result = parseKeypress("\x1b[120;3u");
+		expect(result.input).toBe("x");
+		expect(result.key.meta).toBe(true);
+	});
+
+	it("reports super and hyper", () => {
+		const result = parseKeypress("\x1b[115;25u");
+		expect(result.key.super).toBe(true);
+		expect(result.key.hyper).toBe(true);
+		expect(result.key.name).toBe("s");
+	});
+
+	it("reports release and repeat events", () => {
+		expect(parseKeypress("\x1b[97;1:3u").key.eventType).toBe("release");
+		expect(parseKeypress("\x1b[97;1:2u").key.eventType).toBe("repeat");
+	});
+
+	it("parses Shift+Arrow with an event type", () => {
+		const result = parseKeypress("\x1b[1;2:3A");
+		expect(result.key.upArrow).toBe(true);
+		expect(result.key.shift).toBe(true);
+		expect(result.key.eventType).toBe("release");
+	});
+
+	it("parses modified function keys with an event type", () => {
+		const result = parseKeypress("\x1b[15;5:1~");
+		expect(result.key.f5).toBe(true);
+		expect(result.key.ctrl).toBe(true);
+	});
+
+	it("parses modifyOtherKeys reports", () => {
+		const result = parseKeypress("\x1b[27;5;13~");
+		expect(result.key.return).toBe(true);
+		expect(result.key.ctrl).toBe(true);
+		expect(result.key.escape).toBe(false);
+	});
+
+	it("upper-cases shifted letters", () => {
+		const result = parseKeypress("\x1b[27;2;97~");
+		expect(result.input).toBe("A");
+		expect(result.key.shift).toBe(true);
 	});
 });
 
@@ -226,6 +329,13 @@ describe("parseKeypress: key structure", () => {
 		expect(typeof key.backspace).toBe("boolean");
 		expect(typeof key.delete).toBe("boolean");
 		expect(typeof key.meta).toBe("boolean");
+		expect(typeof key.insert).toBe("boolean");
+		expect(typeof key.super).toBe("boolean");
+		expect(typeof key.hyper).toBe("boolean");
+		expect(typeof key.f1).toBe("boolean");
+		expect(typeof key.f12).toBe("boolean");
+		expect(key.eventType).toBe("press");
+		expect(key.name).toBe("a");
 	});
 });
 
@@ -256,4 +366,10 @@ describe("parseKeypressBuffer", () => {
 		const results = parseKeypressBuffer(Buffer.from("hello"));
 		expect(results.length).toBeGreaterThanOrEqual(1);
 	});
+
+	it("keeps extended reports in order with legacy input", () => {
+		const results = parseKeypressBuffer("a\x1b[13;5u\x1b[B");
+		expect(results.map((r) => r.key.name)).toEqual(["a", "return", "down"]);
+		expect(results[1].key.ctrl).toBe(true);
+	});
 });
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+	isMouseSequence,
+	parseMouseEvent,
+	splitMouseInput,
+} from "../input/parse-mouse";
+
+// ---------------------------------------------------------------------------
+// parseMouseEvent
+// ---------------------------------------------------------------------------
+
+describe("parseMouseEvent", () => {
+	it("parses a left press with zero-based coordinates", () => {
+		expect(parseMouseEvent("\x1b[<0;5;3M")).toEqual({
+			type: "press",
+			button: "left",
+			x: 4,
+			y: 2,
+			shift: false,
+			meta: false,
+			ctrl: false,
+		});
+	});
+
+	it("parses a release from the lowercase final byte", () => {
+		expect(parseMouseEvent("\x1b[<2;1;1m")).toMatchObject({
+			type: "release",
+			button: "right",
+		});
+	});
+
+	it("distinguishes drag from plain motion", () => {
+		expect(parseMouseEvent("\x1b[<32;6;3M")).toMatchObject({
+			type: "drag",
+			button: "left",
+		});
+		expect(parseMouseEvent("\x1b[<35;6;3M")).toMatchObject({
+			type: "move",
+			button: "none",
+		});
+	});
+
+	it("parses wheel events with a direction", () => {
+		expect(parseMouseEvent("\x1b[<64;1;1M")).toMatchObject({
+			type: "wheel",
+			direction: "up",
+		});
+		expect(parseMouseEvent("\x1b[<65;1;1M")).toMatchObject({
+			type: "wheel",
+			direction: "down",
+		});
+	});
+
+	it("decodes modifier bits", () => {
+		expect(parseMouseEvent("\x1b[<28;1;1M")).toMatchObject({
+			shift: true,
+			meta: true,
+			ctrl: true,
+		});
+	});
+
+	it("returns undefined for non-mouse input", () => {
+		expect(parseMouseEvent("a")).toBeUndefined();
+		expect(parseMouseEvent("\x1b[A")).toBeUndefined();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// isMouseSequence
+// ---------------------------------------------------------------------------
+
+describe("isMouseSequence", () => {
+	it("matches complete SGR reports only", () => {
+		expect(isMouseSequence("\x1b[<0;1;1M")).toBe(true);
+		expect(isMouseSequence("x\x1b[<0;1;1M")).toBe(false);
+		expect(isMouseSequence("\x1b[<0;1M")).toBe(false);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// splitMouseInput
+// ---------------------------------------------------------------------------
+
+describe("splitMouseInput", () => {
+	it("separates batched mouse reports from keystrokes", () => {
+		const { events, rest } = splitMouseInput("a\x1b[<0;2;2M\x1b[<0;2;2mb");
+		expect(events.map((event) => event.type)).toEqual(["press", "release"]);
+		expect(rest).toBe("ab");
+	});
+
+	it("leaves plain input untouched", () => {
+		expect(splitMouseInput("hello")).toEqual({ events: [], rest: "hello" });
+	});
+});
@@ -0,0 +1,144 @@
+import { getChildren } from "blecsd/components";
+import type { Entity, World } from "blecsd/core";
+import { createElement, type ReactNode } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import { Box } from "../components/Box";
+import {
+	drawIndeterminateBar,
+	drawProgressBar,
+	formatPercentage,
+	ProgressBar,
+	type ProgressBarProps,
+} from "../components/ProgressBar";
+import { getHostNode } from "../host-config";
+import { create } from "../testing/index";
+
+const plain = (frame: string | undefined): string =>
+	stripAnsi(frame ?? "").trimEnd();
+
+const Harness = (props: ProgressBarProps): ReactNode =>
+	createElement(Box, { width: 12 }, createElement(ProgressBar, props));
+
+const findProgressBarProps = (
+	world: World,
+	eid: Entity,
+): Record<string, unknown> | undefined => {
+	const node = getHostNode(world, eid);
+	if (node && node.elementType !== "#text") {
+		if (node.props["aria-role"] === "progressbar") return node.props;
+	}
+	for (const child of getChildren(world, eid)) {
+		const found = findProgressBarProps(world, child);
+		if (found) return found;
+	}
+	return undefined;
+};
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+describe("drawProgressBar", () => {
+	it("fills whole cells", () => {
+		expect(drawProgressBar(0.5, 8)).toBe("████    ");
+		expect(drawProgressBar(1, 4)).toBe("████");
+		expect(drawProgressBar(0, 4)).toBe("    ");
+	});
+
+	it("draws the last cell with eighth blocks", () => {
+		expect(drawProgressBar(1 / 16, 2)).toBe("▏ ");
+		expect(drawProgressBar(0.5 / 2 + 0.5 / 4, 2)).toBe("▊ ");
+		expect(drawProgressBar(0.75, 2)).toBe("█▌");
+	});
+
+	it("clamps values and keeps the width", () => {
+		expect(drawProgressBar(2, 3)).toBe("███");
+		expect(drawProgressBar(-1, 3)).toBe("   ");
+		expect(drawProgressBar(Number.NaN, 3)).toBe("   ");
+		expect(drawProgressBar(0.5, 0)).toBe("");
+	});
+});
+
+describe("drawIndeterminateBar", () => {
+	it("bounces a quarter-width segment between the ends", () => {
+		expect(drawIndeterminateBar(0, 8)).toBe("██      ");
+		expect(drawIndeterminateBar(6, 8)).toBe("      ██");
+		expect(drawIndeterminateBar(7, 8)).toBe("     ██ ");
+		expect(drawIndeterminateBar(12, 8)).toBe("██      ");
+	});
+
+	it("fills a track too short to move in", () => {
+		expect(drawIndeterminateBar(3, 1)).toBe("█");
+	});
+});
+
+describe("formatPercentage", () => {
+	it("rounds and clamps", () => {
+		expect(formatPercentage(0.424)).toBe("42%");
+		expect(formatPercentage(1.5)).toBe("100%");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+describe("ProgressBar", () => {
+	it("fills the width it is laid out at", () => {
+		const instance = create(createElement(Harness, { value: 0.5 }));
+		expect(plain(instance.lastFrame())).toBe("██████");
+		instance.unmount();
+	});
+
+	it("shares the width with the label and percentage", () => {
+		const instance = create(
+			createElement(Harness, { value: 0.6, label: "Up", showPercentage: true }),
+		);
+		// 12 cells: "Up" and a gap, a 4-cell track, a gap and " 60%"
+		expect(plain(instance.lastFrame())).toBe("Up ██▍   60%");
+		instance.unmount();
+	});
+
+	it("narrows when its container shrinks", () => {
+		const Sized = ({ width }: { readonly width: number }): ReactNode =>
+			createElement(
+				Box,
+				{ width },
+				createElement(ProgressBar, { value: 1, showPercentage: true }),
+			);
+		const instance = create(createElement(Sized, { width: 16 }));
+		expect(plain(instance.lastFrame())).toBe("███████████ 100%");
+
+		instance.rerender(createElement(Sized, { width: 8 }));
+		expect(plain(instance.lastFrame())).toBe("███ 100%");
+		instance.unmount();
+	});
+
+	it("announces the percentage instead of the blocks", () => {
+		const instance = create(createElement(Harness, { value: 0.42 }));
+		const { world, rootEid } = instance.container;
+		const props = findProgressBarProps(world, rootEid);
+		expect(props?.["aria-valuetext"]).toBe("42%");
+		instance.unmount();
+	});
+
+	it("bounces while indeterminate", () => {
+		vi.useFakeTimers();
+		const instance = create(createElement(Harness, { indeterminate: true }));
+		expect(plain(instance.lastFrame())).toBe("███");
+
+		vi.advanceTimersByTime(80 * 2 + 40);
+		expect(plain(instance.lastFrame())).toBe("  ███");
+
+		const { world, rootEid } = instance.container;
+		expect(findProgressBarProps(world, rootEid)?.["aria-valuetext"]).toBe(
+			undefined,
+		);
+		instance.unmount();
+	});
+});
@@ -231,3 +231,89 @@ describe("validation", () => {
 		expect(manager.isSupported()).toBe(false);
 	});
 });
+
+// ---------------------------------------------------------------------------
+// Bracketed paste
+// ---------------------------------------------------------------------------
+
+describe("createRawModeManager bracketed paste", () => {
+	it("enables bracketed paste with the first reference", () => {
+		const stdout = { write: vi.fn() };
+		const manager = createRawModeManager(makeTTYStdin(), stdout);
+
+		manager.enable();
+		manager.enable();
+
+		expect(stdout.write).toHaveBeenCalledTimes(1);
+		expect(stdout.write).toHaveBeenCalledWith("\x1b[?2004h");
+	});
+
+	it("disables bracketed paste with the last reference", () => {
+		const stdout = { write: vi.fn() };
+		const manager = createRawModeManager(makeTTYStdin(), stdout);
+
+		manager.enable();
+		manager.enable();
+		manager.disable();
+		expect(stdout.write).not.toHaveBeenCalledWith("\x1b[?2004l");
+
+		manager.disable();
+		expect(stdout.write).toHaveBeenLastCalledWith("\x1b[?2004l");
+	});
+
+	it("disables bracketed paste on destroy", () => {
+		const stdout = { write: vi.fn() };
+		const manager = createRawModeManager(makeTTYStdin(), stdout);
+
+		manager.enable();
+		manager.destroy();
+
+		expect(stdout.write).toHaveBeenLastCalledWith("\x1b[?2004l");
+	});
+
+	it("writes nothing for non-TTY stdin", () => {
+		const stdout = { write: vi.fn() };
+		const manager = createRawModeManager(makeNonTTYStdin(), stdout);
+
+		manager.enable();
+		expect(stdout.write).not.toHaveBeenCalled();
+	});
+});
+
+describe("createRawModeManager extended keys", () => {
+	it("pushes the kitty flags and modifyOtherKeys when enabled", () => {
+		const stdout = { write: vi.fn() };
+		const manager = createRawModeManager(makeTTYStdin(), stdout, {
+			extendedKeys: true,
+		});
+
+		manager.enable();
+
+		const written = stdout.write.mock.calls[0][0] as string;
+		expect(written).toContain("\x1b[>3u");
+		expect(written).toContain("\x1b[>4;2m");
+	});
+
+	it("pops the kitty flags with the last reference", () => {
+		const stdout = { write: vi.fn() };
+		const manager = createRawModeManager(makeTTYStdin(), stdout, {
+			extendedKeys: true,
+		});
+
+		manager.enable();
+		manager.disable();
+
+		const written = stdout.write.mock.calls[1][0] as string;
+		expect(written).toContain("\x1b[<u");
+		expect(written).toContain("\x1b[>4m");
+	});
+
+	it("leaves the keyboard protocol alone by default", () => {
+		const stdout = { write: vi.fn() };
+		const manager = createRawModeManager(makeTTYStdin(), stdout);
+
+		manager.enable();
+
+		expect(stdout.write).toHaveBeenCalledWith("\x1b[?2004h");
+	});
+});
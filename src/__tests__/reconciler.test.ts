@@ -4,7 +4,6 @@ import {
 	getContent,
 	getDimensions,
 	getPosition,
-	Hierarchy,
 	Position,
 	Renderable,
 	setDimensions,
@@ -19,6 +18,7 @@ import {
 import { describe, expect, it, vi } from "vitest";
 
 import {
+	addHierarchy,
 	appendChild,
 	type Container,
 	commitTextUpdate,
@@ -49,7 +49,7 @@ const makeContainer = (): Container => {
 	const rootEid = addEntity(world);
 	addComponent(world, rootEid, Position);
 	addComponent(world, rootEid, Dimensions);
-	addComponent(world, rootEid, Hierarchy);
+	addHierarchy(world, rootEid);
 	addComponent(world, rootEid, Renderable);
 	setPosition(world, rootEid, 0, 0);
 	setDimensions(world, rootEid, 80, 24);
@@ -284,14 +284,7 @@ describe("commitUpdate", () => {
 			rootContext,
 		);
 
-		commitUpdate(
-			instance,
-			{ x: 15 },
-			"blecsdui-box",
-			{ x: 0 },
-			{ x: 15 },
-			container,
-		);
+		commitUpdate(instance, { x: 15 }, "blecsdui-box", { x: 0 }, { x: 15 });
 
 		const pos = getPosition(container.world, instance.eid);
 		expect(pos?.x).toBe(15);
@@ -312,7 +305,6 @@ describe("commitUpdate", () => {
 			"blecsdui-box",
 			{ width: 10 },
 			{ width: 50 },
-			container,
 		);
 
 		const dims = getDimensions(container.world, instance.eid);
@@ -329,7 +321,7 @@ describe("commitUpdate", () => {
 		);
 
 		// Should not throw
-		commitUpdate(instance, null, "blecsdui-box", {}, {}, container);
+		commitUpdate(instance, null, "blecsdui-box", {}, {});
 
 		const pos = getPosition(container.world, instance.eid);
 		expect(pos?.x).toBe(5);
@@ -344,14 +336,7 @@ describe("commitUpdate", () => {
 			rootContext,
 		);
 
-		commitUpdate(
-			instance,
-			{ y: 30 },
-			"blecsdui-box",
-			{ y: 20 },
-			{ y: 30 },
-			container,
-		);
+		commitUpdate(instance, { y: 30 }, "blecsdui-box", { y: 20 }, { y: 30 });
 
 		const pos = getPosition(container.world, instance.eid);
 		expect(pos?.y).toBe(30);
@@ -372,7 +357,6 @@ describe("commitUpdate", () => {
 			"blecsdui-box",
 			{ height: 10 },
 			{ height: 20 },
-			container,
 		);
 
 		const dims = getDimensions(container.world, instance.eid);
@@ -394,7 +378,6 @@ describe("commitUpdate", () => {
 			"blecsdui-box",
 			{},
 			{ style: { bold: true } },
-			container,
 		);
 
 		// Should not throw; style is applied via setStyle
@@ -407,7 +390,7 @@ describe("commitTextUpdate", () => {
 		const container = makeContainer();
 		const textNode = createTextInstance("old text", container, textContext);
 
-		commitTextUpdate(textNode, "old text", "new text", container);
+		commitTextUpdate(textNode, "old text", "new text");
 
 		expect(textNode.text).toBe("new text");
 		const content = getContent(container.world, textNode.eid);
@@ -431,3 +431,33 @@ describe("renderNodeToScreenReaderOutput - box with children via registry", () =
 		expect(output).toContain("Accept terms");
 	});
 });
+
+// ---------------------------------------------------------------------------
+// Progress bars
+// ---------------------------------------------------------------------------
+
+describe("renderNodeToScreenReaderOutput - progressbar", () => {
+	it("announces the value text instead of the drawn bar", () => {
+		const world = createMockWorld();
+		const bar = createMockTextNode(world, "████▌     ");
+		const boxNode = createMockBoxNode(
+			world,
+			{
+				"aria-role": "progressbar",
+				"aria-label": "Download",
+				"aria-valuetext": "42%",
+			},
+			[bar.eid],
+		);
+		const registry: ScreenReaderNodeRegistry = new Map([[bar.eid, bar]]);
+		const output = renderNodeToScreenReaderOutput(boxNode, registry);
+		expect(output).toBe("[progressbar, Download] 42%");
+	});
+
+	it("announces only the role without a value", () => {
+		const world = createMockWorld();
+		const boxNode = createMockBoxNode(world, { "aria-role": "progressbar" });
+		const output = renderNodeToScreenReaderOutput(boxNode, new Map());
+		expect(output).toBe("[progressbar]");
+	});
+});
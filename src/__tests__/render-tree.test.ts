@@ -14,6 +14,7 @@ import {
 	type NodeLayoutMap,
 	type NodeRegistry,
 	type NodeStyleMap,
+	type RenderLayout,
 	renderNodeToOutput,
 	renderTree,
 	squashTextNodes,
@@ -323,6 +324,51 @@ describe("renderTree", () => {
 		expect(content.length).toBeLessThan(100);
 	});
 
+	it("scrolls overflow: scroll content and draws a scrollbar", () => {
+		const world = createWorld();
+		const root = createElementNode("root", {}, world);
+		const box = createElementNode("box", {}, world);
+		const rows = ["l0", "l1", "l2", "l3", "l4"].map((line) => {
+			const textEl = createElementNode("text", {}, world);
+			const textChild = createTextNode(line, world);
+			appendChild(textEl, textChild);
+			appendChild(box, textEl);
+			return { textEl, textChild };
+		});
+		appendChild(root, box);
+
+		const render = (scrollTop: number): string => {
+			const buf = createOutputBuffer(6, 3);
+			const layouts = buildLayouts([
+				[root.eid, { x: 0, y: 0, width: 6, height: 3 }],
+				[box.eid, { x: 0, y: 0, width: 6, height: 3 }],
+				...rows.map(({ textEl }, index): [number, RenderLayout] => [
+					textEl.eid,
+					{ x: 0, y: index, width: 5, height: 1 },
+				]),
+			]);
+			const styles = buildStyles([
+				[root.eid, {}],
+				[box.eid, { overflowY: "scroll", scrollTop }],
+				...rows.map(({ textEl }): [number, Record<string, unknown>] => [
+					textEl.eid,
+					{},
+				]),
+			]);
+			const registry = buildRegistry(
+				root,
+				box,
+				...rows.flatMap(({ textEl, textChild }) => [textEl, textChild]),
+			);
+			renderTree(root, buf, layouts, styles, registry);
+			return getBufferContent(buf);
+		};
+
+		expect(render(1)).toBe("l1   │\nl2   █\nl3   │");
+		// Offsets past the content stop at its end
+		expect(render(10)).toBe("l2   │\nl3   │\nl4   █");
+	});
+
 	it("renders multiple children in order (painter's algorithm)", () => {
 		const world = createWorld();
 		const root = createElementNode("root", {}, world);
@@ -515,6 +561,72 @@ describe("renderTree", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// zIndex
+// ---------------------------------------------------------------------------
+
+describe("renderTree: zIndex", () => {
+	// Two boxes painted over the same cells, in tree order
+	const paint = (
+		firstStyle: Record<string, unknown>,
+		secondStyle: Record<string, unknown>,
+	): string => {
+		const world = createWorld();
+		const root = createElementNode("root", {}, world);
+		const nodes: TreeNode[] = [root];
+		const layouts: Array<[number, RenderLayout]> = [
+			[root.eid, { x: 0, y: 0, width: 10, height: 1 }],
+		];
+		const styles: Array<[number, Record<string, unknown>]> = [[root.eid, {}]];
+
+		for (const [text, style] of [
+			["first", firstStyle],
+			["2nd", secondStyle],
+		] as const) {
+			const box = createElementNode("box", {}, world);
+			const textEl = createElementNode("text", {}, world);
+			const textChild = createTextNode(text, world);
+			appendChild(root, box);
+			appendChild(box, textEl);
+			appendChild(textEl, textChild);
+			nodes.push(box, textEl, textChild);
+			layouts.push(
+				[box.eid, { x: 1, y: 0, width: 5, height: 1 }],
+				[textEl.eid, { x: 0, y: 0, width: text.length, height: 1 }],
+			);
+			styles.push([box.eid, style], [textEl.eid, {}]);
+		}
+
+		const buf = createOutputBuffer(10, 1);
+		renderTree(
+			root,
+			buf,
+			buildLayouts(layouts),
+			buildStyles(styles),
+			buildRegistry(...nodes),
+		);
+		return getBufferContent(buf);
+	};
+
+	it("paints later siblings over earlier ones by default", () => {
+		expect(paint({}, {})).toBe(" 2ndst");
+	});
+
+	it("keeps a higher zIndex on top whatever the tree order", () => {
+		expect(paint({ zIndex: 1 }, {})).toBe(" first");
+	});
+
+	it("keeps a negative zIndex under content at the default level", () => {
+		expect(paint({}, { zIndex: -1 })).toBe(" first");
+	});
+
+	it("stacks a box's contents with the box", () => {
+		// The text inside the zIndex 2 box stays above the later sibling
+		// with zIndex 1
+		expect(paint({ zIndex: 2 }, { zIndex: 1 })).toBe(" first");
+	});
+});
+
 // ---------------------------------------------------------------------------
 // Integration
 // ---------------------------------------------------------------------------
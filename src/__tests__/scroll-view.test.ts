@@ -0,0 +1,176 @@
+import { act, createElement, createRef } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import { Box } from "../components/Box";
+import {
+	ScrollView,
+	type ScrollViewHandle,
+	type ScrollViewProps,
+} from "../components/ScrollView";
+import { Text } from "../components/Text";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const plain = (frame: string | undefined): string => stripAnsi(frame ?? "");
+
+const LINES = Array.from({ length: 10 }, (_, index) => `line ${index}`);
+
+const view = (props: Partial<ScrollViewProps> = {}) =>
+	createElement(
+		ScrollView,
+		{ height: 3, width: 10, autoFocus: true, ...props },
+		...LINES.map((line) => createElement(Text, { key: line }, line)),
+	);
+
+const lines = (frame: string | undefined): string[] =>
+	plain(frame)
+		.split("\n")
+		.map((line) => line.trimEnd());
+
+const DOWN = "\x1b[B";
+const UP = "\x1b[A";
+const PAGE_DOWN = "\x1b[6~";
+const HOME = "\x1b[H";
+const END = "\x1b[F";
+const WHEEL_DOWN = "\x1b[<65;1;1M";
+// Left press on the second row
+const PRESS_ROW_1 = "\x1b[<0;2;2M";
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+describe("ScrollView: drawing", () => {
+	it("shows the first lines with a scrollbar at the top", () => {
+		const instance = create(view(), { columns: 20 });
+		expect(lines(instance.lastFrame())).toEqual([
+			"line 0   █",
+			"line 1   │",
+			"line 2   │",
+		]);
+		instance.unmount();
+	});
+
+	it("starts at initialScrollTop", () => {
+		const instance = create(view({ initialScrollTop: 7 }), { columns: 20 });
+		expect(lines(instance.lastFrame())).toEqual([
+			"line 7   │",
+			"line 8   │",
+			"line 9   █",
+		]);
+		instance.unmount();
+	});
+
+	it("draws no scrollbar track over content that fits", () => {
+		const instance = create(
+			createElement(
+				ScrollView,
+				{ height: 3, width: 10 },
+				createElement(Text, null, "short"),
+			),
+			{ columns: 20 },
+		);
+		expect(plain(instance.lastFrame())).not.toContain("█");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Keyboard and mouse
+// ---------------------------------------------------------------------------
+
+describe("ScrollView: scrolling", () => {
+	it("scrolls a line at a time with the arrows", () => {
+		const onScroll = vi.fn();
+		const instance = create(view({ onScroll }), { columns: 20 });
+		instance.stdin.write(DOWN);
+		instance.stdin.write(DOWN);
+		expect(lines(instance.lastFrame())[0]).toBe("line 2   │");
+		instance.stdin.write(UP);
+		expect(lines(instance.lastFrame())[0]).toBe("line 1   █");
+		expect(onScroll.mock.calls).toEqual([[1], [2], [1]]);
+		instance.unmount();
+	});
+
+	it("pages by the viewport height and jumps with Home and End", () => {
+		const instance = create(view(), { columns: 20 });
+		instance.stdin.write(PAGE_DOWN);
+		expect(lines(instance.lastFrame())[0]).toBe("line 3   │");
+		instance.stdin.write(END);
+		expect(lines(instance.lastFrame())[0]).toBe("line 7   │");
+		instance.stdin.write(HOME);
+		expect(lines(instance.lastFrame())[0]).toBe("line 0   █");
+		instance.unmount();
+	});
+
+	it("stops at the end of the content", () => {
+		const onScroll = vi.fn();
+		const instance = create(view({ onScroll, initialScrollTop: 7 }), {
+			columns: 20,
+		});
+		instance.stdin.write(DOWN);
+		expect(lines(instance.lastFrame())[0]).toBe("line 7   │");
+		expect(onScroll).not.toHaveBeenCalled();
+		instance.unmount();
+	});
+
+	it("ignores keys while not focused", () => {
+		const instance = create(view({ autoFocus: false }), { columns: 20 });
+		instance.stdin.write(DOWN);
+		expect(lines(instance.lastFrame())[0]).toBe("line 0   █");
+		instance.unmount();
+	});
+
+	it("scrolls three lines per wheel notch", () => {
+		const instance = create(view(), { columns: 20 });
+		instance.stdin.write(WHEEL_DOWN);
+		expect(lines(instance.lastFrame())[0]).toBe("line 3   │");
+		instance.unmount();
+	});
+});
+
+describe("ScrollView: mouse", () => {
+	it("clicks the line shown under the pointer once scrolled", () => {
+		const onClick = vi.fn();
+		const instance = create(
+			createElement(
+				ScrollView,
+				{ height: 3, width: 10, autoFocus: true, initialScrollTop: 4 },
+				...LINES.map((line) =>
+					createElement(
+						Box,
+						{ key: line, onClick: () => onClick(line) },
+						createElement(Text, null, line),
+					),
+				),
+			),
+			{ columns: 20 },
+		);
+		expect(lines(instance.lastFrame())[1]).toBe("line 5   █");
+
+		instance.stdin.write(PRESS_ROW_1);
+		expect(onClick.mock.calls).toEqual([["line 5"]]);
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Imperative handle
+// ---------------------------------------------------------------------------
+
+describe("ScrollView: handle", () => {
+	it("scrolls through the ref, clamped to the content", () => {
+		const ref = createRef<ScrollViewHandle>();
+		const instance = create(view({ ref }), { columns: 20 });
+		act(() => ref.current?.scrollTo(5));
+		expect(lines(instance.lastFrame())[0]).toBe("line 5   │");
+		act(() => ref.current?.scrollTo(50));
+		expect(lines(instance.lastFrame())[0]).toBe("line 7   │");
+		act(() => ref.current?.scrollToTop());
+		expect(lines(instance.lastFrame())[0]).toBe("line 0   █");
+		instance.unmount();
+	});
+});
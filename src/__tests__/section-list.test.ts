@@ -0,0 +1,237 @@
+import { createElement } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import {
+	flattenSections,
+	type Section,
+	SectionList,
+	type SectionListProps,
+	SectionListPropsSchema,
+} from "../components/SectionList";
+import { Text } from "../components/Text";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const plain = (frame: string | undefined): string => stripAnsi(frame ?? "");
+
+// Frame lines without the scroll indicator
+const lines = (frame: string | undefined): string[] =>
+	plain(frame)
+		.split("\n")
+		.map((line) => line.replace(/\s*[│█]?$/, ""));
+
+const SECTIONS: readonly Section<string>[] = [
+	{ key: "staged", title: "Staged", data: ["a.ts", "b.ts", "c.ts"] },
+	{ key: "unstaged", title: "Unstaged", data: ["d.ts", "e.ts"] },
+	{ key: "untracked", title: "Untracked", data: ["f.ts"] },
+];
+
+const list = (props: Partial<SectionListProps<string>> = {}) =>
+	createElement(SectionList, {
+		sections: SECTIONS,
+		height: 4,
+		autoFocus: true,
+		renderItem: (item, _index, state) =>
+			createElement(Text, null, `${state.isSelected ? ">" : " "} ${item}`),
+		...props,
+	} as SectionListProps<string>);
+
+const UP = "\x1b[A";
+const DOWN = "\x1b[B";
+const LEFT = "\x1b[D";
+const RIGHT = "\x1b[C";
+const END = "\x1b[F";
+const ENTER = "\r";
+
+// ---------------------------------------------------------------------------
+// flattenSections
+// ---------------------------------------------------------------------------
+
+describe("flattenSections", () => {
+	it("puts each header before its items", () => {
+		const rows = flattenSections(SECTIONS, new Set());
+		expect(
+			rows.map((row) => (row.kind === "header" ? row.section.title : row.item)),
+		).toEqual([
+			"Staged",
+			"a.ts",
+			"b.ts",
+			"c.ts",
+			"Unstaged",
+			"d.ts",
+			"e.ts",
+			"Untracked",
+			"f.ts",
+		]);
+	});
+
+	it("leaves out the items of collapsed sections", () => {
+		const rows = flattenSections(SECTIONS, new Set(["staged"]));
+		expect(rows).toHaveLength(6);
+		expect(rows[1]).toMatchObject({ kind: "header", section: SECTIONS[1] });
+		expect(rows[2]).toMatchObject({ kind: "item", headerRow: 1, index: 0 });
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+describe("SectionListPropsSchema", () => {
+	it("applies defaults", () => {
+		const result = SectionListPropsSchema.parse({
+			sections: [],
+			renderItem: () => null,
+			height: 5,
+		});
+		expect(result.itemHeight).toBe(1);
+		expect(result.defaultCollapsedSections).toEqual([]);
+	});
+
+	it("requires a key on each section", () => {
+		expect(() =>
+			SectionListPropsSchema.parse({
+				sections: [{ title: "A", data: [] }],
+				renderItem: () => null,
+				height: 5,
+			}),
+		).toThrow();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Drawing and sticky headers
+// ---------------------------------------------------------------------------
+
+describe("SectionList: drawing", () => {
+	it("draws headers with their item counts", () => {
+		const instance = create(list({ height: 9 }), { columns: 20 });
+		const frame = lines(instance.lastFrame());
+		expect(frame[0]).toBe("▾ Staged (3)");
+		expect(frame[1]).toBe("  a.ts");
+		expect(frame[4]).toBe("▾ Unstaged (2)");
+		instance.unmount();
+	});
+
+	it("keeps a section's header at the top while its items scroll past", () => {
+		const instance = create(list(), { columns: 20 });
+		for (let i = 0; i < 5; i++) instance.stdin.write(DOWN);
+		expect(lines(instance.lastFrame())).toEqual([
+			"▾ Staged (3)",
+			"  c.ts",
+			"▾ Unstaged (2)",
+			"> d.ts",
+		]);
+		instance.unmount();
+	});
+
+	it("scrolls an item out from under the sticky header", () => {
+		const instance = create(list(), { columns: 20 });
+		for (let i = 0; i < 5; i++) instance.stdin.write(DOWN);
+		instance.stdin.write(UP);
+		instance.stdin.write(UP);
+		instance.stdin.write(UP);
+		expect(lines(instance.lastFrame())).toEqual([
+			"▾ Staged (3)",
+			"> b.ts",
+			"  c.ts",
+			"▾ Unstaged (2)",
+		]);
+		instance.unmount();
+	});
+
+	it("uses renderSectionHeader", () => {
+		const instance = create(
+			list({
+				renderSectionHeader: (section, state) =>
+					createElement(
+						Text,
+						null,
+						`${section.title}${state.isCollapsed ? "+" : "-"}`,
+					),
+				defaultCollapsedSections: ["staged"],
+			}),
+			{ columns: 20 },
+		);
+		expect(lines(instance.lastFrame())[0]).toBe("Staged+");
+		expect(lines(instance.lastFrame())[1]).toBe("Unstaged-");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Collapsing
+// ---------------------------------------------------------------------------
+
+describe("SectionList: collapsing", () => {
+	it("toggles a section with Enter on its header", () => {
+		const onToggleSection = vi.fn();
+		const instance = create(list({ onToggleSection }), { columns: 20 });
+		instance.stdin.write(ENTER);
+		expect(lines(instance.lastFrame())).toEqual([
+			"▸ Staged (3)",
+			"▾ Unstaged (2)",
+			"  d.ts",
+			"  e.ts",
+		]);
+		expect(onToggleSection).toHaveBeenCalledWith("staged", true);
+		instance.stdin.write(ENTER);
+		expect(lines(instance.lastFrame())[1]).toBe("  a.ts");
+		instance.unmount();
+	});
+
+	it("collapses with Left from an item and expands with Right", () => {
+		const instance = create(list(), { columns: 20 });
+		instance.stdin.write(DOWN);
+		instance.stdin.write(DOWN);
+		instance.stdin.write(LEFT);
+		expect(lines(instance.lastFrame())[0]).toBe("▸ Staged (3)");
+		instance.stdin.write(RIGHT);
+		expect(lines(instance.lastFrame())[1]).toBe("  a.ts");
+		instance.unmount();
+	});
+
+	it("follows collapsedSections when controlled", () => {
+		const onToggleSection = vi.fn();
+		const instance = create(
+			list({ collapsedSections: ["unstaged"], onToggleSection }),
+			{ columns: 20 },
+		);
+		instance.stdin.write(ENTER);
+		expect(onToggleSection).toHaveBeenCalledWith("staged", true);
+		expect(lines(instance.lastFrame())[0]).toBe("▾ Staged (3)");
+
+		instance.rerender(list({ collapsedSections: ["staged", "unstaged"] }));
+		expect(lines(instance.lastFrame()).slice(0, 3)).toEqual([
+			"▸ Staged (3)",
+			"▸ Unstaged (2)",
+			"▾ Untracked (1)",
+		]);
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Selecting items
+// ---------------------------------------------------------------------------
+
+describe("SectionList: items", () => {
+	it("calls onSelect with the item and its section", () => {
+		const onSelect = vi.fn();
+		const instance = create(list({ onSelect }), { columns: 20 });
+		instance.stdin.write(END);
+		instance.stdin.write(ENTER);
+		expect(onSelect).toHaveBeenCalledWith("f.ts", SECTIONS[2]);
+		instance.unmount();
+	});
+
+	it("ignores keys while not focused", () => {
+		const instance = create(list({ autoFocus: false }), { columns: 20 });
+		instance.stdin.write(ENTER);
+		expect(lines(instance.lastFrame())[0]).toBe("▾ Staged (3)");
+		instance.unmount();
+	});
+});
@@ -0,0 +1,242 @@
+import { getChildren } from "blecsd/components";
+import type { Entity, World } from "blecsd/core";
+import { createElement } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import {
+	findTypeaheadMatch,
+	Select,
+	type SelectItem,
+	type SelectProps,
+	TYPEAHEAD_TIMEOUT_MS,
+} from "../components/Select";
+import { Text } from "../components/Text";
+import { getHostNode } from "../host-config";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const plain = (frame: string | undefined): string => stripAnsi(frame ?? "");
+
+const FRUITS: readonly SelectItem<string>[] = [
+	"Apple",
+	"Apricot",
+	"Banana",
+	"Blueberry",
+	"Cherry",
+].map((label) => ({ label, value: label.toLowerCase() }));
+
+const setup = (props: Partial<SelectProps<string>> = {}) => {
+	const onSelect = vi.fn();
+	const instance = create(
+		createElement(Select<string>, {
+			items: FRUITS,
+			onSelect,
+			autoFocus: true,
+			...props,
+		} as SelectProps<string>),
+	);
+	return { instance, onSelect };
+};
+
+// Host props of every box with the given ARIA role, in document order
+const propsWithRole = (
+	world: World,
+	eid: Entity,
+	role: string,
+): Record<string, unknown>[] => {
+	const node = getHostNode(world, eid);
+	const own =
+		node && node.elementType !== "#text" && node.props["aria-role"] === role
+			? [node.props]
+			: [];
+	return [
+		...own,
+		...getChildren(world, eid).flatMap((child) =>
+			propsWithRole(world, child, role),
+		),
+	];
+};
+
+const highlightedLine = (frame: string | undefined): string | undefined =>
+	plain(frame)
+		.split("\n")
+		.find((line) => line.includes("❯"));
+
+const UP = "\x1b[A";
+const DOWN = "\x1b[B";
+const HOME = "\x1b[H";
+const END = "\x1b[F";
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// Navigation
+// ---------------------------------------------------------------------------
+
+describe("Select: navigation", () => {
+	it("highlights the first item", () => {
+		const { instance } = setup();
+		expect(highlightedLine(instance.lastFrame())).toContain("Apple");
+		instance.unmount();
+	});
+
+	it("moves with the arrow keys and wraps around", () => {
+		const { instance } = setup();
+		instance.stdin.write(DOWN);
+		expect(highlightedLine(instance.lastFrame())).toContain("Apricot");
+		instance.stdin.write(UP);
+		instance.stdin.write(UP);
+		expect(highlightedLine(instance.lastFrame())).toContain("Cherry");
+		instance.unmount();
+	});
+
+	it("jumps to the ends with Home and End", () => {
+		const { instance } = setup();
+		instance.stdin.write(END);
+		expect(highlightedLine(instance.lastFrame())).toContain("Cherry");
+		instance.stdin.write(HOME);
+		expect(highlightedLine(instance.lastFrame())).toContain("Apple");
+		instance.unmount();
+	});
+
+	it("selects the highlighted item on Enter", () => {
+		const { instance, onSelect } = setup();
+		instance.stdin.write(DOWN);
+		instance.stdin.write("\r");
+		expect(onSelect).toHaveBeenCalledWith(FRUITS[1]);
+		instance.unmount();
+	});
+
+	it("reports highlight changes", () => {
+		const onHighlight = vi.fn();
+		const { instance } = setup({ onHighlight });
+		instance.stdin.write(DOWN);
+		expect(onHighlight).toHaveBeenCalledWith(FRUITS[1]);
+		instance.unmount();
+	});
+
+	it("ignores keys when unfocused", () => {
+		const { instance, onSelect } = setup({ autoFocus: false });
+		instance.stdin.write(DOWN);
+		instance.stdin.write("\r");
+		expect(onSelect).not.toHaveBeenCalled();
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Type-ahead
+// ---------------------------------------------------------------------------
+
+describe("Select: type-ahead", () => {
+	it("jumps to the first label matching the typed prefix", () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		const { instance } = setup();
+		instance.stdin.write("b");
+		instance.stdin.write("l");
+		expect(highlightedLine(instance.lastFrame())).toContain("Blueberry");
+		instance.unmount();
+	});
+
+	it("cycles through items when a letter repeats", () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		const { instance } = setup();
+		instance.stdin.write("a");
+		expect(highlightedLine(instance.lastFrame())).toContain("Apricot");
+		instance.stdin.write("a");
+		expect(highlightedLine(instance.lastFrame())).toContain("Apple");
+		instance.unmount();
+	});
+
+	it("starts a new search after a pause", () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		const { instance } = setup();
+		instance.stdin.write("b");
+		vi.advanceTimersByTime(TYPEAHEAD_TIMEOUT_MS + 1);
+		instance.stdin.write("c");
+		expect(highlightedLine(instance.lastFrame())).toContain("Cherry");
+		instance.unmount();
+	});
+
+	it("matches case-insensitively and wraps around", () => {
+		expect(findTypeaheadMatch(FRUITS, "CH", 0)).toBe(4);
+		expect(findTypeaheadMatch(FRUITS, "ap", 3)).toBe(0);
+		expect(findTypeaheadMatch(FRUITS, "z", 0)).toBe(-1);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Multiple selection
+// ---------------------------------------------------------------------------
+
+describe("Select: multiple", () => {
+	it("toggles items with Space and submits them on Enter", () => {
+		const { instance, onSelect } = setup({ multiple: true });
+		instance.stdin.write(" ");
+		instance.stdin.write(DOWN);
+		instance.stdin.write(DOWN);
+		instance.stdin.write(" ");
+		expect(plain(instance.lastFrame())).toContain("◉ Banana");
+
+		instance.stdin.write("\r");
+		expect(onSelect).toHaveBeenCalledWith([FRUITS[0], FRUITS[2]]);
+		instance.unmount();
+	});
+
+	it("unchecks a checked item", () => {
+		const { instance, onSelect } = setup({ multiple: true });
+		instance.stdin.write(" ");
+		instance.stdin.write(" ");
+		instance.stdin.write("\r");
+		expect(onSelect).toHaveBeenCalledWith([]);
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+describe("Select: rendering", () => {
+	it("shows at most `limit` rows, scrolling with the highlight", () => {
+		const { instance } = setup({ limit: 2 });
+		expect(plain(instance.lastFrame())).not.toContain("Banana");
+
+		instance.stdin.write(DOWN);
+		instance.stdin.write(DOWN);
+		const frame = plain(instance.lastFrame());
+		expect(frame).toContain("Apricot");
+		expect(frame).toContain("Banana");
+		expect(frame).not.toContain("Apple");
+		instance.unmount();
+	});
+
+	it("uses custom indicator and item components", () => {
+		const { instance } = setup({
+			indicatorComponent: ({ isHighlighted }) =>
+				createElement(Text, null, isHighlighted ? ">" : "-"),
+			itemComponent: ({ label }) => createElement(Text, null, `[${label}]`),
+		});
+		const frame = plain(instance.lastFrame());
+		expect(frame).toContain(">[Apple]");
+		expect(frame).toContain("-[Banana]");
+		instance.unmount();
+	});
+
+	it("exposes menu roles and the selected state", () => {
+		const { instance } = setup();
+		const { world, rootEid } = instance.container;
+		expect(propsWithRole(world, rootEid, "menu")).toHaveLength(1);
+
+		const items = propsWithRole(world, rootEid, "menuitem");
+		expect(items).toHaveLength(FRUITS.length);
+		expect(items[0]?.["aria-state"]).toEqual({ selected: true });
+		expect(items[1]?.["aria-state"]).toEqual({ selected: false });
+		instance.unmount();
+	});
+});
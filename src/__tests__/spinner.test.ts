@@ -0,0 +1,71 @@
+import { createElement } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import { SPINNERS, Spinner, SpinnerPropsSchema } from "../components/Spinner";
+import { AnimationContext } from "../contexts/animation";
+import { create } from "../testing/index";
+
+const plain = (frame: string | undefined): string =>
+	stripAnsi(frame ?? "").trim();
+
+beforeEach(() => {
+	vi.useFakeTimers();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("Spinner", () => {
+	it("defaults to the dots frame set", () => {
+		expect(SpinnerPropsSchema.parse({}).type).toBe("dots");
+		const instance = create(createElement(Spinner));
+		expect(plain(instance.lastFrame())).toBe(SPINNERS.dots.frames[0]);
+		instance.unmount();
+	});
+
+	it("advances a frame per interval", () => {
+		const instance = create(createElement(Spinner, { type: "line" }));
+		vi.advanceTimersByTime(SPINNERS.line.interval * 2 + 40);
+		expect(plain(instance.lastFrame())).toBe(SPINNERS.line.frames[2]);
+		instance.unmount();
+	});
+
+	it("loops back to the first frame", () => {
+		const { interval, frames } = SPINNERS.toggle;
+		const instance = create(createElement(Spinner, { type: "toggle" }));
+		vi.advanceTimersByTime(interval * frames.length + 40);
+		expect(plain(instance.lastFrame())).toBe(frames[0]);
+		instance.unmount();
+	});
+
+	it("holds the first frame without an animation clock", () => {
+		const instance = create(
+			createElement(
+				AnimationContext.Provider,
+				{ value: undefined },
+				createElement(Spinner, { type: "line" }),
+			),
+		);
+		vi.advanceTimersByTime(1000);
+		expect(plain(instance.lastFrame())).toBe(SPINNERS.line.frames[0]);
+		expect(vi.getTimerCount()).toBe(0);
+		instance.unmount();
+	});
+
+	it("shares one timer between spinners and stops it on unmount", () => {
+		const instance = create(
+			createElement(
+				"blecsdui-box",
+				null,
+				createElement(Spinner),
+				createElement(Spinner, { type: "arc" }),
+				createElement(Spinner, { type: "star" }),
+			),
+		);
+		expect(vi.getTimerCount()).toBe(1);
+
+		instance.unmount();
+		expect(vi.getTimerCount()).toBe(0);
+	});
+});
@@ -0,0 +1,313 @@
+import { getChildren, isDirty, markClean } from "blecsd/components";
+import { addEntity, createWorld } from "blecsd/core";
+import { createElement } from "react";
+import { describe, expect, it } from "vitest";
+import { Box } from "../components/Box";
+import { readLayoutComponents } from "../layout/compute-layout";
+import {
+	getBorderEdges,
+	getBorderStyle,
+	getFlexContainer,
+	getFlexItem,
+	getGrid,
+	getMarginEdges,
+	getOverflow,
+	getPaddingEdges,
+	getPositioning,
+	hasStyleComponents,
+	syncStyleComponents,
+} from "../style-components";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helper: create a fresh world + entity
+// ---------------------------------------------------------------------------
+
+const setup = () => {
+	const world = createWorld();
+	const eid = addEntity(world);
+	return { world, eid };
+};
+
+// ---------------------------------------------------------------------------
+// syncStyleComponents
+// ---------------------------------------------------------------------------
+
+describe("syncStyleComponents", () => {
+	it("writes Ink-compatible defaults for an empty style", () => {
+		const { world, eid } = setup();
+		expect(hasStyleComponents(world, eid)).toBe(false);
+
+		expect(syncStyleComponents(world, eid, {})).toBe(true);
+		expect(hasStyleComponents(world, eid)).toBe(true);
+
+		expect(getFlexContainer(eid)).toEqual({
+			flexDirection: "row",
+			flexWrap: "nowrap",
+			justifyContent: "flex-start",
+			alignItems: "stretch",
+			alignContent: "flex-start",
+			columnGap: 0,
+			rowGap: 0,
+		});
+		expect(getFlexItem(eid)).toMatchObject({
+			flexGrow: 0,
+			flexShrink: 1,
+			flexBasis: undefined,
+			alignSelf: undefined,
+			width: undefined,
+			hidden: false,
+		});
+		expect(getBorderStyle(eid)).toBeUndefined();
+		expect(getOverflow(eid)).toEqual({ x: "visible", y: "visible" });
+	});
+
+	it("stores flex container and item styles", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {
+			flexDirection: "column-reverse",
+			flexWrap: "wrap",
+			justifyContent: "space-between",
+			alignItems: "center",
+			alignContent: "space-around",
+			alignSelf: "flex-end",
+			flexGrow: 2,
+			flexShrink: 0,
+			gap: 1,
+			rowGap: 3,
+		});
+
+		expect(getFlexContainer(eid)).toEqual({
+			flexDirection: "column-reverse",
+			flexWrap: "wrap",
+			justifyContent: "space-between",
+			alignItems: "center",
+			alignContent: "space-around",
+			columnGap: 1,
+			rowGap: 3,
+		});
+		expect(getFlexItem(eid)).toMatchObject({
+			flexGrow: 2,
+			flexShrink: 0,
+			alignSelf: "flex-end",
+		});
+	});
+
+	it("round-trips cell and percentage dimensions", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {
+			width: 12,
+			height: "50%",
+			flexBasis: "25%",
+			minWidth: 4,
+		});
+
+		expect(getFlexItem(eid)).toMatchObject({
+			width: 12,
+			height: "50%",
+			flexBasis: "25%",
+			minWidth: 4,
+			minHeight: 0,
+		});
+	});
+
+	it("stores max sizes, aspectRatio and content-sized widths", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {
+			width: "fit-content",
+			maxWidth: 40,
+			maxHeight: "50%",
+			aspectRatio: 2,
+		});
+
+		expect(getFlexItem(eid)).toMatchObject({
+			width: "fit-content",
+			height: undefined,
+			maxWidth: 40,
+			maxHeight: "50%",
+			aspectRatio: 2,
+		});
+
+		syncStyleComponents(world, eid, { width: 10 });
+		expect(getFlexItem(eid)).toMatchObject({
+			width: 10,
+			maxWidth: undefined,
+			aspectRatio: undefined,
+		});
+	});
+
+	it("expands spacing shorthands", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, { paddingX: 2, margin: 1, marginTop: 3 });
+
+		expect(getPaddingEdges(eid)).toEqual({
+			top: 0,
+			right: 2,
+			bottom: 0,
+			left: 2,
+		});
+		expect(getMarginEdges(eid)).toEqual({
+			top: 3,
+			right: 1,
+			bottom: 1,
+			left: 1,
+		});
+	});
+
+	it("stores border style and edges", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {
+			borderStyle: "round",
+			borderLeft: false,
+		});
+
+		expect(getBorderStyle(eid)).toBe("round");
+		expect(getBorderEdges(eid)).toEqual({
+			top: 1,
+			right: 1,
+			bottom: 1,
+			left: 0,
+		});
+	});
+
+	it("lets overflowX/overflowY override overflow", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {
+			overflow: "hidden",
+			overflowY: "visible",
+		});
+
+		expect(getOverflow(eid)).toEqual({ x: "hidden", y: "visible" });
+	});
+
+	it("stores position offsets in cells or percentages, and zIndex", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {
+			position: "absolute",
+			top: -1,
+			right: "25%",
+			zIndex: -2,
+		});
+
+		expect(getPositioning(eid)).toEqual({
+			positioned: true,
+			top: -1,
+			right: "25%",
+			bottom: undefined,
+			left: undefined,
+			zIndex: -2,
+		});
+
+		syncStyleComponents(world, eid, {}, ["position", "top", "right", "zIndex"]);
+		expect(getPositioning(eid)).toMatchObject({
+			positioned: false,
+			top: undefined,
+			zIndex: undefined,
+		});
+	});
+
+	it("stores grid tracks and placements", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {
+			display: "grid",
+			gridTemplateColumns: "10 1fr",
+			gridColumn: "2 / span 2",
+		});
+
+		expect(getGrid(eid)).toEqual({
+			isGrid: true,
+			columns: [
+				{ kind: "fixed", size: 10 },
+				{ kind: "fr", fr: 1 },
+			],
+			rows: [],
+			column: { start: 2, span: 2 },
+			row: { start: undefined, span: 1 },
+		});
+
+		syncStyleComponents(world, eid, {}, ["display", "gridTemplateColumns"]);
+		expect(getGrid(eid)).toMatchObject({ isGrid: false, columns: [] });
+	});
+
+	it("only rewrites the groups touched by changed keys", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, { padding: 1, flexGrow: 1 });
+
+		// flexGrow is not listed as changed, so the item group keeps its value
+		syncStyleComponents(world, eid, { padding: 2, flexGrow: 5 }, ["padding"]);
+		expect(getPaddingEdges(eid).top).toBe(2);
+		expect(getFlexItem(eid).flexGrow).toBe(1);
+	});
+
+	it("reports no change for keys outside every group", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {});
+
+		expect(syncStyleComponents(world, eid, {}, ["aria-label"])).toBe(false);
+		expect(syncStyleComponents(world, eid, {}, ["borderStyle"])).toBe(true);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// readLayoutComponents
+// ---------------------------------------------------------------------------
+
+describe("readLayoutComponents", () => {
+	it("falls back to defaults for entities without style components", () => {
+		const { world, eid } = setup();
+		const style = readLayoutComponents(world, eid);
+		expect(style.flexDirection).toBe("row");
+		expect(style.padding).toEqual({ top: 0, right: 0, bottom: 0, left: 0 });
+	});
+
+	it("converts stored components into a layout style", () => {
+		const { world, eid } = setup();
+		syncStyleComponents(world, eid, {
+			flexDirection: "column",
+			borderStyle: "single",
+			display: "none",
+			position: "absolute",
+		});
+
+		const style = readLayoutComponents(world, eid);
+		expect(style.flexDirection).toBe("column");
+		expect(style.border).toEqual({ top: 1, right: 1, bottom: 1, left: 1 });
+		expect(style.hidden).toBe(true);
+		expect(style.absolute).toBe(true);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Reconciler integration
+// ---------------------------------------------------------------------------
+
+describe("Box style components", () => {
+	it("are filled on create and updated on rerender", () => {
+		const instance = create(createElement(Box, { flexDirection: "column" }));
+		const { world, rootEid } = instance.container;
+		const [box] = getChildren(world, rootEid);
+
+		expect(getFlexContainer(box).flexDirection).toBe("column");
+
+		instance.rerender(createElement(Box, { paddingLeft: 3 }));
+		expect(getFlexContainer(box).flexDirection).toBe("row");
+		expect(getPaddingEdges(box).left).toBe(3);
+
+		instance.unmount();
+	});
+
+	it("marks a box dirty only when a style prop changes", () => {
+		const instance = create(createElement(Box, { "aria-label": "a" }));
+		const { world, rootEid } = instance.container;
+		const [box] = getChildren(world, rootEid);
+
+		markClean(world, box);
+		instance.rerender(createElement(Box, { "aria-label": "b" }));
+		expect(isDirty(world, box)).toBe(false);
+
+		instance.rerender(createElement(Box, { "aria-label": "b", margin: 1 }));
+		expect(isDirty(world, box)).toBe(true);
+
+		instance.unmount();
+	});
+});
@@ -1,13 +1,17 @@
 import { describe, expect, it } from "vitest";
 import {
+	AlignContentSchema,
 	AlignItemsSchema,
 	AlignSelfSchema,
 	BorderStyleSchema,
 	DisplaySchema,
 	FlexDirectionSchema,
 	FlexWrapSchema,
+	GridPlacementSchema,
+	GridTemplateSchema,
 	JustifyContentSchema,
 	OverflowSchema,
+	PositionOffsetSchema,
 	PositionSchema,
 	parseStyles,
 	type Styles,
@@ -128,22 +132,48 @@ describe("AlignItemsSchema", () => {
 		"center",
 		"flex-end",
 		"stretch",
+		"baseline",
 	])("accepts '%s'", (v) => {
 		expect(AlignItemsSchema.parse(v)).toBe(v);
 	});
 
 	it("rejects invalid values", () => {
-		expect(() => AlignItemsSchema.parse("baseline")).toThrow();
+		expect(() => AlignItemsSchema.parse("auto")).toThrow();
 	});
 });
 
 describe("AlignSelfSchema", () => {
-	it.each(["auto", "flex-start", "center", "flex-end"])("accepts '%s'", (v) => {
+	it.each([
+		"auto",
+		"flex-start",
+		"center",
+		"flex-end",
+		"stretch",
+		"baseline",
+	])("accepts '%s'", (v) => {
 		expect(AlignSelfSchema.parse(v)).toBe(v);
 	});
 
 	it("rejects invalid values", () => {
-		expect(() => AlignSelfSchema.parse("stretch")).toThrow();
+		expect(() => AlignSelfSchema.parse("space-between")).toThrow();
+	});
+});
+
+describe("AlignContentSchema", () => {
+	it.each([
+		"flex-start",
+		"center",
+		"flex-end",
+		"space-between",
+		"space-around",
+		"space-evenly",
+		"stretch",
+	])("accepts '%s'", (v) => {
+		expect(AlignContentSchema.parse(v)).toBe(v);
+	});
+
+	it("rejects invalid values", () => {
+		expect(() => AlignContentSchema.parse("baseline")).toThrow();
 	});
 });
 
@@ -178,8 +208,18 @@ describe("PositionSchema", () => {
 	});
 });
 
+describe("PositionOffsetSchema", () => {
+	it.each([0, -2, 5, "50%", "-10%"])("accepts %s", (v) => {
+		expect(PositionOffsetSchema.parse(v)).toBe(v);
+	});
+
+	it.each([1.5, "5", "auto"])("rejects %s", (v) => {
+		expect(() => PositionOffsetSchema.parse(v)).toThrow();
+	});
+});
+
 describe("DisplaySchema", () => {
-	it.each(["flex", "none"])("accepts '%s'", (v) => {
+	it.each(["flex", "grid", "none"])("accepts '%s'", (v) => {
 		expect(DisplaySchema.parse(v)).toBe(v);
 	});
 
@@ -188,13 +228,44 @@ describe("DisplaySchema", () => {
 	});
 });
 
+describe("GridTemplateSchema", () => {
+	it.each([
+		"10 1fr auto",
+		"1.5fr 2fr",
+		[4, "1fr", "auto"],
+	])("accepts %j", (v) => {
+		expect(GridTemplateSchema.parse(v)).toEqual(v);
+	});
+
+	it.each(["", "10px 1fr", "1fr,2fr", [-1], ["1em"]])("rejects %j", (v) => {
+		expect(() => GridTemplateSchema.parse(v)).toThrow();
+	});
+});
+
+describe("GridPlacementSchema", () => {
+	it.each([
+		1,
+		"2",
+		"span 2",
+		"1 / 3",
+		"1 / span 2",
+		"span 2 / 4",
+	])("accepts %j", (v) => {
+		expect(GridPlacementSchema.parse(v)).toBe(v);
+	});
+
+	it.each([0, 1.5, "auto", "1 /", "span"])("rejects %j", (v) => {
+		expect(() => GridPlacementSchema.parse(v)).toThrow();
+	});
+});
+
 describe("OverflowSchema", () => {
-	it.each(["visible", "hidden"])("accepts '%s'", (v) => {
+	it.each(["visible", "hidden", "scroll"])("accepts '%s'", (v) => {
 		expect(OverflowSchema.parse(v)).toBe(v);
 	});
 
 	it("rejects invalid values", () => {
-		expect(() => OverflowSchema.parse("scroll")).toThrow();
+		expect(() => OverflowSchema.parse("auto")).toThrow();
 	});
 });
 
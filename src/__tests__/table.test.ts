@@ -0,0 +1,132 @@
+import { createElement, type ReactNode } from "react";
+import { describe, expect, it } from "vitest";
+import { stripAnsi } from "../color";
+import { Box } from "../components/Box";
+import {
+	formatCell,
+	resolveColumnWidths,
+	Table,
+	type TableColumn,
+	type TableProps,
+} from "../components/Table";
+import { create } from "../testing/index";
+
+const plain = (frame: string | undefined): string[] =>
+	stripAnsi(frame ?? "").split("\n");
+
+type Fruit = { readonly name: string; readonly count: number };
+
+const FRUITS: readonly Fruit[] = [
+	{ name: "Apple", count: 3 },
+	{ name: "Blueberry", count: 120 },
+];
+
+const COLUMNS: readonly TableColumn<Fruit>[] = [
+	{ key: "name", header: "Name" },
+	{ key: "count", header: "Qty", width: 7, align: "right" },
+];
+
+const Harness = (props: Partial<TableProps<Fruit>>): ReactNode =>
+	createElement(
+		Box,
+		{ width: 20 },
+		createElement(Table<Fruit>, { data: FRUITS, columns: COLUMNS, ...props }),
+	);
+
+// ---------------------------------------------------------------------------
+// Column sizing
+// ---------------------------------------------------------------------------
+
+describe("resolveColumnWidths", () => {
+	it("sizes fixed and percentage columns, then flexible ones", () => {
+		expect(
+			resolveColumnWidths([{ width: 5 }, { width: "25%" }, {}], 20),
+		).toEqual([5, 5, 10]);
+	});
+
+	it("splits the leftover by flex weight, leftmost first", () => {
+		expect(resolveColumnWidths([{ flex: 1 }, { flex: 2 }], 10)).toEqual([4, 6]);
+		expect(resolveColumnWidths([{}, {}, {}], 10)).toEqual([4, 3, 3]);
+	});
+
+	it("cuts columns down from the right when they do not fit", () => {
+		expect(resolveColumnWidths([{ width: 8 }, { width: 8 }, {}], 10)).toEqual([
+			8, 2, 0,
+		]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Cell formatting
+// ---------------------------------------------------------------------------
+
+describe("formatCell", () => {
+	it("pads according to the alignment", () => {
+		expect(formatCell("ab", 6)).toBe("ab    ");
+		expect(formatCell("ab", 6, "right")).toBe("    ab");
+		expect(formatCell("ab", 7, "center")).toBe("  ab   ");
+	});
+
+	it("truncates text that does not fit", () => {
+		expect(formatCell("abcdefghij", 6)).toBe("abc...");
+		expect(formatCell("abcdefghij", 6, "left", "truncate-start")).toBe(
+			"...hij",
+		);
+	});
+
+	it("keeps a cell on one line", () => {
+		expect(formatCell("a\nb", 4)).toBe("a b ");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+describe("Table", () => {
+	it("draws a bordered table with a header rule", () => {
+		const instance = create(createElement(Harness));
+		expect(plain(instance.lastFrame())).toEqual([
+			"┌──────────┬───────┐",
+			"│ Name     │   Qty │",
+			"├──────────┼───────┤",
+			"│ Apple    │     3 │",
+			"│ Blueb... │   120 │",
+			"└──────────┴───────┘",
+		]);
+		instance.unmount();
+	});
+
+	it("separates body rows on request", () => {
+		const instance = create(createElement(Harness, { rowSeparators: true }));
+		const lines = plain(instance.lastFrame());
+		expect(lines.filter((line) => line.startsWith("├"))).toHaveLength(2);
+		instance.unmount();
+	});
+
+	it("uses the junctions of the border style", () => {
+		const instance = create(
+			createElement(Harness, { borderStyle: "double", showHeader: false }),
+		);
+		const lines = plain(instance.lastFrame());
+		expect(lines[0]).toMatch(/^╔═+╦═+╗$/);
+		expect(lines.at(-1)).toMatch(/^╚═+╩═+╝$/);
+		instance.unmount();
+	});
+
+	it("renders cells with a custom renderer", () => {
+		const instance = create(
+			createElement(Harness, {
+				columns: [
+					{ key: "name" },
+					{ key: "stock", render: (row) => (row.count > 10 ? "many" : "few") },
+				],
+			}),
+		);
+		const lines = plain(instance.lastFrame());
+		// 17 cells inside the borders; the odd one goes to the left column
+		expect(lines[1]).toBe("│ name    │ stock  │");
+		expect(lines[3]).toBe("│ Apple   │ few    │");
+		instance.unmount();
+	});
+});
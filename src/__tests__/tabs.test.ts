@@ -0,0 +1,192 @@
+import { getChildren } from "blecsd/components";
+import type { Entity, World } from "blecsd/core";
+import { createElement, type ReactNode, useEffect } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import { Tab, TabPanel, Tabs, type TabsProps } from "../components/Tabs";
+import { Text } from "../components/Text";
+import { useFocus } from "../hooks/use-focus";
+import { getHostNode } from "../host-config";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const plain = (frame: string | undefined): string => stripAnsi(frame ?? "");
+
+// Shows whether it holds focus, and counts its mounts
+const Field = ({
+	id,
+	onMount,
+}: {
+	readonly id: string;
+	readonly onMount?: () => void;
+}): ReactNode => {
+	const { isFocused } = useFocus({ id });
+	useEffect(() => {
+		onMount?.();
+	}, [onMount]);
+	return createElement(Text, null, `${id}:${isFocused ? "focused" : "idle"}`);
+};
+
+const renderTabs = (
+	props: Partial<TabsProps> = {},
+	onMount: { alpha?: () => void; beta?: () => void } = {},
+) =>
+	create(
+		createElement(
+			Tabs,
+			{ autoFocus: true, ...props },
+			createElement(Tab, { value: "alpha" }, "Alpha"),
+			createElement(Tab, { value: "beta" }, "Beta"),
+			createElement(Tab, { value: "gamma", isDisabled: true }, "Gamma"),
+			createElement(
+				TabPanel,
+				{ value: "alpha" },
+				createElement(Field, { id: "alpha-field", onMount: onMount.alpha }),
+			),
+			createElement(
+				TabPanel,
+				{ value: "beta" },
+				createElement(Field, { id: "beta-field", onMount: onMount.beta }),
+			),
+		),
+	);
+
+// Host props of every box with the given ARIA role, in document order
+const propsWithRole = (
+	world: World,
+	eid: Entity,
+	role: string,
+): Record<string, unknown>[] => {
+	const node = getHostNode(world, eid);
+	const own =
+		node && node.elementType !== "#text" && node.props["aria-role"] === role
+			? [node.props]
+			: [];
+	return [
+		...own,
+		...getChildren(world, eid).flatMap((child) =>
+			propsWithRole(world, child, role),
+		),
+	];
+};
+
+const LEFT = "\x1b[D";
+const RIGHT = "\x1b[C";
+const DOWN = "\x1b[B";
+// Ctrl+2 in the kitty keyboard protocol
+const CTRL_2 = "\x1b[50;5u";
+
+// ---------------------------------------------------------------------------
+// Switching
+// ---------------------------------------------------------------------------
+
+describe("Tabs: switching", () => {
+	it("shows the first tab's panel", () => {
+		const instance = renderTabs();
+		const frame = plain(instance.lastFrame());
+		expect(frame).toContain("Alpha");
+		expect(frame).toContain("alpha-field:idle");
+		expect(frame).not.toContain("beta-field");
+		instance.unmount();
+	});
+
+	it("switches with Left and Right, skipping disabled tabs", () => {
+		const onChange = vi.fn();
+		const instance = renderTabs({ onChange });
+		instance.stdin.write(RIGHT);
+		expect(plain(instance.lastFrame())).toContain("beta-field");
+		instance.stdin.write(RIGHT);
+		expect(plain(instance.lastFrame())).toContain("alpha-field");
+		instance.stdin.write(LEFT);
+		expect(onChange.mock.calls.map(([value]) => value)).toEqual([
+			"beta",
+			"alpha",
+			"beta",
+		]);
+		instance.unmount();
+	});
+
+	it("ignores arrows when the tab list is not focused", () => {
+		const instance = renderTabs({ autoFocus: false });
+		instance.stdin.write(RIGHT);
+		expect(plain(instance.lastFrame())).toContain("alpha-field");
+		instance.unmount();
+	});
+
+	it("follows a controlled value", () => {
+		const onChange = vi.fn();
+		const instance = renderTabs({ value: "beta", onChange });
+		instance.stdin.write(RIGHT);
+		expect(onChange).toHaveBeenCalledWith("alpha");
+		expect(plain(instance.lastFrame())).toContain("beta-field");
+		instance.unmount();
+	});
+
+	it("exposes tab and tabpanel roles", () => {
+		const instance = renderTabs();
+		const { world, rootEid } = instance.container;
+		const tabs = propsWithRole(world, rootEid, "tab");
+		expect(tabs.map((props) => props["aria-label"])).toEqual([
+			"Alpha",
+			"Beta",
+			"Gamma",
+		]);
+		expect(tabs[0]?.["aria-state"]).toEqual({
+			selected: true,
+			disabled: false,
+		});
+		expect(propsWithRole(world, rootEid, "tabpanel")).toHaveLength(1);
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Activation and focus
+// ---------------------------------------------------------------------------
+
+describe("Tabs: activation", () => {
+	it("moves focus into the panel on Down", () => {
+		const instance = renderTabs();
+		instance.stdin.write(DOWN);
+		expect(plain(instance.lastFrame())).toContain("alpha-field:focused");
+		instance.unmount();
+	});
+
+	it("jumps to a tab with Ctrl+digit and focuses its panel", () => {
+		const instance = renderTabs({ autoFocus: false });
+		instance.stdin.write(CTRL_2);
+		expect(plain(instance.lastFrame())).toContain("beta-field:focused");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Mounting
+// ---------------------------------------------------------------------------
+
+describe("Tabs: panel mounting", () => {
+	it("mounts panels lazily and unmounts them when hidden", () => {
+		const beta = vi.fn();
+		const instance = renderTabs({}, { beta });
+		expect(beta).not.toHaveBeenCalled();
+		instance.stdin.write(RIGHT);
+		instance.stdin.write(LEFT);
+		instance.stdin.write(RIGHT);
+		expect(beta).toHaveBeenCalledTimes(2);
+		instance.unmount();
+	});
+
+	it("keeps visited panels mounted and hidden with keepMounted", () => {
+		const beta = vi.fn();
+		const instance = renderTabs({ keepMounted: true }, { beta });
+		instance.stdin.write(RIGHT);
+		instance.stdin.write(LEFT);
+		expect(plain(instance.lastFrame())).not.toContain("beta-field");
+		instance.stdin.write(RIGHT);
+		expect(beta).toHaveBeenCalledTimes(1);
+		instance.unmount();
+	});
+});
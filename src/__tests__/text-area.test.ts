@@ -0,0 +1,206 @@
+import { createElement, useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import { Box } from "../components/Box";
+import { TextArea, type TextAreaProps } from "../components/TextArea";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const plain = (frame: string | undefined): string => stripAnsi(frame ?? "");
+
+const rowsOf = (frame: string | undefined): string[] =>
+	plain(frame)
+		.split("\n")
+		.map((row) => row.trimEnd());
+
+type HarnessProps = Omit<TextAreaProps, "value" | "onChange"> & {
+	readonly initialValue?: string;
+	readonly onValue?: (value: string) => void;
+	readonly width?: number;
+};
+
+const Harness = ({
+	initialValue = "",
+	onValue,
+	width = 10,
+	...props
+}: HarnessProps) => {
+	const [value, setValue] = useState(initialValue);
+	return createElement(
+		Box,
+		{ width, flexDirection: "column" },
+		createElement(TextArea, {
+			autoFocus: true,
+			...props,
+			value,
+			onChange: (next: string) => {
+				setValue(next);
+				onValue?.(next);
+			},
+		}),
+	);
+};
+
+const setup = (props: HarnessProps = {}) => {
+	const onValue = vi.fn();
+	const instance = create(createElement(Harness, { onValue, ...props }));
+	const lastValue = (): string | undefined => onValue.mock.lastCall?.[0];
+	return { instance, onValue, lastValue };
+};
+
+const UP = "\x1b[A";
+const DOWN = "\x1b[B";
+const CTRL_Z = "\x1a";
+const CTRL_Y = "\x19";
+
+// ---------------------------------------------------------------------------
+// Editing
+// ---------------------------------------------------------------------------
+
+describe("TextArea: editing", () => {
+	it("inserts typed text", () => {
+		const { instance, lastValue } = setup();
+		instance.stdin.write("hi");
+		expect(lastValue()).toBe("hi");
+		instance.unmount();
+	});
+
+	it("inserts a line break on Enter", () => {
+		const { instance, lastValue } = setup({ initialValue: "a" });
+		instance.stdin.write("\r");
+		instance.stdin.write("b");
+		expect(lastValue()).toBe("a\nb");
+		expect(rowsOf(instance.lastFrame()).slice(0, 2)).toEqual(["a", "b"]);
+		instance.unmount();
+	});
+
+	it("keeps the line breaks of a paste", () => {
+		const { instance, lastValue } = setup();
+		instance.stdin.write("\x1b[200~one\r\ntwo\x1b[201~");
+		expect(lastValue()).toBe("one\ntwo");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Soft wrapping and navigation
+// ---------------------------------------------------------------------------
+
+describe("TextArea: soft wrapping", () => {
+	it("wraps at the laid-out width", () => {
+		const { instance } = setup({ initialValue: "hello world", width: 6 });
+		expect(rowsOf(instance.lastFrame()).slice(0, 2)).toEqual([
+			"hello",
+			"world",
+		]);
+		instance.unmount();
+	});
+
+	it("moves up and down by visual row", () => {
+		const { instance, lastValue } = setup({
+			initialValue: "hello world",
+			width: 6,
+		});
+		instance.stdin.write(UP);
+		instance.stdin.write("X");
+		expect(lastValue()).toBe("helloX world");
+
+		instance.stdin.write(DOWN);
+		instance.stdin.write("!");
+		expect(lastValue()).toBe("helloX world!");
+		instance.unmount();
+	});
+
+	it("keeps the goal column across shorter rows", () => {
+		const { instance, lastValue } = setup({ initialValue: "abcd\nx\nabcd" });
+		instance.stdin.write(UP);
+		instance.stdin.write(UP);
+		instance.stdin.write("!");
+		expect(lastValue()).toBe("abcd!\nx\nabcd");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Scrolling
+// ---------------------------------------------------------------------------
+
+describe("TextArea: scrolling", () => {
+	it("shows only as many rows as its height, following the cursor", () => {
+		const { instance } = setup({ initialValue: "1\n2\n3\n4", height: 2 });
+		expect(rowsOf(instance.lastFrame()).slice(0, 2)).toEqual(["3", "4"]);
+
+		instance.stdin.write(UP);
+		instance.stdin.write(UP);
+		expect(rowsOf(instance.lastFrame()).slice(0, 2)).toEqual(["2", "3"]);
+		instance.unmount();
+	});
+
+	it("pages by the visible height", () => {
+		const { instance, lastValue } = setup({
+			initialValue: "1\n2\n3\n4\n5",
+			height: 2,
+		});
+		instance.stdin.write("\x1b[5~");
+		instance.stdin.write("!");
+		expect(lastValue()).toBe("1\n2\n3!\n4\n5");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Undo / redo
+// ---------------------------------------------------------------------------
+
+describe("TextArea: undo and redo", () => {
+	it("undoes a typing run in one step", () => {
+		const { instance, lastValue } = setup({ initialValue: "a" });
+		instance.stdin.write("b");
+		instance.stdin.write("c");
+		instance.stdin.write(CTRL_Z);
+		expect(lastValue()).toBe("a");
+		instance.unmount();
+	});
+
+	it("splits runs at cursor movement", () => {
+		const { instance, lastValue } = setup();
+		instance.stdin.write("ab");
+		instance.stdin.write("\x1b[D");
+		instance.stdin.write("x");
+		instance.stdin.write(CTRL_Z);
+		expect(lastValue()).toBe("ab");
+		instance.unmount();
+	});
+
+	it("redoes an undone edit", () => {
+		const { instance, lastValue } = setup();
+		instance.stdin.write("ab");
+		instance.stdin.write(CTRL_Z);
+		expect(lastValue()).toBe("");
+		instance.stdin.write(CTRL_Y);
+		expect(lastValue()).toBe("ab");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+describe("TextArea: rendering", () => {
+	it("shows the placeholder when empty", () => {
+		const { instance } = setup({ placeholder: "Message" });
+		expect(plain(instance.lastFrame())).toContain("Message");
+		instance.unmount();
+	});
+
+	it("ignores keys when unfocused", () => {
+		const { instance, onValue } = setup({ autoFocus: false });
+		instance.stdin.write("x");
+		expect(onValue).not.toHaveBeenCalled();
+		instance.unmount();
+	});
+});
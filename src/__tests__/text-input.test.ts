@@ -0,0 +1,217 @@
+import { createElement, useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { stripAnsi } from "../color";
+import { TextInput, type TextInputProps } from "../components/TextInput";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const plain = (frame: string | undefined): string => stripAnsi(frame ?? "");
+
+type HarnessProps = Omit<TextInputProps, "value" | "onChange"> & {
+	readonly initialValue?: string;
+	readonly onValue?: (value: string) => void;
+};
+
+const Harness = ({ initialValue = "", onValue, ...props }: HarnessProps) => {
+	const [value, setValue] = useState(initialValue);
+	return createElement(TextInput, {
+		autoFocus: true,
+		...props,
+		value,
+		onChange: (next: string) => {
+			setValue(next);
+			onValue?.(next);
+		},
+	});
+};
+
+const setup = (props: HarnessProps = {}) => {
+	const onValue = vi.fn();
+	const instance = create(createElement(Harness, { onValue, ...props }));
+	const lastValue = (): string | undefined => onValue.mock.lastCall?.[0];
+	return { instance, onValue, lastValue };
+};
+
+// ---------------------------------------------------------------------------
+// Typing
+// ---------------------------------------------------------------------------
+
+describe("TextInput: typing", () => {
+	it("inserts typed characters", () => {
+		const { instance, lastValue } = setup();
+		instance.stdin.write("h");
+		instance.stdin.write("i");
+		expect(lastValue()).toBe("hi");
+		expect(plain(instance.lastFrame())).toContain("hi");
+		instance.unmount();
+	});
+});
+
+describe("TextInput: typing and editing", () => {
+	it("types several keys from one chunk", () => {
+		const { instance, lastValue } = setup();
+		instance.stdin.write("abc");
+		expect(lastValue()).toBe("abc");
+		instance.unmount();
+	});
+
+	it("inserts spaces", () => {
+		const { instance, lastValue } = setup({ initialValue: "a" });
+		instance.stdin.write(" ");
+		instance.stdin.write("b");
+		expect(lastValue()).toBe("a b");
+		instance.unmount();
+	});
+
+	it("inserts at the cursor after moving left", () => {
+		const { instance, lastValue } = setup({ initialValue: "ac" });
+		instance.stdin.write("\x1b[D");
+		instance.stdin.write("b");
+		expect(lastValue()).toBe("abc");
+		instance.unmount();
+	});
+
+	it("jumps to start and end with Home/End", () => {
+		const { instance, lastValue } = setup({ initialValue: "bc" });
+		instance.stdin.write("\x1b[H");
+		instance.stdin.write("a");
+		instance.stdin.write("\x1b[F");
+		instance.stdin.write("d");
+		expect(lastValue()).toBe("abcd");
+		instance.unmount();
+	});
+
+	it("jumps by words with Ctrl+Left", () => {
+		const { instance, lastValue } = setup({ initialValue: "one two" });
+		instance.stdin.write("\x1b[1;5D");
+		instance.stdin.write("X");
+		expect(lastValue()).toBe("one Xtwo");
+		instance.unmount();
+	});
+
+	it("jumps by words with Alt+Right", () => {
+		const { instance, lastValue } = setup({ initialValue: "one two" });
+		instance.stdin.write("\x1b[H");
+		instance.stdin.write("\x1b[1;3C");
+		instance.stdin.write("!");
+		expect(lastValue()).toBe("one! two");
+		instance.unmount();
+	});
+
+	it("deletes backward and forward", () => {
+		const { instance, lastValue } = setup({ initialValue: "abc" });
+		instance.stdin.write("\x7f");
+		expect(lastValue()).toBe("ab");
+		instance.stdin.write("\x1b[H");
+		instance.stdin.write("\x1b[3~");
+		expect(lastValue()).toBe("b");
+		instance.unmount();
+	});
+
+	it("clears with Ctrl+U, Ctrl+K and Ctrl+W", () => {
+		const { instance, lastValue } = setup({ initialValue: "foo bar baz" });
+		instance.stdin.write("\x17");
+		expect(lastValue()).toBe("foo bar ");
+
+		instance.stdin.write("\x1b[1;5D");
+		instance.stdin.write("\x0b");
+		expect(lastValue()).toBe("foo ");
+
+		instance.stdin.write("\x15");
+		expect(lastValue()).toBe("");
+		instance.unmount();
+	});
+
+	it("deletes a whole emoji or CJK grapheme", () => {
+		const { instance, lastValue } = setup({ initialValue: "a👨‍👩‍👧中" });
+		instance.stdin.write("\x7f");
+		expect(lastValue()).toBe("a👨‍👩‍👧");
+		instance.stdin.write("\x7f");
+		expect(lastValue()).toBe("a");
+		instance.unmount();
+	});
+
+	it("keeps a multi-line paste on one line", () => {
+		const { instance, lastValue } = setup();
+		instance.stdin.write("\x1b[200~one\ntwo\x1b[201~");
+		expect(lastValue()).toBe("one two");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Submitting
+// ---------------------------------------------------------------------------
+
+describe("TextInput: submit", () => {
+	it("calls onSubmit with the value on Enter", () => {
+		const onSubmit = vi.fn();
+		const { instance } = setup({ initialValue: "hello", onSubmit });
+		instance.stdin.write("\r");
+		expect(onSubmit).toHaveBeenCalledWith("hello");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+describe("TextInput: rendering", () => {
+	it("draws the cursor in inverse video when focused", () => {
+		const { instance } = setup({ initialValue: "ab" });
+		// Cursor sits past the end: an inverse space
+		expect(instance.lastFrame()).toContain("ab\x1b[7m ");
+		instance.unmount();
+	});
+
+	it("highlights the grapheme under the cursor", () => {
+		const { instance } = setup({ initialValue: "中x" });
+		instance.stdin.write("\x1b[D");
+		instance.stdin.write("\x1b[D");
+		expect(instance.lastFrame()).toContain("\x1b[7m中");
+		instance.unmount();
+	});
+
+	it("draws no cursor when unfocused", () => {
+		const { instance } = setup({ initialValue: "ab", autoFocus: false });
+		expect(instance.lastFrame()).not.toContain("\x1b[7m");
+		expect(plain(instance.lastFrame())).toContain("ab");
+		instance.unmount();
+	});
+
+	it("ignores keys when unfocused", () => {
+		const { instance, onValue } = setup({ autoFocus: false });
+		instance.stdin.write("x");
+		expect(onValue).not.toHaveBeenCalled();
+		instance.unmount();
+	});
+
+	it("gains focus with Tab", () => {
+		const { instance, lastValue } = setup({ autoFocus: false });
+		instance.stdin.write("\t");
+		instance.stdin.write("x");
+		expect(lastValue()).toBe("x");
+		instance.unmount();
+	});
+
+	it("shows the placeholder when empty", () => {
+		const { instance } = setup({ placeholder: "Name", autoFocus: false });
+		expect(plain(instance.lastFrame())).toContain("Name");
+		instance.unmount();
+	});
+
+	it("masks the value", () => {
+		const { instance } = setup({
+			initialValue: "secret",
+			mask: "*",
+			autoFocus: false,
+		});
+		expect(plain(instance.lastFrame())).toContain("******");
+		expect(plain(instance.lastFrame())).not.toContain("secret");
+		instance.unmount();
+	});
+});
@@ -228,3 +228,23 @@ describe("createRenderThrottle", () => {
 		throttle.destroy();
 	});
 });
+
+describe("createRenderThrottle animation clock", () => {
+	it("ticks at the frame interval", () => {
+		const throttle = createRenderThrottle(defaultConfig, vi.fn());
+		const listener = vi.fn();
+		throttle.clock.subscribe(listener);
+
+		vi.advanceTimersByTime(34);
+		expect(listener).toHaveBeenCalledTimes(1);
+
+		throttle.destroy();
+	});
+
+	it("stops the clock on destroy", () => {
+		const throttle = createRenderThrottle(defaultConfig, vi.fn());
+		throttle.clock.subscribe(() => {});
+		throttle.destroy();
+		expect(throttle.clock.isRunning()).toBe(false);
+	});
+});
@@ -173,6 +173,60 @@ describe("useInput", () => {
 		expect(handler).toHaveBeenCalled();
 	});
 
+	it("ignores SGR mouse reports", () => {
+		const handler: InputHandler = vi.fn();
+		const ctx = createStdinContext();
+
+		renderHook(() => useInput(handler), createWrapper(ctx));
+
+		ctx.internal_eventEmitter.emit("input", "\x1b[<0;5;3M");
+		expect(handler).not.toHaveBeenCalled();
+
+		ctx.internal_eventEmitter.emit("input", "\x1b[<0;5;3mq");
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler).toHaveBeenCalledWith("q", expect.anything());
+	});
+
+	it("skips key releases unless includeReleases is set", () => {
+		const handler: InputHandler = vi.fn();
+		const ctx = createStdinContext();
+
+		renderHook(() => useInput(handler), createWrapper(ctx));
+		ctx.internal_eventEmitter.emit("input", "\x1b[97u\x1b[97;1:3u");
+
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler).toHaveBeenCalledWith(
+			"a",
+			expect.objectContaining({ eventType: "press" }),
+		);
+	});
+
+	it("delivers key releases with includeReleases", () => {
+		const handler: InputHandler = vi.fn();
+		const ctx = createStdinContext();
+
+		renderHook(
+			() => useInput(handler, { includeReleases: true }),
+			createWrapper(ctx),
+		);
+		ctx.internal_eventEmitter.emit("input", "\x1b[97;1:3u");
+
+		expect(handler).toHaveBeenCalledWith(
+			"a",
+			expect.objectContaining({ eventType: "release" }),
+		);
+	});
+
+	it("skips a kitty-encoded Ctrl+C when exitOnCtrlC is true", () => {
+		const handler: InputHandler = vi.fn();
+		const ctx = createStdinContext({ internal_exitOnCtrlC: true });
+
+		renderHook(() => useInput(handler), createWrapper(ctx));
+		ctx.internal_eventEmitter.emit("input", "\x1b[99;5u");
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+
 	it("always calls latest handler ref (stale closure prevention)", () => {
 		const handler1: InputHandler = vi.fn();
 		const handler2: InputHandler = vi.fn();
@@ -1,13 +1,17 @@
 import { setDimensions } from "blecsd/components";
-import { useRef } from "react";
+import { createElement, useRef } from "react";
 import { describe, expect, it } from "vitest";
+import { Box } from "../components/Box";
+import { Text } from "../components/Text";
 import {
+	type MeasureResult,
 	MeasureResultSchema,
 	measureElement,
 	useMeasureElement,
 } from "../hooks/use-measure-element";
 import type { EcsInstance } from "../host-config";
 import { createRootContainer } from "../reconciler";
+import { create } from "../testing/index";
 import { renderHook } from "./helpers/render-hook";
 
 // ---------------------------------------------------------------------------
@@ -145,3 +149,25 @@ describe("useMeasureElement", () => {
 		expect(result).toEqual({ width: 0, height: 0 });
 	});
 });
+
+describe("useMeasureElement with a Box ref", () => {
+	it("reports the size the box was laid out at", () => {
+		const sizes: MeasureResult[] = [];
+
+		const Measured = () => {
+			const ref = useRef<EcsInstance>(null);
+			sizes.push(useMeasureElement(ref));
+			return createElement(
+				Box,
+				{ ref, flexGrow: 1 },
+				createElement(Text, null, "hi"),
+			);
+		};
+
+		const instance = create(
+			createElement(Box, { width: 12 }, createElement(Measured)),
+		);
+		expect(sizes[sizes.length - 1]).toEqual({ width: 12, height: 1 });
+		instance.unmount();
+	});
+});
@@ -0,0 +1,89 @@
+import { EventEmitter } from "node:events";
+import { createElement, type ReactNode } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { StdinContext, type StdinContextValue } from "../contexts/stdin";
+import { type MouseEventHandler, useMouse } from "../hooks/use-mouse";
+import { renderHook, renderHookWithLifecycle } from "./helpers/render-hook";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const createStdinContext = (
+	overrides?: Partial<StdinContextValue>,
+): StdinContextValue => ({
+	stdin: {} as NodeJS.ReadableStream,
+	setRawMode: vi.fn(),
+	isRawModeSupported: true,
+	internal_exitOnCtrlC: true,
+	internal_eventEmitter: new EventEmitter(),
+	...overrides,
+});
+
+const createWrapper =
+	(ctx: StdinContextValue) =>
+	({ children }: { children: ReactNode }) =>
+		createElement(StdinContext.Provider, { value: ctx }, children);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("useMouse", () => {
+	it("enables raw mode on mount and disables it on unmount", () => {
+		const setRawMode = vi.fn();
+		const ctx = createStdinContext({ setRawMode });
+
+		const { unmount } = renderHookWithLifecycle(
+			() => useMouse(vi.fn()),
+			createWrapper(ctx),
+		);
+		expect(setRawMode).toHaveBeenCalledWith(true);
+
+		unmount();
+		expect(setRawMode).toHaveBeenLastCalledWith(false);
+	});
+
+	it("delivers each mouse report in a chunk", () => {
+		const handler: MouseEventHandler = vi.fn();
+		const ctx = createStdinContext();
+
+		renderHook(() => useMouse(handler), createWrapper(ctx));
+		ctx.internal_eventEmitter.emit("input", "\x1b[<0;3;4M\x1b[<64;3;4M");
+
+		expect(handler).toHaveBeenCalledTimes(2);
+		expect(handler).toHaveBeenNthCalledWith(
+			1,
+			expect.objectContaining({ type: "press", x: 2, y: 3 }),
+		);
+		expect(handler).toHaveBeenNthCalledWith(
+			2,
+			expect.objectContaining({ type: "wheel", direction: "up" }),
+		);
+	});
+
+	it("ignores keyboard input", () => {
+		const handler: MouseEventHandler = vi.fn();
+		const ctx = createStdinContext();
+
+		renderHook(() => useMouse(handler), createWrapper(ctx));
+		ctx.internal_eventEmitter.emit("input", "a");
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it("does nothing when isActive is false", () => {
+		const handler: MouseEventHandler = vi.fn();
+		const setRawMode = vi.fn();
+		const ctx = createStdinContext({ setRawMode });
+
+		renderHook(
+			() => useMouse(handler, { isActive: false }),
+			createWrapper(ctx),
+		);
+		ctx.internal_eventEmitter.emit("input", "\x1b[<0;1;1M");
+
+		expect(handler).not.toHaveBeenCalled();
+		expect(setRawMode).not.toHaveBeenCalled();
+	});
+});
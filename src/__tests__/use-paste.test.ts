@@ -0,0 +1,128 @@
+import { EventEmitter } from "node:events";
+import { createElement, type ReactNode } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { StdinContext, type StdinContextValue } from "../contexts/stdin";
+import { useInput } from "../hooks/use-input";
+import { type PasteHandler, usePaste } from "../hooks/use-paste";
+import { create } from "../testing/index";
+import { renderHook, renderHookWithLifecycle } from "./helpers/render-hook";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const createStdinContext = (
+	overrides?: Partial<StdinContextValue>,
+): StdinContextValue => ({
+	stdin: {} as NodeJS.ReadableStream,
+	setRawMode: vi.fn(),
+	isRawModeSupported: true,
+	internal_exitOnCtrlC: true,
+	internal_eventEmitter: new EventEmitter(),
+	...overrides,
+});
+
+const createWrapper =
+	(ctx: StdinContextValue) =>
+	({ children }: { children: ReactNode }) =>
+		createElement(StdinContext.Provider, { value: ctx }, children);
+
+// ---------------------------------------------------------------------------
+// usePaste
+// ---------------------------------------------------------------------------
+
+describe("usePaste", () => {
+	it("enables raw mode on mount and disables it on unmount", () => {
+		const setRawMode = vi.fn();
+		const ctx = createStdinContext({ setRawMode });
+
+		const { unmount } = renderHookWithLifecycle(
+			() => usePaste(vi.fn()),
+			createWrapper(ctx),
+		);
+		expect(setRawMode).toHaveBeenCalledWith(true);
+
+		unmount();
+		expect(setRawMode).toHaveBeenLastCalledWith(false);
+	});
+
+	it("calls the handler with the pasted text", () => {
+		const handler: PasteHandler = vi.fn();
+		const ctx = createStdinContext();
+
+		renderHook(() => usePaste(handler), createWrapper(ctx));
+		ctx.internal_eventEmitter.emit("paste", "hello\nworld");
+
+		expect(handler).toHaveBeenCalledWith("hello\nworld");
+	});
+
+	it("does nothing when isActive is false", () => {
+		const handler: PasteHandler = vi.fn();
+		const ctx = createStdinContext();
+
+		renderHook(
+			() => usePaste(handler, { isActive: false }),
+			createWrapper(ctx),
+		);
+		ctx.internal_eventEmitter.emit("paste", "text");
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Pastes through the test stdin
+// ---------------------------------------------------------------------------
+
+describe("bracketed paste input", () => {
+	it("delivers a multi-line paste as one useInput call", () => {
+		const handler = vi.fn();
+		const Listener = () => {
+			useInput(handler);
+			return null;
+		};
+
+		const instance = create(createElement(Listener));
+		instance.stdin.write("\x1b[200~one\rtwo\x1b[201~");
+
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler).toHaveBeenCalledWith(
+			"one\rtwo",
+			expect.objectContaining({ paste: true, return: false }),
+		);
+
+		instance.unmount();
+	});
+
+	it("flags ordinary keystrokes as not pasted", () => {
+		const handler = vi.fn();
+		const Listener = () => {
+			useInput(handler);
+			return null;
+		};
+
+		const instance = create(createElement(Listener));
+		instance.stdin.write("a");
+
+		expect(handler).toHaveBeenCalledWith(
+			"a",
+			expect.objectContaining({ paste: false }),
+		);
+
+		instance.unmount();
+	});
+
+	it("reaches usePaste", () => {
+		const handler = vi.fn();
+		const Listener = () => {
+			usePaste(handler);
+			return null;
+		};
+
+		const instance = create(createElement(Listener));
+		instance.stdin.write("\x1b[200~pasted\x1b[201~");
+
+		expect(handler).toHaveBeenCalledWith("pasted");
+		instance.unmount();
+	});
+});
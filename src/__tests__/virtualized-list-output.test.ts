@@ -0,0 +1,418 @@
+import { getChildren } from "blecsd/components";
+import type { Entity, World } from "blecsd/core";
+import { act, createElement, createRef } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { Text } from "../components/Text";
+import {
+	type ListItemState,
+	VirtualizedList,
+	type VirtualizedListHandle,
+} from "../components/VirtualizedList";
+import { getHostNode } from "../host-config";
+import { create } from "../testing/index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const list = (props: Record<string, unknown>) =>
+	createElement(VirtualizedList as unknown as string, {
+		renderItem: (item: string, index: number) =>
+			createElement(Text, { key: String(index) }, item),
+		height: 4,
+		...props,
+	});
+
+const lines = (frame: string | undefined): string[] =>
+	(frame ?? "").split("\n").map((line) => line.trimEnd());
+
+const messages = ["m0", "m1a\nm1b", "m2a\nm2b\nm2c", "m3", "m4", "m5"];
+
+const numbered = (from: number, to: number): string[] =>
+	Array.from({ length: to - from }, (_, i) => `Item ${from + i}`);
+
+// Text of the first line, without the scroll indicator
+const firstLine = (frame: string | undefined): string =>
+	lines(frame)[0]?.replace(/\s*[\u2502\u2588]$/, "") ?? "";
+
+// ---------------------------------------------------------------------------
+// Windowed output
+// ---------------------------------------------------------------------------
+
+describe("VirtualizedList: output", () => {
+	it("starts the viewport at the scroll index, past the overscan", () => {
+		const items = Array.from({ length: 50 }, (_, i) => `Item ${i}`);
+		const instance = create(
+			list({ items, itemHeight: 1, initialScrollIndex: 10 }),
+			{ columns: 10 },
+		);
+		expect(lines(instance.lastFrame())).toEqual([
+			"Item 10  \u2502",
+			"Item 11  \u2588",
+			"Item 12  \u2502",
+			"Item 13  \u2502",
+		]);
+		instance.unmount();
+	});
+
+	it("windows items by an itemHeight function", () => {
+		const instance = create(
+			list({
+				items: messages,
+				itemHeight: (item: string) => item.split("\n").length,
+				initialScrollIndex: 1,
+			}),
+			{ columns: 10 },
+		);
+		expect(lines(instance.lastFrame())).toEqual([
+			"m1a      \u2502",
+			"m1b      \u2588",
+			"m2a      \u2502",
+			"m2b      \u2502",
+		]);
+		instance.unmount();
+	});
+
+	it("measures rendered items when itemHeight is omitted", () => {
+		const instance = create(
+			list({
+				items: messages,
+				initialScrollIndex: 99,
+				showScrollIndicator: false,
+			}),
+			{ columns: 10 },
+		);
+		// Estimated at one line each, then measured: the list ends with m5 on
+		// the last line rather than two lines early
+		expect(lines(instance.lastFrame())).toEqual(["m2c", "m3", "m4", "m5"]);
+		instance.unmount();
+	});
+
+	it("keeps the first visible item in place when items above grow", () => {
+		const items = [...messages, "m6", "m7", "m8", "m9"];
+		const instance = create(list({ items, initialScrollIndex: 3 }), {
+			columns: 10,
+		});
+		expect(lines(instance.lastFrame())[0]).toBe("m3       \u2502");
+		const grown = ["m0\nm0\nm0", "m1", ...items.slice(2)];
+		instance.rerender(list({ items: grown, initialScrollIndex: 3 }));
+		expect(lines(instance.lastFrame())[0]).toBe("m3       \u2502");
+		instance.unmount();
+	});
+
+	it("keeps measured heights with their items when items are prepended", () => {
+		const ref = createRef<VirtualizedListHandle>();
+		const render = (items: string[]) =>
+			list({
+				items,
+				overscan: 1,
+				initialScrollIndex: 99,
+				showScrollIndicator: false,
+				ref,
+			});
+		const items = ["a", "b", "c", "d", "e", "w", "x1\nx2\nx3", "y", "z"];
+		const instance = create(render(items), { columns: 10 });
+		act(() => ref.current?.scrollToTop());
+
+		// The tail is out of view when "n" arrives, so the end is found from
+		// the heights measured for x and the items around it
+		instance.rerender(render(["n", ...items]));
+		act(() => ref.current?.scrollToBottom());
+		expect(lines(instance.lastFrame())).toEqual(["x2", "x3", "y", "z"]);
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Follow
+// ---------------------------------------------------------------------------
+
+describe("VirtualizedList: follow", () => {
+	it("stays on the newest items as items are added", () => {
+		const instance = create(
+			list({ items: numbered(0, 10), itemHeight: 1, follow: true }),
+			{ columns: 12 },
+		);
+		expect(firstLine(instance.lastFrame())).toBe("Item 6");
+		instance.rerender(
+			list({ items: numbered(0, 11), itemHeight: 1, follow: true }),
+		);
+		expect(firstLine(instance.lastFrame())).toBe("Item 7");
+		instance.unmount();
+	});
+
+	it("stops following once scrolled up and resumes at the end", () => {
+		const ref = createRef<VirtualizedListHandle>();
+		const render = (count: number) =>
+			list({ items: numbered(0, count), itemHeight: 1, follow: true, ref });
+		const instance = create(render(10), { columns: 12 });
+
+		act(() => ref.current?.scrollToIndex(2));
+		instance.rerender(render(12));
+		expect(firstLine(instance.lastFrame())).toBe("Item 2");
+
+		act(() => ref.current?.scrollToBottom());
+		expect(firstLine(instance.lastFrame())).toBe("Item 8");
+		instance.rerender(render(13));
+		expect(firstLine(instance.lastFrame())).toBe("Item 9");
+		instance.unmount();
+	});
+
+	it("keeps the first visible item when older items are prepended", () => {
+		const instance = create(
+			list({ items: numbered(0, 20), itemHeight: 1, initialScrollIndex: 5 }),
+			{ columns: 12 },
+		);
+		instance.rerender(
+			list({ items: numbered(-3, 20), itemHeight: 1, initialScrollIndex: 5 }),
+		);
+		expect(firstLine(instance.lastFrame())).toBe("Item 5");
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// onEndReached / onStartReached
+// ---------------------------------------------------------------------------
+
+describe("VirtualizedList: reaching the ends", () => {
+	it("reports the end once per approach, within the threshold", () => {
+		const ref = createRef<VirtualizedListHandle>();
+		const onEndReached = vi.fn();
+		const render = (count: number) =>
+			list({
+				items: numbered(0, count),
+				itemHeight: 1,
+				onEndReached,
+				onEndReachedThreshold: 2,
+				ref,
+			});
+		const instance = create(render(20), { columns: 12 });
+		expect(onEndReached).not.toHaveBeenCalled();
+
+		// Items 14-17 are visible, within 2 of the end
+		act(() => ref.current?.scrollToIndex(14));
+		act(() => ref.current?.scrollToIndex(15));
+		expect(onEndReached).toHaveBeenCalledTimes(1);
+
+		// More items arrive and the end is reached again
+		instance.rerender(render(25));
+		act(() => ref.current?.scrollToBottom());
+		expect(onEndReached).toHaveBeenCalledTimes(2);
+		instance.unmount();
+	});
+
+	it("reports the start, and again after loading older items", () => {
+		const ref = createRef<VirtualizedListHandle>();
+		const onStartReached = vi.fn();
+		const render = (from: number) =>
+			list({ items: numbered(from, 20), itemHeight: 1, onStartReached, ref });
+		const instance = create(render(0), { columns: 12 });
+		expect(onStartReached).toHaveBeenCalledTimes(1);
+
+		// The window stays on Item 0, now fifth, so the start is left
+		instance.rerender(render(-5));
+		expect(onStartReached).toHaveBeenCalledTimes(1);
+
+		act(() => ref.current?.scrollToTop());
+		expect(onStartReached).toHaveBeenCalledTimes(2);
+		instance.unmount();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+// Marks selected items with ">"
+const selectable = (props: Record<string, unknown>) =>
+	list({
+		items: numbered(0, 20),
+		itemHeight: 1,
+		selectionMode: "single",
+		autoFocus: true,
+		renderItem: (item: string, index: number, state: ListItemState) =>
+			createElement(
+				Text,
+				{ key: String(index) },
+				`${state.isSelected ? ">" : " "}${item}`,
+			),
+		...props,
+	});
+
+const selectedLines = (frame: string | undefined): string[] =>
+	lines(frame)
+		.filter((line) => line.startsWith(">"))
+		.map((line) => line.replace(/\s*[\u2502\u2588]$/, ""));
+
+// Host props of every box with the given ARIA role, in document order
+const propsWithRole = (
+	world: World,
+	eid: Entity,
+	role: string,
+): Record<string, unknown>[] => {
+	const node = getHostNode(world, eid);
+	const own =
+		node && node.elementType !== "#text" && node.props["aria-role"] === role
+			? [node.props]
+			: [];
+	return [
+		...own,
+		...getChildren(world, eid).flatMap((child) =>
+			propsWithRole(world, child, role),
+		),
+	];
+};
+
+const UP = "\x1b[A";
+const DOWN = "\x1b[B";
+const SHIFT_DOWN = "\x1b[1;2B";
+const PAGE_DOWN = "\x1b[6~";
+const HOME = "\x1b[H";
+const END = "\x1b[F";
+const TAB = "\t";
+
+describe("VirtualizedList: selection", () => {
+	it("selects the first item and moves with the arrows", () => {
+		const onSelectionChange = vi.fn();
+		const instance = create(selectable({ onSelectionChange }), {
+			columns: 12,
+		});
+		expect(selectedLines(instance.lastFrame())).toEqual([">Item 0"]);
+		instance.stdin.write(DOWN);
+		instance.stdin.write(DOWN);
+		instance.stdin.write(UP);
+		expect(selectedLines(instance.lastFrame())).toEqual([">Item 1"]);
+		expect(onSelectionChange).toHaveBeenLastCalledWith({
+			selectedIndex: 1,
+			anchorIndex: 1,
+		});
+		instance.unmount();
+	});
+
+	it("scrolls to keep the selected item visible", () => {
+		const instance = create(selectable({}), { columns: 12 });
+		for (let i = 0; i < 5; i++) instance.stdin.write(DOWN);
+		expect(firstLine(instance.lastFrame())).toBe(" Item 2");
+		expect(lines(instance.lastFrame())[3]).toMatch(/^>Item 5/);
+
+		instance.stdin.write(END);
+		expect(firstLine(instance.lastFrame())).toBe(" Item 16");
+		instance.stdin.write(HOME);
+		expect(firstLine(instance.lastFrame())).toBe(">Item 0");
+		instance.unmount();
+	});
+
+	it("moves a page at a time", () => {
+		const instance = create(selectable({}), { columns: 12 });
+		instance.stdin.write(PAGE_DOWN);
+		expect(selectedLines(instance.lastFrame())).toEqual([">Item 4"]);
+		instance.unmount();
+	});
+
+	it("follows selectedIndex when controlled", () => {
+		const onSelectionChange = vi.fn();
+		const instance = create(
+			selectable({ selectedIndex: 2, onSelectionChange }),
+			{ columns: 12 },
+		);
+		instance.stdin.write(DOWN);
+		expect(onSelectionChange).toHaveBeenCalledWith({
+			selectedIndex: 3,
+			anchorIndex: 3,
+		});
+		expect(selectedLines(instance.lastFrame())).toEqual([">Item 2"]);
+
+		instance.rerender(selectable({ selectedIndex: 12, onSelectionChange }));
+		expect(selectedLines(instance.lastFrame())).toEqual([">Item 12"]);
+		expect(firstLine(instance.lastFrame())).toBe(" Item 9");
+		instance.unmount();
+	});
+
+	it("extends a range with Shift in multiple mode", () => {
+		const onSelectionChange = vi.fn();
+		const instance = create(
+			selectable({ selectionMode: "multiple", onSelectionChange }),
+			{ columns: 12 },
+		);
+		instance.stdin.write(DOWN);
+		instance.stdin.write(SHIFT_DOWN);
+		instance.stdin.write(SHIFT_DOWN);
+		expect(selectedLines(instance.lastFrame())).toEqual([
+			">Item 1",
+			">Item 2",
+			">Item 3",
+		]);
+		expect(onSelectionChange).toHaveBeenLastCalledWith({
+			selectedIndex: 3,
+			anchorIndex: 1,
+		});
+
+		instance.stdin.write(UP);
+		expect(selectedLines(instance.lastFrame())).toEqual([">Item 2"]);
+		instance.unmount();
+	});
+
+	it("selects a single item on Shift outside multiple mode", () => {
+		const instance = create(selectable({}), { columns: 12 });
+		instance.stdin.write(SHIFT_DOWN);
+		expect(selectedLines(instance.lastFrame())).toEqual([">Item 1"]);
+		instance.unmount();
+	});
+
+	it("scrolls with the keys when selectionMode is none", () => {
+		const instance = create(selectable({ selectionMode: "none" }), {
+			columns: 12,
+		});
+		expect(selectedLines(instance.lastFrame())).toEqual([]);
+		instance.stdin.write(DOWN);
+		instance.stdin.write(PAGE_DOWN);
+		expect(firstLine(instance.lastFrame())).toBe(" Item 5");
+		instance.unmount();
+	});
+
+	it("only scrolls, and takes no focus, by default", () => {
+		const instance = create(list({ items: numbered(0, 20), itemHeight: 1 }), {
+			columns: 12,
+		});
+		instance.stdin.write(TAB);
+		instance.stdin.write(PAGE_DOWN);
+		expect(firstLine(instance.lastFrame())).toBe("Item 0");
+
+		const { world, rootEid } = instance.container;
+		const items = propsWithRole(world, rootEid, "listitem");
+		expect(items[0]?.["aria-state"]).toBeUndefined();
+		instance.unmount();
+	});
+
+	it("takes focus without selection when focusable", () => {
+		const instance = create(
+			list({ items: numbered(0, 20), itemHeight: 1, focusable: true }),
+			{ columns: 12 },
+		);
+		instance.stdin.write(TAB);
+		instance.stdin.write(DOWN);
+		expect(firstLine(instance.lastFrame())).toBe("Item 1");
+		instance.unmount();
+	});
+
+	it("ignores keys while not focused", () => {
+		const instance = create(selectable({ autoFocus: false }), {
+			columns: 12,
+		});
+		instance.stdin.write(DOWN);
+		expect(selectedLines(instance.lastFrame())).toEqual([">Item 0"]);
+		instance.unmount();
+	});
+
+	it("exposes list roles and the selected state", () => {
+		const instance = create(selectable({}), { columns: 12 });
+		const { world, rootEid } = instance.container;
+		expect(propsWithRole(world, rootEid, "list")).toHaveLength(1);
+
+		const items = propsWithRole(world, rootEid, "listitem");
+		expect(items[0]?.["aria-state"]).toEqual({ selected: true });
+		expect(items[1]?.["aria-state"]).toEqual({ selected: false });
+		instance.unmount();
+	});
+});
@@ -5,8 +5,12 @@ import {
 	VirtualizedListPropsSchema,
 } from "../components/VirtualizedList";
 import {
+	calculateVariableWindow,
 	calculateWindow,
+	createHeightIndex,
+	findIndexAtOffset,
 	getScrollFraction,
+	keepItemVisible,
 	renderScrollIndicator,
 	UseVirtualizedListOptionsSchema,
 } from "../hooks/use-virtualized-list";
@@ -30,6 +34,22 @@ describe("UseVirtualizedListOptionsSchema", () => {
 		expect(result.initialScrollIndex).toBe(0);
 	});
 
+	it("defaults follow off and the reached thresholds to 0", () => {
+		const result = UseVirtualizedListOptionsSchema.parse({ height: 10 });
+		expect(result.follow).toBe(false);
+		expect(result.onEndReachedThreshold).toBe(0);
+		expect(result.onStartReachedThreshold).toBe(0);
+	});
+
+	it("rejects a negative reached threshold", () => {
+		expect(() =>
+			UseVirtualizedListOptionsSchema.parse({
+				height: 10,
+				onEndReachedThreshold: -1,
+			}),
+		).toThrow();
+	});
+
 	it("accepts custom overscan", () => {
 		const result = UseVirtualizedListOptionsSchema.parse({
 			itemHeight: 2,
@@ -201,6 +221,111 @@ describe("calculateWindow", () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// Variable item heights
+// ---------------------------------------------------------------------------
+
+describe("createHeightIndex", () => {
+	it("keeps prefix sums of the heights", () => {
+		const index = createHeightIndex(4, (i) => [1, 3, 2, 1][i]);
+		expect(Array.from(index.offsets)).toEqual([0, 1, 4, 6, 7]);
+		expect(index.totalHeight).toBe(7);
+	});
+
+	it("finds the item covering a line", () => {
+		const index = createHeightIndex(4, (i) => [1, 3, 2, 1][i]);
+		expect(findIndexAtOffset(index, 0)).toBe(0);
+		expect(findIndexAtOffset(index, 1)).toBe(1);
+		expect(findIndexAtOffset(index, 3)).toBe(1);
+		expect(findIndexAtOffset(index, 4)).toBe(2);
+		expect(findIndexAtOffset(index, 6)).toBe(3);
+		expect(findIndexAtOffset(index, 7)).toBe(4);
+	});
+});
+
+describe("calculateVariableWindow", () => {
+	// Lines: 0 | 1-3 | 4-5 | 6 | 7 | 8-11
+	const index = createHeightIndex(6, (i) => [1, 3, 2, 1, 1, 4][i]);
+
+	it("shows items until the viewport is full", () => {
+		const state = calculateVariableWindow(index, 1, 4, 0);
+		expect(state.visibleStartIndex).toBe(1);
+		// Items 1 and 2 start within lines 1-4
+		expect(state.visibleEndIndex).toBe(3);
+		expect(state.visibleCount).toBe(2);
+		expect(state.scrollOffset).toBe(1);
+	});
+
+	it("clamps scroll so the last items fill the viewport", () => {
+		const state = calculateVariableWindow(index, 99, 5, 0);
+		// Lines 7-11 hold items 4 and 5
+		expect(state.maxScrollIndex).toBe(4);
+		expect(state.scrollIndex).toBe(4);
+		expect(state.visibleEndIndex).toBe(6);
+	});
+
+	it("sizes the spacers from the heights outside the render range", () => {
+		const state = calculateVariableWindow(index, 2, 2, 1);
+		expect(state.renderStartIndex).toBe(1);
+		expect(state.renderEndIndex).toBe(4);
+		expect(state.topSpacerHeight).toBe(1);
+		expect(state.bottomSpacerHeight).toBe(5);
+	});
+
+	it("handles an empty list", () => {
+		const state = calculateVariableWindow(
+			createHeightIndex(0, () => 1),
+			3,
+			4,
+			2,
+		);
+		expect(state.scrollIndex).toBe(0);
+		expect(state.visibleEndIndex).toBe(0);
+		expect(state.renderEndIndex).toBe(0);
+	});
+
+	it("matches calculateWindow for equal heights", () => {
+		const state = calculateVariableWindow(
+			createHeightIndex(100, () => 2),
+			10,
+			20,
+			3,
+		);
+		expect(state).toEqual(calculateWindow(100, 10, 20, 2, 3));
+	});
+
+	it("windows 10k items by binary search", () => {
+		const large = createHeightIndex(10_000, (i) => 1 + (i % 3));
+		const start = performance.now();
+		for (let i = 0; i < 10_000; i++) {
+			calculateVariableWindow(large, i, 20, 3);
+		}
+		expect(performance.now() - start).toBeLessThan(100);
+	});
+});
+
+describe("keepItemVisible", () => {
+	// Lines: 0 | 1-3 | 4-5 | 6 | 7 | 8-11
+	const index = createHeightIndex(6, (i) => [1, 3, 2, 1, 1, 4][i]);
+
+	it("leaves the window alone while the item fits in it", () => {
+		expect(keepItemVisible(index, 1, 2, 5)).toBe(1);
+	});
+
+	it("scrolls up to an item above the window", () => {
+		expect(keepItemVisible(index, 3, 1, 5)).toBe(1);
+	});
+
+	it("scrolls down just far enough to show all of the item", () => {
+		// Item 4 ends on line 7; lines 4-7 start at item 2
+		expect(keepItemVisible(index, 0, 4, 4)).toBe(2);
+	});
+
+	it("shows the top of an item taller than the viewport", () => {
+		expect(keepItemVisible(index, 0, 5, 2)).toBe(5);
+	});
+});
+
 // ---------------------------------------------------------------------------
 // getScrollFraction
 // ---------------------------------------------------------------------------
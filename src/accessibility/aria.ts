@@ -66,6 +66,8 @@ export const AriaPropsSchema = z.object({
 	"aria-label": z.string().optional(),
 	"aria-hidden": z.boolean().optional(),
 	"aria-state": AriaStateSchema.optional(),
+	// Human-readable current value of a range widget such as a progressbar
+	"aria-valuetext": z.string().optional(),
 });
 
 export type AriaProps = z.infer<typeof AriaPropsSchema>;
@@ -81,12 +83,14 @@ export const extractAriaProps = (
 	const label = props["aria-label"];
 	const hidden = props["aria-hidden"];
 	const state = props["aria-state"];
+	const valueText = props["aria-valuetext"];
 
 	if (
 		role === undefined &&
 		label === undefined &&
 		hidden === undefined &&
-		state === undefined
+		state === undefined &&
+		valueText === undefined
 	) {
 		return undefined;
 	}
@@ -96,6 +100,7 @@ export const extractAriaProps = (
 		"aria-label": label as string | undefined,
 		"aria-hidden": hidden as boolean | undefined,
 		"aria-state": state as AriaState | undefined,
+		"aria-valuetext": valueText as string | undefined,
 	};
 };
 
@@ -52,6 +52,19 @@ const formatListItem = (text: string): string => {
 	return `${listItemCounter}. ${text}`;
 };
 
+// ---------------------------------------------------------------------------
+// Progress bar formatting
+// ---------------------------------------------------------------------------
+
+const formatProgressBar = (aria: AriaProps, isFocused: boolean): string => {
+	const prefix = isFocused ? "[focused] " : "";
+	const annotation = formatAriaAnnotation(aria);
+	const value = aria["aria-valuetext"];
+	return value !== undefined
+		? `${prefix}${annotation} ${value}`
+		: `${prefix}${annotation}`;
+};
+
 // ---------------------------------------------------------------------------
 // Core rendering function
 // ---------------------------------------------------------------------------
@@ -184,6 +197,11 @@ const renderBoxNode = (
 		return [formatted];
 	}
 
+	// The bar itself is drawing, not content: announce the value instead
+	if (role === "progressbar") {
+		return [formatProgressBar(aria ?? {}, isFocused)];
+	}
+
 	if (role === "list") {
 		resetListItemCounter();
 	}
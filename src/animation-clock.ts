@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Configuration schema
+// ---------------------------------------------------------------------------
+
+export const AnimationClockConfigSchema = z.object({
+	// Milliseconds between ticks
+	interval: z.number().int().min(1),
+});
+
+export type AnimationClockConfig = z.infer<typeof AnimationClockConfigSchema>;
+
+// ---------------------------------------------------------------------------
+// Clock type
+// ---------------------------------------------------------------------------
+
+// Called on every tick with the current time (Date.now())
+export type AnimationListener = (now: number) => void;
+
+export type AnimationClock = Readonly<{
+	subscribe: (listener: AnimationListener) => () => void;
+	isRunning: () => boolean;
+	destroy: () => void;
+}>;
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * One timer shared by every animated component. It runs only while at least
+ * one listener is subscribed, so an app with nothing animating stays idle.
+ */
+export const createAnimationClock = (
+	config: AnimationClockConfig,
+): AnimationClock => {
+	const parsed = AnimationClockConfigSchema.parse(config);
+
+	const listeners = new Set<AnimationListener>();
+	let isDestroyed = false;
+	let timerId: ReturnType<typeof setTimeout> | undefined;
+
+	const tick = (): void => {
+		timerId = undefined;
+
+		const now = Date.now();
+		for (const listener of [...listeners]) {
+			listener(now);
+		}
+
+		// A listener may already have restarted the timer by subscribing
+		if (timerId === undefined && listeners.size > 0) {
+			timerId = setTimeout(tick, parsed.interval);
+		}
+	};
+
+	const stop = (): void => {
+		if (timerId !== undefined) {
+			clearTimeout(timerId);
+			timerId = undefined;
+		}
+	};
+
+	const subscribe = (listener: AnimationListener): (() => void) => {
+		if (isDestroyed) return () => {};
+
+		listeners.add(listener);
+		if (timerId === undefined) {
+			timerId = setTimeout(tick, parsed.interval);
+		}
+
+		return () => {
+			listeners.delete(listener);
+			if (listeners.size === 0) stop();
+		};
+	};
+
+	const isRunning = (): boolean => timerId !== undefined;
+
+	const destroy = (): void => {
+		if (isDestroyed) return;
+		isDestroyed = true;
+		listeners.clear();
+		stop();
+	};
+
+	return Object.freeze({ subscribe, isRunning, destroy });
+};
@@ -1,10 +1,41 @@
-import type { ReactElement } from "react";
+import EventEmitter from "node:events";
+import type { Writable } from "node:stream";
+import { setDimensions } from "blecsd/components";
+import { createElement, type ReactElement } from "react";
 import type { z } from "zod";
 import type { AppConfig } from "./config";
 import { AppConfigSchema } from "./config";
+import { AnimationContext } from "./contexts/animation";
+import { AppContext } from "./contexts/app";
+import { createLayoutNotifier, LayoutContext } from "./contexts/layout";
+import { StderrContext } from "./contexts/stderr";
+import { StdinContext } from "./contexts/stdin";
+import { StdoutContext } from "./contexts/stdout";
 import { createExitHandler } from "./exit-handler";
+import { FocusProvider } from "./focus/focus-provider";
 import type { Container } from "./host-config";
+import { createPasteBuffer, type InputChunk } from "./input/bracketed-paste";
+import { isExtendedKeySequence } from "./input/extended-keys";
+import { createMouseDispatcher } from "./input/mouse-dispatch";
+import { parseKeypress } from "./input/parse-keypress";
+import {
+	DISABLE_MOUSE_TRACKING,
+	ENABLE_MOUSE_TRACKING,
+} from "./input/parse-mouse";
+import { createRawModeManager } from "./input/raw-mode";
+import { computeLayout } from "./layout/compute-layout";
+import { createCILogUpdate, isCIMode } from "./modes/ci";
+import { createDebugLogUpdate } from "./modes/debug";
 import { createRootContainer, reconciler, renderElement } from "./reconciler";
+import { renderFrame } from "./rendering/render-frame";
+import type { NodeLayoutMap } from "./rendering/render-tree";
+import type { LogUpdate } from "./rendering/terminal-output";
+import { createLogUpdate } from "./rendering/terminal-output";
+import {
+	createResizeHandler,
+	type ResizableStream,
+	type ResizeHandler,
+} from "./resize-handler";
 import { createRenderThrottle } from "./throttle";
 
 const CreateAppOptionsSchema = AppConfigSchema.partial();
@@ -27,22 +58,80 @@ const resolveConfig = (options: CreateAppOptions): AppConfig => {
 		stdout: options.stdout ?? process.stdout,
 		stderr: options.stderr ?? process.stderr,
 		debug: options.debug,
+		ci: options.ci,
 		exitOnCtrlC: options.exitOnCtrlC,
+		fullscreen: options.fullscreen,
+		alternateScreen: options.alternateScreen,
+		mouse: options.mouse,
+		extendedKeys: options.extendedKeys,
 		patchConsole: options.patchConsole,
 		maxFps: options.maxFps,
 	});
 };
 
-// ANSI escape to show cursor
+// ANSI escapes: show cursor, alternate screen buffer, clear + home
 const SHOW_CURSOR = "\x1b[?25h";
+const ENTER_ALT_SCREEN = "\x1b[?1049h";
+const EXIT_ALT_SCREEN = "\x1b[?1049l";
+const CLEAR_SCREEN = "\x1b[2J\x1b[H";
+
+const CTRL_C = "\x03";
+
+// How long input that could start a paste marker waits for the rest, e.g.
+// before a lone Escape goes out as a keypress
+const HELD_INPUT_TIMEOUT = 50;
+
+// With extended keys on, Ctrl+C comes in as a kitty/modifyOtherKeys report
+const isCtrlC = (input: string): boolean => {
+	if (input === CTRL_C) return true;
+	if (!isExtendedKeySequence(input)) return false;
+
+	const { input: name, key } = parseKeypress(input);
+	return name === "c" && key.ctrl && key.eventType === "press";
+};
+
+// Used when stdout is not a TTY and reports no size
+const DEFAULT_COLUMNS = 80;
+const DEFAULT_ROWS = 24;
+
+// ---------------------------------------------------------------------------
+// Frame writer: interactive, debug (accumulated) or CI (final frame only)
+// ---------------------------------------------------------------------------
+
+type FrameWriter = Pick<LogUpdate, "write" | "clear" | "done">;
+
+const createFrameWriter = (config: AppConfig): FrameWriter => {
+	const stdout = config.stdout as Writable;
+	if (config.debug) return createDebugLogUpdate(stdout);
+	if (isCIMode({ enabled: config.ci })) return createCILogUpdate(stdout);
+	return createLogUpdate(stdout);
+};
+
+// Fullscreen only applies to the interactive writer; debug and CI output
+// are meant to be read back as plain text.
+const usesAltScreen = (config: AppConfig): boolean =>
+	(config.fullscreen || config.alternateScreen === true) &&
+	!config.debug &&
+	!isCIMode({ enabled: config.ci });
+
+type InputStream = NodeJS.ReadStream & {
+	setEncoding?: (encoding: BufferEncoding) => void;
+};
+
+const isResizableStream = (stream: unknown): stream is ResizableStream =>
+	typeof (stream as ResizableStream).on === "function" &&
+	typeof (stream as ResizableStream).off === "function";
 
 export const createApp = (
 	element: ReactElement,
 	options?: CreateAppOptions,
 ): AppInstance => {
 	const config = resolveConfig(CreateAppOptionsSchema.parse(options ?? {}));
+	const stdout = config.stdout as Partial<ResizableStream> & Writable;
+	let columns = stdout.columns ?? DEFAULT_COLUMNS;
+	let rows = stdout.rows ?? DEFAULT_ROWS;
 
-	const container = createRootContainer();
+	const container = createRootContainer({ width: columns, height: rows });
 	let fiberRoot: unknown;
 	let isMounted = true;
 
@@ -54,25 +143,199 @@ export const createApp = (
 		exitReject = reject;
 	});
 
-	// Throttled render: container callbacks run layout + render systems
+	const frameWriter = createFrameWriter(config);
+	let isAltScreen = false;
+	let layouts: NodeLayoutMap = new Map();
+	let lastFrame: string | undefined;
+
+	// Fullscreen apps fill the terminal; inline apps are as tall as content.
+	// Measuring hooks hear of every layout, including ones no render caused.
+	const layoutNotifier = createLayoutNotifier();
+	const updateLayout = (): void => {
+		layouts = computeLayout(container, columns, isAltScreen ? rows : undefined);
+		layoutNotifier.notify();
+	};
+
+	const writeFrame = (): void => {
+		const frame = renderFrame(container, layouts);
+		if (frame === lastFrame) return;
+		lastFrame = frame;
+		frameWriter.write(frame);
+	};
+
+	// Throttled render: paints the most recent layout to the terminal
 	const throttle = createRenderThrottle(
 		{ maxFps: config.maxFps, debug: config.debug },
-		() => {
-			container.onComputeLayout?.();
-			container.onRender?.();
-		},
+		writeFrame,
 	);
 
+	// Animated components tick on the throttle's clock; CI and debug output
+	// gets static frames instead
+	const clock =
+		config.debug || isCIMode({ enabled: config.ci })
+			? undefined
+			: throttle.clock;
+
+	// Every commit re-runs layout, then asks for a (throttled) frame
+	container.onComputeLayout = updateLayout;
+	container.onRender = throttle.scheduleRender;
+
+	const resizeHandler: ResizeHandler | undefined = isResizableStream(stdout)
+		? createResizeHandler(stdout, {
+				onResize: (width, height) => {
+					columns = width;
+					rows = height;
+					setDimensions(container.world, container.rootEid, width, height);
+					lastFrame = undefined;
+					if (isAltScreen) {
+						frameWriter.clear();
+						stdout.write(CLEAR_SCREEN);
+					}
+					updateLayout();
+					throttle.scheduleRender();
+				},
+				onClear: () => {
+					frameWriter.clear();
+				},
+			})
+		: undefined;
+
+	// -----------------------------------------------------------------------
+	// Input: stdin is only read while something (useInput, useMouse, mouse
+	// tracking) holds a raw mode reference
+	// -----------------------------------------------------------------------
+
+	const stdin = config.stdin as InputStream;
+	const inputEmitter = new EventEmitter();
+	const rawMode = createRawModeManager(stdin, stdout, {
+		extendedKeys: config.extendedKeys,
+	});
+	const pasteBuffer = createPasteBuffer();
+	let heldInputTimer: ReturnType<typeof setTimeout> | undefined;
+	let inputRefs = 0;
+	let isMouseTracking = false;
+
+	const emitChunks = (chunks: readonly InputChunk[]): void => {
+		for (const chunk of chunks) {
+			if (chunk.type === "paste") {
+				inputEmitter.emit("paste", chunk.text);
+			} else {
+				inputEmitter.emit("input", chunk.data);
+			}
+		}
+	};
+
+	const clearHeldInputTimer = (): void => {
+		clearTimeout(heldInputTimer);
+		heldInputTimer = undefined;
+	};
+
+	const handleData = (data: Buffer | string): void => {
+		const input = String(data);
+		// Raw mode swallows SIGINT, so Ctrl+C arrives as input
+		if (config.exitOnCtrlC && isCtrlC(input)) {
+			unmount();
+			return;
+		}
+		clearHeldInputTimer();
+		emitChunks(pasteBuffer.push(input));
+		if (pasteBuffer.isHolding()) {
+			heldInputTimer = setTimeout(() => {
+				heldInputTimer = undefined;
+				emitChunks(pasteBuffer.flush());
+			}, HELD_INPUT_TIMEOUT);
+		}
+	};
+
+	const setRawMode = (enabled: boolean): void => {
+		if (enabled) {
+			rawMode.enable();
+			inputRefs++;
+			if (inputRefs === 1) {
+				stdin.setEncoding?.("utf8");
+				stdin.on("data", handleData);
+				stdin.resume?.();
+			}
+			return;
+		}
+
+		if (inputRefs === 0) return;
+		rawMode.disable();
+		inputRefs--;
+		if (inputRefs === 0) {
+			stdin.off("data", handleData);
+			stdin.pause?.();
+			clearHeldInputTimer();
+		}
+	};
+
+	const mouseDispatcher = createMouseDispatcher(container, () => layouts);
+
+	// -----------------------------------------------------------------------
+	// Context providers
+	// -----------------------------------------------------------------------
+
+	const wrapWithProviders = (el: ReactElement): ReactElement =>
+		createElement(
+			AppContext.Provider,
+			{ value: { exit: (error?: Error) => unmount(error) } },
+			createElement(
+				StdinContext.Provider,
+				{
+					value: {
+						stdin,
+						setRawMode,
+						isRawModeSupported: rawMode.isSupported(),
+						internal_exitOnCtrlC: config.exitOnCtrlC,
+						internal_eventEmitter: inputEmitter,
+					},
+				},
+				createElement(
+					StdoutContext.Provider,
+					{
+						value: {
+							stdout,
+							write: (data: string) => {
+								stdout.write(data);
+							},
+						},
+					},
+					createElement(
+						StderrContext.Provider,
+						{
+							value: {
+								stderr: config.stderr as NodeJS.WritableStream,
+								write: (data: string) => {
+									(config.stderr as NodeJS.WritableStream).write(data);
+								},
+							},
+						},
+						createElement(
+							FocusProvider,
+							null,
+							createElement(
+								AnimationContext.Provider,
+								{ value: clock },
+								createElement(
+									LayoutContext.Provider,
+									{ value: layoutNotifier.subscribe },
+									el,
+								),
+							),
+						),
+					),
+				),
+			),
+		);
+
 	const render = (el: ReactElement): void => {
 		if (!isMounted) return;
 
 		if (fiberRoot) {
-			reconciler.updateContainer(el, fiberRoot, null, null);
+			reconciler.updateContainer(wrapWithProviders(el), fiberRoot, null, null);
 		} else {
-			fiberRoot = renderElement(el, container);
+			fiberRoot = renderElement(wrapWithProviders(el), container);
 		}
-
-		throttle.scheduleRender();
 	};
 
 	const rerender = (el: ReactElement): void => {
@@ -82,8 +345,22 @@ export const createApp = (
 	const restoreTerminalState = (): void => {
 		const stdout = config.stdout as NodeJS.WritableStream | undefined;
 		if (stdout && "write" in stdout) {
-			(stdout as NodeJS.WritableStream).write(SHOW_CURSOR);
+			(stdout as NodeJS.WritableStream).write(
+				(isMouseTracking ? DISABLE_MOUSE_TRACKING : "") +
+					(isAltScreen ? EXIT_ALT_SCREEN : "") +
+					SHOW_CURSOR,
+			);
+		}
+		isMouseTracking = false;
+		isAltScreen = false;
+
+		if (inputRefs > 0) {
+			stdin.off("data", handleData);
+			stdin.pause?.();
+			inputRefs = 0;
 		}
+		clearHeldInputTimer();
+		rawMode.destroy();
 	};
 
 	const unmount = (error?: Error): void => {
@@ -91,24 +368,35 @@ export const createApp = (
 			return;
 		}
 		isMounted = false;
+		let exitError = error;
 
-		// Destroy throttle to prevent future renders
-		throttle.destroy();
+		try {
+			// Flush the last frame a pending throttle tick would have painted
+			writeFrame();
 
-		// Tear down React tree
-		if (fiberRoot) {
-			reconciler.updateContainer(null, fiberRoot, null, null);
-		}
+			// Destroy throttle to prevent future renders
+			throttle.destroy();
+			resizeHandler?.destroy();
 
-		// Remove exit handlers
-		exitHandler.cleanup();
+			// Tear down React tree
+			if (fiberRoot) {
+				reconciler.updateContainer(null, fiberRoot, null, null);
+			}
 
-		// Restore terminal state
-		restoreTerminalState();
+			frameWriter.done();
+		} catch (teardownError) {
+			exitError ??= teardownError as Error;
+		} finally {
+			// Remove exit handlers
+			exitHandler.cleanup();
+
+			// Restore terminal state, even when teardown itself crashed
+			restoreTerminalState();
+		}
 
 		// Resolve or reject the exit promise
-		if (error) {
-			exitReject?.(error);
+		if (exitError) {
+			exitReject?.(exitError);
 		} else {
 			exitResolve?.();
 		}
@@ -126,18 +414,36 @@ export const createApp = (
 		return exitPromise;
 	};
 
+	// Detaches from the process without unmounting; the exit hook goes, so
+	// the terminal is put back here
 	const cleanup = (): void => {
 		throttle.destroy();
+		resizeHandler?.destroy();
 		exitHandler.cleanup();
+		restoreTerminalState();
 	};
 
 	const clear = (): void => {
 		const stdout = config.stdout as NodeJS.WritableStream | undefined;
 		if (stdout && "write" in stdout) {
-			(stdout as NodeJS.WritableStream).write("\x1b[2J\x1b[H");
+			(stdout as NodeJS.WritableStream).write(CLEAR_SCREEN);
 		}
 	};
 
+	// Take over the terminal before the first frame is painted
+	if (usesAltScreen(config)) {
+		isAltScreen = true;
+		stdout.write(ENTER_ALT_SCREEN + CLEAR_SCREEN);
+	}
+
+	// Mouse reports need raw mode; Box handlers hit-test the last layout
+	if (config.mouse) {
+		isMouseTracking = true;
+		stdout.write(ENABLE_MOUSE_TRACKING);
+		inputEmitter.on("input", mouseDispatcher.handleInput);
+		setRawMode(true);
+	}
+
 	// Kick off initial render
 	render(element);
 
@@ -17,6 +17,7 @@ import {
 } from "blecsd/components";
 import type { Entity, World } from "blecsd/core";
 import { Overflow, type OverflowValue, setOverflow } from "blecsd/core";
+import { isIntrinsicSize } from "./layout/dimensions";
 import type { Styles } from "./styles";
 
 // ---------------------------------------------------------------------------
@@ -109,6 +110,7 @@ const BORDER_CHARSET_MAP: Readonly<Record<string, BorderCharset>> = {
 const OVERFLOW_MAP: Readonly<Record<string, OverflowValue>> = {
 	visible: Overflow.VISIBLE,
 	hidden: Overflow.HIDDEN,
+	scroll: Overflow.SCROLL,
 };
 
 // ---------------------------------------------------------------------------
@@ -148,13 +150,20 @@ const applyPosition = (world: World, eid: Entity, styles: Styles): void => {
 // Dimensions (width, height, minWidth, minHeight)
 // ---------------------------------------------------------------------------
 
+// blecsd has no content keywords; the layout pass sizes those boxes and
+// mirrors the result onto Dimensions
+const toBlecsdDimension = (value: Styles["width"]): DimensionValue =>
+	value === undefined || isIntrinsicSize(value)
+		? "auto"
+		: (value as DimensionValue);
+
 const applyDimensions = (world: World, eid: Entity, styles: Styles): void => {
 	if (styles.width !== undefined || styles.height !== undefined) {
 		setDimensions(
 			world,
 			eid,
-			(styles.width ?? "auto") as DimensionValue,
-			(styles.height ?? "auto") as DimensionValue,
+			toBlecsdDimension(styles.width),
+			toBlecsdDimension(styles.height),
 		);
 	}
 };
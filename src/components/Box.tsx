@@ -3,6 +3,7 @@ import {
 	createElement,
 	memo,
 	type ReactNode,
+	type Ref,
 	useContext,
 } from "react";
 import { z } from "zod";
@@ -12,6 +13,8 @@ import {
 	AriaRoleSchema,
 	AriaStateSchema,
 } from "../accessibility/aria";
+import type { EcsInstance } from "../host-config";
+import type { MouseHandlerProps } from "../input/mouse-dispatch";
 import { type Styles, StylesSchema } from "../styles";
 
 // ---------------------------------------------------------------------------
@@ -35,11 +38,18 @@ export const BoxComponentPropsSchema = StylesSchema.extend({
 	"aria-label": z.string().optional(),
 	"aria-hidden": z.boolean().optional(),
 	"aria-state": AriaStateSchema.optional(),
+	"aria-valuetext": z.string().optional(),
+	onClick: z.function().optional(),
+	onMouseEnter: z.function().optional(),
+	onMouseLeave: z.function().optional(),
 });
 
 export type BoxComponentProps = Styles &
-	AriaProps & {
+	AriaProps &
+	MouseHandlerProps & {
 		readonly children?: ReactNode;
+		// The host instance, for measureElement / useMeasureElement
+		readonly ref?: Ref<EcsInstance>;
 	};
 
 // ---------------------------------------------------------------------------
@@ -53,6 +63,7 @@ const BoxInner = (props: BoxComponentProps): ReactNode => {
 		"aria-label": ariaLabel,
 		"aria-hidden": ariaHidden,
 		"aria-state": ariaState,
+		"aria-valuetext": ariaValueText,
 		backgroundColor,
 		...styleProps
 	} = props;
@@ -69,6 +80,7 @@ const BoxInner = (props: BoxComponentProps): ReactNode => {
 	if (ariaLabel !== undefined) hostProps["aria-label"] = ariaLabel;
 	if (ariaHidden !== undefined) hostProps["aria-hidden"] = ariaHidden;
 	if (ariaState !== undefined) hostProps["aria-state"] = ariaState;
+	if (ariaValueText !== undefined) hostProps["aria-valuetext"] = ariaValueText;
 
 	const element = createElement("blecsdui-box", hostProps, children);
 
@@ -0,0 +1,385 @@
+import { createElement, memo, type ReactNode, useRef, useState } from "react";
+import { z } from "zod";
+import { useFocus } from "../hooks/use-focus";
+import { useInput } from "../hooks/use-input";
+import { useMeasureElement } from "../hooks/use-measure-element";
+import {
+	calculateWindow,
+	keepIndexVisible,
+} from "../hooks/use-virtualized-list";
+import type { EcsInstance } from "../host-config";
+import {
+	type DimensionValue,
+	DimensionValueSchema,
+} from "../layout/dimensions";
+import { Box } from "./Box";
+import {
+	type CellTruncateMode,
+	CellTruncateModeSchema,
+	type ColumnAlign,
+	ColumnAlignSchema,
+	formatCell,
+} from "./Table";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const DataGridColumnSchema = z.object({
+	key: z.string(),
+	header: z.string().optional(),
+	width: z.number().int().min(1).default(10),
+	align: ColumnAlignSchema.default("left"),
+	truncate: CellTruncateModeSchema.default("truncate-end"),
+	render: z.function().optional(),
+});
+
+export const DataGridPropsSchema = z.object({
+	rows: z.array(z.unknown()),
+	columns: z.array(DataGridColumnSchema),
+	height: z.number().int().min(3),
+	width: DimensionValueSchema.default("100%"),
+	onCellSelect: z.function().optional(),
+	autoFocus: z.boolean().default(false),
+	isDisabled: z.boolean().default(false),
+	id: z.string().optional(),
+});
+
+export type DataGridColumn<T> = {
+	// Identifies the column; the cell shows row[key] unless `render` is given
+	readonly key: string;
+	// Defaults to the key
+	readonly header?: string;
+	// Cells across, excluding the gap between columns
+	readonly width?: number;
+	readonly align?: ColumnAlign;
+	readonly truncate?: CellTruncateMode;
+	readonly render?: (row: T, rowIndex: number) => string;
+};
+
+export type DataGridCell<T> = {
+	readonly row: T;
+	readonly rowIndex: number;
+	readonly column: DataGridColumn<T>;
+	readonly columnIndex: number;
+};
+
+// The first column and the header row stay in place while the rest scrolls
+export type DataGridProps<T> = {
+	readonly rows: readonly T[];
+	readonly columns: readonly DataGridColumn<T>[];
+	// Lines, including the header and its rule
+	readonly height: number;
+	readonly width?: DimensionValue;
+	// Enter on the focused cell
+	readonly onCellSelect?: (cell: DataGridCell<T>) => void;
+	readonly autoFocus?: boolean;
+	readonly isDisabled?: boolean;
+	// Focus id, for useFocusManager().focus(id)
+	readonly id?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Column windowing
+// ---------------------------------------------------------------------------
+
+const DEFAULT_COLUMN_WIDTH = 10;
+
+// Blank cell between two scrolling columns
+const COLUMN_GAP = 1;
+
+// Between the frozen column and the rest: " │ "
+const FROZEN_SEPARATOR = " │ ";
+
+export type ColumnWindow = {
+	readonly startIndex: number;
+	// Exclusive
+	readonly endIndex: number;
+};
+
+// Cells taken by columns start..end with gaps between them
+const spanWidth = (
+	widths: readonly number[],
+	start: number,
+	end: number,
+): number => {
+	let total = 0;
+	for (let index = start; index < end; index++) {
+		total += widths[index] + (index > start ? COLUMN_GAP : 0);
+	}
+	return total;
+};
+
+/**
+ * Columns, from `scrollIndex` on, that fit in `available` cells. The first
+ * one is always included so a column wider than the grid is still shown,
+ * truncated.
+ */
+export const calculateColumnWindow = (
+	widths: readonly number[],
+	scrollIndex: number,
+	available: number,
+): ColumnWindow => {
+	const startIndex = Math.max(0, Math.min(scrollIndex, widths.length - 1));
+	let endIndex = Math.min(widths.length, startIndex + 1);
+	while (
+		endIndex < widths.length &&
+		spanWidth(widths, startIndex, endIndex + 1) <= available
+	) {
+		endIndex++;
+	}
+	return { startIndex, endIndex };
+};
+
+/**
+ * Scrolls the column window no further than needed for `index` to fit in
+ * `available` cells.
+ */
+export const keepColumnVisible = (
+	widths: readonly number[],
+	scrollIndex: number,
+	index: number,
+	available: number,
+): number => {
+	if (index < scrollIndex) return index;
+	let start = scrollIndex;
+	while (start < index && spanWidth(widths, start, index + 1) > available) {
+		start++;
+	}
+	return start;
+};
+
+// ---------------------------------------------------------------------------
+// Cells
+// ---------------------------------------------------------------------------
+
+const cellText = <T,>(
+	column: DataGridColumn<T>,
+	row: T,
+	rowIndex: number,
+): string => {
+	if (column.render) return column.render(row, rowIndex);
+	const value = (row as Record<string, unknown> | null)?.[column.key];
+	return value === undefined || value === null ? "" : String(value);
+};
+
+type FocusedCell = { readonly row: number; readonly column: number };
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+// Only the rows and columns on screen are formatted, so the cost of a
+// render does not grow with the number of rows
+const DataGridInner = <T,>({
+	rows,
+	columns,
+	height,
+	width = "100%",
+	onCellSelect,
+	autoFocus = false,
+	isDisabled = false,
+	id,
+}: DataGridProps<T>): ReactNode => {
+	const { isFocused } = useFocus({ id, autoFocus, isActive: !isDisabled });
+
+	const boxRef = useRef<EcsInstance>(null);
+	const { width: gridWidth } = useMeasureElement(boxRef);
+
+	const lastRow = Math.max(0, rows.length - 1);
+	const lastColumn = columns.length - 1;
+	const [focused, setFocused] = useState<FocusedCell>({ row: 0, column: 0 });
+	const focusedCell: FocusedCell = {
+		row: Math.min(focused.row, lastRow),
+		column: Math.min(focused.column, lastColumn),
+	};
+
+	// The header and its rule take two lines
+	const bodyHeight = Math.max(1, height - 2);
+	const frozen: DataGridColumn<T> | undefined = columns[0];
+	const scrolling = columns.slice(1);
+	const frozenWidth = frozen?.width ?? DEFAULT_COLUMN_WIDTH;
+	const scrollingWidths = scrolling.map(
+		(column) => column.width ?? DEFAULT_COLUMN_WIDTH,
+	);
+	const available = Math.max(
+		1,
+		gridWidth - frozenWidth - FROZEN_SEPARATOR.length,
+	);
+
+	const scrollRowRef = useRef(0);
+	scrollRowRef.current = keepIndexVisible(
+		scrollRowRef.current,
+		focusedCell.row,
+		bodyHeight,
+	);
+	const rowWindow = calculateWindow(
+		rows.length,
+		scrollRowRef.current,
+		bodyHeight,
+		1,
+		0,
+	);
+	scrollRowRef.current = rowWindow.scrollIndex;
+
+	// Indexes into the scrolling columns, which start at column 1
+	const scrollColumnRef = useRef(0);
+	if (focusedCell.column > 0) {
+		scrollColumnRef.current = keepColumnVisible(
+			scrollingWidths,
+			scrollColumnRef.current,
+			focusedCell.column - 1,
+			available,
+		);
+	}
+	const columnWindow = calculateColumnWindow(
+		scrollingWidths,
+		scrollColumnRef.current,
+		available,
+	);
+
+	// Keys from one stdin chunk apply in order before the next render
+	const focusRef = useRef(focusedCell);
+	focusRef.current = focusedCell;
+
+	const moveTo = (row: number, column: number): void => {
+		const next = {
+			row: Math.max(0, Math.min(row, lastRow)),
+			column: Math.max(0, Math.min(column, lastColumn)),
+		};
+		const current = focusRef.current;
+		if (next.row === current.row && next.column === current.column) return;
+		focusRef.current = next;
+		setFocused(next);
+	};
+
+	useInput(
+		(_input, key) => {
+			const { row, column } = focusRef.current;
+
+			if (key.upArrow) {
+				moveTo(row - 1, column);
+			} else if (key.downArrow) {
+				moveTo(row + 1, column);
+			} else if (key.leftArrow) {
+				moveTo(row, column - 1);
+			} else if (key.rightArrow) {
+				moveTo(row, column + 1);
+			} else if (key.pageUp) {
+				moveTo(row - bodyHeight, column);
+			} else if (key.pageDown) {
+				moveTo(row + bodyHeight, column);
+			} else if (key.home) {
+				// Ctrl+Home goes to the first row, Home to the first column
+				moveTo(key.ctrl ? 0 : row, key.ctrl ? column : 0);
+			} else if (key.end) {
+				moveTo(key.ctrl ? lastRow : row, key.ctrl ? column : lastColumn);
+			} else if (key.return && rows.length > 0 && columns.length > 0) {
+				onCellSelect?.({
+					row: rows[row],
+					rowIndex: row,
+					column: columns[column],
+					columnIndex: column,
+				});
+			}
+		},
+		{ isActive: isFocused },
+	);
+
+	// Without columns there is no header to draw, only the empty frame
+	if (frozen === undefined) {
+		return createElement(Box, { ref: boxRef, width, height });
+	}
+
+	const visibleColumns = [
+		{ column: frozen, index: 0, width: frozenWidth },
+		...scrolling
+			.slice(columnWindow.startIndex, columnWindow.endIndex)
+			.map((column, offset) => {
+				const index = columnWindow.startIndex + offset;
+				return {
+					column,
+					index: index + 1,
+					// A lone column wider than the grid is cut to fit
+					width: Math.min(scrollingWidths[index], available),
+				};
+			}),
+	];
+
+	const line = (
+		key: string,
+		texts: readonly string[],
+		options: { bold?: boolean; focusedColumn?: number },
+	): ReactNode =>
+		createElement(
+			Text,
+			{ key, wrap: "truncate-end" },
+			visibleColumns.map(({ column, index, width: cellWidth }, position) => {
+				const separator =
+					position === 0 ? "" : position === 1 ? FROZEN_SEPARATOR : " ";
+				return createElement(
+					Text,
+					{ key: column.key },
+					separator,
+					createElement(
+						Text,
+						{
+							bold: options.bold,
+							inverse: options.focusedColumn === index,
+						},
+						formatCell(
+							texts[position],
+							cellWidth,
+							column.align,
+							column.truncate,
+						),
+					),
+				);
+			}),
+		);
+
+	const visibleWidths = visibleColumns.map((entry) => entry.width);
+	const rule =
+		"─".repeat(frozenWidth) +
+		(visibleColumns.length > 1
+			? `─┼─${"─".repeat(spanWidth(visibleWidths, 1, visibleWidths.length))}`
+			: "");
+
+	const body: ReactNode[] = [];
+	for (
+		let rowIndex = rowWindow.visibleStartIndex;
+		rowIndex < rowWindow.visibleEndIndex;
+		rowIndex++
+	) {
+		const row = rows[rowIndex];
+		body.push(
+			line(
+				`row-${rowIndex}`,
+				visibleColumns.map(({ column }) => cellText(column, row, rowIndex)),
+				{
+					focusedColumn:
+						isFocused && rowIndex === focusedCell.row
+							? focusedCell.column
+							: undefined,
+				},
+			),
+		);
+	}
+
+	return createElement(
+		Box,
+		{ ref: boxRef, width, height, flexDirection: "column", overflow: "hidden" },
+		line(
+			"header",
+			visibleColumns.map(({ column }) => column.header ?? column.key),
+			{ bold: true },
+		),
+		createElement(Text, { key: "rule", dimColor: true }, rule),
+		body,
+	);
+};
+
+export const DataGrid = memo(DataGridInner) as <T>(
+	props: DataGridProps<T>,
+) => ReactNode;
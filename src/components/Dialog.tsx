@@ -0,0 +1,126 @@
+import {
+	createElement,
+	memo,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useId,
+} from "react";
+import { z } from "zod";
+import { FocusContext, FocusStateContext } from "../focus/focus-context";
+import { FocusScope } from "../focus/focus-scope";
+import { useInput } from "../hooks/use-input";
+import {
+	type DimensionValue,
+	DimensionValueSchema,
+} from "../layout/dimensions";
+import {
+	type BorderStyleName,
+	BorderStyleNameSchema,
+} from "../rendering/border";
+import { Box } from "./Box";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const DialogPropsSchema = z.object({
+	open: z.boolean(),
+	onClose: z.function().optional(),
+	title: z.string().optional(),
+	width: DimensionValueSchema.optional(),
+	borderStyle: BorderStyleNameSchema.default("round"),
+	borderColor: z.string().optional(),
+	dimBackground: z.boolean().default(true),
+});
+
+export type DialogProps = {
+	readonly open: boolean;
+	// Escape while the dialog is the innermost one open
+	readonly onClose?: () => void;
+	// Shown in bold above the content; also names the dialog for screen
+	// readers
+	readonly title?: string;
+	readonly children?: ReactNode;
+	// Width of the panel, border included; it fits its content when omitted
+	readonly width?: DimensionValue;
+	readonly borderStyle?: BorderStyleName;
+	readonly borderColor?: string;
+	readonly dimBackground?: boolean;
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * A panel centered over the whole UI. While open, Tab and Shift+Tab cycle
+ * through its focusable components only; once closed, focus goes back to
+ * whatever had it before.
+ */
+const DialogInner = ({
+	open,
+	onClose,
+	title,
+	children,
+	width,
+	borderStyle = "round",
+	borderColor,
+	dimBackground = true,
+}: DialogProps): ReactNode => {
+	const focusManager = useContext(FocusContext);
+	const { traps } = useContext(FocusStateContext);
+	const scope = useId();
+
+	// Runs after the content's components have registered, so the trap can
+	// move focus onto the first of them
+	useEffect(() => {
+		if (!open || !focusManager) return;
+
+		const previousId = focusManager.getFocusedId();
+		focusManager.trapFocus(scope);
+
+		return () => {
+			focusManager.releaseFocus(scope);
+			if (previousId !== undefined) focusManager.focus(previousId);
+		};
+	}, [open, focusManager, scope]);
+
+	// A dialog opened from this one takes Escape first
+	const isInnermost = !focusManager || traps.at(-1) === scope;
+	useInput(
+		(_input, key) => {
+			if (key.escape) onClose?.();
+		},
+		{ isActive: open && isInnermost },
+	);
+
+	if (!open) return null;
+
+	return createElement(
+		Box,
+		{
+			overlay: true,
+			backdrop: dimBackground ? "dim" : "none",
+			justifyContent: "center",
+			alignItems: "center",
+		},
+		createElement(
+			Box,
+			{
+				width,
+				flexDirection: "column",
+				borderStyle,
+				borderColor,
+				paddingX: 1,
+				"aria-role": "dialog",
+				"aria-label": title,
+			},
+			title !== undefined ? createElement(Text, { bold: true }, title) : null,
+			createElement(FocusScope, { id: scope }, children),
+		),
+	);
+};
+
+export const Dialog = memo(DialogInner);
@@ -0,0 +1,163 @@
+import { createElement, memo, type ReactNode, useRef } from "react";
+import { z } from "zod";
+import { type ColorSpec, ColorSpecSchema } from "../color";
+import { useAnimation } from "../hooks/use-animation";
+import { useMeasureElement } from "../hooks/use-measure-element";
+import type { EcsInstance } from "../host-config";
+import {
+	type DimensionValue,
+	DimensionValueSchema,
+} from "../layout/dimensions";
+import { Box } from "./Box";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const ProgressBarPropsSchema = z.object({
+	value: z.number().optional(),
+	indeterminate: z.boolean().default(false),
+	showPercentage: z.boolean().default(false),
+	width: DimensionValueSchema.default("100%"),
+	color: ColorSpecSchema.optional(),
+});
+
+export type ProgressBarProps = {
+	// Completed fraction, 0..1; values outside are clamped
+	readonly value?: number;
+	// A segment bouncing along the track, for work of unknown length. Also
+	// used when `value` is omitted.
+	readonly indeterminate?: boolean;
+	// Shown before the bar; a string label also names the bar for screen
+	// readers
+	readonly label?: ReactNode;
+	// Shows the rounded percentage after the bar
+	readonly showPercentage?: boolean;
+	// Width of the whole bar including label and percentage; the track fills
+	// whatever is left
+	readonly width?: DimensionValue;
+	readonly color?: ColorSpec;
+};
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+const FULL_BLOCK = "█";
+
+// Left-aligned partial blocks, indexed by eighths of a cell
+const PARTIAL_BLOCKS = ["", "▏", "▎", "▍", "▌", "▋", "▊", "▉"] as const;
+
+// Milliseconds per step of the indeterminate segment
+const BOUNCE_INTERVAL = 80;
+
+const clampFraction = (value: number): number =>
+	Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+
+/**
+ * Draws `value` (0..1) as a `width`-cell track, using eighth blocks for the
+ * cell the bar ends in. Always exactly `width` characters long.
+ */
+export const drawProgressBar = (value: number, width: number): string => {
+	if (width <= 0) return "";
+
+	const eighths = Math.round(clampFraction(value) * width * 8);
+	const full = Math.floor(eighths / 8);
+	const partial = PARTIAL_BLOCKS[eighths % 8];
+	const filled = FULL_BLOCK.repeat(full) + partial;
+	return filled + " ".repeat(width - full - (partial.length > 0 ? 1 : 0));
+};
+
+/**
+ * Draws the indeterminate segment at animation `frame`. The segment takes a
+ * quarter of the track and moves one cell per frame, reversing at each end.
+ */
+export const drawIndeterminateBar = (frame: number, width: number): string => {
+	if (width <= 0) return "";
+
+	const size = Math.max(1, Math.floor(width / 4));
+	const travel = width - size;
+	const step = travel === 0 ? 0 : frame % (travel * 2);
+	const offset = step <= travel ? step : travel * 2 - step;
+	return (
+		" ".repeat(offset) + FULL_BLOCK.repeat(size) + " ".repeat(travel - offset)
+	);
+};
+
+export const formatPercentage = (value: number): string =>
+	`${Math.round(clampFraction(value) * 100)}%`;
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+// The track is measured after layout, so the first render draws nothing
+const ProgressBarInner = ({
+	value,
+	indeterminate = false,
+	label,
+	showPercentage = false,
+	width = "100%",
+	color,
+}: ProgressBarProps): ReactNode => {
+	const isIndeterminate = indeterminate || value === undefined;
+	const { frame } = useAnimation({
+		interval: BOUNCE_INTERVAL,
+		isActive: isIndeterminate,
+	});
+
+	const trackRef = useRef<EcsInstance>(null);
+	const { width: trackWidth } = useMeasureElement(trackRef);
+	const bar = isIndeterminate
+		? drawIndeterminateBar(frame, trackWidth)
+		: drawProgressBar(value, trackWidth);
+	const percentage = isIndeterminate ? undefined : formatPercentage(value);
+
+	return createElement(
+		Box,
+		{
+			width,
+			flexDirection: "row",
+			"aria-role": "progressbar",
+			"aria-label": typeof label === "string" ? label : undefined,
+			"aria-valuetext": percentage,
+		},
+		label !== undefined
+			? createElement(
+					Box,
+					{ marginRight: 1, flexShrink: 0 },
+					typeof label === "string" ? createElement(Text, null, label) : label,
+				)
+			: null,
+		createElement(
+			Box,
+			// Sized by the layout alone: the bar drawn for the last width
+			// must not hold the track open when the space shrinks
+			{
+				ref: trackRef,
+				flexGrow: 1,
+				flexShrink: 1,
+				flexBasis: 0,
+				minWidth: 0,
+				"aria-hidden": true,
+			},
+			createElement(Text, { color }, bar),
+		),
+		showPercentage && percentage !== undefined
+			? createElement(
+					Box,
+					// Wide enough for "100%", so the track does not jitter
+					{
+						marginLeft: 1,
+						width: 4,
+						flexShrink: 0,
+						justifyContent: "flex-end",
+					},
+					createElement(Text, null, percentage),
+				)
+			: null,
+	);
+};
+
+export const ProgressBar = memo(ProgressBarInner);
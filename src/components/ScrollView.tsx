@@ -0,0 +1,180 @@
+import {
+	createElement,
+	memo,
+	type ReactNode,
+	type Ref,
+	useImperativeHandle,
+	useRef,
+	useState,
+} from "react";
+import { z } from "zod";
+import { useFocus } from "../hooks/use-focus";
+import { useInput } from "../hooks/use-input";
+import {
+	measureElement,
+	useMeasureElement,
+} from "../hooks/use-measure-element";
+import { useMouse } from "../hooks/use-mouse";
+import type { EcsInstance } from "../host-config";
+import {
+	type DimensionValue,
+	DimensionValueSchema,
+} from "../layout/dimensions";
+import { Box } from "./Box";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const ScrollViewPropsSchema = z.object({
+	height: DimensionValueSchema,
+	width: DimensionValueSchema.optional(),
+	initialScrollTop: z.number().int().min(0).default(0),
+	onScroll: z.function().optional(),
+	autoFocus: z.boolean().default(false),
+	isDisabled: z.boolean().default(false),
+	id: z.string().optional(),
+});
+
+export type ScrollViewHandle = {
+	// Offsets past the end of the content stop at the end
+	readonly scrollTo: (offset: number) => void;
+	readonly scrollBy: (delta: number) => void;
+	readonly scrollToTop: () => void;
+	readonly scrollToBottom: () => void;
+};
+
+export type ScrollViewProps = {
+	readonly children?: ReactNode;
+	// Lines visible at once; the content scrolls within them
+	readonly height: DimensionValue;
+	readonly width?: DimensionValue;
+	readonly initialScrollTop?: number;
+	// Called with the new offset whenever it changes
+	readonly onScroll?: (scrollTop: number) => void;
+	readonly autoFocus?: boolean;
+	readonly isDisabled?: boolean;
+	// Focus id, for useFocusManager().focus(id)
+	readonly id?: string;
+	readonly ref?: Ref<ScrollViewHandle>;
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+// Lines moved per wheel notch
+const WHEEL_LINES = 3;
+
+const clampOffset = (offset: number, max: number): number =>
+	Math.max(0, Math.min(Math.round(offset), max));
+
+/**
+ * A box of fixed height whose content scrolls vertically, with a scrollbar
+ * once the content is taller than the box. While focused, arrows, Page
+ * Up/Down, Home/End and the mouse wheel scroll it.
+ */
+const ScrollViewInner = ({
+	children,
+	height,
+	width,
+	initialScrollTop = 0,
+	onScroll,
+	autoFocus = false,
+	isDisabled = false,
+	id,
+	ref,
+}: ScrollViewProps): ReactNode => {
+	const { isFocused } = useFocus({ id, autoFocus, isActive: !isDisabled });
+
+	const viewportRef = useRef<EcsInstance>(null);
+	const contentRef = useRef<EcsInstance>(null);
+	const { height: viewportHeight } = useMeasureElement(viewportRef);
+	const { height: contentHeight } = useMeasureElement(contentRef);
+
+	const [offset, setOffset] = useState(initialScrollTop);
+	const scrollTop = clampOffset(
+		offset,
+		Math.max(0, contentHeight - viewportHeight),
+	);
+
+	// Keys from one stdin chunk apply in order before the next render
+	const scrollTopRef = useRef(scrollTop);
+	scrollTopRef.current = scrollTop;
+
+	// Read from the last layout rather than state, so scrolling right after
+	// the content changed is clamped to its new height
+	const maxScrollTop = (): number =>
+		Math.max(
+			0,
+			measureElement(contentRef).height - measureElement(viewportRef).height,
+		);
+
+	const scrollTo = (next: number): void => {
+		const clamped = clampOffset(next, maxScrollTop());
+		if (clamped === scrollTopRef.current) return;
+		scrollTopRef.current = clamped;
+		setOffset(clamped);
+		onScroll?.(clamped);
+	};
+
+	const scrollBy = (delta: number): void => {
+		scrollTo(scrollTopRef.current + delta);
+	};
+
+	useImperativeHandle(ref, () => ({
+		scrollTo,
+		scrollBy,
+		scrollToTop: () => scrollTo(0),
+		scrollToBottom: () => scrollTo(maxScrollTop()),
+	}));
+
+	useInput(
+		(_input, key) => {
+			const page = Math.max(1, measureElement(viewportRef).height);
+
+			if (key.upArrow) {
+				scrollBy(-1);
+			} else if (key.downArrow) {
+				scrollBy(1);
+			} else if (key.pageUp) {
+				scrollBy(-page);
+			} else if (key.pageDown) {
+				scrollBy(page);
+			} else if (key.home) {
+				scrollTo(0);
+			} else if (key.end) {
+				scrollTo(maxScrollTop());
+			}
+		},
+		{ isActive: isFocused },
+	);
+
+	useMouse(
+		(event) => {
+			if (event.type !== "wheel") return;
+			if (event.direction === "up") scrollBy(-WHEEL_LINES);
+			if (event.direction === "down") scrollBy(WHEEL_LINES);
+		},
+		{ isActive: isFocused },
+	);
+
+	return createElement(
+		Box,
+		{
+			ref: viewportRef,
+			width,
+			height,
+			flexDirection: "column",
+			overflowY: "scroll",
+			scrollTop,
+		},
+		createElement(
+			Box,
+			{ ref: contentRef, flexDirection: "column", flexShrink: 0 },
+			children,
+		),
+	);
+};
+
+export const ScrollView = memo(ScrollViewInner);
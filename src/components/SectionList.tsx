@@ -0,0 +1,389 @@
+import {
+	createElement,
+	memo,
+	type ReactElement,
+	type ReactNode,
+	useCallback,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
+import { z } from "zod";
+import { useFocus } from "../hooks/use-focus";
+import { useInput } from "../hooks/use-input";
+import {
+	renderScrollIndicator,
+	useVirtualizedList,
+} from "../hooks/use-virtualized-list";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const SectionSchema = z.object({
+	key: z.string(),
+	title: z.string(),
+	data: z.array(z.unknown()),
+});
+
+export const SectionListPropsSchema = z.object({
+	sections: z.array(SectionSchema),
+	renderItem: z.function(),
+	renderSectionHeader: z.function().optional(),
+	height: z.number().int().min(1),
+	itemHeight: z.number().int().min(1).default(1),
+	overscan: z.number().int().min(0).default(3),
+	showScrollIndicator: z.boolean().default(true),
+	collapsedSections: z.array(z.string()).optional(),
+	defaultCollapsedSections: z.array(z.string()).default([]),
+	onToggleSection: z.function().optional(),
+	onSelect: z.function().optional(),
+	autoFocus: z.boolean().default(false),
+	isDisabled: z.boolean().default(false),
+	id: z.string().optional(),
+});
+
+export type Section<T> = {
+	// Identifies the section across renders, e.g. for collapsedSections
+	readonly key: string;
+	readonly title: string;
+	readonly data: readonly T[];
+};
+
+export type SectionItemState<T> = {
+	readonly section: Section<T>;
+	// The row the movement keys are on
+	readonly isSelected: boolean;
+	// Whether the list has focus
+	readonly isFocused: boolean;
+};
+
+export type SectionHeaderState = {
+	readonly isCollapsed: boolean;
+	readonly isSelected: boolean;
+	readonly isFocused: boolean;
+	// Held at the top of the viewport while the section's items scroll past
+	readonly isSticky: boolean;
+};
+
+export type SectionListProps<T> = {
+	readonly sections: readonly Section<T>[];
+	readonly renderItem: (
+		item: T,
+		index: number,
+		state: SectionItemState<T>,
+	) => ReactElement;
+	// One line; defaults to the title and item count in bold
+	readonly renderSectionHeader?: (
+		section: Section<T>,
+		state: SectionHeaderState,
+	) => ReactElement;
+	readonly height: number;
+	// Lines per item; headers take one
+	readonly itemHeight?: number;
+	readonly overscan?: number;
+	readonly showScrollIndicator?: boolean;
+	// Keys of the collapsed sections, when controlled
+	readonly collapsedSections?: readonly string[];
+	// Initially collapsed sections when uncontrolled
+	readonly defaultCollapsedSections?: readonly string[];
+	readonly onToggleSection?: (key: string, isCollapsed: boolean) => void;
+	// Enter or Space on an item
+	readonly onSelect?: (item: T, section: Section<T>) => void;
+	readonly autoFocus?: boolean;
+	readonly isDisabled?: boolean;
+	// Focus id, for useFocusManager().focus(id)
+	readonly id?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Rows
+// ---------------------------------------------------------------------------
+
+export type SectionRow<T> =
+	| {
+			readonly kind: "header";
+			readonly section: Section<T>;
+	  }
+	| {
+			readonly kind: "item";
+			readonly section: Section<T>;
+			readonly item: T;
+			// Within the section
+			readonly index: number;
+			// Row of the section's header
+			readonly headerRow: number;
+	  };
+
+// Each section's header followed by its items, unless collapsed
+export const flattenSections = <T,>(
+	sections: readonly Section<T>[],
+	collapsed: ReadonlySet<string>,
+): SectionRow<T>[] => {
+	const rows: SectionRow<T>[] = [];
+	for (const section of sections) {
+		const headerRow = rows.length;
+		rows.push({ kind: "header", section });
+		if (collapsed.has(section.key)) continue;
+		section.data.forEach((item, index) => {
+			rows.push({ kind: "item", section, item, index, headerRow });
+		});
+	}
+	return rows;
+};
+
+// Lines a sticky header covers
+const HEADER_HEIGHT = 1;
+
+const DefaultSectionHeader = <T,>(
+	section: Section<T>,
+	state: SectionHeaderState,
+): ReactElement =>
+	createElement(
+		Text,
+		{ bold: true, inverse: state.isSelected && state.isFocused },
+		`${state.isCollapsed ? "▸" : "▾"} ${section.title} (${section.data.length})`,
+	);
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * A virtualized list in sections. While focused, the arrows, Page Up/Down
+ * and Home/End move between headers and items; Enter or Space on a header,
+ * or Left and Right, collapse and expand its section.
+ */
+const SectionListInner = <T,>(props: SectionListProps<T>): ReactNode => {
+	const {
+		sections,
+		renderItem,
+		renderSectionHeader = DefaultSectionHeader,
+		height,
+		itemHeight = 1,
+		overscan = 3,
+		showScrollIndicator = true,
+		collapsedSections,
+		defaultCollapsedSections = [],
+		onToggleSection,
+		onSelect,
+		autoFocus = false,
+		isDisabled = false,
+		id,
+	} = props;
+
+	const { isFocused } = useFocus({ id, autoFocus, isActive: !isDisabled });
+
+	const [uncontrolledCollapsed, setUncontrolledCollapsed] = useState<
+		readonly string[]
+	>(defaultCollapsedSections);
+	const collapsedKeys = collapsedSections ?? uncontrolledCollapsed;
+	const collapsed = useMemo(() => new Set(collapsedKeys), [collapsedKeys]);
+
+	const rows = useMemo(
+		() => flattenSections(sections, collapsed),
+		[sections, collapsed],
+	);
+	const rowHeight = useCallback(
+		(row: SectionRow<T>) => (row.kind === "header" ? 1 : itemHeight),
+		[itemHeight],
+	);
+
+	const list = useVirtualizedList(rows, {
+		itemHeight: rowHeight,
+		height,
+		overscan,
+	});
+	const { windowState, visibleItems, scrollFraction } = list;
+
+	// The first visible row is an item, so its header sticks over it
+	const firstRow = rows[windowState.scrollIndex];
+	const isSticky = firstRow?.kind === "item";
+
+	const lastRow = Math.max(0, rows.length - 1);
+	const [selected, setSelected] = useState(0);
+	const selectedRow = Math.min(selected, lastRow);
+
+	// Keys from one stdin chunk apply in order before the next render
+	const selectedRef = useRef(selectedRow);
+	selectedRef.current = selectedRow;
+	const collapsedRef = useRef(collapsedKeys);
+	collapsedRef.current = collapsedKeys;
+
+	const select = (row: number): void => {
+		const target = Math.max(0, Math.min(row, lastRow));
+		selectedRef.current = target;
+		setSelected(target);
+
+		// A sticky header covers the first visible row, so an item scrolled
+		// to from below stops one row further down
+		const top = windowState.scrollIndex;
+		const covered = rows[target]?.kind === "item" ? 1 : 0;
+		if (target < top + covered) {
+			list.scrollToIndex(target - covered);
+		} else {
+			list.scrollIntoView(target);
+		}
+	};
+
+	const setCollapsed = (key: string, isCollapsed: boolean): void => {
+		const current = collapsedRef.current;
+		if (current.includes(key) === isCollapsed) return;
+		const next = isCollapsed
+			? [...current, key]
+			: current.filter((collapsedKey) => collapsedKey !== key);
+		collapsedRef.current = next;
+		if (collapsedSections === undefined) setUncontrolledCollapsed(next);
+		onToggleSection?.(key, isCollapsed);
+	};
+
+	useInput(
+		(_input, key) => {
+			const current = selectedRef.current;
+			const row = rows[current];
+			const page = Math.max(1, windowState.visibleCount);
+
+			if (key.upArrow) {
+				select(current - 1);
+			} else if (key.downArrow) {
+				select(current + 1);
+			} else if (key.pageUp) {
+				select(current - page);
+			} else if (key.pageDown) {
+				select(current + page);
+			} else if (key.home) {
+				select(0);
+			} else if (key.end) {
+				select(lastRow);
+			} else if (!row) {
+				return;
+			} else if (key.return || key.name === "space") {
+				if (row.kind === "header") {
+					setCollapsed(row.section.key, !collapsed.has(row.section.key));
+				} else {
+					onSelect?.(row.item, row.section);
+				}
+			} else if (key.leftArrow) {
+				// Collapsing from an item leaves the selection on its header
+				if (row.kind === "item") select(row.headerRow);
+				setCollapsed(row.section.key, true);
+			} else if (key.rightArrow && row.kind === "header") {
+				setCollapsed(row.section.key, false);
+			}
+		},
+		{ isActive: isFocused },
+	);
+
+	const renderHeader = (
+		section: Section<T>,
+		isSelected: boolean,
+		sticky: boolean,
+	): ReactElement =>
+		renderSectionHeader(section, {
+			isCollapsed: collapsed.has(section.key),
+			isSelected,
+			isFocused,
+			isSticky: sticky,
+		});
+
+	const renderedRows = visibleItems.map(({ item: row, index }) => {
+		const isSelected = index === selectedRow;
+		if (row.kind === "header") {
+			return createElement(
+				"blecsdui-box",
+				{
+					key: `header:${row.section.key}`,
+					flexShrink: 0,
+					"aria-role": "heading",
+					"aria-label": row.section.title,
+					"aria-state": {
+						expanded: !collapsed.has(row.section.key),
+						selected: isSelected,
+					},
+				},
+				renderHeader(row.section, isSelected, false),
+			);
+		}
+		return createElement(
+			"blecsdui-box",
+			{
+				key: `item:${row.section.key}:${row.index}`,
+				flexDirection: "column",
+				flexShrink: 0,
+				"aria-role": "listitem",
+				"aria-state": { selected: isSelected },
+			},
+			renderItem(row.item, row.index, {
+				section: row.section,
+				isSelected,
+				isFocused,
+			}),
+		);
+	});
+
+	const stickyHeader =
+		isSticky && firstRow
+			? createElement(
+					"blecsdui-box",
+					{
+						key: "__slist-sticky",
+						height: HEADER_HEIGHT,
+						flexShrink: 0,
+						overflow: "hidden",
+					},
+					renderHeader(firstRow.section, false, true),
+				)
+			: null;
+
+	// Under a sticky header the rows start a line further down the content
+	const covered = isSticky ? HEADER_HEIGHT : 0;
+	const content = createElement(
+		"blecsdui-box",
+		{
+			key: "__slist-content",
+			flexDirection: "column",
+			overflow: "hidden",
+			height: Math.max(0, height - covered),
+			scrollTop:
+				windowState.scrollOffset - windowState.topSpacerHeight + covered,
+		},
+		createElement(
+			"blecsdui-box",
+			{ flexDirection: "column", flexShrink: 0 },
+			...renderedRows,
+		),
+	);
+
+	const scrollIndicator =
+		showScrollIndicator && windowState.maxScrollIndex > 0
+			? createElement(
+					"blecsdui-box",
+					{
+						key: "__slist-scrollbar",
+						flexDirection: "column",
+						width: 1,
+						height,
+					},
+					...renderScrollIndicator(height, scrollFraction).map((char, i) =>
+						createElement("blecsdui-text", { key: `__si-${i}` }, char),
+					),
+				)
+			: null;
+
+	return createElement(
+		"blecsdui-box",
+		{ flexDirection: "row", height, overflow: "hidden", "aria-role": "list" },
+		createElement(
+			"blecsdui-box",
+			{ key: "__slist-rows", flexDirection: "column", flexGrow: 1, height },
+			stickyHeader,
+			content,
+		),
+		scrollIndicator,
+	);
+};
+
+export const SectionList = memo(SectionListInner) as <T>(
+	props: SectionListProps<T>,
+) => ReactNode;
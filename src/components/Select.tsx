@@ -0,0 +1,306 @@
+import {
+	createElement,
+	type FunctionComponent,
+	memo,
+	type ReactNode,
+	useRef,
+	useState,
+} from "react";
+import { z } from "zod";
+import { useFocus } from "../hooks/use-focus";
+import { useInput } from "../hooks/use-input";
+import {
+	calculateWindow,
+	keepIndexVisible,
+} from "../hooks/use-virtualized-list";
+import type { Key } from "../input/parse-keypress";
+import { Box } from "./Box";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const SelectItemSchema = z.object({
+	label: z.string(),
+	value: z.unknown(),
+	key: z.string().optional(),
+});
+
+export const SelectPropsSchema = z.object({
+	items: z.array(SelectItemSchema),
+	onSelect: z.function().optional(),
+	onHighlight: z.function().optional(),
+	multiple: z.boolean().default(false),
+	limit: z.number().int().min(1).optional(),
+	initialIndex: z.number().int().min(0).default(0),
+	autoFocus: z.boolean().default(false),
+	isDisabled: z.boolean().default(false),
+	id: z.string().optional(),
+});
+
+export type SelectItem<V> = {
+	readonly label: string;
+	readonly value: V;
+	// React key; defaults to the label
+	readonly key?: string;
+};
+
+export type SelectIndicatorProps = {
+	readonly isHighlighted: boolean;
+};
+
+export type SelectItemProps = {
+	readonly label: string;
+	readonly isHighlighted: boolean;
+	// Checked, in multiple mode
+	readonly isSelected: boolean;
+};
+
+type SelectBaseProps<V> = {
+	readonly items: readonly SelectItem<V>[];
+	readonly onHighlight?: (item: SelectItem<V>) => void;
+	// Rows shown at once; longer lists scroll with the highlight
+	readonly limit?: number;
+	readonly initialIndex?: number;
+	readonly indicatorComponent?: FunctionComponent<SelectIndicatorProps>;
+	readonly itemComponent?: FunctionComponent<SelectItemProps>;
+	readonly autoFocus?: boolean;
+	readonly isDisabled?: boolean;
+	// Focus id, for useFocusManager().focus(id)
+	readonly id?: string;
+};
+
+// Enter selects the highlighted item, or with `multiple` submits the items
+// checked with Space
+export type SelectProps<V> = SelectBaseProps<V> &
+	(
+		| {
+				readonly multiple?: false;
+				readonly onSelect?: (item: SelectItem<V>) => void;
+		  }
+		| {
+				readonly multiple: true;
+				readonly onSelect?: (items: readonly SelectItem<V>[]) => void;
+		  }
+	);
+
+// ---------------------------------------------------------------------------
+// Default rendering
+// ---------------------------------------------------------------------------
+
+const POINTER = "❯";
+const CHECKED = "◉";
+const UNCHECKED = "◯";
+
+const DefaultIndicator = ({ isHighlighted }: SelectIndicatorProps): ReactNode =>
+	createElement(
+		Box,
+		{ marginRight: 1 },
+		createElement(Text, { color: "blue" }, isHighlighted ? POINTER : " "),
+	);
+
+const DefaultItem = ({ label, isHighlighted }: SelectItemProps): ReactNode =>
+	createElement(Text, isHighlighted ? { color: "blue" } : null, label);
+
+const renderCheckbox = (isSelected: boolean): ReactNode =>
+	createElement(
+		Box,
+		{ marginRight: 1 },
+		createElement(
+			Text,
+			isSelected ? { color: "green" } : null,
+			isSelected ? CHECKED : UNCHECKED,
+		),
+	);
+
+// ---------------------------------------------------------------------------
+// Navigation
+// ---------------------------------------------------------------------------
+
+// Keystrokes further apart than this start a new type-ahead search
+export const TYPEAHEAD_TIMEOUT_MS = 500;
+
+/**
+ * Index of the first item from `fromIndex` onwards, wrapping around, whose
+ * label starts with `query` (case-insensitively), or -1.
+ */
+export const findTypeaheadMatch = (
+	items: readonly { readonly label: string }[],
+	query: string,
+	fromIndex: number,
+): number => {
+	const needle = query.toLowerCase();
+	for (let step = 0; step < items.length; step++) {
+		const index = (fromIndex + step) % items.length;
+		if (items[index].label.toLowerCase().startsWith(needle)) return index;
+	}
+	return -1;
+};
+
+const isTypeaheadKey = (input: string, key: Key): boolean =>
+	input.length > 0 &&
+	!key.ctrl &&
+	!key.meta &&
+	!key.paste &&
+	!key.return &&
+	!key.tab &&
+	!key.escape &&
+	/^\S+$/u.test(input);
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+const SelectInner = <V,>(props: SelectProps<V>): ReactNode => {
+	const {
+		items,
+		onHighlight,
+		limit,
+		initialIndex = 0,
+		indicatorComponent = DefaultIndicator,
+		itemComponent = DefaultItem,
+		autoFocus = false,
+		isDisabled = false,
+		id,
+	} = props;
+
+	const { isFocused } = useFocus({ id, autoFocus, isActive: !isDisabled });
+	const lastIndex = Math.max(0, items.length - 1);
+	const [highlighted, setHighlighted] = useState(() =>
+		Math.min(initialIndex, lastIndex),
+	);
+	const highlightedIndex = Math.min(highlighted, lastIndex);
+	const [checked, setChecked] = useState<readonly V[]>([]);
+
+	const visibleCount = limit ?? items.length;
+	const scrollRef = useRef(0);
+	scrollRef.current = keepIndexVisible(
+		scrollRef.current,
+		highlightedIndex,
+		visibleCount,
+	);
+	const visible = calculateWindow(
+		items.length,
+		scrollRef.current,
+		Math.max(1, visibleCount),
+		1,
+		0,
+	);
+	scrollRef.current = visible.scrollIndex;
+
+	// Keys from one stdin chunk apply in order before the next render
+	const highlightRef = useRef(highlightedIndex);
+	highlightRef.current = highlightedIndex;
+	const checkedRef = useRef(checked);
+	checkedRef.current = checked;
+	const typeaheadRef = useRef({ query: "", at: 0 });
+
+	const highlight = (index: number): void => {
+		if (index === highlightRef.current || items[index] === undefined) return;
+		highlightRef.current = index;
+		setHighlighted(index);
+		onHighlight?.(items[index]);
+	};
+
+	const typeahead = (input: string): void => {
+		const now = Date.now();
+		const previous = typeaheadRef.current;
+		const query =
+			now - previous.at > TYPEAHEAD_TIMEOUT_MS ? input : previous.query + input;
+		typeaheadRef.current = { query, at: now };
+
+		// A longer query may still match the highlighted item. A single letter,
+		// even typed repeatedly, searches after it and so cycles through the
+		// items starting with that letter.
+		const current = highlightRef.current;
+		const isRepeat = [...query].every((char) => char === input);
+		const match = isRepeat
+			? findTypeaheadMatch(items, input, current + 1)
+			: findTypeaheadMatch(items, query, current);
+		if (match !== -1) highlight(match);
+	};
+
+	const toggle = (item: SelectItem<V>): void => {
+		const current = checkedRef.current;
+		const next = current.includes(item.value)
+			? current.filter((value) => value !== item.value)
+			: [...current, item.value];
+		checkedRef.current = next;
+		setChecked(next);
+	};
+
+	useInput(
+		(input, key) => {
+			if (items.length === 0) return;
+			const current = highlightRef.current;
+
+			if (key.upArrow) {
+				highlight(current === 0 ? lastIndex : current - 1);
+			} else if (key.downArrow) {
+				highlight(current === lastIndex ? 0 : current + 1);
+			} else if (key.home) {
+				highlight(0);
+			} else if (key.end) {
+				highlight(lastIndex);
+			} else if (key.pageUp) {
+				highlight(Math.max(0, current - visibleCount));
+			} else if (key.pageDown) {
+				highlight(Math.min(lastIndex, current + visibleCount));
+			} else if (key.return) {
+				if (props.multiple === true) {
+					const selected = checkedRef.current;
+					props.onSelect?.(
+						items.filter((item) => selected.includes(item.value)),
+					);
+				} else {
+					props.onSelect?.(items[current]);
+				}
+			} else if (props.multiple === true && key.name === "space") {
+				toggle(items[current]);
+			} else if (isTypeaheadKey(input, key)) {
+				typeahead(input);
+			}
+		},
+		{ isActive: isFocused },
+	);
+
+	const rows = items
+		.slice(visible.visibleStartIndex, visible.visibleEndIndex)
+		.map((item, offset) => {
+			const index = visible.visibleStartIndex + offset;
+			const isHighlighted = index === highlightedIndex;
+			const isSelected =
+				props.multiple === true && checked.includes(item.value);
+
+			return createElement(
+				Box,
+				{
+					key: item.key ?? item.label,
+					"aria-role": "menuitem",
+					"aria-label": item.label,
+					"aria-state":
+						props.multiple === true
+							? { selected: isHighlighted, checked: isSelected }
+							: { selected: isHighlighted },
+				},
+				createElement(indicatorComponent, { isHighlighted }),
+				props.multiple === true ? renderCheckbox(isSelected) : null,
+				createElement(itemComponent, {
+					label: item.label,
+					isHighlighted,
+					isSelected,
+				}),
+			);
+		});
+
+	return createElement(
+		Box,
+		{ flexDirection: "column", "aria-role": "menu" },
+		rows,
+	);
+};
+
+export const Select = memo(SelectInner) as <V>(
+	props: SelectProps<V>,
+) => ReactNode;
@@ -0,0 +1,93 @@
+import { createElement, memo, type ReactNode } from "react";
+import { z } from "zod";
+import { useAnimation } from "../hooks/use-animation";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Frame sets
+// ---------------------------------------------------------------------------
+
+export type SpinnerFrames = Readonly<{
+	// Milliseconds per frame
+	interval: number;
+	frames: readonly string[];
+}>;
+
+export const SPINNERS = Object.freeze({
+	dots: {
+		interval: 80,
+		frames: ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"],
+	},
+	dots2: {
+		interval: 80,
+		frames: ["⣾", "⣽", "⣻", "⢿", "⡿", "⣟", "⣯", "⣷"],
+	},
+	line: { interval: 130, frames: ["-", "\\", "|", "/"] },
+	pipe: {
+		interval: 100,
+		frames: ["┤", "┘", "┴", "└", "├", "┌", "┬", "┐"],
+	},
+	simpleDots: { interval: 400, frames: [".  ", ".. ", "...", "   "] },
+	star: { interval: 70, frames: ["✶", "✸", "✹", "✺", "✹", "✷"] },
+	arc: { interval: 100, frames: ["◜", "◠", "◝", "◞", "◡", "◟"] },
+	circle: { interval: 120, frames: ["◡", "⊙", "◠"] },
+	circleHalves: { interval: 50, frames: ["◐", "◓", "◑", "◒"] },
+	squareCorners: { interval: 180, frames: ["◰", "◳", "◲", "◱"] },
+	toggle: { interval: 250, frames: ["⊶", "⊷"] },
+	arrow: {
+		interval: 100,
+		frames: ["←", "↖", "↑", "↗", "→", "↘", "↓", "↙"],
+	},
+	bouncingBar: {
+		interval: 80,
+		frames: [
+			"[    ]",
+			"[=   ]",
+			"[==  ]",
+			"[=== ]",
+			"[ ===]",
+			"[  ==]",
+			"[   =]",
+			"[    ]",
+			"[   =]",
+			"[  ==]",
+			"[ ===]",
+			"[====]",
+			"[=== ]",
+			"[==  ]",
+			"[=   ]",
+		],
+	},
+} satisfies Record<string, SpinnerFrames>);
+
+export type SpinnerName = keyof typeof SPINNERS;
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const SpinnerNameSchema = z.enum(
+	Object.keys(SPINNERS) as [SpinnerName, ...SpinnerName[]],
+);
+
+export const SpinnerPropsSchema = z.object({
+	type: SpinnerNameSchema.default("dots"),
+});
+
+export type SpinnerProps = {
+	readonly type?: SpinnerName;
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+// Without a running clock (CI, debug mode) the first frame stays put
+const SpinnerInner = ({ type = "dots" }: SpinnerProps): ReactNode => {
+	const { interval, frames } = SPINNERS[type];
+	const { frame } = useAnimation({ interval });
+
+	return createElement(Text, null, frames[frame % frames.length]);
+};
+
+export const Spinner = memo(SpinnerInner);
@@ -0,0 +1,305 @@
+import { stringWidth } from "blecsd/utils";
+import { createElement, memo, type ReactNode, useRef } from "react";
+import { z } from "zod";
+import { type ColorSpec, ColorSpecSchema } from "../color";
+import { useMeasureElement } from "../hooks/use-measure-element";
+import type { EcsInstance } from "../host-config";
+import {
+	type DimensionValue,
+	DimensionValueSchema,
+	resolvePercentage,
+} from "../layout/dimensions";
+import {
+	type BorderCharset,
+	type BorderJunctions,
+	type BorderStyleName,
+	BorderStyleNameSchema,
+	resolveBorderCharset,
+	resolveBorderJunctions,
+} from "../rendering/border";
+import { wrapText } from "../text/wrap-text";
+import { Box } from "./Box";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const ColumnAlignSchema = z.enum(["left", "right", "center"]);
+
+export type ColumnAlign = z.infer<typeof ColumnAlignSchema>;
+
+export const CellTruncateModeSchema = z.enum([
+	"truncate-end",
+	"truncate-start",
+	"truncate-middle",
+]);
+
+export type CellTruncateMode = z.infer<typeof CellTruncateModeSchema>;
+
+export const TableColumnWidthSchema = z.union([
+	z.number().int().min(0),
+	z.string().regex(/^\d+%$/, "Must be a percentage string like '50%'"),
+]);
+
+export const TableColumnSchema = z.object({
+	key: z.string(),
+	header: z.string().optional(),
+	width: TableColumnWidthSchema.optional(),
+	flex: z.number().min(0).default(1),
+	align: ColumnAlignSchema.default("left"),
+	truncate: CellTruncateModeSchema.default("truncate-end"),
+	render: z.function().optional(),
+});
+
+export const TablePropsSchema = z.object({
+	data: z.array(z.unknown()),
+	columns: z.array(TableColumnSchema),
+	width: DimensionValueSchema.default("100%"),
+	borderStyle: BorderStyleNameSchema.default("single"),
+	borderColor: ColorSpecSchema.optional(),
+	showHeader: z.boolean().default(true),
+	rowSeparators: z.boolean().default(false),
+	cellPadding: z.number().int().min(0).default(1),
+});
+
+// Cells across, including padding: a fixed count or a share of the space
+// inside the borders
+export type TableColumnWidth = number | `${number}%`;
+
+export type TableColumn<T> = {
+	// Identifies the column; the cell shows row[key] unless `render` is given
+	readonly key: string;
+	// Defaults to the key
+	readonly header?: string;
+	// Omitted, the column is flexible and shares what fixed and percentage
+	// columns leave over
+	readonly width?: TableColumnWidth;
+	// Share of the leftover space relative to other flexible columns
+	readonly flex?: number;
+	readonly align?: ColumnAlign;
+	// How text too wide for the cell is cut
+	readonly truncate?: CellTruncateMode;
+	readonly render?: (row: T, index: number) => string;
+};
+
+export type TableProps<T> = {
+	readonly data: readonly T[];
+	readonly columns: readonly TableColumn<T>[];
+	// Width of the whole table, borders included
+	readonly width?: DimensionValue;
+	readonly borderStyle?: BorderStyleName;
+	readonly borderColor?: ColorSpec;
+	readonly showHeader?: boolean;
+	// Draws a separator between body rows, not just under the header
+	readonly rowSeparators?: boolean;
+	// Blank cells on each side of a cell's text
+	readonly cellPadding?: number;
+};
+
+// ---------------------------------------------------------------------------
+// Column sizing
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves column widths within `available` cells. Fixed and percentage
+ * columns are sized first; flexible columns split the rest by weight, with
+ * cells left over from rounding going to the leftmost. Columns that would
+ * not fit are cut down from the right.
+ */
+export const resolveColumnWidths = (
+	columns: readonly Pick<TableColumn<unknown>, "width" | "flex">[],
+	available: number,
+): number[] => {
+	const space = Math.max(0, available);
+	const sized = columns.map(({ width }) => {
+		if (width === undefined) return undefined;
+		return typeof width === "number" ? width : resolvePercentage(width, space);
+	});
+
+	const used = sized.reduce<number>((sum, width) => sum + (width ?? 0), 0);
+	const remaining = Math.max(0, space - used);
+	const weights = columns.map(({ width, flex = 1 }) =>
+		width === undefined ? Math.max(0, flex) : 0,
+	);
+	const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+	const widths = sized.map((width, index) =>
+		width !== undefined || totalWeight === 0
+			? (width ?? 0)
+			: Math.floor((remaining * weights[index]) / totalWeight),
+	);
+	const flexed = widths.reduce(
+		(sum, width, index) => sum + (weights[index] > 0 ? width : 0),
+		0,
+	);
+
+	let leftover = totalWeight === 0 ? 0 : remaining - flexed;
+	for (let index = 0; leftover > 0 && index < widths.length; index++) {
+		if (weights[index] > 0) {
+			widths[index] += 1;
+			leftover -= 1;
+		}
+	}
+
+	let budget = space;
+	return widths.map((width) => {
+		const fitted = Math.min(width, budget);
+		budget -= fitted;
+		return fitted;
+	});
+};
+
+// ---------------------------------------------------------------------------
+// Cell formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Fits `text` to exactly `width` cells: truncated with `mode` when too
+ * wide, padded according to `align` otherwise. Line breaks become spaces.
+ */
+export const formatCell = (
+	text: string,
+	width: number,
+	align: ColumnAlign = "left",
+	mode: CellTruncateMode = "truncate-end",
+): string => {
+	if (width <= 0) return "";
+
+	const fitted = wrapText(text.replace(/\r?\n/g, " "), width, mode);
+	const gap = Math.max(0, width - stringWidth(fitted));
+	switch (align) {
+		case "left":
+			return fitted + " ".repeat(gap);
+		case "right":
+			return " ".repeat(gap) + fitted;
+		case "center": {
+			const before = Math.floor(gap / 2);
+			return " ".repeat(before) + fitted + " ".repeat(gap - before);
+		}
+	}
+};
+
+const cellText = <T,>(
+	column: TableColumn<T>,
+	row: T,
+	index: number,
+): string => {
+	if (column.render) return column.render(row, index);
+	const value = (row as Record<string, unknown> | null)?.[column.key];
+	return value === undefined || value === null ? "" : String(value);
+};
+
+// ---------------------------------------------------------------------------
+// Lines
+// ---------------------------------------------------------------------------
+
+type RuleKind = "top" | "middle" | "bottom";
+
+// A horizontal rule, with junctions where the column separators cross it
+const drawRule = (
+	widths: readonly number[],
+	kind: RuleKind,
+	box: BorderCharset,
+	junctions: BorderJunctions,
+): string => {
+	const line = kind === "bottom" ? box.bottom : box.top;
+	const segments = widths.map((width) => line.repeat(width));
+	switch (kind) {
+		case "top":
+			return box.topLeft + segments.join(junctions.top) + box.topRight;
+		case "middle":
+			return junctions.left + segments.join(junctions.cross) + junctions.right;
+		case "bottom":
+			return box.bottomLeft + segments.join(junctions.bottom) + box.bottomRight;
+	}
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+// Column widths follow the width the table was laid out at, so the first
+// render, before layout, draws nothing
+const TableInner = <T,>({
+	data,
+	columns,
+	width = "100%",
+	borderStyle = "single",
+	borderColor,
+	showHeader = true,
+	rowSeparators = false,
+	cellPadding = 1,
+}: TableProps<T>): ReactNode => {
+	const boxRef = useRef<EcsInstance>(null);
+	const { width: tableWidth } = useMeasureElement(boxRef);
+
+	const box = resolveBorderCharset(borderStyle);
+	const junctions = resolveBorderJunctions(borderStyle);
+	const widths =
+		tableWidth > 0
+			? resolveColumnWidths(columns, tableWidth - columns.length - 1)
+			: [];
+
+	const border = (text: string, key: string): ReactNode =>
+		createElement(Text, { key, color: borderColor }, text);
+
+	const rule = (kind: RuleKind, key: string): ReactNode =>
+		border(drawRule(widths, kind, box, junctions), key);
+
+	const row = (
+		texts: readonly string[],
+		key: string,
+		bold: boolean,
+	): ReactNode => {
+		const parts = [border(box.left, "left")];
+		columns.forEach((column, index) => {
+			const padding = Math.min(cellPadding, Math.floor(widths[index] / 2));
+			const inner = widths[index] - padding * 2;
+			const content =
+				" ".repeat(padding) +
+				formatCell(texts[index], inner, column.align, column.truncate) +
+				" ".repeat(padding);
+			if (index > 0) parts.push(border(box.left, `separator-${index}`));
+			parts.push(createElement(Text, { key: `cell-${index}`, bold }, content));
+		});
+		parts.push(border(box.right, "right"));
+		return createElement(Text, { key }, parts);
+	};
+
+	const lines: ReactNode[] = [];
+	if (widths.length > 0) {
+		lines.push(rule("top", "top"));
+		if (showHeader) {
+			lines.push(
+				row(
+					columns.map((column) => column.header ?? column.key),
+					"header",
+					true,
+				),
+			);
+			if (data.length > 0) lines.push(rule("middle", "header-rule"));
+		}
+		data.forEach((item, rowIndex) => {
+			if (rowSeparators && rowIndex > 0) {
+				lines.push(rule("middle", `rule-${rowIndex}`));
+			}
+			lines.push(
+				row(
+					columns.map((column) => cellText(column, item, rowIndex)),
+					`row-${rowIndex}`,
+					false,
+				),
+			);
+		});
+		lines.push(rule("bottom", "bottom"));
+	}
+
+	return createElement(
+		Box,
+		{ ref: boxRef, width, flexDirection: "column" },
+		lines,
+	);
+};
+
+export const Table = memo(TableInner) as <T>(props: TableProps<T>) => ReactNode;
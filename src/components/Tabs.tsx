@@ -0,0 +1,293 @@
+import {
+	Children,
+	createContext,
+	createElement,
+	isValidElement,
+	memo,
+	type ReactElement,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useId,
+	useRef,
+	useState,
+} from "react";
+import { z } from "zod";
+import { FocusScope } from "../focus/focus-scope";
+import { useFocus } from "../hooks/use-focus";
+import { useFocusManager } from "../hooks/use-focus-manager";
+import { useInput } from "../hooks/use-input";
+import { Box } from "./Box";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Props schemas
+// ---------------------------------------------------------------------------
+
+export const TabsPropsSchema = z.object({
+	value: z.string().optional(),
+	defaultValue: z.string().optional(),
+	onChange: z.function().optional(),
+	keepMounted: z.boolean().default(false),
+	autoFocus: z.boolean().default(false),
+	isDisabled: z.boolean().default(false),
+	id: z.string().optional(),
+});
+
+export const TabPropsSchema = z.object({
+	value: z.string(),
+	isDisabled: z.boolean().default(false),
+});
+
+export const TabPanelPropsSchema = z.object({
+	value: z.string(),
+	keepMounted: z.boolean().optional(),
+});
+
+// Tab children make up the tab list; everything else, TabPanels included,
+// renders below it
+export type TabsProps = {
+	readonly children?: ReactNode;
+	// The selected tab, when controlled
+	readonly value?: string;
+	// Initially selected tab when uncontrolled; defaults to the first one
+	readonly defaultValue?: string;
+	readonly onChange?: (value: string) => void;
+	// Keeps panels mounted, hidden, once they have been shown
+	readonly keepMounted?: boolean;
+	readonly autoFocus?: boolean;
+	readonly isDisabled?: boolean;
+	// Focus id of the tab list, for useFocusManager().focus(id)
+	readonly id?: string;
+};
+
+export type TabProps = {
+	readonly value: string;
+	readonly children?: ReactNode;
+	readonly isDisabled?: boolean;
+};
+
+export type TabPanelProps = {
+	// The Tab this panel belongs to
+	readonly value: string;
+	readonly children?: ReactNode;
+	// Overrides Tabs' keepMounted for this panel
+	readonly keepMounted?: boolean;
+};
+
+// ---------------------------------------------------------------------------
+// Context shared with Tab and TabPanel
+// ---------------------------------------------------------------------------
+
+type TabsContextValue = {
+	readonly selected: string | undefined;
+	readonly isListFocused: boolean;
+	readonly keepMounted: boolean;
+	// Panels that have been shown at least once
+	readonly visited: ReadonlySet<string>;
+	readonly scopeFor: (value: string) => string;
+};
+
+const TabsContext = createContext<TabsContextValue | undefined>(undefined);
+TabsContext.displayName = "BlecsdUITabsContext";
+
+// ---------------------------------------------------------------------------
+// Tab
+// ---------------------------------------------------------------------------
+
+const TabInner = ({
+	value,
+	children,
+	isDisabled = false,
+}: TabProps): ReactNode => {
+	const tabs = useContext(TabsContext);
+	const isSelected = tabs?.selected === value;
+	const isFocused = isSelected && tabs?.isListFocused === true;
+
+	return createElement(
+		Box,
+		{
+			marginRight: 1,
+			"aria-role": "tab",
+			"aria-label": typeof children === "string" ? children : undefined,
+			"aria-state": { selected: isSelected, disabled: isDisabled },
+		},
+		createElement(
+			Text,
+			{
+				bold: isSelected,
+				underline: isSelected && !isFocused,
+				inverse: isFocused,
+				dimColor: isDisabled,
+			},
+			" ",
+			children,
+			" ",
+		),
+	);
+};
+
+export const Tab = memo(TabInner);
+
+// ---------------------------------------------------------------------------
+// TabPanel
+// ---------------------------------------------------------------------------
+
+// Mounts the first time its tab is selected. Its focusable components form
+// a focus scope that is active only while the panel shows.
+const TabPanelInner = ({
+	value,
+	children,
+	keepMounted,
+}: TabPanelProps): ReactNode => {
+	const tabs = useContext(TabsContext);
+	if (!tabs) return null;
+
+	const isSelected = tabs.selected === value;
+	const keep = keepMounted ?? tabs.keepMounted;
+	if (!isSelected && !(keep && tabs.visited.has(value))) return null;
+
+	return createElement(
+		Box,
+		{
+			flexDirection: "column",
+			display: isSelected ? "flex" : "none",
+			"aria-role": "tabpanel",
+		},
+		createElement(
+			FocusScope,
+			{ id: tabs.scopeFor(value), isActive: isSelected },
+			children,
+		),
+	);
+};
+
+export const TabPanel = memo(TabPanelInner);
+
+// ---------------------------------------------------------------------------
+// Tabs
+// ---------------------------------------------------------------------------
+
+const isTabElement = (node: ReactNode): node is ReactElement<TabProps> =>
+	isValidElement(node) && node.type === Tab;
+
+// Ctrl+1..9 selects the tab at that position
+const tabIndexForKey = (input: string, ctrl: boolean): number | undefined =>
+	ctrl && /^[1-9]$/.test(input) ? Number(input) - 1 : undefined;
+
+const TabsInner = ({
+	children,
+	value,
+	defaultValue,
+	onChange,
+	keepMounted = false,
+	autoFocus = false,
+	isDisabled = false,
+	id,
+}: TabsProps): ReactNode => {
+	const nodes = Children.toArray(children);
+	const tabElements = nodes.filter(isTabElement);
+	const rest = nodes.filter((node) => !isTabElement(node));
+	const tabs = tabElements.map((element) => element.props);
+	const enabled = tabs.filter((tab) => !tab.isDisabled);
+
+	const { isFocused } = useFocus({ id, autoFocus, isActive: !isDisabled });
+	const { focusScope } = useFocusManager();
+	const baseId = useId();
+	const scopeFor = (tabValue: string): string => `${baseId}:${tabValue}`;
+
+	const [uncontrolled, setUncontrolled] = useState(
+		() => defaultValue ?? enabled[0]?.value,
+	);
+	const selected = value ?? uncontrolled;
+
+	const visitedRef = useRef(new Set<string>());
+	if (selected !== undefined) visitedRef.current.add(selected);
+
+	// Keys from one stdin chunk apply in order before the next render
+	const selectedRef = useRef(selected);
+	selectedRef.current = selected;
+
+	// Focus moves into a panel once it has rendered and its components have
+	// registered, which is after the commit that shows it
+	const pendingFocusRef = useRef<string | undefined>(undefined);
+	useEffect(() => {
+		const scope = pendingFocusRef.current;
+		if (scope === undefined) return;
+		pendingFocusRef.current = undefined;
+		focusScope(scope);
+	});
+
+	const select = (next: string, activate: boolean): void => {
+		if (next === selectedRef.current) {
+			if (activate) focusScope(scopeFor(next));
+			return;
+		}
+		if (activate) pendingFocusRef.current = scopeFor(next);
+		selectedRef.current = next;
+		if (value === undefined) setUncontrolled(next);
+		onChange?.(next);
+	};
+
+	const step = (delta: number): void => {
+		if (enabled.length === 0) return;
+		const current = enabled.findIndex(
+			(tab) => tab.value === selectedRef.current,
+		);
+		const index =
+			current === -1 ? 0 : (current + delta + enabled.length) % enabled.length;
+		select(enabled[index].value, false);
+	};
+
+	useInput(
+		(_input, key) => {
+			if (key.leftArrow) {
+				step(-1);
+			} else if (key.rightArrow) {
+				step(1);
+			} else if (key.home && enabled.length > 0) {
+				select(enabled[0].value, false);
+			} else if (key.end && enabled.length > 0) {
+				select(enabled[enabled.length - 1].value, false);
+			} else if (
+				(key.return || key.downArrow) &&
+				selectedRef.current !== undefined
+			) {
+				select(selectedRef.current, true);
+			}
+		},
+		{ isActive: isFocused },
+	);
+
+	// Direct jumps work wherever focus is
+	useInput(
+		(input, key) => {
+			const index = tabIndexForKey(input, key.ctrl);
+			if (index === undefined) return;
+			const tab = tabs[index];
+			if (tab && !tab.isDisabled) select(tab.value, true);
+		},
+		{ isActive: !isDisabled },
+	);
+
+	return createElement(
+		TabsContext.Provider,
+		{
+			value: {
+				selected,
+				isListFocused: isFocused,
+				keepMounted,
+				visited: visitedRef.current,
+				scopeFor,
+			},
+		},
+		createElement(
+			Box,
+			{ flexDirection: "column" },
+			createElement(Box, { flexDirection: "row" }, tabElements),
+			rest,
+		),
+	);
+};
+
+export const Tabs = memo(TabsInner);
@@ -0,0 +1,291 @@
+import { stringWidth, toGraphemes } from "blecsd/utils";
+import { createElement, memo, type ReactNode, useRef, useState } from "react";
+import { z } from "zod";
+import { useFocus } from "../hooks/use-focus";
+import { useInput } from "../hooks/use-input";
+import { useMeasureElement } from "../hooks/use-measure-element";
+import type { EcsInstance } from "../host-config";
+import type { Key } from "../input/parse-keypress";
+import {
+	breakRun,
+	type EditHistory,
+	type EditKind,
+	EMPTY_EDIT_HISTORY,
+	recordEdit,
+	redoEdit,
+	undoEdit,
+} from "../text/edit-history";
+import {
+	clampCursor,
+	insertText,
+	layoutVisualLines,
+	moveVisualLine,
+	type TextEditState,
+	type VisualLine,
+	visualColumn,
+	visualLineIndex,
+} from "../text/edit-text";
+import { Box } from "./Box";
+import { Text } from "./Text";
+import { editForKey } from "./TextInput";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const TextAreaPropsSchema = z.object({
+	value: z.string(),
+	onChange: z.function(),
+	placeholder: z.string().default(""),
+	height: z.number().int().min(1).optional(),
+	showCursor: z.boolean().default(true),
+	autoFocus: z.boolean().default(false),
+	isDisabled: z.boolean().default(false),
+	id: z.string().optional(),
+});
+
+export type TextAreaProps = {
+	readonly value: string;
+	readonly onChange: (value: string) => void;
+	readonly placeholder?: string;
+	// Visible rows; taller content scrolls. Unset, the area grows with content.
+	readonly height?: number;
+	readonly showCursor?: boolean;
+	readonly autoFocus?: boolean;
+	readonly isDisabled?: boolean;
+	// Focus id, for useFocusManager().focus(id)
+	readonly id?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Key bindings
+// ---------------------------------------------------------------------------
+
+const LINE_BREAKS = /\r\n|\r/g;
+
+type AreaEdit = Readonly<{
+	state: TextEditState;
+	kind: EditKind;
+}>;
+
+const editKind = (input: string, key: Key): EditKind => {
+	if (key.paste || key.ctrl || key.meta) return "other";
+	if (key.backspace || key.delete) return "delete";
+	return input.length > 0 || key.name === "space" ? "insert" : "other";
+};
+
+// Multi-line keys first, then the shared single-line bindings
+const editAreaForKey = (
+	state: TextEditState,
+	input: string,
+	key: Key,
+): AreaEdit => {
+	if (key.return) return { state: insertText(state, "\n"), kind: "other" };
+	if (key.paste) {
+		return {
+			state: insertText(state, input.replace(LINE_BREAKS, "\n")),
+			kind: "other",
+		};
+	}
+	return { state: editForKey(state, input, key), kind: editKind(input, key) };
+};
+
+// Keeps the cursor row inside the visible window, moving it as little as
+// possible, and never scrolls past the last row
+const keepRowVisible = (
+	scrollTop: number,
+	row: number,
+	height: number,
+	rowCount: number,
+): number => {
+	let top = Math.min(scrollTop, Math.max(0, rowCount - height));
+	if (row < top) top = row;
+	if (row >= top + height) top = row - height + 1;
+	return Math.max(0, top);
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+// Empty rows hold a space, since empty text takes up no height
+const renderRow = (
+	key: number,
+	value: string,
+	row: VisualLine,
+	cursor: number | undefined,
+	width: number,
+): ReactNode => {
+	if (cursor === undefined) {
+		return createElement(Text, { key }, row.text.length > 0 ? row.text : " ");
+	}
+
+	const graphemes = toGraphemes(row.text);
+	let index = toGraphemes(
+		value.slice(row.start, Math.min(cursor, row.end)),
+	).length;
+
+	// A cursor in the whitespace dropped at a full row's wrap point has no
+	// cell of its own, so it sits on the row's last grapheme
+	if (
+		index >= graphemes.length &&
+		width > 0 &&
+		graphemes.length > 0 &&
+		stringWidth(row.text) >= width
+	) {
+		index = graphemes.length - 1;
+	}
+
+	return createElement(
+		Text,
+		{ key },
+		graphemes.slice(0, index).join(""),
+		createElement(Text, { inverse: true }, graphemes[index] ?? " "),
+		graphemes.slice(index + 1).join(""),
+	);
+};
+
+const renderPlaceholder = (
+	placeholder: string,
+	withCursor: boolean,
+): ReactNode => {
+	if (!withCursor) {
+		return createElement(Text, { dimColor: true }, placeholder);
+	}
+
+	const [first = " ", ...rest] = toGraphemes(placeholder);
+	return createElement(
+		Text,
+		null,
+		createElement(Text, { inverse: true }, first),
+		createElement(Text, { dimColor: true }, rest.join("")),
+	);
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+const TextAreaInner = (props: TextAreaProps): ReactNode => {
+	const {
+		value,
+		onChange,
+		placeholder = "",
+		height,
+		showCursor = true,
+		autoFocus = false,
+		isDisabled = false,
+		id,
+	} = props;
+
+	const { isFocused } = useFocus({ id, autoFocus, isActive: !isDisabled });
+	const [cursorOffset, setCursorOffset] = useState(value.length);
+	const cursor = clampCursor(value, cursorOffset);
+
+	// Soft wrapping follows the width the area was laid out at; until the
+	// first layout it is unknown and lines are left unwrapped
+	const boxRef = useRef<EcsInstance>(null);
+	const { width } = useMeasureElement(boxRef);
+	const rows = layoutVisualLines(value, width);
+	const cursorRow = visualLineIndex(rows, cursor);
+
+	const visibleRows = height ?? rows.length;
+	const scrollTopRef = useRef(0);
+	scrollTopRef.current = keepRowVisible(
+		scrollTopRef.current,
+		cursorRow,
+		visibleRows,
+		rows.length,
+	);
+
+	// Several keys can arrive in one stdin chunk, before the parent has
+	// re-rendered with the new value, so edits chain through a ref
+	const stateRef = useRef<TextEditState>({ value, cursor });
+	stateRef.current = { value, cursor };
+	const historyRef = useRef<EditHistory>(EMPTY_EDIT_HISTORY);
+	// Column Up/Down aim for, kept across rows too short to reach it
+	const goalColumnRef = useRef<number | undefined>(undefined);
+
+	useInput(
+		(input, key) => {
+			const previous = stateRef.current;
+			const previousRows = layoutVisualLines(previous.value, width);
+
+			let next: TextEditState;
+			if (key.ctrl && (key.name === "z" || key.name === "y")) {
+				const step =
+					key.name === "z"
+						? undoEdit(historyRef.current, previous)
+						: redoEdit(historyRef.current, previous);
+				if (!step) return;
+				historyRef.current = step.history;
+				goalColumnRef.current = undefined;
+				next = step.state;
+			} else if (key.upArrow || key.downArrow || key.pageUp || key.pageDown) {
+				const distance = key.pageUp || key.pageDown ? visibleRows : 1;
+				const column =
+					goalColumnRef.current ??
+					visualColumn(previous.value, previousRows, previous.cursor);
+				goalColumnRef.current = column;
+				historyRef.current = breakRun(historyRef.current);
+				next = moveVisualLine(
+					previous,
+					previousRows,
+					key.upArrow || key.pageUp ? -distance : distance,
+					column,
+				);
+			} else {
+				const edit = editAreaForKey(previous, input, key);
+				goalColumnRef.current = undefined;
+				historyRef.current =
+					edit.state.value === previous.value
+						? breakRun(historyRef.current)
+						: recordEdit(historyRef.current, previous, edit.state, edit.kind);
+				next = edit.state;
+			}
+
+			if (next === previous) return;
+
+			stateRef.current = next;
+			setCursorOffset(next.cursor);
+			if (next.value !== previous.value) {
+				onChange(next.value);
+			}
+		},
+		{ isActive: isFocused },
+	);
+
+	const withCursor = isFocused && showCursor;
+	const scrollTop = scrollTopRef.current;
+
+	const content =
+		value.length === 0 && placeholder.length > 0
+			? renderPlaceholder(placeholder, withCursor)
+			: rows
+					.slice(scrollTop, scrollTop + visibleRows)
+					.map((row, index) =>
+						renderRow(
+							scrollTop + index,
+							value,
+							row,
+							withCursor && scrollTop + index === cursorRow
+								? cursor
+								: undefined,
+							width,
+						),
+					);
+
+	return createElement(
+		Box,
+		{
+			ref: boxRef,
+			flexDirection: "column",
+			height,
+			"aria-role": "textbox",
+			...(placeholder.length > 0 ? { "aria-label": placeholder } : {}),
+		},
+		content,
+	);
+};
+
+export const TextArea = memo(TextAreaInner);
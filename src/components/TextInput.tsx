@@ -0,0 +1,228 @@
+import { toGraphemes } from "blecsd/utils";
+import { createElement, memo, type ReactNode, useRef, useState } from "react";
+import { z } from "zod";
+import { useFocus } from "../hooks/use-focus";
+import { useInput } from "../hooks/use-input";
+import type { Key } from "../input/parse-keypress";
+import {
+	clampCursor,
+	deleteBackward,
+	deleteForward,
+	deleteToLineEnd,
+	deleteToLineStart,
+	deleteWordBackward,
+	insertText,
+	moveLeft,
+	moveRight,
+	moveToLineEnd,
+	moveToLineStart,
+	moveWordLeft,
+	moveWordRight,
+	type TextEditState,
+} from "../text/edit-text";
+import { Box } from "./Box";
+import { Text } from "./Text";
+
+// ---------------------------------------------------------------------------
+// Props schema
+// ---------------------------------------------------------------------------
+
+export const TextInputPropsSchema = z.object({
+	value: z.string(),
+	onChange: z.function(),
+	onSubmit: z.function().optional(),
+	placeholder: z.string().default(""),
+	mask: z.string().optional(),
+	showCursor: z.boolean().default(true),
+	autoFocus: z.boolean().default(false),
+	isDisabled: z.boolean().default(false),
+	id: z.string().optional(),
+});
+
+export type TextInputProps = {
+	readonly value: string;
+	readonly onChange: (value: string) => void;
+	readonly onSubmit?: (value: string) => void;
+	readonly placeholder?: string;
+	// Character drawn in place of every grapheme, e.g. "*" for passwords
+	readonly mask?: string;
+	readonly showCursor?: boolean;
+	readonly autoFocus?: boolean;
+	readonly isDisabled?: boolean;
+	// Focus id, for useFocusManager().focus(id)
+	readonly id?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Key bindings
+// ---------------------------------------------------------------------------
+
+const LINE_BREAKS = /\r\n|\r|\n/g;
+
+/**
+ * Applies the single-line editing bindings; TextArea layers its multi-line
+ * keys on top. Returns `state` itself when the key does nothing.
+ */
+export const editForKey = (
+	state: TextEditState,
+	input: string,
+	key: Key,
+): TextEditState => {
+	// A single-line input keeps multi-line pastes on one line
+	if (key.paste) return insertText(state, input.replace(LINE_BREAKS, " "));
+
+	const word = key.ctrl || key.meta;
+	if (key.leftArrow) return word ? moveWordLeft(state) : moveLeft(state);
+	if (key.rightArrow) return word ? moveWordRight(state) : moveRight(state);
+	if (key.home) return moveToLineStart(state);
+	if (key.end) return moveToLineEnd(state);
+	if (key.backspace) {
+		return word ? deleteWordBackward(state) : deleteBackward(state);
+	}
+	if (key.delete) return deleteForward(state);
+
+	if (key.ctrl) {
+		switch (key.name) {
+			case "a":
+				return moveToLineStart(state);
+			case "e":
+				return moveToLineEnd(state);
+			case "u":
+				return deleteToLineStart(state);
+			case "k":
+				return deleteToLineEnd(state);
+			case "w":
+				return deleteWordBackward(state);
+			default:
+				return state;
+		}
+	}
+
+	// Alt+B / Alt+F, sent by terminals that map Option+arrows to readline keys
+	if (key.meta) {
+		if (key.name === "b") return moveWordLeft(state);
+		if (key.name === "f") return moveWordRight(state);
+		return state;
+	}
+
+	if (key.name === "space") return insertText(state, " ");
+	if (key.tab || key.escape || key.upArrow || key.downArrow) return state;
+	if (key.pageUp || key.pageDown || input.length === 0) return state;
+
+	return insertText(state, input);
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const renderPlaceholder = (
+	placeholder: string,
+	withCursor: boolean,
+): ReactNode => {
+	if (!withCursor) {
+		return createElement(Text, { dimColor: true }, placeholder);
+	}
+
+	const [first = " ", ...rest] = toGraphemes(placeholder);
+	return createElement(
+		Text,
+		null,
+		createElement(Text, { inverse: true }, first),
+		createElement(Text, { dimColor: true }, rest.join("")),
+	);
+};
+
+const renderValue = (
+	graphemes: readonly string[],
+	cursorIndex: number,
+	withCursor: boolean,
+): ReactNode => {
+	if (!withCursor) {
+		return createElement(Text, null, graphemes.join(""));
+	}
+
+	// Past the last grapheme the cursor is drawn as an inverse space
+	const before = graphemes.slice(0, cursorIndex).join("");
+	const atCursor = graphemes[cursorIndex] ?? " ";
+	const after = graphemes.slice(cursorIndex + 1).join("");
+
+	return createElement(
+		Text,
+		null,
+		before,
+		createElement(Text, { inverse: true }, atCursor),
+		after,
+	);
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+const TextInputInner = (props: TextInputProps): ReactNode => {
+	const {
+		value,
+		onChange,
+		onSubmit,
+		placeholder = "",
+		mask,
+		showCursor = true,
+		autoFocus = false,
+		isDisabled = false,
+		id,
+	} = props;
+
+	const { isFocused } = useFocus({ id, autoFocus, isActive: !isDisabled });
+	const [cursorOffset, setCursorOffset] = useState(value.length);
+	const cursor = clampCursor(value, cursorOffset);
+
+	// Several keys can arrive in one stdin chunk, before the parent has
+	// re-rendered with the new value, so edits chain through a ref
+	const stateRef = useRef<TextEditState>({ value, cursor });
+	stateRef.current = { value, cursor };
+
+	useInput(
+		(input, key) => {
+			const previous = stateRef.current;
+
+			if (key.return) {
+				onSubmit?.(previous.value);
+				return;
+			}
+
+			const next = editForKey(previous, input, key);
+			if (next === previous) return;
+
+			stateRef.current = next;
+			setCursorOffset(next.cursor);
+			if (next.value !== previous.value) {
+				onChange(next.value);
+			}
+		},
+		{ isActive: isFocused },
+	);
+
+	const withCursor = isFocused && showCursor;
+
+	const content =
+		value.length === 0 && placeholder.length > 0
+			? renderPlaceholder(placeholder, withCursor)
+			: renderValue(
+					mask === undefined
+						? toGraphemes(value)
+						: toGraphemes(value).map(() => mask),
+					toGraphemes(value.slice(0, cursor)).length,
+					withCursor,
+				);
+
+	return createElement(
+		Box,
+		placeholder.length > 0
+			? { "aria-role": "textbox", "aria-label": placeholder }
+			: { "aria-role": "textbox" },
+		content,
+	);
+};
+
+export const TextInput = memo(TextInputInner);
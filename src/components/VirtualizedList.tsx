@@ -3,36 +3,86 @@ import {
 	memo,
 	type ReactElement,
 	type ReactNode,
+	type Ref,
+	useContext,
 	useEffect,
+	useImperativeHandle,
 	useRef,
+	useState,
 } from "react";
 import { z } from "zod";
+import { LayoutContext } from "../contexts/layout";
+import { useFocus } from "../hooks/use-focus";
+import { useInput } from "../hooks/use-input";
+import { measureElement } from "../hooks/use-measure-element";
 import {
+	type ItemHeight,
 	renderScrollIndicator,
 	type UseVirtualizedListOptions,
 	useVirtualizedList,
 } from "../hooks/use-virtualized-list";
+import type { EcsInstance } from "../host-config";
 
 // ---------------------------------------------------------------------------
 // Props schema
 // ---------------------------------------------------------------------------
 
+// "multiple" selects a range: Shift with the movement keys extends it
+export const ListSelectionModeSchema = z.enum(["none", "single", "multiple"]);
+
+export type ListSelectionMode = z.infer<typeof ListSelectionModeSchema>;
+
 export const VirtualizedListPropsSchema = z.object({
 	items: z.array(z.unknown()),
 	renderItem: z.function(),
 	height: z.number().int().min(1),
-	itemHeight: z.number().int().min(1),
+	itemHeight: z.union([z.number().int().min(1), z.function()]).optional(),
+	estimatedItemHeight: z.number().int().min(1).default(1),
 	overscan: z.number().int().min(0).default(3),
 	initialScrollIndex: z.number().int().min(0).default(0),
 	showScrollIndicator: z.boolean().default(true),
 	onScroll: z.function().optional(),
+	follow: z.boolean().default(false),
+	onEndReached: z.function().optional(),
+	onEndReachedThreshold: z.number().int().min(0).default(0),
+	onStartReached: z.function().optional(),
+	onStartReachedThreshold: z.number().int().min(0).default(0),
+	selectionMode: ListSelectionModeSchema.default("none"),
+	selectedIndex: z.number().int().min(0).optional(),
+	defaultSelectedIndex: z.number().int().min(0).default(0),
+	onSelectionChange: z.function().optional(),
+	focusable: z.boolean().optional(),
+	autoFocus: z.boolean().default(false),
+	isDisabled: z.boolean().default(false),
+	id: z.string().optional(),
 });
 
+// The selected items run from anchorIndex to selectedIndex, either way
+// round; outside "multiple" mode the two are the same
+export type ListSelection = {
+	// The item the movement keys move from
+	readonly selectedIndex: number;
+	readonly anchorIndex: number;
+};
+
+export type ListItemState = {
+	readonly isSelected: boolean;
+	// Whether the list has focus
+	readonly isFocused: boolean;
+};
+
 export type VirtualizedListProps<T> = {
 	readonly items: readonly T[];
-	readonly renderItem: (item: T, index: number) => ReactElement;
+	readonly renderItem: (
+		item: T,
+		index: number,
+		state: ListItemState,
+	) => ReactElement;
 	readonly height: number;
-	readonly itemHeight: number;
+	// Omit to measure each item once rendered, e.g. for wrapping text
+	readonly itemHeight?: ItemHeight<T>;
+	// Lines assumed for items not measured yet
+	readonly estimatedItemHeight?: number;
 	readonly overscan?: number;
 	readonly initialScrollIndex?: number;
 	readonly showScrollIndicator?: boolean;
@@ -41,6 +91,30 @@ export type VirtualizedListProps<T> = {
 		visibleStartIndex: number,
 		visibleEndIndex: number,
 	) => void;
+	// Stays on the newest items until scrolled up; see
+	// UseVirtualizedListOptions
+	readonly follow?: boolean;
+	readonly onEndReached?: () => void;
+	// Items from the end that count as reaching it
+	readonly onEndReachedThreshold?: number;
+	readonly onStartReached?: () => void;
+	readonly onStartReachedThreshold?: number;
+	// With "none", the default, the movement keys scroll instead of selecting
+	readonly selectionMode?: ListSelectionMode;
+	// The selected item, when controlled
+	readonly selectedIndex?: number;
+	// Initially selected item when uncontrolled
+	readonly defaultSelectedIndex?: number;
+	readonly onSelectionChange?: (selection: ListSelection) => void;
+	// Whether Tab stops at the list so it takes the keys. Defaults to true
+	// when items can be selected; a scroll-only list opts in with this or
+	// autoFocus.
+	readonly focusable?: boolean;
+	readonly autoFocus?: boolean;
+	readonly isDisabled?: boolean;
+	// Focus id, for useFocusManager().focus(id)
+	readonly id?: string;
+	readonly ref?: Ref<VirtualizedListHandle>;
 };
 
 // ---------------------------------------------------------------------------
@@ -53,6 +127,17 @@ export type VirtualizedListHandle = {
 	readonly scrollToBottom: () => void;
 };
 
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+export const isIndexSelected = (
+	selection: ListSelection,
+	index: number,
+): boolean =>
+	index >= Math.min(selection.selectedIndex, selection.anchorIndex) &&
+	index <= Math.max(selection.selectedIndex, selection.anchorIndex);
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -65,21 +150,173 @@ const VirtualizedListInner = <T,>(
 		renderItem,
 		height,
 		itemHeight,
+		estimatedItemHeight = 1,
 		overscan = 3,
 		initialScrollIndex = 0,
 		showScrollIndicator = true,
 		onScroll,
+		follow = false,
+		onEndReached,
+		onEndReachedThreshold = 0,
+		onStartReached,
+		onStartReachedThreshold = 0,
+		selectionMode = "none",
+		selectedIndex: controlledIndex,
+		defaultSelectedIndex = 0,
+		onSelectionChange,
+		autoFocus = false,
+		focusable = selectionMode !== "none" || autoFocus,
+		isDisabled = false,
+		id,
+		ref,
 	} = props;
 
-	const options: UseVirtualizedListOptions = {
+	const { isFocused } = useFocus({
+		id,
+		autoFocus,
+		isActive: focusable && !isDisabled,
+	});
+
+	const options: UseVirtualizedListOptions<T> = {
 		itemHeight,
+		estimatedItemHeight,
 		height,
 		overscan,
 		initialScrollIndex,
+		follow,
+		onEndReached,
+		onEndReachedThreshold,
+		onStartReached,
+		onStartReachedThreshold,
 	};
 
 	const list = useVirtualizedList(items, options);
-	const { windowState, visibleItems, scrollFraction } = list;
+	const { windowState, visibleItems, scrollFraction, setItemHeight } = list;
+
+	useImperativeHandle(ref, () => ({
+		scrollToIndex: list.scrollToIndex,
+		scrollToTop: list.scrollToTop,
+		scrollToBottom: list.scrollToBottom,
+	}));
+
+	// Selection. The anchor is kept with the selected index it was set for;
+	// once the selected index changes any other way, e.g. by the parent, the
+	// range collapses onto it.
+	const lastIndex = Math.max(0, items.length - 1);
+	const [uncontrolledIndex, setUncontrolledIndex] =
+		useState(defaultSelectedIndex);
+	const selectedIndex = Math.min(
+		controlledIndex ?? uncontrolledIndex,
+		lastIndex,
+	);
+	const [range, setRange] = useState<ListSelection>({
+		selectedIndex,
+		anchorIndex: selectedIndex,
+	});
+	const selection: ListSelection = {
+		selectedIndex,
+		anchorIndex:
+			selectionMode === "multiple" && range.selectedIndex === selectedIndex
+				? Math.min(range.anchorIndex, lastIndex)
+				: selectedIndex,
+	};
+
+	// Keys from one stdin chunk apply in order before the next render
+	const selectionRef = useRef(selection);
+	selectionRef.current = selection;
+
+	// The selected index the window was last scrolled to show
+	const shownIndexRef = useRef(selectedIndex);
+
+	const select = (index: number, extend: boolean): void => {
+		if (items.length === 0) return;
+		const current = selectionRef.current;
+		const target = Math.max(0, Math.min(index, lastIndex));
+		const next: ListSelection = {
+			selectedIndex: target,
+			anchorIndex:
+				extend && selectionMode === "multiple" ? current.anchorIndex : target,
+		};
+		if (
+			next.selectedIndex === current.selectedIndex &&
+			next.anchorIndex === current.anchorIndex
+		) {
+			return;
+		}
+
+		selectionRef.current = next;
+		setRange(next);
+		if (controlledIndex === undefined) setUncontrolledIndex(next.selectedIndex);
+		shownIndexRef.current = next.selectedIndex;
+		list.scrollIntoView(next.selectedIndex);
+		onSelectionChange?.(next);
+	};
+
+	// Selections made by the parent scroll into view once rendered
+	useEffect(() => {
+		if (selectionMode === "none" || shownIndexRef.current === selectedIndex) {
+			return;
+		}
+		shownIndexRef.current = selectedIndex;
+		list.scrollIntoView(selectedIndex);
+	});
+
+	useInput(
+		(_input, key) => {
+			if (selectionMode === "none") {
+				if (key.upArrow) {
+					list.scrollUp();
+				} else if (key.downArrow) {
+					list.scrollDown();
+				} else if (key.pageUp) {
+					list.scrollPageUp();
+				} else if (key.pageDown) {
+					list.scrollPageDown();
+				} else if (key.home) {
+					list.scrollToTop();
+				} else if (key.end) {
+					list.scrollToBottom();
+				}
+				return;
+			}
+
+			const current = selectionRef.current.selectedIndex;
+			const page = Math.max(1, windowState.visibleCount);
+
+			if (key.upArrow) {
+				select(current - 1, key.shift);
+			} else if (key.downArrow) {
+				select(current + 1, key.shift);
+			} else if (key.pageUp) {
+				select(current - page, key.shift);
+			} else if (key.pageDown) {
+				select(current + page, key.shift);
+			} else if (key.home) {
+				select(0, key.shift);
+			} else if (key.end) {
+				select(lastIndex, key.shift);
+			}
+		},
+		{ isActive: isFocused },
+	);
+
+	// Rendered items by index, measured after each layout when itemHeight is
+	// omitted. The hook files the heights under the items themselves.
+	const measure = itemHeight === undefined;
+	const itemRefs = useRef(new Map<number, EcsInstance>());
+	const subscribeLayout = useContext(LayoutContext);
+	useEffect(() => {
+		if (!measure) return;
+		const measureItems = (): void => {
+			for (const [index, instance] of itemRefs.current) {
+				setItemHeight(index, measureElement({ current: instance }).height);
+			}
+		};
+		measureItems();
+		// Wrapped items change height when the list is resized without it
+		// rendering
+		return subscribeLayout?.(measureItems);
+	});
 
 	// Fire onScroll callback when scroll position changes
 	const prevScrollRef = useRef(windowState.scrollIndex);
@@ -100,29 +337,34 @@ const VirtualizedListInner = <T,>(
 	]);
 
 	// Build rendered items
-	const renderedItems = visibleItems.map(({ item, index }) =>
-		renderItem(item, index),
-	);
-
-	// Top spacer (represents items above viewport)
-	const topSpacer =
-		windowState.topSpacerHeight > 0
-			? createElement("blecsdui-box", {
-					key: "__vlist-top-spacer",
-					height: windowState.topSpacerHeight,
-				})
-			: null;
-
-	// Bottom spacer (represents items below viewport)
-	const bottomSpacer =
-		windowState.bottomSpacerHeight > 0
-			? createElement("blecsdui-box", {
-					key: "__vlist-bottom-spacer",
-					height: windowState.bottomSpacerHeight,
-				})
-			: null;
+	const renderedItems = visibleItems.map(({ item, index }) => {
+		const isSelected =
+			selectionMode !== "none" && isIndexSelected(selection, index);
+		const element = renderItem(item, index, { isSelected, isFocused });
+		const itemProps: Record<string, unknown> = {
+			key: element.key ?? index,
+			flexDirection: "column",
+			flexShrink: 0,
+			"aria-role": "listitem",
+		};
+		if (selectionMode !== "none") {
+			itemProps["aria-state"] = { selected: isSelected };
+		}
+		if (measure) {
+			itemProps.ref = (instance: EcsInstance | null) => {
+				if (instance) {
+					itemRefs.current.set(index, instance);
+				} else {
+					itemRefs.current.delete(index);
+				}
+			};
+		}
+		return createElement("blecsdui-box", itemProps, element);
+	});
 
-	// Content column
+	// Content column, scrolled past the overscan items above the viewport.
+	// Items outside the rendered range are left out rather than stood in for
+	// by spacers.
 	const contentColumn = createElement(
 		"blecsdui-box",
 		{
@@ -131,15 +373,18 @@ const VirtualizedListInner = <T,>(
 			flexGrow: 1,
 			overflow: "hidden",
 			height,
+			scrollTop: windowState.scrollOffset - windowState.topSpacerHeight,
 		},
-		topSpacer,
-		...renderedItems,
-		bottomSpacer,
+		createElement(
+			"blecsdui-box",
+			{ flexDirection: "column", flexShrink: 0 },
+			...renderedItems,
+		),
 	);
 
 	// Scroll indicator column
 	const scrollIndicator =
-		showScrollIndicator && items.length > windowState.visibleCount
+		showScrollIndicator && windowState.maxScrollIndex > 0
 			? createElement(
 					"blecsdui-box",
 					{
@@ -160,6 +405,7 @@ const VirtualizedListInner = <T,>(
 			flexDirection: "row",
 			height,
 			overflow: "hidden",
+			"aria-role": "list",
 		},
 		contentColumn,
 		scrollIndicator,
@@ -175,8 +421,13 @@ export const VirtualizedList = memo(VirtualizedListInner) as <T>(
 // ---------------------------------------------------------------------------
 
 export {
+	calculateVariableWindow,
 	calculateWindow,
+	createHeightIndex,
+	findIndexAtOffset,
 	getScrollFraction,
+	type HeightIndex,
+	type ItemHeight,
 	renderScrollIndicator,
 	type UseVirtualizedListOptions,
 	UseVirtualizedListOptionsSchema,
@@ -12,6 +12,11 @@ export const AppConfigSchema = z.object({
 	debug: z.boolean().default(false),
 	ci: z.boolean().optional(),
 	exitOnCtrlC: z.boolean().default(true),
+	fullscreen: z.boolean().default(false),
+	// Alias of fullscreen; either one turns the alternate screen on
+	alternateScreen: z.boolean().optional(),
+	mouse: z.boolean().default(false),
+	extendedKeys: z.boolean().default(false),
 	patchConsole: z.boolean().default(true),
 	maxFps: z.number().int().min(1).max(120).default(30),
 });
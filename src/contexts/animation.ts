@@ -0,0 +1,14 @@
+import { createContext } from "react";
+import type { AnimationClock } from "../animation-clock";
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+// The app's shared animation clock. Undefined in CI and debug mode, and
+// outside an app, where animated components hold a static frame.
+export const AnimationContext = createContext<AnimationClock | undefined>(
+	undefined,
+);
+
+AnimationContext.displayName = "BlecsdUIAnimationContext";
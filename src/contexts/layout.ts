@@ -0,0 +1,50 @@
+import { createContext } from "react";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// Called after each layout pass, once element dimensions are up to date
+export type LayoutListener = () => void;
+
+export type LayoutSubscribe = (listener: LayoutListener) => () => void;
+
+export type LayoutNotifier = {
+	readonly subscribe: LayoutSubscribe;
+	readonly notify: () => void;
+};
+
+// ---------------------------------------------------------------------------
+// Notifier
+// ---------------------------------------------------------------------------
+
+export const createLayoutNotifier = (): LayoutNotifier => {
+	const listeners = new Set<LayoutListener>();
+
+	const subscribe = (listener: LayoutListener): (() => void) => {
+		listeners.add(listener);
+		return () => {
+			listeners.delete(listener);
+		};
+	};
+
+	const notify = (): void => {
+		for (const listener of [...listeners]) {
+			listener();
+		}
+	};
+
+	return Object.freeze({ subscribe, notify });
+};
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+// Lets measuring hooks see layouts their own renders didn't cause, such as a
+// terminal resize or a parent changing size. Undefined outside an app.
+export const LayoutContext = createContext<LayoutSubscribe | undefined>(
+	undefined,
+);
+
+LayoutContext.displayName = "BlecsdUILayoutContext";
@@ -8,6 +8,8 @@ import { z } from "zod";
 export const FocusOptionsSchema = z.object({
 	autoFocus: z.boolean().default(false),
 	isActive: z.boolean().default(true),
+	// Enclosing focus scopes, outermost first
+	scopes: z.array(z.string()).optional(),
 });
 
 export type FocusOptions = z.infer<typeof FocusOptionsSchema>;
@@ -19,12 +21,15 @@ export type FocusOptions = z.infer<typeof FocusOptionsSchema>;
 export type FocusEntry = {
 	readonly id: string;
 	readonly isActive: boolean;
+	readonly scopes?: readonly string[];
 };
 
 export type FocusState = {
 	readonly entries: readonly FocusEntry[];
 	readonly focusedId: string | undefined;
 	readonly enabled: boolean;
+	// Scopes holding focus, innermost last; focus stays inside the innermost
+	readonly traps: readonly string[];
 };
 
 // ---------------------------------------------------------------------------
@@ -44,6 +49,11 @@ export type FocusManager = {
 	readonly focusNext: () => void;
 	readonly focusPrevious: () => void;
 	readonly focus: (id: string) => void;
+	// Focuses the first active entry inside the scope, if there is one
+	readonly focusScope: (scope: string) => void;
+	// Keeps focus inside the scope until released
+	readonly trapFocus: (scope: string) => void;
+	readonly releaseFocus: (scope: string) => void;
 };
 
 // ---------------------------------------------------------------------------
@@ -60,6 +70,9 @@ export type FocusAction =
 	| { readonly type: "ACTIVATE"; readonly id: string }
 	| { readonly type: "DEACTIVATE"; readonly id: string }
 	| { readonly type: "FOCUS"; readonly id: string }
+	| { readonly type: "FOCUS_SCOPE"; readonly scope: string }
+	| { readonly type: "TRAP"; readonly scope: string }
+	| { readonly type: "RELEASE"; readonly scope: string }
 	| { readonly type: "FOCUS_NEXT" }
 	| { readonly type: "FOCUS_PREVIOUS" }
 	| { readonly type: "BLUR" }
@@ -79,12 +92,34 @@ export const INITIAL_FOCUS_STATE: FocusState = {
 	entries: [],
 	focusedId: undefined,
 	enabled: true,
+	traps: [],
 };
 
 // ---------------------------------------------------------------------------
 // Reducer
 // ---------------------------------------------------------------------------
 
+// Entries focus may move to: all of them, or those inside the innermost trap
+const getReachableEntries = (state: FocusState): readonly FocusEntry[] => {
+	const trap = state.traps.at(-1);
+	if (trap === undefined) return state.entries;
+	return state.entries.filter((e) => e.scopes?.includes(trap));
+};
+
+const isReachable = (state: FocusState, entry: FocusEntry): boolean =>
+	entry.isActive && getReachableEntries(state).includes(entry);
+
+// Whether some entry sits in `inner` inside `outer`
+const isNestedScope = (
+	entries: readonly FocusEntry[],
+	inner: string,
+	outer: string,
+): boolean =>
+	entries.some((e) => {
+		const outerIndex = e.scopes?.indexOf(outer) ?? -1;
+		return outerIndex !== -1 && (e.scopes?.indexOf(inner) ?? -1) > outerIndex;
+	});
+
 const getActiveFocusableIds = (
 	entries: readonly FocusEntry[],
 ): readonly string[] => entries.filter((e) => e.isActive).map((e) => e.id);
@@ -133,12 +168,18 @@ export const focusReducer = (
 			const entry: FocusEntry = {
 				id: action.id,
 				isActive: action.options.isActive,
+				scopes: action.options.scopes,
 			};
 
 			const newEntries = [...state.entries, entry];
+			const next = { ...state, entries: newEntries };
 
 			// Auto-focus if requested and system is enabled
-			if (action.options.autoFocus && state.enabled && entry.isActive) {
+			if (
+				action.options.autoFocus &&
+				state.enabled &&
+				isReachable(next, entry)
+			) {
 				return { ...state, entries: newEntries, focusedId: action.id };
 			}
 
@@ -150,7 +191,10 @@ export const focusReducer = (
 
 			// If the unregistered component was focused, move focus
 			if (state.focusedId === action.id) {
-				const nextId = findNextFocusable(newEntries, undefined);
+				const nextId = findNextFocusable(
+					getReachableEntries({ ...state, entries: newEntries }),
+					undefined,
+				);
 				return { ...state, entries: newEntries, focusedId: nextId };
 			}
 
@@ -161,7 +205,7 @@ export const focusReducer = (
 			if (!state.enabled) return state;
 
 			const entry = state.entries.find((e) => e.id === action.id);
-			if (!entry || !entry.isActive) return state;
+			if (!entry || !isReachable(state, entry)) return state;
 
 			return { ...state, focusedId: action.id };
 		}
@@ -176,22 +220,70 @@ export const focusReducer = (
 			if (!state.enabled) return state;
 
 			const entry = state.entries.find((e) => e.id === action.id);
-			if (!entry || !entry.isActive) return state;
+			if (!entry || !isReachable(state, entry)) return state;
 
 			return { ...state, focusedId: action.id };
 		}
 
+		case "FOCUS_SCOPE": {
+			if (!state.enabled) return state;
+
+			const entry = getReachableEntries(state).find(
+				(e) => e.isActive && e.scopes?.includes(action.scope),
+			);
+			if (!entry) return state;
+
+			return { ...state, focusedId: entry.id };
+		}
+
+		case "TRAP": {
+			const traps = state.traps.filter((scope) => scope !== action.scope);
+			// A trap set up inside this scope (by a child mounted in the same
+			// commit) stays the innermost
+			const nested = traps.findIndex((scope) =>
+				isNestedScope(state.entries, scope, action.scope),
+			);
+			traps.splice(nested === -1 ? traps.length : nested, 0, action.scope);
+			const next = { ...state, traps };
+
+			// Focus outside the trap moves to its first entry, or nowhere
+			const focused = state.entries.find((e) => e.id === state.focusedId);
+			if (focused && isReachable(next, focused)) return next;
+
+			return {
+				...next,
+				focusedId: state.enabled
+					? findNextFocusable(getReachableEntries(next), undefined)
+					: undefined,
+			};
+		}
+
+		case "RELEASE": {
+			if (!state.traps.includes(action.scope)) return state;
+
+			return {
+				...state,
+				traps: state.traps.filter((scope) => scope !== action.scope),
+			};
+		}
+
 		case "FOCUS_NEXT": {
 			if (!state.enabled) return state;
 
-			const nextId = findNextFocusable(state.entries, state.focusedId);
+			const nextId = findNextFocusable(
+				getReachableEntries(state),
+				state.focusedId,
+			);
 			return { ...state, focusedId: nextId };
 		}
 
 		case "FOCUS_PREVIOUS": {
 			if (!state.enabled) return state;
 
-			const prevId = findPreviousFocusable(state.entries, state.focusedId);
+			const prevId = findPreviousFocusable(
+				getReachableEntries(state),
+				state.focusedId,
+			);
 			return { ...state, focusedId: prevId };
 		}
 
@@ -214,7 +306,10 @@ export const focusReducer = (
 
 			// If setting to inactive and was focused, move focus
 			if (!action.isActive && state.focusedId === action.id) {
-				const nextId = findNextFocusable(newEntries, action.id);
+				const nextId = findNextFocusable(
+					getReachableEntries({ ...state, entries: newEntries }),
+					action.id,
+				);
 				return {
 					...state,
 					entries: newEntries,
@@ -233,6 +328,25 @@ export const focusReducer = (
 
 export const FocusContext = createContext<FocusManager | undefined>(undefined);
 
+// The manager is stable; this carries each new state so consumers re-render
+export const FocusStateContext = createContext<FocusState>(INITIAL_FOCUS_STATE);
+
+// ---------------------------------------------------------------------------
+// Focus scopes
+// ---------------------------------------------------------------------------
+
+export type FocusScopeValue = {
+	// Enclosing scope ids, outermost first
+	readonly path: readonly string[];
+	// False inside an inactive scope, whose entries are skipped by Tab
+	readonly isActive: boolean;
+};
+
+export const ROOT_FOCUS_SCOPE: FocusScopeValue = { path: [], isActive: true };
+
+export const FocusScopeContext =
+	createContext<FocusScopeValue>(ROOT_FOCUS_SCOPE);
+
 // ---------------------------------------------------------------------------
 // ID generation
 // ---------------------------------------------------------------------------
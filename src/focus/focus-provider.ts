@@ -0,0 +1,108 @@
+import {
+	createElement,
+	type Dispatch,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useMemo,
+	useReducer,
+	useRef,
+} from "react";
+import { StdinContext } from "../contexts/stdin";
+import { parseKeypressBuffer } from "../input/parse-keypress";
+import { splitMouseInput } from "../input/parse-mouse";
+import {
+	type FocusAction,
+	FocusContext,
+	type FocusManager,
+	FocusOptionsSchema,
+	type FocusState,
+	FocusStateContext,
+	focusReducer,
+	INITIAL_FOCUS_STATE,
+} from "./focus-context";
+import { handleFocusKeypress } from "./keyboard-navigation";
+
+// ---------------------------------------------------------------------------
+// Focus manager over reducer state
+// ---------------------------------------------------------------------------
+
+/**
+ * Binds a focus state getter to its dispatcher. The getter always returns
+ * the latest state, so one manager lives for the provider's lifetime and
+ * hooks depending on it don't re-register on every focus change.
+ */
+export const createFocusManager = (
+	getState: () => FocusState,
+	dispatch: Dispatch<FocusAction>,
+): FocusManager =>
+	Object.freeze({
+		register: (id, options) =>
+			dispatch({
+				type: "REGISTER",
+				id,
+				options: FocusOptionsSchema.parse(options ?? {}),
+			}),
+		unregister: (id) => dispatch({ type: "UNREGISTER", id }),
+		activate: (id) => dispatch({ type: "ACTIVATE", id }),
+		deactivate: (id) => dispatch({ type: "DEACTIVATE", id }),
+		getFocusedId: () => getState().focusedId,
+		getOrderedList: () => getState().entries.map((entry) => entry.id),
+		isEnabled: () => getState().enabled,
+		enable: () => dispatch({ type: "ENABLE" }),
+		disable: () => dispatch({ type: "DISABLE" }),
+		focusNext: () => dispatch({ type: "FOCUS_NEXT" }),
+		focusPrevious: () => dispatch({ type: "FOCUS_PREVIOUS" }),
+		focus: (id) => dispatch({ type: "FOCUS", id }),
+		focusScope: (scope) => dispatch({ type: "FOCUS_SCOPE", scope }),
+		trapFocus: (scope) => dispatch({ type: "TRAP", scope }),
+		releaseFocus: (scope) => dispatch({ type: "RELEASE", scope }),
+	});
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+export type FocusProviderProps = {
+	readonly children?: ReactNode;
+};
+
+/**
+ * Owns the app's focus state. Tab / Shift+Tab cycle focus and Escape blurs
+ * whenever stdin is being read.
+ */
+export const FocusProvider = ({ children }: FocusProviderProps): ReactNode => {
+	const [state, dispatch] = useReducer(focusReducer, INITIAL_FOCUS_STATE);
+	const stateRef = useRef(state);
+	stateRef.current = state;
+
+	const manager = useMemo(
+		() => createFocusManager(() => stateRef.current, dispatch),
+		[],
+	);
+
+	const eventEmitter = useContext(StdinContext)?.internal_eventEmitter;
+
+	useEffect(() => {
+		if (!eventEmitter) return;
+
+		const handleInput = (data: string): void => {
+			const { rest } = splitMouseInput(String(data));
+			for (const keypress of parseKeypressBuffer(rest)) {
+				if (keypress.key.eventType === "release") continue;
+				handleFocusKeypress(keypress, manager);
+			}
+		};
+
+		eventEmitter.on("input", handleInput);
+		return () => {
+			eventEmitter.removeListener("input", handleInput);
+		};
+	}, [eventEmitter, manager]);
+
+	return createElement(
+		FocusContext.Provider,
+		{ value: manager },
+		createElement(FocusStateContext.Provider, { value: state }, children),
+	);
+};
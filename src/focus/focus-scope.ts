@@ -0,0 +1,40 @@
+import { createElement, type ReactNode, useContext, useMemo } from "react";
+import { FocusScopeContext } from "./focus-context";
+
+// ---------------------------------------------------------------------------
+// Props
+// ---------------------------------------------------------------------------
+
+export type FocusScopeProps = {
+	// Passed to useFocusManager().focusScope(id) to focus inside the scope
+	readonly id: string;
+	// An inactive scope keeps its components mounted but out of Tab order
+	readonly isActive?: boolean;
+	readonly children?: ReactNode;
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * Groups the focusable components below it. Scopes nest; a component
+ * belongs to every scope around it.
+ */
+export const FocusScope = ({
+	id,
+	isActive = true,
+	children,
+}: FocusScopeProps): ReactNode => {
+	const parent = useContext(FocusScopeContext);
+
+	const value = useMemo(
+		() => ({
+			path: [...parent.path, id],
+			isActive: parent.isActive && isActive,
+		}),
+		[parent, id, isActive],
+	);
+
+	return createElement(FocusScopeContext.Provider, { value }, children);
+};
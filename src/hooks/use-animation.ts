@@ -0,0 +1,51 @@
+import { useContext, useEffect, useState } from "react";
+import { z } from "zod";
+import { AnimationContext } from "../contexts/animation";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+export const UseAnimationOptionsSchema = z.object({
+	// Milliseconds per frame
+	interval: z.number().int().min(1).default(100),
+	isActive: z.boolean().default(true),
+});
+
+export type UseAnimationOptions = z.infer<typeof UseAnimationOptionsSchema>;
+
+// ---------------------------------------------------------------------------
+// Return type
+// ---------------------------------------------------------------------------
+
+export type UseAnimationResult = {
+	// Frames elapsed since the animation started; 0 while static
+	readonly frame: number;
+};
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Counts frames on the app's shared animation clock. The component only
+ * re-renders when the frame changes, however fast the clock ticks.
+ */
+export const useAnimation = (
+	options?: Partial<UseAnimationOptions>,
+): UseAnimationResult => {
+	const { interval, isActive } = UseAnimationOptionsSchema.parse(options ?? {});
+	const clock = useContext(AnimationContext);
+	const [frame, setFrame] = useState(0);
+
+	useEffect(() => {
+		if (!clock || !isActive) return;
+
+		const start = Date.now();
+		return clock.subscribe((now) => {
+			setFrame(Math.floor((now - start) / interval));
+		});
+	}, [clock, isActive, interval]);
+
+	return { frame };
+};
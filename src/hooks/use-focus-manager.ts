@@ -11,6 +11,8 @@ export type UseFocusManagerResult = {
 	readonly focusNext: () => void;
 	readonly focusPrevious: () => void;
 	readonly focus: (id: string) => void;
+	// Focuses the first focusable component inside a FocusScope
+	readonly focusScope: (scope: string) => void;
 };
 
 // ---------------------------------------------------------------------------
@@ -26,6 +28,7 @@ const NO_FOCUS_MANAGER: UseFocusManagerResult = {
 	focusNext: NOOP,
 	focusPrevious: NOOP,
 	focus: NOOP_ID,
+	focusScope: NOOP_ID,
 };
 
 // ---------------------------------------------------------------------------
@@ -58,6 +61,13 @@ export const useFocusManager = (): UseFocusManagerResult => {
 		[focusManager],
 	);
 
+	const focusScope = useCallback(
+		(scope: string) => {
+			focusManager?.focusScope(scope);
+		},
+		[focusManager],
+	);
+
 	if (!focusManager) {
 		return NO_FOCUS_MANAGER;
 	}
@@ -68,5 +78,6 @@ export const useFocusManager = (): UseFocusManagerResult => {
 		focusNext,
 		focusPrevious,
 		focus,
+		focusScope,
 	};
 };
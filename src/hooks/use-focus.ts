@@ -1,8 +1,11 @@
 import { useContext, useEffect, useMemo } from "react";
 import { z } from "zod";
+import { StdinContext } from "../contexts/stdin";
 import {
 	FocusContext,
 	type FocusOptions,
+	FocusScopeContext,
+	FocusStateContext,
 	generateFocusId,
 } from "../focus/focus-context";
 
@@ -35,17 +38,35 @@ export const useFocus = (
 ): UseFocusResult => {
 	const parsed = UseFocusOptionsSchema.parse(options ?? {});
 	const focusManager = useContext(FocusContext);
+	// Subscribe to focus changes; the manager itself never changes identity
+	useContext(FocusStateContext);
+	// Entries in an inactive scope (a hidden panel, say) are skipped
+	const scope = useContext(FocusScopeContext);
+	const isActive = parsed.isActive && scope.isActive;
 
 	// Generate a stable ID if none provided
 	const focusId = useMemo(() => parsed.id ?? generateFocusId(), [parsed.id]);
 
+	// Focusable components need stdin read so Tab can reach them; optional
+	// because useFocus also works without an app around it
+	const setRawMode = useContext(StdinContext)?.setRawMode;
+	useEffect(() => {
+		if (!setRawMode || !isActive) return;
+
+		setRawMode(true);
+		return () => {
+			setRawMode(false);
+		};
+	}, [setRawMode, isActive]);
+
 	// Register on mount, unregister on unmount
 	useEffect(() => {
 		if (!focusManager) return;
 
 		const focusOptions: Partial<FocusOptions> = {
 			autoFocus: parsed.autoFocus,
-			isActive: parsed.isActive,
+			isActive,
+			scopes: scope.path.length > 0 ? [...scope.path] : undefined,
 		};
 
 		focusManager.register(focusId, focusOptions);
@@ -53,7 +74,7 @@ export const useFocus = (
 		return () => {
 			focusManager.unregister(focusId);
 		};
-	}, [focusManager, focusId, parsed.autoFocus, parsed.isActive]);
+	}, [focusManager, focusId, parsed.autoFocus, isActive, scope.path]);
 
 	// Handle isActive changes
 	useEffect(() => {
@@ -61,13 +82,13 @@ export const useFocus = (
 
 		// This is handled by the register effect re-running
 		// but we also need to handle dynamic isActive changes
-		if (!parsed.isActive) {
+		if (!isActive) {
 			const currentFocused = focusManager.getFocusedId();
 			if (currentFocused === focusId) {
 				focusManager.focusNext();
 			}
 		}
-	}, [focusManager, focusId, parsed.isActive]);
+	}, [focusManager, focusId, isActive]);
 
 	if (!focusManager) {
 		return { isFocused: false };
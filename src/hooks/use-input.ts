@@ -1,7 +1,8 @@
 import { useEffect, useRef } from "react";
 import { z } from "zod";
 import type { Key } from "../input/parse-keypress";
-import { parseKeypressBuffer } from "../input/parse-keypress";
+import { createPasteKey, parseKeypressBuffer } from "../input/parse-keypress";
+import { splitMouseInput } from "../input/parse-mouse";
 import { useStdin } from "./use-stdin";
 
 // ---------------------------------------------------------------------------
@@ -10,6 +11,9 @@ import { useStdin } from "./use-stdin";
 
 export const UseInputOptionsSchema = z.object({
 	isActive: z.boolean().default(true),
+	// Key releases are only reported with extended keys; most handlers
+	// only care about presses and repeats
+	includeReleases: z.boolean().default(false),
 });
 
 export type UseInputOptions = z.infer<typeof UseInputOptionsSchema>;
@@ -26,7 +30,7 @@ export type InputHandler = (input: string, key: Key) => void;
 
 export const useInput = (
 	handler: InputHandler,
-	options?: UseInputOptions,
+	options?: Partial<UseInputOptions>,
 ): void => {
 	const parsed = UseInputOptionsSchema.parse(options ?? {});
 	const { setRawMode, internal_exitOnCtrlC, internal_eventEmitter } =
@@ -56,24 +60,43 @@ export const useInput = (
 		}
 
 		const handleInput = (data: string): void => {
-			const results = parseKeypressBuffer(
+			// Mouse reports are delivered through useMouse, not as keystrokes
+			const { rest } = splitMouseInput(
 				typeof data === "string" ? data : String(data),
 			);
+			if (rest.length === 0) return;
+
+			const results = parseKeypressBuffer(rest);
 
 			for (const result of results) {
 				// Skip Ctrl+C if exitOnCtrlC is enabled (handled elsewhere)
 				if (internal_exitOnCtrlC && result.input === "c" && result.key.ctrl) {
 					continue;
 				}
+				if (result.key.eventType === "release" && !parsed.includeReleases) {
+					continue;
+				}
 
 				handlerRef.current(result.input, result.key);
 			}
 		};
 
+		// A bracketed paste arrives whole, flagged with key.paste
+		const handlePaste = (text: string): void => {
+			handlerRef.current(text, createPasteKey());
+		};
+
 		internal_eventEmitter.on("input", handleInput);
+		internal_eventEmitter.on("paste", handlePaste);
 
 		return () => {
 			internal_eventEmitter.removeListener("input", handleInput);
+			internal_eventEmitter.removeListener("paste", handlePaste);
 		};
-	}, [parsed.isActive, internal_exitOnCtrlC, internal_eventEmitter]);
+	}, [
+		parsed.isActive,
+		parsed.includeReleases,
+		internal_exitOnCtrlC,
+		internal_eventEmitter,
+	]);
 };
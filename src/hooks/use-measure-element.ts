@@ -1,7 +1,8 @@
 import { Dimensions } from "blecsd/components";
 import { hasComponent } from "blecsd/core";
-import { useEffect, useState } from "react";
+import { useContext, useEffect, useState } from "react";
 import { z } from "zod";
+import { LayoutContext } from "../contexts/layout";
 import type { EcsInstance } from "../host-config";
 
 // ---------------------------------------------------------------------------
@@ -48,16 +49,24 @@ export const useMeasureElement = (
 	ref: React.RefObject<EcsInstance | null>,
 ): MeasureResult => {
 	const [dimensions, setDimensions] = useState<MeasureResult>(ZERO_DIMENSIONS);
+	const subscribeLayout = useContext(LayoutContext);
 
 	useEffect(() => {
-		const measured = measureElement(ref);
+		const measure = (): void => {
+			const measured = measureElement(ref);
 
-		setDimensions((prev) => {
-			if (prev.width === measured.width && prev.height === measured.height) {
-				return prev;
-			}
-			return measured;
-		});
+			setDimensions((prev) => {
+				if (prev.width === measured.width && prev.height === measured.height) {
+					return prev;
+				}
+				return measured;
+			});
+		};
+
+		measure();
+		// Later layouts can resize the element without rendering it, e.g. on
+		// a terminal resize
+		return subscribeLayout?.(measure);
 	});
 
 	return dimensions;
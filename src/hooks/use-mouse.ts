@@ -0,0 +1,73 @@
+import { useEffect, useRef } from "react";
+import { z } from "zod";
+import type { MouseEvent } from "../input/parse-mouse";
+import { splitMouseInput } from "../input/parse-mouse";
+import { useStdin } from "./use-stdin";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+export const UseMouseOptionsSchema = z.object({
+	isActive: z.boolean().default(true),
+});
+
+export type UseMouseOptions = z.infer<typeof UseMouseOptionsSchema>;
+
+// ---------------------------------------------------------------------------
+// Handler type
+// ---------------------------------------------------------------------------
+
+export type MouseEventHandler = (event: MouseEvent) => void;
+
+// ---------------------------------------------------------------------------
+// useMouse hook
+// ---------------------------------------------------------------------------
+
+export const useMouse = (
+	handler: MouseEventHandler,
+	options?: UseMouseOptions,
+): void => {
+	const parsed = UseMouseOptionsSchema.parse(options ?? {});
+	const { setRawMode, internal_eventEmitter } = useStdin();
+
+	// Keep latest handler in a ref to avoid stale closures
+	const handlerRef = useRef<MouseEventHandler>(handler);
+	handlerRef.current = handler;
+
+	// Manage raw mode lifecycle
+	useEffect(() => {
+		if (!parsed.isActive) {
+			return;
+		}
+
+		setRawMode(true);
+
+		return () => {
+			setRawMode(false);
+		};
+	}, [parsed.isActive, setRawMode]);
+
+	// Subscribe to input events
+	useEffect(() => {
+		if (!parsed.isActive) {
+			return;
+		}
+
+		const handleInput = (data: string): void => {
+			const { events } = splitMouseInput(
+				typeof data === "string" ? data : String(data),
+			);
+
+			for (const event of events) {
+				handlerRef.current(event);
+			}
+		};
+
+		internal_eventEmitter.on("input", handleInput);
+
+		return () => {
+			internal_eventEmitter.removeListener("input", handleInput);
+		};
+	}, [parsed.isActive, internal_eventEmitter]);
+};
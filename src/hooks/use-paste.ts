@@ -0,0 +1,65 @@
+import { useEffect, useRef } from "react";
+import { z } from "zod";
+import { useStdin } from "./use-stdin";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+export const UsePasteOptionsSchema = z.object({
+	isActive: z.boolean().default(true),
+});
+
+export type UsePasteOptions = z.infer<typeof UsePasteOptionsSchema>;
+
+// ---------------------------------------------------------------------------
+// Handler type
+// ---------------------------------------------------------------------------
+
+export type PasteHandler = (text: string) => void;
+
+// ---------------------------------------------------------------------------
+// usePaste hook
+// ---------------------------------------------------------------------------
+
+export const usePaste = (
+	handler: PasteHandler,
+	options?: UsePasteOptions,
+): void => {
+	const parsed = UsePasteOptionsSchema.parse(options ?? {});
+	const { setRawMode, internal_eventEmitter } = useStdin();
+
+	// Keep latest handler in a ref to avoid stale closures
+	const handlerRef = useRef<PasteHandler>(handler);
+	handlerRef.current = handler;
+
+	// Manage raw mode lifecycle (raw mode also turns on bracketed paste)
+	useEffect(() => {
+		if (!parsed.isActive) {
+			return;
+		}
+
+		setRawMode(true);
+
+		return () => {
+			setRawMode(false);
+		};
+	}, [parsed.isActive, setRawMode]);
+
+	// Subscribe to paste events
+	useEffect(() => {
+		if (!parsed.isActive) {
+			return;
+		}
+
+		const handlePaste = (text: string): void => {
+			handlerRef.current(text);
+		};
+
+		internal_eventEmitter.on("paste", handlePaste);
+
+		return () => {
+			internal_eventEmitter.removeListener("paste", handlePaste);
+		};
+	}, [parsed.isActive, internal_eventEmitter]);
+};
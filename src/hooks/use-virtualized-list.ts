@@ -1,4 +1,4 @@
-import { useCallback, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { z } from "zod";
 
 // ---------------------------------------------------------------------------
@@ -6,15 +6,42 @@ import { z } from "zod";
 // ---------------------------------------------------------------------------
 
 export const UseVirtualizedListOptionsSchema = z.object({
-	itemHeight: z.number().int().min(1),
+	itemHeight: z.union([z.number().int().min(1), z.function()]).optional(),
+	estimatedItemHeight: z.number().int().min(1).default(1),
 	height: z.number().int().min(1),
 	overscan: z.number().int().min(0).default(3),
 	initialScrollIndex: z.number().int().min(0).default(0),
+	follow: z.boolean().default(false),
+	onEndReached: z.function().optional(),
+	onEndReachedThreshold: z.number().int().min(0).default(0),
+	onStartReached: z.function().optional(),
+	onStartReachedThreshold: z.number().int().min(0).default(0),
 });
 
-export type UseVirtualizedListOptions = z.infer<
-	typeof UseVirtualizedListOptionsSchema
->;
+// Lines per item: the same for all, given per item, or measured from the
+// rendered items when omitted
+export type ItemHeight<T> = number | ((item: T, index: number) => number);
+
+export type UseVirtualizedListOptions<T = unknown> = {
+	readonly itemHeight?: ItemHeight<T>;
+	// Assumed for items not measured yet
+	readonly estimatedItemHeight?: number;
+	readonly height: number;
+	readonly overscan?: number;
+	readonly initialScrollIndex?: number;
+	// Keeps the newest items in view as items are added, until scrolled away
+	// from the end; scrolling back to the end resumes it
+	readonly follow?: boolean;
+	// Called once each time the last visible item comes within
+	// onEndReachedThreshold items of the end, and again after more items
+	// are added if it still is
+	readonly onEndReached?: () => void;
+	readonly onEndReachedThreshold?: number;
+	// The same for the first visible item and the start, e.g. to load older
+	// history
+	readonly onStartReached?: () => void;
+	readonly onStartReachedThreshold?: number;
+};
 
 // ---------------------------------------------------------------------------
 // Windowing calculation (pure function)
@@ -28,6 +55,10 @@ export type WindowState = {
 	readonly renderEndIndex: number;
 	readonly totalItems: number;
 	readonly visibleCount: number;
+	// Largest scrollIndex that still leaves the viewport filled
+	readonly maxScrollIndex: number;
+	// Line the first visible item starts on
+	readonly scrollOffset: number;
 	readonly topSpacerHeight: number;
 	readonly bottomSpacerHeight: number;
 };
@@ -40,10 +71,8 @@ export const calculateWindow = (
 	overscan: number,
 ): WindowState => {
 	const visibleCount = Math.ceil(height / itemHeight);
-	const clampedScroll = Math.max(
-		0,
-		Math.min(scrollIndex, Math.max(0, totalItems - visibleCount)),
-	);
+	const maxScrollIndex = Math.max(0, totalItems - visibleCount);
+	const clampedScroll = Math.max(0, Math.min(scrollIndex, maxScrollIndex));
 
 	const visibleStartIndex = clampedScroll;
 	const visibleEndIndex = Math.min(
@@ -65,19 +94,129 @@ export const calculateWindow = (
 		renderEndIndex,
 		totalItems,
 		visibleCount,
+		maxScrollIndex,
+		scrollOffset: clampedScroll * itemHeight,
 		topSpacerHeight,
 		bottomSpacerHeight,
 	};
 };
 
+// ---------------------------------------------------------------------------
+// Variable item heights
+// ---------------------------------------------------------------------------
+
+// Prefix sums of the item heights: item i covers lines offsets[i] up to
+// offsets[i + 1], so finding the item on a line is a binary search
+export type HeightIndex = {
+	readonly count: number;
+	readonly offsets: Float64Array;
+	readonly totalHeight: number;
+};
+
+export const createHeightIndex = (
+	count: number,
+	heightOf: (index: number) => number,
+): HeightIndex => {
+	const offsets = new Float64Array(count + 1);
+	for (let i = 0; i < count; i++) {
+		offsets[i + 1] = offsets[i] + Math.max(0, heightOf(i));
+	}
+	return Object.freeze({ count, offsets, totalHeight: offsets[count] });
+};
+
+// First i in 0..count with offsets[i] >= line
+const firstOffsetAtLeast = (index: HeightIndex, line: number): number => {
+	let low = 0;
+	let high = index.count;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (index.offsets[mid] >= line) {
+			high = mid;
+		} else {
+			low = mid + 1;
+		}
+	}
+	return low;
+};
+
+// The item covering `line`; count once the line is past the last item
+export const findIndexAtOffset = (index: HeightIndex, line: number): number =>
+	line >= index.totalHeight
+		? index.count
+		: Math.max(0, firstOffsetAtLeast(index, line + 1) - 1);
+
+export const calculateVariableWindow = (
+	index: HeightIndex,
+	scrollIndex: number,
+	height: number,
+	overscan: number,
+): WindowState => {
+	const { count, offsets, totalHeight } = index;
+
+	const maxScrollIndex =
+		totalHeight <= height
+			? 0
+			: Math.min(
+					Math.max(0, count - 1),
+					firstOffsetAtLeast(index, totalHeight - height),
+				);
+	const clampedScroll = Math.max(0, Math.min(scrollIndex, maxScrollIndex));
+
+	const scrollOffset = offsets[clampedScroll];
+	const visibleStartIndex = clampedScroll;
+	const visibleEndIndex = firstOffsetAtLeast(index, scrollOffset + height);
+
+	const renderStartIndex = Math.max(0, visibleStartIndex - overscan);
+	const renderEndIndex = Math.min(count, visibleEndIndex + overscan);
+
+	return {
+		scrollIndex: clampedScroll,
+		visibleStartIndex,
+		visibleEndIndex,
+		renderStartIndex,
+		renderEndIndex,
+		totalItems: count,
+		visibleCount: visibleEndIndex - visibleStartIndex,
+		maxScrollIndex,
+		scrollOffset,
+		topSpacerHeight: offsets[renderStartIndex],
+		bottomSpacerHeight: totalHeight - offsets[renderEndIndex],
+	};
+};
+
+// Moves the window no further than needed to show `index`
+export const keepIndexVisible = (
+	scrollIndex: number,
+	index: number,
+	visibleCount: number,
+): number => {
+	if (index < scrollIndex) return index;
+	if (index >= scrollIndex + visibleCount) return index - visibleCount + 1;
+	return scrollIndex;
+};
+
+// keepIndexVisible for items of varying height: moves the window no further
+// than needed to show all of item `index`, or its top when it is taller than
+// the viewport
+export const keepItemVisible = (
+	heights: HeightIndex,
+	scrollIndex: number,
+	index: number,
+	height: number,
+): number => {
+	if (index < scrollIndex) return index;
+	const end = heights.offsets[index + 1];
+	if (end - heights.offsets[scrollIndex] <= height) return scrollIndex;
+	return Math.min(index, firstOffsetAtLeast(heights, end - height));
+};
+
 // ---------------------------------------------------------------------------
 // Scroll position as fraction (0-1) for scroll indicator
 // ---------------------------------------------------------------------------
 
 export const getScrollFraction = (state: WindowState): number => {
-	if (state.totalItems <= state.visibleCount) return 0;
-	const maxScroll = state.totalItems - state.visibleCount;
-	return state.scrollIndex / maxScroll;
+	if (state.maxScrollIndex === 0) return 0;
+	return state.scrollIndex / state.maxScrollIndex;
 };
 
 // ---------------------------------------------------------------------------
@@ -98,6 +237,20 @@ export const renderScrollIndicator = (
 	return lines;
 };
 
+// Drops the measured heights of items no longer in the list
+const forgetRemovedItems = <T>(
+	measured: ReadonlyMap<T, number>,
+	items: readonly T[],
+): ReadonlyMap<T, number> => {
+	if (measured.size === 0) return measured;
+	const present = new Set(items);
+	const kept = new Map<T, number>();
+	for (const [item, lines] of measured) {
+		if (present.has(item)) kept.set(item, lines);
+	}
+	return kept.size === measured.size ? measured : kept;
+};
+
 // ---------------------------------------------------------------------------
 // Result type
 // ---------------------------------------------------------------------------
@@ -112,33 +265,106 @@ export type VirtualizedListResult<T> = {
 	readonly scrollDown: (count?: number) => void;
 	readonly scrollPageUp: () => void;
 	readonly scrollPageDown: () => void;
+	// Scrolls no further than needed to show all of item `index`
+	readonly scrollIntoView: (index: number) => void;
 	readonly scrollFraction: number;
+	// True while follow keeps the window on the newest items
+	readonly isFollowing: boolean;
+	// Records a rendered item's height when itemHeight is omitted
+	readonly setItemHeight: (index: number, height: number) => void;
 };
 
 // ---------------------------------------------------------------------------
 // Hook
 // ---------------------------------------------------------------------------
 
+/**
+ * Windows `items` to what fits in `height` lines. Scrolling is by item: the
+ * first visible item stays first while items above it change height or are
+ * added or removed.
+ */
 export const useVirtualizedList = <T>(
 	items: readonly T[],
-	options: UseVirtualizedListOptions,
+	options: UseVirtualizedListOptions<T>,
 ): VirtualizedListResult<T> => {
 	const parsed = UseVirtualizedListOptionsSchema.parse(options);
-	const { itemHeight, height, overscan, initialScrollIndex } = parsed;
+	const {
+		estimatedItemHeight,
+		height,
+		overscan,
+		initialScrollIndex,
+		follow,
+		onEndReachedThreshold,
+		onStartReachedThreshold,
+	} = parsed;
+	// Parsing wraps functions, so the caller's own ones are used
+	const { itemHeight, onEndReached, onStartReached } = options;
 
 	const [scrollIndex, setScrollIndex] = useState(() =>
 		Math.min(initialScrollIndex, Math.max(0, items.length - 1)),
 	);
+	const [isFollowing, setFollowing] = useState(follow);
+	const pinned = follow && isFollowing;
 
-	const itemsRef = useRef(items);
-	itemsRef.current = items;
+	// First visible item as of the last render, moved at once by the scroll
+	// callbacks so several in a row add up
+	const scrollIndexRef = useRef(scrollIndex);
+
+	// Rendered heights by item, when itemHeight is omitted, so they stay with
+	// their items as others are added or removed around them
+	const [measured, setMeasured] = useState<ReadonlyMap<T, number>>(
+		() => new Map(),
+	);
+
+	// When items are added or removed above the first visible item, the
+	// window moves with it
+	const [prevItems, setPrevItems] = useState(items);
+	if (prevItems !== items) {
+		setPrevItems(items);
+		setMeasured((prev) => forgetRemovedItems(prev, items));
+		const anchor = prevItems[scrollIndexRef.current];
+		if (
+			!pinned &&
+			anchor !== undefined &&
+			items[scrollIndexRef.current] !== anchor
+		) {
+			const moved = items.indexOf(anchor);
+			if (moved !== -1) setScrollIndex(moved);
+		}
+	}
+
+	const heightIndex = useMemo(() => {
+		if (typeof itemHeight === "number") return undefined;
+		return createHeightIndex(items.length, (index) =>
+			itemHeight
+				? itemHeight(items[index], index)
+				: (measured.get(items[index]) ?? estimatedItemHeight),
+		);
+	}, [items, itemHeight, estimatedItemHeight, measured]);
+
+	// Past the end while following; the window clamps it to the last page
+	const targetIndex = pinned ? Number.MAX_SAFE_INTEGER : scrollIndex;
 
 	const windowState = useMemo(
 		() =>
-			calculateWindow(items.length, scrollIndex, height, itemHeight, overscan),
-		[items.length, scrollIndex, height, itemHeight, overscan],
+			heightIndex
+				? calculateVariableWindow(heightIndex, targetIndex, height, overscan)
+				: calculateWindow(
+						items.length,
+						targetIndex,
+						height,
+						typeof itemHeight === "number" ? itemHeight : 1,
+						overscan,
+					),
+		[heightIndex, items.length, targetIndex, height, itemHeight, overscan],
 	);
 
+	scrollIndexRef.current = windowState.scrollIndex;
+
+	// Scroll callbacks clamp to the window of the last render
+	const maxScrollRef = useRef(windowState.maxScrollIndex);
+	maxScrollRef.current = windowState.maxScrollIndex;
+
 	const visibleItems = useMemo(() => {
 		const result: { item: T; index: number }[] = [];
 		for (
@@ -151,57 +377,104 @@ export const useVirtualizedList = <T>(
 		return result;
 	}, [items, windowState.renderStartIndex, windowState.renderEndIndex]);
 
-	const scrollToIndex = useCallback(
-		(index: number) => {
-			const maxScroll = Math.max(
-				0,
-				itemsRef.current.length - Math.ceil(height / itemHeight),
-			);
-			setScrollIndex(Math.max(0, Math.min(index, maxScroll)));
-		},
-		[height, itemHeight],
-	);
+	// Reaching the end resumes following
+	const scrollToIndex = useCallback((index: number) => {
+		const max = maxScrollRef.current;
+		const next = Math.max(0, Math.min(index, max));
+		scrollIndexRef.current = next;
+		setScrollIndex(next);
+		setFollowing(next >= max);
+	}, []);
 
 	const scrollToTop = useCallback(() => {
-		setScrollIndex(0);
-	}, []);
+		scrollToIndex(0);
+	}, [scrollToIndex]);
 
 	const scrollToBottom = useCallback(() => {
-		const maxScroll = Math.max(
-			0,
-			itemsRef.current.length - Math.ceil(height / itemHeight),
-		);
-		setScrollIndex(maxScroll);
-	}, [height, itemHeight]);
+		scrollToIndex(maxScrollRef.current);
+	}, [scrollToIndex]);
 
-	const scrollUp = useCallback((count = 1) => {
-		setScrollIndex((prev) => Math.max(0, prev - count));
-	}, []);
+	const scrollUp = useCallback(
+		(count = 1) => {
+			scrollToIndex(scrollIndexRef.current - count);
+		},
+		[scrollToIndex],
+	);
 
 	const scrollDown = useCallback(
 		(count = 1) => {
-			const maxScroll = Math.max(
-				0,
-				itemsRef.current.length - Math.ceil(height / itemHeight),
-			);
-			setScrollIndex((prev) => Math.min(maxScroll, prev + count));
+			scrollToIndex(scrollIndexRef.current + count);
 		},
-		[height, itemHeight],
+		[scrollToIndex],
 	);
 
-	const pageSize = Math.ceil(height / itemHeight);
+	const pageSize = Math.max(1, windowState.visibleCount);
 
 	const scrollPageUp = useCallback(() => {
-		setScrollIndex((prev) => Math.max(0, prev - pageSize));
-	}, [pageSize]);
+		scrollToIndex(scrollIndexRef.current - pageSize);
+	}, [scrollToIndex, pageSize]);
 
 	const scrollPageDown = useCallback(() => {
-		const maxScroll = Math.max(
-			0,
-			itemsRef.current.length - Math.ceil(height / itemHeight),
+		scrollToIndex(scrollIndexRef.current + pageSize);
+	}, [scrollToIndex, pageSize]);
+
+	const scrollIntoView = useCallback(
+		(index: number) => {
+			const current = scrollIndexRef.current;
+			if (typeof itemHeight === "number") {
+				const fits = Math.max(1, Math.floor(height / itemHeight));
+				scrollToIndex(keepIndexVisible(current, index, fits));
+			} else if (heightIndex) {
+				scrollToIndex(keepItemVisible(heightIndex, current, index, height));
+			}
+		},
+		[scrollToIndex, heightIndex, height, itemHeight],
+	);
+
+	// Indexes are into the items of the last render
+	const itemsRef = useRef(items);
+	itemsRef.current = items;
+
+	const setItemHeight = useCallback((index: number, lines: number) => {
+		if (index >= itemsRef.current.length) return;
+		const item = itemsRef.current[index];
+		setMeasured((prev) =>
+			prev.get(item) === lines ? prev : new Map(prev).set(item, lines),
 		);
-		setScrollIndex((prev) => Math.min(maxScroll, prev + pageSize));
-	}, [height, itemHeight, pageSize]);
+	}, []);
+
+	// Item counts the end and start were last reported at, cleared on
+	// leaving them
+	const endReachedRef = useRef<number | undefined>(undefined);
+	const startReachedRef = useRef<number | undefined>(undefined);
+	const { visibleStartIndex, visibleEndIndex, totalItems } = windowState;
+
+	useEffect(() => {
+		if (
+			totalItems === 0 ||
+			visibleEndIndex < totalItems - onEndReachedThreshold
+		) {
+			endReachedRef.current = undefined;
+		} else if (endReachedRef.current !== totalItems) {
+			endReachedRef.current = totalItems;
+			onEndReached?.();
+		}
+
+		if (totalItems === 0 || visibleStartIndex > onStartReachedThreshold) {
+			startReachedRef.current = undefined;
+		} else if (startReachedRef.current !== totalItems) {
+			startReachedRef.current = totalItems;
+			onStartReached?.();
+		}
+	}, [
+		visibleStartIndex,
+		visibleEndIndex,
+		totalItems,
+		onEndReached,
+		onEndReachedThreshold,
+		onStartReached,
+		onStartReachedThreshold,
+	]);
 
 	const scrollFraction = getScrollFraction(windowState);
 
@@ -215,6 +488,9 @@ export const useVirtualizedList = <T>(
 		scrollDown,
 		scrollPageUp,
 		scrollPageDown,
+		scrollIntoView,
 		scrollFraction,
+		isFollowing: pinned,
+		setItemHeight,
 	};
 };
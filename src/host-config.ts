@@ -3,6 +3,7 @@ import {
 	Content,
 	Dimensions,
 	appendChild as ecsAppendChild,
+	getChildren as ecsGetChildren,
 	insertBefore as ecsInsertBefore,
 	removeChild as ecsRemoveChild,
 	Hierarchy,
@@ -23,6 +24,9 @@ import {
 	removeEntity,
 } from "blecsd/core";
 import { z } from "zod";
+import { applyStyles } from "./apply-styles";
+import { syncStyleComponents } from "./style-components";
+import { type Styles, StylesSchema } from "./styles";
 
 // ---------------------------------------------------------------------------
 // Element types
@@ -73,6 +77,7 @@ export type EcsInstance = {
 	readonly world: World;
 	readonly eid: Entity;
 	readonly elementType: ElementType;
+	props: Props;
 };
 
 export type TextInstance = {
@@ -95,6 +100,68 @@ export type HostContext = {
 
 type UpdatePayload = Props | null;
 
+export type HostNode = EcsInstance | TextInstance;
+
+// ---------------------------------------------------------------------------
+// Host node registry
+// ---------------------------------------------------------------------------
+
+// Layout and render systems walk the ECS hierarchy and need to get back to
+// the host instance for each entity. Keyed by world so entries are GC'd
+// together with the container.
+const hostNodes = new WeakMap<World, Map<Entity, HostNode>>();
+
+const registerHostNode = (node: HostNode): void => {
+	let nodes = hostNodes.get(node.world);
+	if (!nodes) {
+		nodes = new Map();
+		hostNodes.set(node.world, nodes);
+	}
+	nodes.set(node.eid, node);
+};
+
+const unregisterHostSubtree = (world: World, eid: Entity): void => {
+	const nodes = hostNodes.get(world);
+	if (!nodes) return;
+
+	const visit = (current: Entity): void => {
+		nodes.delete(current);
+		for (const child of ecsGetChildren(world, current)) {
+			visit(child);
+		}
+	};
+
+	visit(eid);
+};
+
+export const getHostNode = (
+	world: World,
+	eid: Entity,
+): HostNode | undefined => {
+	return hostNodes.get(world)?.get(eid);
+};
+
+const withoutChildren = (props: Props): Props => {
+	const { children: _children, ...rest } = props;
+	return rest;
+};
+
+// ---------------------------------------------------------------------------
+// Hierarchy setup
+// ---------------------------------------------------------------------------
+
+// The Hierarchy store is shared by every world and indexed by entity id, so a
+// recycled id would otherwise inherit the links of whatever used it before.
+export const addHierarchy = (world: World, eid: Entity): void => {
+	addComponent(world, eid, Hierarchy);
+	Hierarchy.parent[eid] = 0;
+	Hierarchy.firstChild[eid] = 0;
+	Hierarchy.nextSibling[eid] = 0;
+	Hierarchy.prevSibling[eid] = 0;
+	Hierarchy.childCount[eid] = 0;
+	Hierarchy.depth[eid] = 0;
+};
+
 // ---------------------------------------------------------------------------
 // Instance creation
 // ---------------------------------------------------------------------------
@@ -102,7 +169,7 @@ type UpdatePayload = Props | null;
 const setupBoxEntity = (world: World, eid: Entity, props: Props): void => {
 	addComponent(world, eid, Position);
 	addComponent(world, eid, Dimensions);
-	addComponent(world, eid, Hierarchy);
+	addHierarchy(world, eid);
 	addComponent(world, eid, Renderable);
 
 	const x = typeof props.x === "number" ? props.x : 0;
@@ -118,12 +185,28 @@ const setupBoxEntity = (world: World, eid: Entity, props: Props): void => {
 	}
 
 	setVisible(world, eid, true);
+	syncBoxStyles(world, eid, props);
 	markDirty(world, eid);
 };
 
+// Box styles live in the style components for layout and render to query;
+// applyStyles mirrors them onto blecsd's own components. blecsd only takes
+// hex colors, so named colors stay in props and are resolved at paint time.
+const syncBoxStyles = (
+	world: World,
+	eid: Entity,
+	props: Props,
+	changedKeys?: readonly string[],
+): boolean => {
+	const styles = props as Styles;
+	if (!syncStyleComponents(world, eid, styles, changedKeys)) return false;
+	applyStyles(world, eid, { ...styles, backgroundColor: undefined });
+	return true;
+};
+
 const setupTextEntity = (world: World, eid: Entity, props: Props): void => {
 	addComponent(world, eid, Position);
-	addComponent(world, eid, Hierarchy);
+	addHierarchy(world, eid);
 	addComponent(world, eid, Content);
 	addComponent(world, eid, Renderable);
 
@@ -141,7 +224,7 @@ const setupVirtualTextEntity = (
 	eid: Entity,
 	_props: Props,
 ): void => {
-	addComponent(world, eid, Hierarchy);
+	addHierarchy(world, eid);
 	addComponent(world, eid, Content);
 };
 
@@ -175,7 +258,15 @@ export const createInstance = (
 			break;
 	}
 
-	return { world: container.world, eid, elementType };
+	const instance: EcsInstance = {
+		world: container.world,
+		eid,
+		elementType,
+		props: withoutChildren(props),
+	};
+	registerHostNode(instance);
+
+	return instance;
 };
 
 export const createTextInstance = (
@@ -190,11 +281,19 @@ export const createTextInstance = (
 	}
 
 	const eid = addEntity(container.world);
-	addComponent(container.world, eid, Hierarchy);
+	addHierarchy(container.world, eid);
 	addComponent(container.world, eid, Content);
 	setContent(container.world, eid, text);
 
-	return { world: container.world, eid, elementType: "#text", text };
+	const instance: TextInstance = {
+		world: container.world,
+		eid,
+		elementType: "#text",
+		text,
+	};
+	registerHostNode(instance);
+
+	return instance;
 };
 
 // ---------------------------------------------------------------------------
@@ -220,6 +319,7 @@ export const removeChild = (
 	child: EcsInstance | TextInstance,
 ): void => {
 	const world = getWorld(parent);
+	unregisterHostSubtree(world, child.eid);
 	ecsRemoveChild(world, getParentEid(parent), child.eid);
 	removeEntity(world, child.eid);
 };
@@ -233,7 +333,7 @@ export const insertBefore = (
 	const parentEid = getParentEid(parent);
 
 	if (!hasComponent(world, child.eid, Hierarchy)) {
-		addComponent(world, child.eid, Hierarchy);
+		addHierarchy(world, child.eid);
 	}
 	ecsAppendChild(world, parentEid, child.eid);
 	ecsInsertBefore(world, child.eid, beforeChild.eid);
@@ -270,18 +370,45 @@ export const diffProps = (oldProps: Props, newProps: Props): UpdatePayload => {
 	return hasChanges ? changed : null;
 };
 
+const HOST_LAYOUT_KEYS: ReadonlySet<string> = new Set([
+	"x",
+	"y",
+	"width",
+	"height",
+	"style",
+]);
+
+// Every Text prop is presentational; a Box only repaints for style changes,
+// not for handlers or aria props.
+const affectsOutput = (
+	instance: EcsInstance,
+	changedKeys: readonly string[],
+): boolean =>
+	instance.elementType !== "blecsdui-box" ||
+	changedKeys.some(
+		(key) =>
+			HOST_LAYOUT_KEYS.has(key) ||
+			key === "transform" ||
+			Object.hasOwn(StylesSchema.shape, key),
+	);
+
 export const commitUpdate = (
 	instance: EcsInstance,
 	updatePayload: UpdatePayload,
 	_type: string,
 	_oldProps: Props,
-	_newProps: Props,
-	container: Container,
+	newProps: Props,
 ): void => {
 	if (!updatePayload) return;
 
-	const { world } = container;
-	const { eid } = instance;
+	const { world, eid } = instance;
+	const changedKeys = Object.keys(updatePayload);
+
+	instance.props = withoutChildren(newProps);
+
+	if (instance.elementType === "blecsdui-box") {
+		syncBoxStyles(world, eid, instance.props, changedKeys);
+	}
 
 	for (const [key, value] of Object.entries(updatePayload)) {
 		switch (key) {
@@ -320,17 +447,18 @@ export const commitUpdate = (
 		}
 	}
 
-	markDirty(world, eid);
+	if (affectsOutput(instance, changedKeys)) {
+		markDirty(world, eid);
+	}
 };
 
 export const commitTextUpdate = (
 	instance: TextInstance,
 	_oldText: string,
 	newText: string,
-	container: Container,
 ): void => {
 	instance.text = newText;
-	setContent(container.world, instance.eid, newText);
+	setContent(instance.world, instance.eid, newText);
 };
 
 // ---------------------------------------------------------------------------
@@ -1,3 +1,12 @@
+export type {
+	AnimationClock,
+	AnimationClockConfig,
+	AnimationListener,
+} from "./animation-clock";
+export {
+	AnimationClockConfigSchema,
+	createAnimationClock,
+} from "./animation-clock";
 export type { AppInstance, CreateAppOptions } from "./app";
 export { createApp } from "./app";
 export {
@@ -45,12 +54,73 @@ export {
 	type BoxComponentProps,
 	BoxComponentPropsSchema,
 } from "./components/Box";
+export {
+	type ColumnWindow,
+	calculateColumnWindow,
+	DataGrid,
+	type DataGridCell,
+	type DataGridColumn,
+	DataGridColumnSchema,
+	type DataGridProps,
+	DataGridPropsSchema,
+	keepColumnVisible,
+} from "./components/DataGrid";
+export {
+	Dialog,
+	type DialogProps,
+	DialogPropsSchema,
+} from "./components/Dialog";
 export {
 	Newline,
 	type NewlineProps,
 	NewlinePropsSchema,
 } from "./components/Newline";
+export {
+	drawIndeterminateBar,
+	drawProgressBar,
+	formatPercentage,
+	ProgressBar,
+	type ProgressBarProps,
+	ProgressBarPropsSchema,
+} from "./components/ProgressBar";
+export {
+	ScrollView,
+	type ScrollViewHandle,
+	type ScrollViewProps,
+	ScrollViewPropsSchema,
+} from "./components/ScrollView";
+export {
+	flattenSections,
+	type Section,
+	type SectionHeaderState,
+	type SectionItemState,
+	SectionList,
+	type SectionListProps,
+	SectionListPropsSchema,
+	type SectionRow,
+	SectionSchema,
+} from "./components/SectionList";
+export {
+	findTypeaheadMatch,
+	Select,
+	type SelectIndicatorProps,
+	type SelectItem,
+	type SelectItemProps,
+	SelectItemSchema,
+	type SelectProps,
+	SelectPropsSchema,
+	TYPEAHEAD_TIMEOUT_MS,
+} from "./components/Select";
 export { Spacer } from "./components/Spacer";
+export {
+	SPINNERS,
+	Spinner,
+	type SpinnerFrames,
+	type SpinnerName,
+	SpinnerNameSchema,
+	type SpinnerProps,
+	SpinnerPropsSchema,
+} from "./components/Spinner";
 export {
 	commitStaticOutput,
 	createStaticOutputState,
@@ -61,6 +131,32 @@ export {
 	type StaticProps,
 	StaticPropsSchema,
 } from "./components/Static";
+export {
+	type CellTruncateMode,
+	CellTruncateModeSchema,
+	type ColumnAlign,
+	ColumnAlignSchema,
+	formatCell,
+	resolveColumnWidths,
+	Table,
+	type TableColumn,
+	TableColumnSchema,
+	type TableColumnWidth,
+	TableColumnWidthSchema,
+	type TableProps,
+	TablePropsSchema,
+} from "./components/Table";
+export {
+	Tab,
+	TabPanel,
+	type TabPanelProps,
+	TabPanelPropsSchema,
+	type TabProps,
+	TabPropsSchema,
+	Tabs,
+	type TabsProps,
+	TabsPropsSchema,
+} from "./components/Tabs";
 export {
 	InheritedTextStyleContext,
 	mergeTextStyles,
@@ -72,6 +168,16 @@ export {
 	type TextWrapMode,
 	TextWrapModeSchema,
 } from "./components/Text";
+export {
+	TextArea,
+	type TextAreaProps,
+	TextAreaPropsSchema,
+} from "./components/TextArea";
+export {
+	TextInput,
+	type TextInputProps,
+	TextInputPropsSchema,
+} from "./components/TextInput";
 export {
 	Transform,
 	type TransformProps,
@@ -79,8 +185,15 @@ export {
 } from "./components/Transform";
 export type { AppConfig } from "./config";
 export { AppConfigSchema, createDefaultConfig } from "./config";
+export { AnimationContext } from "./contexts/animation";
 export type { AppContextValue } from "./contexts/app";
 export { AppContext, AppContextValueSchema } from "./contexts/app";
+export type {
+	LayoutListener,
+	LayoutNotifier,
+	LayoutSubscribe,
+} from "./contexts/layout";
+export { createLayoutNotifier, LayoutContext } from "./contexts/layout";
 export type { StderrContextValue } from "./contexts/stderr";
 export { StderrContext } from "./contexts/stderr";
 export type { StdinContextValue } from "./contexts/stdin";
@@ -115,16 +228,23 @@ export type {
 	FocusEntry,
 	FocusManager,
 	FocusOptions,
+	FocusScopeValue,
 	FocusState,
 } from "./focus/focus-context";
 export {
 	FocusContext,
 	FocusOptionsSchema,
+	FocusScopeContext,
+	FocusStateContext,
 	focusReducer,
 	generateFocusId,
 	INITIAL_FOCUS_STATE,
+	ROOT_FOCUS_SCOPE,
 	resetFocusIdCounter,
 } from "./focus/focus-context";
+export type { FocusProviderProps } from "./focus/focus-provider";
+export { createFocusManager, FocusProvider } from "./focus/focus-provider";
+export { FocusScope, type FocusScopeProps } from "./focus/focus-scope";
 export type {
 	KeyboardNavigationOptions,
 	KeyboardNavigationResult,
@@ -134,6 +254,14 @@ export {
 	handleFocusKeypress,
 	KeyboardNavigationOptionsSchema,
 } from "./focus/keyboard-navigation";
+export type {
+	UseAnimationOptions,
+	UseAnimationResult,
+} from "./hooks/use-animation";
+export {
+	UseAnimationOptionsSchema,
+	useAnimation,
+} from "./hooks/use-animation";
 export { useApp } from "./hooks/use-app";
 export type { MeasureResult as ElementMeasureResult } from "./hooks/use-measure-element";
 export {
@@ -147,6 +275,10 @@ export type { UseFocusManagerResult } from "./hooks/use-focus-manager";
 export { useFocusManager } from "./hooks/use-focus-manager";
 export type { InputHandler, UseInputOptions } from "./hooks/use-input";
 export { UseInputOptionsSchema, useInput } from "./hooks/use-input";
+export type { MouseEventHandler, UseMouseOptions } from "./hooks/use-mouse";
+export { UseMouseOptionsSchema, useMouse } from "./hooks/use-mouse";
+export type { PasteHandler, UsePasteOptions } from "./hooks/use-paste";
+export { UsePasteOptionsSchema, usePaste } from "./hooks/use-paste";
 export { useStderr } from "./hooks/use-stderr";
 export { useStdin } from "./hooks/use-stdin";
 export { useStdout } from "./hooks/use-stdout";
@@ -156,10 +288,12 @@ export type {
 	EcsInstance,
 	ElementType,
 	HostContext,
+	HostNode,
 	TextInstance,
 	TextProps,
 } from "./host-config";
 export {
+	addHierarchy,
 	appendChild,
 	commitTextUpdate,
 	commitUpdate,
@@ -168,20 +302,70 @@ export {
 	diffProps,
 	ElementTypeSchema,
 	getChildHostContext,
+	getHostNode,
 	getPublicInstance,
 	getRootHostContext,
 	insertBefore,
 	removeChild,
 	resetAfterCommit,
 } from "./host-config";
+export type { InputChunk, PasteBuffer } from "./input/bracketed-paste";
+export {
+	createPasteBuffer,
+	DISABLE_BRACKETED_PASTE,
+	ENABLE_BRACKETED_PASTE,
+	PASTE_END,
+	PASTE_START,
+} from "./input/bracketed-paste";
+export type {
+	ExtendedKeyEvent,
+	ExtendedKeyToken,
+	KeyEventType,
+} from "./input/extended-keys";
+export {
+	DISABLE_EXTENDED_KEYS,
+	DISABLE_KITTY_KEYBOARD,
+	DISABLE_MODIFY_OTHER_KEYS,
+	ENABLE_EXTENDED_KEYS,
+	ENABLE_KITTY_KEYBOARD,
+	ENABLE_MODIFY_OTHER_KEYS,
+	isExtendedKeySequence,
+	KeyEventTypeSchema,
+	parseExtendedKey,
+	splitExtendedKeys,
+} from "./input/extended-keys";
+export type {
+	MouseDispatcher,
+	MouseHandler,
+	MouseHandlerProps,
+} from "./input/mouse-dispatch";
+export { createMouseDispatcher, hitTest } from "./input/mouse-dispatch";
 export type { Key, KeypressResult } from "./input/parse-keypress";
 export {
+	createPasteKey,
 	KeypressResultSchema,
 	KeySchema,
 	parseKeypress,
 	parseKeypressBuffer,
 } from "./input/parse-keypress";
-export type { RawModeManager } from "./input/raw-mode";
+export type {
+	MouseButton,
+	MouseEvent,
+	MouseEventType,
+	WheelDirection,
+} from "./input/parse-mouse";
+export {
+	DISABLE_MOUSE_TRACKING,
+	ENABLE_MOUSE_TRACKING,
+	isMouseSequence,
+	MouseButtonSchema,
+	MouseEventSchema,
+	MouseEventTypeSchema,
+	parseMouseEvent,
+	splitMouseInput,
+	WheelDirectionSchema,
+} from "./input/parse-mouse";
+export type { RawModeManager, RawModeOptions } from "./input/raw-mode";
 export { createRawModeManager } from "./input/raw-mode";
 export {
 	deleteInstance,
@@ -190,10 +374,20 @@ export {
 	setInstance,
 } from "./instances";
 export {
+	collectTextContent,
+	computeLayout,
+	type LayoutStyle,
+	readLayoutComponents,
+	readLayoutStyle,
+} from "./layout/compute-layout";
+export {
+	applyAspectRatio,
 	applyConstraints,
 	applyHeightConstraints,
 	type BoxEdges,
 	BoxEdgesSchema,
+	type ContentSizes,
+	ContentSizesSchema,
 	computeBorderBoxSize,
 	computeContentSize,
 	constrainFlexSize,
@@ -201,18 +395,25 @@ export {
 	DimensionConstraintsSchema,
 	type DimensionValue,
 	DimensionValueSchema,
+	isFixedSize,
+	isIntrinsicSize,
 	type ResolvedDimensions,
 	ResolvedDimensionsSchema,
+	resolveConstraint,
 	resolveDimension,
 	resolveElementDimensions,
 	resolveFlexBasis,
 	resolvePercentage,
+	resolveSize,
+	type SizeValue,
+	SizeValueSchema,
 	ZERO_EDGES,
 } from "./layout/dimensions";
 export {
 	type ChildLayout,
 	ChildLayoutSchema,
 	calculateFlexLayout,
+	calculateLineBaseline,
 	calculateLineCrossSize,
 	createFlexLines,
 	type FlexContainer,
@@ -223,6 +424,8 @@ export {
 	getMainGap,
 	isReversedDirection,
 	isRowDirection,
+	type MeasureCrossSize,
+	measureLinesCrossSize,
 	positionItemOnCrossAxis,
 	positionLinesOnCrossAxis,
 	positionOnMainAxis,
@@ -242,6 +445,25 @@ export {
 	totalMainGapSpace,
 	ZERO_GAP,
 } from "./layout/gap";
+export {
+	calculateGridLayout,
+	type GridArea,
+	GridAreaSchema,
+	type GridContainer,
+	GridContainerSchema,
+	type GridItem,
+	GridItemSchema,
+	type GridSpan,
+	GridSpanSchema,
+	type GridTrack,
+	GridTrackSchema,
+	type MeasureHeight,
+	measureGrid,
+	parseGridPlacement,
+	parseGridTemplate,
+	placeGridItems,
+	resolveTrackSizes,
+} from "./layout/grid";
 export {
 	type BorderEdges,
 	BorderEdgesSchema,
@@ -292,6 +514,7 @@ export {
 export {
 	createContainer,
 	createRootContainer,
+	type RootContainerSize,
 	reconciler,
 	renderElement,
 } from "./reconciler";
@@ -304,19 +527,23 @@ export {
 export type {
 	BorderCharset,
 	BorderColorConfig,
+	BorderJunctions,
 	BorderSides,
 	BorderStyleName,
 	RenderBorderOptions,
 } from "./rendering/border";
 export {
+	BORDER_JUNCTIONS,
 	BORDER_STYLES,
 	BorderCharsetSchema,
 	BorderColorConfigSchema,
+	BorderJunctionsSchema,
 	BorderSidesSchema,
 	BorderStyleNameSchema,
 	RenderBorderOptionsSchema,
 	renderBorder,
 	resolveBorderCharset,
+	resolveBorderJunctions,
 } from "./rendering/border";
 export type { DiffConfig, DiffOutput, DiffResult } from "./rendering/diff";
 export {
@@ -331,18 +558,25 @@ export type {
 	ClipRegion,
 	OutputBuffer,
 	OutputTransformer,
+	StackingOrder,
 	WriteOptions,
 } from "./rendering/output-buffer";
 export {
 	ClipRegionSchema,
+	clearRegion,
+	compareStackingOrder,
 	createOutputBuffer,
+	dimBuffer,
 	getBufferContent,
 	getBufferHeight,
 	popClip,
+	popLayer,
 	pushClip,
+	pushLayer,
 	WriteOptionsSchema,
 	writeToBuffer,
 } from "./rendering/output-buffer";
+export { collectRenderTree, renderFrame } from "./rendering/render-frame";
 export type {
 	NodeLayoutMap,
 	NodeRegistry,
@@ -358,6 +592,13 @@ export {
 	renderTree,
 	squashTextNodes as renderSquashTextNodes,
 } from "./rendering/render-tree";
+export {
+	type RenderScrollbarOptions,
+	RenderScrollbarOptionsSchema,
+	renderScrollbar,
+	type ScrollbarOrientation,
+	ScrollbarOrientationSchema,
+} from "./rendering/scrollbar";
 export type { LogUpdate, LogUpdateOptions } from "./rendering/terminal-output";
 export {
 	createLogUpdate,
@@ -383,10 +624,38 @@ export {
 	ResizeHandlerOptionsSchema,
 } from "./resize-handler";
 export {
+	BorderComponent,
+	type FlexContainerData,
+	FlexContainerComponent,
+	type FlexItemData,
+	FlexItemComponent,
+	getBorderEdges,
+	getBorderStyle,
+	getFlexContainer,
+	getFlexItem,
+	getGrid,
+	getMarginEdges,
+	getOverflow,
+	getPaddingEdges,
+	getPositioning,
+	GridComponent,
+	type GridData,
+	hasStyleComponents,
+	OverflowComponent,
+	PositionComponent,
+	type PositioningData,
+	SpacingComponent,
+	syncStyleComponents,
+} from "./style-components";
+export {
+	type AlignContent,
+	AlignContentSchema,
 	type AlignItems,
 	AlignItemsSchema,
 	type AlignSelf,
 	AlignSelfSchema,
+	type Backdrop,
+	BackdropSchema,
 	type BorderStyle,
 	BorderStyleSchema,
 	type Display,
@@ -395,11 +664,19 @@ export {
 	FlexDirectionSchema,
 	type FlexWrap,
 	FlexWrapSchema,
+	type GridPlacementValue,
+	GridPlacementSchema,
+	type GridTemplate,
+	GridTemplateSchema,
+	type IntrinsicSize,
+	IntrinsicSizeSchema,
 	type JustifyContent,
 	JustifyContentSchema,
 	type Overflow,
 	OverflowSchema,
 	type Position,
+	type PositionOffset,
+	PositionOffsetSchema,
 	PositionSchema,
 	parseStyles,
 	type Styles,
@@ -407,6 +684,42 @@ export {
 	type TextWrap,
 	TextWrapSchema,
 } from "./styles";
+export {
+	breakRun,
+	DEFAULT_HISTORY_LIMIT,
+	EMPTY_EDIT_HISTORY,
+	type EditHistory,
+	type EditKind,
+	EditKindSchema,
+	type HistoryStep,
+	recordEdit,
+	redoEdit,
+	undoEdit,
+} from "./text/edit-history";
+export type { TextEditState, VisualLine } from "./text/edit-text";
+export {
+	clampCursor,
+	cursorColumn,
+	deleteBackward,
+	deleteForward,
+	deleteToLineEnd,
+	deleteToLineStart,
+	deleteWordBackward,
+	insertText,
+	layoutVisualLines,
+	lineEnd,
+	lineStart,
+	moveLeft,
+	moveRight,
+	moveToLineEnd,
+	moveToLineStart,
+	moveVisualLine,
+	moveWordLeft,
+	moveWordRight,
+	offsetAtColumn,
+	visualColumn,
+	visualLineIndex,
+} from "./text/edit-text";
 export {
 	clearMeasureCache,
 	configureMeasureCache,
@@ -415,6 +728,7 @@ export {
 	MeasureCacheConfigSchema,
 	type MeasureResult,
 	MeasureResultSchema,
+	measureMinContentWidth,
 	measureText,
 } from "./text/measure-text";
 export {
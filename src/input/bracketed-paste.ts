@@ -0,0 +1,112 @@
+// ---------------------------------------------------------------------------
+// Bracketed paste mode escapes
+// ---------------------------------------------------------------------------
+
+export const ENABLE_BRACKETED_PASTE = "\x1b[?2004h";
+export const DISABLE_BRACKETED_PASTE = "\x1b[?2004l";
+
+export const PASTE_START = "\x1b[200~";
+export const PASTE_END = "\x1b[201~";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type InputChunk =
+	| { readonly type: "input"; readonly data: string }
+	| { readonly type: "paste"; readonly text: string };
+
+export type PasteBuffer = Readonly<{
+	push: (data: string) => readonly InputChunk[];
+	// Gives up on input held back as the start of a marker, e.g. a lone
+	// Escape, once no more data has come for it
+	flush: () => readonly InputChunk[];
+	isPasting: () => boolean;
+	// Whether input is held back that flush() would release
+	isHolding: () => boolean;
+}>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Length of the longest end of `text` that `marker` starts with, short of
+// the whole marker
+const partialMarkerLength = (text: string, marker: string): number => {
+	for (
+		let length = Math.min(text.length, marker.length - 1);
+		length > 0;
+		length--
+	) {
+		if (text.endsWith(marker.slice(0, length))) return length;
+	}
+	return 0;
+};
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits stdin data into keyboard input and whole pastes. A paste can span
+ * several chunks, so text after a start marker is held back until the
+ * matching end marker arrives. Markers can be split across chunks too, so a
+ * chunk ending in part of one keeps that part for the next.
+ */
+export const createPasteBuffer = (): PasteBuffer => {
+	let pasted: string | undefined;
+	let held = "";
+
+	const push = (data: string): readonly InputChunk[] => {
+		const chunks: InputChunk[] = [];
+		let rest = held + data;
+		held = "";
+
+		while (rest.length > 0) {
+			if (pasted === undefined) {
+				const start = rest.indexOf(PASTE_START);
+				if (start === -1) {
+					const cut = rest.length - partialMarkerLength(rest, PASTE_START);
+					if (cut > 0) chunks.push({ type: "input", data: rest.slice(0, cut) });
+					held = rest.slice(cut);
+					break;
+				}
+
+				if (start > 0) {
+					chunks.push({ type: "input", data: rest.slice(0, start) });
+				}
+				pasted = "";
+				rest = rest.slice(start + PASTE_START.length);
+				continue;
+			}
+
+			const end = rest.indexOf(PASTE_END);
+			if (end === -1) {
+				const cut = rest.length - partialMarkerLength(rest, PASTE_END);
+				pasted += rest.slice(0, cut);
+				held = rest.slice(cut);
+				break;
+			}
+
+			chunks.push({ type: "paste", text: pasted + rest.slice(0, end) });
+			pasted = undefined;
+			rest = rest.slice(end + PASTE_END.length);
+		}
+
+		return chunks;
+	};
+
+	// Inside a paste the end marker is still to come, so nothing is given up
+	const flush = (): readonly InputChunk[] => {
+		if (pasted !== undefined || held === "") return [];
+		const data = held;
+		held = "";
+		return [{ type: "input", data }];
+	};
+
+	const isPasting = (): boolean => pasted !== undefined;
+
+	const isHolding = (): boolean => pasted === undefined && held !== "";
+
+	return Object.freeze({ push, flush, isPasting, isHolding });
+};
@@ -0,0 +1,232 @@
+import {
+	generatePopSequence,
+	generatePushSequence,
+	KittyFlags,
+} from "blecsd/terminal";
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Enhancement escapes
+// ---------------------------------------------------------------------------
+
+export const ENABLE_KITTY_KEYBOARD = generatePushSequence(
+	KittyFlags.DISAMBIGUATE | KittyFlags.REPORT_EVENTS,
+);
+export const DISABLE_KITTY_KEYBOARD = generatePopSequence();
+
+// xterm modifyOtherKeys level 2, for terminals without the kitty protocol
+export const ENABLE_MODIFY_OTHER_KEYS = "\x1b[>4;2m";
+export const DISABLE_MODIFY_OTHER_KEYS = "\x1b[>4m";
+
+// Terminals that speak both protocols let the kitty flags take precedence,
+// so modifyOtherKeys only applies where the kitty push is ignored.
+export const ENABLE_EXTENDED_KEYS =
+	ENABLE_MODIFY_OTHER_KEYS + ENABLE_KITTY_KEYBOARD;
+export const DISABLE_EXTENDED_KEYS =
+	DISABLE_KITTY_KEYBOARD + DISABLE_MODIFY_OTHER_KEYS;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const KeyEventTypeSchema = z.enum(["press", "repeat", "release"]);
+
+export type KeyEventType = z.infer<typeof KeyEventTypeSchema>;
+
+export type ExtendedKeyEvent = Readonly<{
+	sequence: string;
+	// Normalized key name: "up", "f5", "return", "space", "a", ...
+	name: string;
+	// Printable character for text keys, empty for functional keys
+	text: string;
+	shift: boolean;
+	alt: boolean;
+	ctrl: boolean;
+	super: boolean;
+	hyper: boolean;
+	meta: boolean;
+	eventType: KeyEventType;
+}>;
+
+export type ExtendedKeyToken =
+	| { readonly type: "legacy"; readonly data: string }
+	| { readonly type: "key"; readonly event: ExtendedKeyEvent };
+
+// ---------------------------------------------------------------------------
+// Sequences the legacy parser cannot read
+// ---------------------------------------------------------------------------
+
+// CSI code[:alternates] ; modifiers[:event] ; text u
+const CSI_U_SOURCE =
+	"\\x1b\\[(\\d+)(?::\\d*)*(?:;(\\d*)(?::(\\d+))?)?(?:;[\\d:]*)?u";
+// modifyOtherKeys: CSI 27 ; modifiers ; code ~
+const MODIFY_OTHER_KEYS_SOURCE = "\\x1b\\[27;(\\d+);(\\d+)~";
+// Legacy-shaped functional keys carrying a kitty event type
+const CSI_EVENT_SOURCE = "\\x1b\\[(\\d+);(\\d+):(\\d+)([~A-FHPQRS])";
+
+const EXTENDED_KEY_SOURCE = `${CSI_U_SOURCE}|${MODIFY_OTHER_KEYS_SOURCE}|${CSI_EVENT_SOURCE}`;
+const EXTENDED_KEY_PATTERN = new RegExp(EXTENDED_KEY_SOURCE, "g");
+const EXTENDED_KEY_SEQUENCE = new RegExp(`^(?:${EXTENDED_KEY_SOURCE})$`);
+
+// ---------------------------------------------------------------------------
+// Key tables
+// ---------------------------------------------------------------------------
+
+const FUNCTIONAL_CODEPOINTS: ReadonlyMap<number, string> = new Map([
+	[8, "backspace"],
+	[9, "tab"],
+	[13, "return"],
+	[27, "escape"],
+	[32, "space"],
+	[127, "backspace"],
+]);
+
+const TILDE_KEYS: ReadonlyMap<number, string> = new Map([
+	[2, "insert"],
+	[3, "delete"],
+	[5, "pageup"],
+	[6, "pagedown"],
+	[7, "home"],
+	[8, "end"],
+	[11, "f1"],
+	[12, "f2"],
+	[13, "f3"],
+	[14, "f4"],
+	[15, "f5"],
+	[17, "f6"],
+	[18, "f7"],
+	[19, "f8"],
+	[20, "f9"],
+	[21, "f10"],
+	[23, "f11"],
+	[24, "f12"],
+]);
+
+const LETTER_KEYS: ReadonlyMap<string, string> = new Map([
+	["A", "up"],
+	["B", "down"],
+	["C", "right"],
+	["D", "left"],
+	["E", "clear"],
+	["F", "end"],
+	["H", "home"],
+	["P", "f1"],
+	["Q", "f2"],
+	["R", "f3"],
+	["S", "f4"],
+]);
+
+const EVENT_TYPES: readonly KeyEventType[] = ["press", "repeat", "release"];
+
+// Kitty reserves a private-use block for keys without a Unicode character
+const PRIVATE_USE_START = 0xe000;
+const PRIVATE_USE_END = 0xf8ff;
+
+const SHIFT_BIT = 1;
+const ALT_BIT = 2;
+const CTRL_BIT = 4;
+const SUPER_BIT = 8;
+const HYPER_BIT = 16;
+const META_BIT = 32;
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+const toEvent = (
+	sequence: string,
+	name: string,
+	text: string,
+	modifierParam: string | undefined,
+	eventParam: string | undefined,
+): ExtendedKeyEvent => {
+	// Modifiers are sent as 1 + bitmask; an empty field means none
+	const bits = Math.max(0, Number(modifierParam || "1") - 1);
+
+	return {
+		sequence,
+		name,
+		text,
+		shift: (bits & SHIFT_BIT) !== 0,
+		alt: (bits & ALT_BIT) !== 0,
+		ctrl: (bits & CTRL_BIT) !== 0,
+		super: (bits & SUPER_BIT) !== 0,
+		hyper: (bits & HYPER_BIT) !== 0,
+		meta: (bits & META_BIT) !== 0,
+		eventType: EVENT_TYPES[Number(eventParam || "1") - 1] ?? "press",
+	};
+};
+
+const fromCodepoint = (
+	codepoint: number,
+): { readonly name: string; readonly text: string } => {
+	const functional = FUNCTIONAL_CODEPOINTS.get(codepoint);
+	if (functional) return { name: functional, text: "" };
+
+	if (codepoint >= PRIVATE_USE_START && codepoint <= PRIVATE_USE_END) {
+		return { name: "", text: "" };
+	}
+
+	const text = String.fromCodePoint(codepoint);
+	return { name: text.toLowerCase(), text };
+};
+
+const decodeMatch = (match: RegExpExecArray): ExtendedKeyEvent => {
+	const [sequence] = match;
+
+	if (match[1] !== undefined) {
+		const { name, text } = fromCodepoint(Number(match[1]));
+		return toEvent(sequence, name, text, match[2], match[3]);
+	}
+
+	if (match[4] !== undefined) {
+		const { name, text } = fromCodepoint(Number(match[5]));
+		return toEvent(sequence, name, text, match[4], undefined);
+	}
+
+	const name =
+		match[9] === "~"
+			? (TILDE_KEYS.get(Number(match[6])) ?? "")
+			: (LETTER_KEYS.get(match[9]) ?? "");
+	return toEvent(sequence, name, "", match[7], match[8]);
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const isExtendedKeySequence = (data: string): boolean =>
+	EXTENDED_KEY_SEQUENCE.test(data);
+
+export const parseExtendedKey = (
+	data: string,
+): ExtendedKeyEvent | undefined => {
+	const match = EXTENDED_KEY_SEQUENCE.exec(data);
+	return match ? decodeMatch(match) : undefined;
+};
+
+/**
+ * Splits stdin data into kitty / modifyOtherKeys reports and the legacy
+ * input around them, preserving order. Legacy chunks still need the
+ * regular key parser.
+ */
+export const splitExtendedKeys = (
+	data: string,
+): readonly ExtendedKeyToken[] => {
+	const tokens: ExtendedKeyToken[] = [];
+	let last = 0;
+
+	for (const match of data.matchAll(EXTENDED_KEY_PATTERN)) {
+		if (match.index > last) {
+			tokens.push({ type: "legacy", data: data.slice(last, match.index) });
+		}
+		tokens.push({ type: "key", event: decodeMatch(match) });
+		last = match.index + match[0].length;
+	}
+
+	if (last < data.length) {
+		tokens.push({ type: "legacy", data: data.slice(last) });
+	}
+
+	return tokens;
+};
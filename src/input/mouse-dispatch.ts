@@ -0,0 +1,252 @@
+import { getChildren } from "blecsd/components";
+import type { Entity } from "blecsd/core";
+import type { TreeNode } from "../element-tree";
+import type { Container } from "../host-config";
+import { getHostNode } from "../host-config";
+import {
+	type ClipRegion,
+	compareStackingOrder,
+	type StackingOrder,
+} from "../rendering/output-buffer";
+import { collectRenderTree } from "../rendering/render-frame";
+import {
+	getOverflowClip,
+	getScrollState,
+	type NodeLayoutMap,
+} from "../rendering/render-tree";
+import { type MouseEvent, splitMouseInput } from "./parse-mouse";
+
+// ---------------------------------------------------------------------------
+// Box mouse props
+// ---------------------------------------------------------------------------
+
+export type MouseHandler = (event: MouseEvent) => void;
+
+export type MouseHandlerProps = {
+	readonly onClick?: MouseHandler;
+	readonly onMouseEnter?: MouseHandler;
+	readonly onMouseLeave?: MouseHandler;
+};
+
+export type MouseDispatcher = Readonly<{
+	dispatch: (event: MouseEvent) => void;
+	handleInput: (data: string) => void;
+}>;
+
+// ---------------------------------------------------------------------------
+// Hit testing
+// ---------------------------------------------------------------------------
+
+// The topmost box found so far, with its ancestors
+type Hit = {
+	readonly path: readonly Entity[];
+	// 0 for the tree, then one more for each overlay layer painted after it
+	readonly phase: number;
+	readonly order: StackingOrder;
+};
+
+// An overlay met during the walk; like the renderer, it is visited once
+// the tree is done, free of its ancestors' clipping
+type PendingOverlay = {
+	readonly eid: Entity;
+	readonly offsetX: number;
+	readonly offsetY: number;
+	readonly ancestors: readonly Entity[];
+};
+
+const insideClip = (clip: ClipRegion, x: number, y: number): boolean =>
+	(clip.x1 === undefined || x >= clip.x1) &&
+	(clip.x2 === undefined || x < clip.x2) &&
+	(clip.y1 === undefined || y >= clip.y1) &&
+	(clip.y2 === undefined || y < clip.y2);
+
+const intersectClips = (a: ClipRegion, b: ClipRegion): ClipRegion => ({
+	x1: a.x1 === undefined ? b.x1 : Math.max(a.x1, b.x1 ?? a.x1),
+	x2: a.x2 === undefined ? b.x2 : Math.min(a.x2, b.x2 ?? a.x2),
+	y1: a.y1 === undefined ? b.y1 : Math.max(a.y1, b.y1 ?? a.y1),
+	y2: a.y2 === undefined ? b.y2 : Math.min(a.y2, b.y2 ?? a.y2),
+});
+
+const NO_CLIP: ClipRegion = {};
+
+/**
+ * Returns the entities under a terminal cell, outermost first: the box
+ * painted on top there and its ancestors. It follows the renderer: layouts
+ * are parent-relative and shifted by each scrolled ancestor, children are
+ * cut to the view of the boxes that clip them, and the winner is picked in
+ * paint order (overlays last, then zIndex, then tree order). Children that
+ * reach outside their parent, like a badge at top: -1, are hit there too.
+ */
+export const hitTest = (
+	container: Container,
+	layouts: NodeLayoutMap,
+	x: number,
+	y: number,
+): readonly Entity[] => {
+	const { registry, styles } = collectRenderTree(container);
+	const rootNode: TreeNode = {
+		type: "root",
+		world: container.world,
+		eid: container.rootEid,
+		props: {},
+	};
+	const overlays: PendingOverlay[] = [];
+	let topmost: Hit | undefined;
+	let phase = 0;
+	let layer: Entity | undefined;
+
+	// Later hits were painted later, so they win unless a lower layer
+	const consider = (hit: Hit): void => {
+		if (
+			!topmost ||
+			hit.phase > topmost.phase ||
+			(hit.phase === topmost.phase &&
+				compareStackingOrder(hit.order, topmost.order) >= 0)
+		) {
+			topmost = hit;
+		}
+	};
+
+	const visit = (
+		eid: Entity,
+		offsetX: number,
+		offsetY: number,
+		clip: ClipRegion,
+		parentOrder: StackingOrder,
+		ancestors: readonly Entity[],
+	): void => {
+		const node = eid === container.rootEid ? rootNode : registry.get(eid);
+		const layout = layouts.get(eid);
+		if (!node || !layout) return;
+
+		const style = styles.get(eid) ?? {};
+		if (style.display === "none") return;
+		if (style.overlay && eid !== layer) {
+			overlays.push({ eid, offsetX, offsetY, ancestors });
+			return;
+		}
+
+		const left = offsetX + layout.x;
+		const top = offsetY + layout.y;
+		const order =
+			style.zIndex === undefined ? parentOrder : [...parentOrder, style.zIndex];
+		const path = [...ancestors, eid];
+
+		// An overlay paints nothing itself but its backdrop
+		const paints = !style.overlay || style.backdrop === "dim";
+		if (
+			paints &&
+			insideClip(clip, x, y) &&
+			x >= left &&
+			x < left + layout.width &&
+			y >= top &&
+			y < top + layout.height
+		) {
+			consider({ path, phase, order });
+		}
+
+		const scroll = getScrollState(node, layout, style, layouts, styles);
+		const overflowClip = getOverflowClip(left, top, layout, style, scroll);
+		const childClip = overflowClip ? intersectClips(clip, overflowClip) : clip;
+
+		for (const child of getChildren(container.world, eid)) {
+			visit(
+				child,
+				left - (scroll?.left ?? 0),
+				top - (scroll?.top ?? 0),
+				childClip,
+				order,
+				path,
+			);
+		}
+	};
+
+	visit(container.rootEid, 0, 0, NO_CLIP, [], []);
+
+	// Overlays found inside an overlay are pushed on and paint above it
+	for (let index = 0; index < overlays.length; index++) {
+		const overlay = overlays[index];
+		phase = index + 1;
+		layer = overlay.eid;
+		visit(
+			overlay.eid,
+			overlay.offsetX,
+			overlay.offsetY,
+			NO_CLIP,
+			[],
+			overlay.ancestors,
+		);
+	}
+
+	return topmost?.path ?? [];
+};
+
+// ---------------------------------------------------------------------------
+// Dispatcher
+// ---------------------------------------------------------------------------
+
+const getHandler = (
+	container: Container,
+	eid: Entity,
+	name: keyof MouseHandlerProps,
+): MouseHandler | undefined => {
+	const node = getHostNode(container.world, eid);
+	if (!node || node.elementType === "#text") return undefined;
+
+	const handler = node.props[name];
+	return typeof handler === "function" ? (handler as MouseHandler) : undefined;
+};
+
+const hasHoverHandlers = (container: Container, eid: Entity): boolean =>
+	getHandler(container, eid, "onMouseEnter") !== undefined ||
+	getHandler(container, eid, "onMouseLeave") !== undefined;
+
+export const createMouseDispatcher = (
+	container: Container,
+	getLayouts: () => NodeLayoutMap,
+): MouseDispatcher => {
+	// Boxes with hover handlers currently under the pointer, outermost first
+	let hovered: readonly Entity[] = [];
+
+	const updateHover = (path: readonly Entity[], event: MouseEvent): void => {
+		const next = path.filter((eid) => hasHoverHandlers(container, eid));
+
+		for (const eid of [...hovered].reverse()) {
+			if (!next.includes(eid)) {
+				getHandler(container, eid, "onMouseLeave")?.(event);
+			}
+		}
+		for (const eid of next) {
+			if (!hovered.includes(eid)) {
+				getHandler(container, eid, "onMouseEnter")?.(event);
+			}
+		}
+
+		hovered = next;
+	};
+
+	const dispatch = (event: MouseEvent): void => {
+		const path = hitTest(container, getLayouts(), event.x, event.y);
+
+		updateHover(path, event);
+
+		if (event.type !== "press" || event.button !== "left") return;
+
+		// The innermost clickable box under the pointer receives the click
+		for (let i = path.length - 1; i >= 0; i--) {
+			const onClick = getHandler(container, path[i], "onClick");
+			if (onClick) {
+				onClick(event);
+				return;
+			}
+		}
+	};
+
+	const handleInput = (data: string): void => {
+		for (const event of splitMouseInput(data).events) {
+			dispatch(event);
+		}
+	};
+
+	return Object.freeze({ dispatch, handleInput });
+};
@@ -1,9 +1,15 @@
 import {
-	type KeyName,
+	type KeyEvent as ParsedKeyEvent,
 	parseKeyBuffer,
 	parseKeySequence,
 } from "blecsd/terminal";
 import { z } from "zod";
+import {
+	type ExtendedKeyEvent,
+	KeyEventTypeSchema,
+	parseExtendedKey,
+	splitExtendedKeys,
+} from "./extended-keys";
 
 // ---------------------------------------------------------------------------
 // Key schema (Ink-compatible)
@@ -26,6 +32,28 @@ export const KeySchema = z.object({
 	backspace: z.boolean(),
 	delete: z.boolean(),
 	meta: z.boolean(),
+	// Set when the input is a whole bracketed paste rather than a keystroke
+	paste: z.boolean(),
+	insert: z.boolean(),
+	f1: z.boolean(),
+	f2: z.boolean(),
+	f3: z.boolean(),
+	f4: z.boolean(),
+	f5: z.boolean(),
+	f6: z.boolean(),
+	f7: z.boolean(),
+	f8: z.boolean(),
+	f9: z.boolean(),
+	f10: z.boolean(),
+	f11: z.boolean(),
+	f12: z.boolean(),
+	// Only reported by terminals speaking the kitty keyboard protocol
+	super: z.boolean(),
+	hyper: z.boolean(),
+	// Legacy terminals report every keystroke as a press
+	eventType: KeyEventTypeSchema,
+	// Normalized key name ("up", "f5", "return", "space", "a"), empty if unknown
+	name: z.string(),
 });
 
 export type Key = z.infer<typeof KeySchema>;
@@ -98,22 +126,68 @@ const emptyKey = (): Key => ({
 	backspace: false,
 	delete: false,
 	meta: false,
+	paste: false,
+	insert: false,
+	f1: false,
+	f2: false,
+	f3: false,
+	f4: false,
+	f5: false,
+	f6: false,
+	f7: false,
+	f8: false,
+	f9: false,
+	f10: false,
+	f11: false,
+	f12: false,
+	super: false,
+	hyper: false,
+	eventType: "press",
+	name: "",
 });
 
 // ---------------------------------------------------------------------------
-// Build Key from blecsd KeyEvent name
+// Build Key from a normalized key name
 // ---------------------------------------------------------------------------
 
+type KeyModifiers = Pick<Key, "ctrl" | "shift" | "meta" | "super" | "hyper">;
+
+const FUNCTION_KEYS = [
+	"f1",
+	"f2",
+	"f3",
+	"f4",
+	"f5",
+	"f6",
+	"f7",
+	"f8",
+	"f9",
+	"f10",
+	"f11",
+	"f12",
+] as const;
+
+// blecsd has a few aliases of its own
+const normalizeName = (name: string): string => {
+	if (name === "enter") return "return";
+	if (name === "undefined") return "";
+	return name;
+};
+
 const buildKeyFromName = (
-	name: KeyName,
-	ctrl: boolean,
-	shift: boolean,
-	meta: boolean,
+	rawName: string,
+	modifiers: KeyModifiers,
+	eventType: Key["eventType"] = "press",
 ): Key => {
+	const name = normalizeName(rawName);
 	const key = emptyKey();
-	key.ctrl = ctrl;
-	key.shift = shift;
-	key.meta = meta || name === "escape";
+	key.name = name;
+	key.eventType = eventType;
+	key.ctrl = modifiers.ctrl;
+	key.shift = modifiers.shift;
+	key.meta = modifiers.meta || name === "escape";
+	key.super = modifiers.super;
+	key.hyper = modifiers.hyper;
 	key.upArrow = name === "up";
 	key.downArrow = name === "down";
 	key.leftArrow = name === "left";
@@ -122,11 +196,15 @@ const buildKeyFromName = (
 	key.pageDown = name === "pagedown";
 	key.home = name === "home";
 	key.end = name === "end";
-	key.return = name === "return" || name === "enter";
+	key.return = name === "return";
 	key.escape = name === "escape";
 	key.tab = name === "tab";
 	key.backspace = name === "backspace";
 	key.delete = name === "delete";
+	key.insert = name === "insert";
+	for (const fn of FUNCTION_KEYS) {
+		key[fn] = name === fn;
+	}
 	return key;
 };
 
@@ -134,11 +212,7 @@ const buildKeyFromName = (
 // Derive input string from key event
 // ---------------------------------------------------------------------------
 
-const deriveInput = (
-	sequence: string,
-	name: KeyName,
-	ctrl: boolean,
-): string => {
+const deriveInput = (sequence: string, name: string, ctrl: boolean): string => {
 	let input = ctrl ? name : sequence;
 
 	if (NON_ALPHANUMERIC_KEYS.has(name)) {
@@ -157,23 +231,42 @@ const deriveInput = (
 // Public API
 // ---------------------------------------------------------------------------
 
-export const parseKeypress = (data: Buffer | string): KeypressResult => {
-	const buf =
-		typeof data === "string"
-			? new Uint8Array(Buffer.from(data))
-			: new Uint8Array(data);
+export const createPasteKey = (): Key => ({ ...emptyKey(), paste: true });
 
-	const event = parseKeySequence(buf);
+// Kitty and modifyOtherKeys reports carry the character separately
+const fromExtendedKey = (event: ExtendedKeyEvent): KeypressResult => {
+	const key = buildKeyFromName(
+		event.name,
+		{
+			ctrl: event.ctrl,
+			shift: event.shift,
+			meta: event.alt || event.meta,
+			super: event.super,
+			hyper: event.hyper,
+		},
+		event.eventType,
+	);
 
-	if (!event) {
-		const raw = typeof data === "string" ? data : data.toString("utf-8");
-		return {
-			input: raw,
-			key: emptyKey(),
-		};
+	let input = event.text;
+	if (NON_ALPHANUMERIC_KEYS.has(key.name)) {
+		input = "";
+	} else if (event.ctrl) {
+		input = key.name;
+	} else if (event.shift && /^[a-z]$/.test(input)) {
+		input = input.toUpperCase();
 	}
 
-	const key = buildKeyFromName(event.name, event.ctrl, event.shift, event.meta);
+	return { input, key };
+};
+
+const fromKeyEvent = (event: ParsedKeyEvent): KeypressResult => {
+	const key = buildKeyFromName(event.name, {
+		ctrl: event.ctrl,
+		shift: event.shift,
+		meta: event.meta,
+		super: false,
+		hyper: false,
+	});
 
 	// Detect shift from uppercase single letter
 	const input = deriveInput(event.sequence, event.name, event.ctrl);
@@ -184,29 +277,38 @@ export const parseKeypress = (data: Buffer | string): KeypressResult => {
 	return { input, key };
 };
 
+const toBytes = (data: string): Uint8Array => new Uint8Array(Buffer.from(data));
+
+export const parseKeypress = (data: Buffer | string): KeypressResult => {
+	const raw = typeof data === "string" ? data : data.toString("utf-8");
+
+	const extended = parseExtendedKey(raw);
+	if (extended) {
+		return fromExtendedKey(extended);
+	}
+
+	const event = parseKeySequence(
+		typeof data === "string" ? toBytes(data) : new Uint8Array(data),
+	);
+
+	if (!event) {
+		return {
+			input: raw,
+			key: emptyKey(),
+		};
+	}
+
+	return fromKeyEvent(event);
+};
+
 export const parseKeypressBuffer = (
 	data: Buffer | string,
 ): readonly KeypressResult[] => {
-	const buf =
-		typeof data === "string"
-			? new Uint8Array(Buffer.from(data))
-			: new Uint8Array(data);
-
-	const events = parseKeyBuffer(buf);
-
-	return events.map((event) => {
-		const key = buildKeyFromName(
-			event.name,
-			event.ctrl,
-			event.shift,
-			event.meta,
-		);
-
-		const input = deriveInput(event.sequence, event.name, event.ctrl);
-		if (input.length === 1 && /[A-Z]/.test(input)) {
-			key.shift = true;
-		}
-
-		return { input, key };
-	});
+	const raw = typeof data === "string" ? data : data.toString("utf-8");
+
+	return splitExtendedKeys(raw).flatMap((token) =>
+		token.type === "key"
+			? [fromExtendedKey(token.event)]
+			: parseKeyBuffer(toBytes(token.data)).map(fromKeyEvent),
+	);
 };
@@ -0,0 +1,150 @@
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Tracking mode escapes (any-event tracking + SGR 1006 encoding)
+// ---------------------------------------------------------------------------
+
+export const ENABLE_MOUSE_TRACKING = "\x1b[?1000h\x1b[?1003h\x1b[?1006h";
+export const DISABLE_MOUSE_TRACKING = "\x1b[?1006l\x1b[?1003l\x1b[?1000l";
+
+// ---------------------------------------------------------------------------
+// Mouse event schema
+// ---------------------------------------------------------------------------
+
+export const MouseButtonSchema = z.enum(["left", "middle", "right", "none"]);
+
+export type MouseButton = z.infer<typeof MouseButtonSchema>;
+
+export const MouseEventTypeSchema = z.enum([
+	"press",
+	"release",
+	"drag",
+	"move",
+	"wheel",
+]);
+
+export type MouseEventType = z.infer<typeof MouseEventTypeSchema>;
+
+export const WheelDirectionSchema = z.enum(["up", "down", "left", "right"]);
+
+export type WheelDirection = z.infer<typeof WheelDirectionSchema>;
+
+export const MouseEventSchema = z.object({
+	type: MouseEventTypeSchema,
+	button: MouseButtonSchema,
+	// Zero-based terminal cell coordinates
+	x: z.number().int().min(0),
+	y: z.number().int().min(0),
+	shift: z.boolean(),
+	meta: z.boolean(),
+	ctrl: z.boolean(),
+	direction: WheelDirectionSchema.optional(),
+});
+
+export type MouseEvent = z.infer<typeof MouseEventSchema>;
+
+// ---------------------------------------------------------------------------
+// SGR 1006: ESC [ < button ; column ; row (M = press/motion, m = release)
+// ---------------------------------------------------------------------------
+
+const SGR_MOUSE_SOURCE = "\\x1b\\[<(\\d+);(\\d+);(\\d+)([Mm])";
+const SGR_MOUSE_PATTERN = new RegExp(SGR_MOUSE_SOURCE, "g");
+const SGR_MOUSE_SEQUENCE = new RegExp(`^${SGR_MOUSE_SOURCE}$`);
+
+const BUTTONS: readonly MouseButton[] = ["left", "middle", "right", "none"];
+const WHEEL_DIRECTIONS: readonly WheelDirection[] = [
+	"up",
+	"down",
+	"left",
+	"right",
+];
+
+const SHIFT_BIT = 4;
+const META_BIT = 8;
+const CTRL_BIT = 16;
+const MOTION_BIT = 32;
+const WHEEL_BIT = 64;
+
+const toMouseEvent = (
+	code: number,
+	column: number,
+	row: number,
+	final: string,
+): MouseEvent => {
+	const modifiers = {
+		shift: (code & SHIFT_BIT) !== 0,
+		meta: (code & META_BIT) !== 0,
+		ctrl: (code & CTRL_BIT) !== 0,
+	};
+	const position = { x: Math.max(0, column - 1), y: Math.max(0, row - 1) };
+	const low = code & 3;
+
+	if ((code & WHEEL_BIT) !== 0) {
+		return {
+			type: "wheel",
+			button: "none",
+			direction: WHEEL_DIRECTIONS[low],
+			...position,
+			...modifiers,
+		};
+	}
+
+	const button = BUTTONS[low] ?? "none";
+
+	if ((code & MOTION_BIT) !== 0) {
+		return {
+			type: button === "none" ? "move" : "drag",
+			button,
+			...position,
+			...modifiers,
+		};
+	}
+
+	return {
+		type: final === "m" ? "release" : "press",
+		button,
+		...position,
+		...modifiers,
+	};
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const isMouseSequence = (data: string): boolean =>
+	SGR_MOUSE_SEQUENCE.test(data);
+
+export const parseMouseEvent = (data: string): MouseEvent | undefined => {
+	const match = SGR_MOUSE_SEQUENCE.exec(data);
+	if (!match) return undefined;
+
+	return toMouseEvent(
+		Number(match[1]),
+		Number(match[2]),
+		Number(match[3]),
+		match[4],
+	);
+};
+
+/**
+ * Pulls every SGR mouse report out of a chunk of stdin data. Terminals can
+ * batch several reports, and keystrokes, into one chunk; `rest` is the
+ * keyboard input left over once the mouse reports are removed.
+ */
+export const splitMouseInput = (
+	data: string,
+): { readonly events: readonly MouseEvent[]; readonly rest: string } => {
+	const events: MouseEvent[] = [];
+	const rest = data.replace(
+		SGR_MOUSE_PATTERN,
+		(_match, code: string, column: string, row: string, final: string) => {
+			events.push(
+				toMouseEvent(Number(code), Number(column), Number(row), final),
+			);
+			return "";
+		},
+	);
+
+	return { events, rest };
+};
@@ -1,4 +1,9 @@
 import { z } from "zod";
+import {
+	DISABLE_BRACKETED_PASTE,
+	ENABLE_BRACKETED_PASTE,
+} from "./bracketed-paste";
+import { DISABLE_EXTENDED_KEYS, ENABLE_EXTENDED_KEYS } from "./extended-keys";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -27,6 +32,16 @@ type StdinLike = {
 	setRawMode?: (mode: boolean) => void;
 };
 
+// Terminal modes are switched by writing to the output side
+type StdoutLike = {
+	write: (data: string) => unknown;
+};
+
+export type RawModeOptions = {
+	// Ask for kitty keyboard reports, falling back to modifyOtherKeys
+	readonly extendedKeys?: boolean;
+};
+
 // ---------------------------------------------------------------------------
 // Validation
 // ---------------------------------------------------------------------------
@@ -40,9 +55,26 @@ const StdinSchema = z.custom<StdinLike>(
 // Factory
 // ---------------------------------------------------------------------------
 
-export const createRawModeManager = (stdin: StdinLike): RawModeManager => {
+/**
+ * Reference-counts raw mode on stdin. When `stdout` is given, bracketed paste
+ * mode is switched on and off together with raw mode, so pasted text arrives
+ * wrapped in `ESC[200~` … `ESC[201~`, and `extendedKeys` opts into the
+ * kitty keyboard protocol the same way.
+ */
+export const createRawModeManager = (
+	stdin: StdinLike,
+	stdout?: StdoutLike,
+	options?: RawModeOptions,
+): RawModeManager => {
 	StdinSchema.parse(stdin);
 
+	const enableSequence =
+		ENABLE_BRACKETED_PASTE +
+		(options?.extendedKeys ? ENABLE_EXTENDED_KEYS : "");
+	const disableSequence =
+		(options?.extendedKeys ? DISABLE_EXTENDED_KEYS : "") +
+		DISABLE_BRACKETED_PASTE;
+
 	const supported =
 		stdin.isTTY === true && typeof stdin.setRawMode === "function";
 	let count = 0;
@@ -60,6 +92,7 @@ export const createRawModeManager = (stdin: StdinLike): RawModeManager => {
 		count++;
 		if (count === 1) {
 			stdin.setRawMode?.(true);
+			stdout?.write(enableSequence);
 		}
 	};
 
@@ -69,6 +102,7 @@ export const createRawModeManager = (stdin: StdinLike): RawModeManager => {
 		count--;
 		if (count === 0) {
 			stdin.setRawMode?.(false);
+			stdout?.write(disableSequence);
 		}
 	};
 
@@ -91,6 +125,7 @@ export const createRawModeManager = (stdin: StdinLike): RawModeManager => {
 		if (supported && count > 0) {
 			// Restore to original state
 			stdin.setRawMode?.(originalRawMode ?? false);
+			stdout?.write(disableSequence);
 		}
 		count = 0;
 	};
@@ -0,0 +1,1256 @@
+import { Dimensions, getChildren, setDimensions } from "blecsd/components";
+import type { Entity, World } from "blecsd/core";
+import { hasComponent } from "blecsd/core";
+import { type ResolvedSpacing, resolveShorthands } from "../apply-styles";
+import type { Container, HostNode } from "../host-config";
+import { getHostNode } from "../host-config";
+import type { NodeLayoutMap, RenderLayout } from "../rendering/render-tree";
+import {
+	getBorderEdges,
+	getFlexContainer,
+	getFlexItem,
+	getGrid,
+	getMarginEdges,
+	getOverflow,
+	getPaddingEdges,
+	getPositioning,
+	hasStyleComponents,
+} from "../style-components";
+import type {
+	AlignContent,
+	AlignItems,
+	AlignSelf,
+	FlexDirection,
+	FlexWrap,
+	JustifyContent,
+	PositionOffset,
+	Styles,
+} from "../styles";
+import { measureMinContentWidth, measureText } from "../text/measure-text";
+import { wrapText } from "../text/wrap-text";
+import {
+	applyAspectRatio,
+	type BoxEdges,
+	computeBorderBoxSize,
+	computeContentSize,
+	constrainFlexSize,
+	type DimensionValue,
+	isFixedSize,
+	type ResolvedDimensions,
+	resolveConstraint,
+	resolveFlexBasis,
+	resolveSize,
+	type SizeValue,
+	ZERO_EDGES,
+} from "./dimensions";
+import {
+	type ChildLayout,
+	calculateFlexLayout,
+	type FlexContainer,
+	type FlexItem,
+	isRowDirection,
+	type MeasureCrossSize,
+	measureLinesCrossSize,
+	positionItemOnCrossAxis,
+} from "./flex";
+import { resolveGap } from "./gap";
+import {
+	calculateGridLayout,
+	type GridContainer,
+	type GridItem,
+	type GridSpan,
+	type GridTrack,
+	type MeasureHeight,
+	measureGrid,
+	parseGridPlacement,
+	parseGridTemplate,
+} from "./grid";
+import { getCrossAxisMargins, getMainAxisMargins } from "./spacing";
+
+// ---------------------------------------------------------------------------
+// Layout style: the subset of Box styles the layout pass consumes
+// ---------------------------------------------------------------------------
+
+export type LayoutStyle = {
+	readonly flexDirection: FlexDirection;
+	readonly flexWrap: FlexWrap;
+	readonly justifyContent: JustifyContent;
+	readonly alignItems: AlignItems;
+	readonly alignSelf: AlignSelf | undefined;
+	readonly alignContent: AlignContent;
+	readonly flexGrow: number;
+	readonly flexShrink: number;
+	readonly flexBasis: DimensionValue | undefined;
+	readonly width: SizeValue | undefined;
+	readonly height: SizeValue | undefined;
+	readonly minWidth: number | undefined;
+	readonly minHeight: number | undefined;
+	readonly maxWidth: DimensionValue | undefined;
+	readonly maxHeight: DimensionValue | undefined;
+	readonly aspectRatio: number | undefined;
+	readonly padding: ResolvedSpacing;
+	readonly margin: ResolvedSpacing;
+	readonly border: BoxEdges;
+	readonly columnGap: number;
+	readonly rowGap: number;
+	readonly hidden: boolean;
+	readonly absolute: boolean;
+	readonly overlay: boolean;
+	// Sets position, so offsets apply and absolute descendants are placed
+	// against it
+	readonly positioned: boolean;
+	readonly top: PositionOffset | undefined;
+	readonly right: PositionOffset | undefined;
+	readonly bottom: PositionOffset | undefined;
+	readonly left: PositionOffset | undefined;
+	// overflow "scroll" on each axis
+	readonly scrollX: boolean;
+	readonly scrollY: boolean;
+	// display "grid" lays the children out in these tracks instead of lines
+	readonly grid: boolean;
+	readonly gridTemplateColumns: readonly GridTrack[];
+	readonly gridTemplateRows: readonly GridTrack[];
+	readonly gridColumn: GridSpan;
+	readonly gridRow: GridSpan;
+};
+
+// Ink-compatible defaults: boxes lay out in a row and shrink to fit
+const DEFAULT_LAYOUT_STYLE: LayoutStyle = {
+	flexDirection: "row",
+	flexWrap: "nowrap",
+	justifyContent: "flex-start",
+	alignItems: "stretch",
+	alignSelf: undefined,
+	alignContent: "flex-start",
+	flexGrow: 0,
+	flexShrink: 1,
+	flexBasis: undefined,
+	width: undefined,
+	height: undefined,
+	minWidth: undefined,
+	minHeight: undefined,
+	maxWidth: undefined,
+	maxHeight: undefined,
+	aspectRatio: undefined,
+	padding: ZERO_EDGES,
+	margin: ZERO_EDGES,
+	border: ZERO_EDGES,
+	columnGap: 0,
+	rowGap: 0,
+	hidden: false,
+	absolute: false,
+	overlay: false,
+	positioned: false,
+	top: undefined,
+	right: undefined,
+	bottom: undefined,
+	left: undefined,
+	scrollX: false,
+	scrollY: false,
+	grid: false,
+	gridTemplateColumns: [],
+	gridTemplateRows: [],
+	gridColumn: { start: undefined, span: 1 },
+	gridRow: { start: undefined, span: 1 },
+};
+
+// The root stacks its children vertically, like Yoga's default
+const ROOT_LAYOUT_STYLE: LayoutStyle = {
+	...DEFAULT_LAYOUT_STYLE,
+	flexDirection: "column",
+};
+
+const toNumber = (value: unknown): number | undefined =>
+	typeof value === "number" ? value : undefined;
+
+const resolveBorderEdges = (styles: Styles): BoxEdges => {
+	if (styles.borderStyle === undefined) return ZERO_EDGES;
+	return {
+		top: styles.borderTop === false ? 0 : 1,
+		right: styles.borderRight === false ? 0 : 1,
+		bottom: styles.borderBottom === false ? 0 : 1,
+		left: styles.borderLeft === false ? 0 : 1,
+	};
+};
+
+export const readLayoutStyle = (
+	props: Record<string, unknown>,
+): LayoutStyle => {
+	const styles = props as Styles;
+	const resolved = resolveShorthands(styles);
+	const gap = resolveGap({
+		gap: styles.gap,
+		columnGap: styles.columnGap,
+		rowGap: styles.rowGap,
+	});
+
+	return {
+		flexDirection: styles.flexDirection ?? DEFAULT_LAYOUT_STYLE.flexDirection,
+		flexWrap: styles.flexWrap ?? DEFAULT_LAYOUT_STYLE.flexWrap,
+		justifyContent:
+			styles.justifyContent ?? DEFAULT_LAYOUT_STYLE.justifyContent,
+		alignItems: styles.alignItems ?? DEFAULT_LAYOUT_STYLE.alignItems,
+		alignSelf: styles.alignSelf,
+		alignContent: styles.alignContent ?? DEFAULT_LAYOUT_STYLE.alignContent,
+		flexGrow: styles.flexGrow ?? DEFAULT_LAYOUT_STYLE.flexGrow,
+		flexShrink: styles.flexShrink ?? DEFAULT_LAYOUT_STYLE.flexShrink,
+		flexBasis: styles.flexBasis,
+		width: styles.width,
+		height: styles.height,
+		minWidth: toNumber(styles.minWidth),
+		minHeight: toNumber(styles.minHeight),
+		maxWidth: styles.maxWidth,
+		maxHeight: styles.maxHeight,
+		aspectRatio: styles.aspectRatio,
+		padding: resolved.padding,
+		margin: resolved.margin,
+		border: resolveBorderEdges(styles),
+		columnGap: gap.columnGap,
+		rowGap: gap.rowGap,
+		hidden: styles.display === "none",
+		absolute: styles.position === "absolute",
+		overlay: styles.overlay === true,
+		positioned: styles.position !== undefined,
+		top: styles.top,
+		right: styles.right,
+		bottom: styles.bottom,
+		left: styles.left,
+		scrollX: (styles.overflowX ?? styles.overflow) === "scroll",
+		scrollY: (styles.overflowY ?? styles.overflow) === "scroll",
+		grid: styles.display === "grid",
+		gridTemplateColumns: parseGridTemplate(styles.gridTemplateColumns),
+		gridTemplateRows: parseGridTemplate(styles.gridTemplateRows),
+		gridColumn: parseGridPlacement(styles.gridColumn),
+		gridRow: parseGridPlacement(styles.gridRow),
+	};
+};
+
+// Reads the style components a Box's styles were synced into
+export const readLayoutComponents = (
+	world: World,
+	eid: Entity,
+): LayoutStyle => {
+	if (!hasStyleComponents(world, eid)) return DEFAULT_LAYOUT_STYLE;
+
+	const container = getFlexContainer(eid);
+	const item = getFlexItem(eid);
+	const overflow = getOverflow(eid);
+	const positioning = getPositioning(eid);
+	const grid = getGrid(eid);
+
+	return {
+		flexDirection: container.flexDirection,
+		flexWrap: container.flexWrap,
+		justifyContent: container.justifyContent,
+		alignItems: container.alignItems,
+		alignSelf: item.alignSelf,
+		alignContent: container.alignContent,
+		flexGrow: item.flexGrow,
+		flexShrink: item.flexShrink,
+		flexBasis: item.flexBasis,
+		width: item.width,
+		height: item.height,
+		minWidth: item.minWidth,
+		minHeight: item.minHeight,
+		maxWidth: item.maxWidth,
+		maxHeight: item.maxHeight,
+		aspectRatio: item.aspectRatio,
+		padding: getPaddingEdges(eid),
+		margin: getMarginEdges(eid),
+		border: getBorderEdges(eid),
+		columnGap: container.columnGap,
+		rowGap: container.rowGap,
+		hidden: item.hidden,
+		absolute: item.absolute,
+		overlay: item.overlay,
+		positioned: positioning.positioned,
+		top: positioning.top,
+		right: positioning.right,
+		bottom: positioning.bottom,
+		left: positioning.left,
+		scrollX: overflow.x === "scroll",
+		scrollY: overflow.y === "scroll",
+		grid: grid.isGrid,
+		gridTemplateColumns: grid.columns,
+		gridTemplateRows: grid.rows,
+		gridColumn: grid.column,
+		gridRow: grid.row,
+	};
+};
+
+// ---------------------------------------------------------------------------
+// Host node helpers
+// ---------------------------------------------------------------------------
+
+const isTextElement = (node: HostNode | undefined): boolean =>
+	node !== undefined &&
+	(node.elementType === "blecsdui-text" ||
+		node.elementType === "blecsdui-virtual-text");
+
+export const collectTextContent = (world: World, eid: Entity): string => {
+	const node = getHostNode(world, eid);
+	if (node?.elementType === "#text") return node.text;
+
+	let text = "";
+	for (const child of getChildren(world, eid)) {
+		text += collectTextContent(world, child);
+	}
+	return text;
+};
+
+// ---------------------------------------------------------------------------
+// Layout context (per pass)
+// ---------------------------------------------------------------------------
+
+type LayoutPass = {
+	readonly world: World;
+	readonly rootEid: Entity;
+	readonly styles: Map<Entity, LayoutStyle>;
+	readonly intrinsic: Map<Entity, ResolvedDimensions>;
+	readonly minContentWidths: Map<Entity, number>;
+	// Heights measured at a given width, keyed by "eid:width"
+	readonly heights: Map<string, number>;
+	readonly layouts: Map<number, RenderLayout>;
+	// Overlay boxes met while measuring; they size to the frame, not their
+	// parent
+	readonly overlays: Set<Entity>;
+};
+
+const getLayoutStyle = (pass: LayoutPass, eid: Entity): LayoutStyle => {
+	const cached = pass.styles.get(eid);
+	if (cached) return cached;
+
+	const style =
+		eid === pass.rootEid
+			? ROOT_LAYOUT_STYLE
+			: readLayoutComponents(pass.world, eid);
+
+	pass.styles.set(eid, style);
+	return style;
+};
+
+const isInFlow = (style: LayoutStyle): boolean =>
+	!style.hidden && !style.absolute && !style.overlay;
+
+// ---------------------------------------------------------------------------
+// Measure pass (bottom-up): intrinsic border-box size of each node
+// ---------------------------------------------------------------------------
+
+// Scroll containers keep a column for the vertical scrollbar and a row for
+// the horizontal one, whether or not the content overflows
+const getScrollbarGutter = (style: LayoutStyle): ResolvedDimensions => ({
+	width: style.scrollY ? 1 : 0,
+	height: style.scrollX ? 1 : 0,
+});
+
+// Size of the in-flow children laid end to end, without padding or border
+const measureContent = (
+	pass: LayoutPass,
+	eid: Entity,
+	style: LayoutStyle,
+): ResolvedDimensions => {
+	const isRow = isRowDirection(style.flexDirection);
+	const mainGap = isRow ? style.columnGap : style.rowGap;
+
+	let main = 0;
+	let cross = 0;
+	let count = 0;
+	const gridItems: GridItem[] = [];
+
+	for (const child of getChildren(pass.world, eid)) {
+		const childStyle = getLayoutStyle(pass, child);
+		if (childStyle.overlay && !childStyle.hidden) pass.overlays.add(child);
+		if (!isInFlow(childStyle)) continue;
+
+		if (style.grid) {
+			gridItems.push(buildGridItem(pass, child, childStyle));
+			continue;
+		}
+
+		const childSize = measureNode(pass, child);
+		const margin = childStyle.margin;
+		const width = childSize.width + margin.left + margin.right;
+		const height = childSize.height + margin.top + margin.bottom;
+
+		main += (isRow ? width : height) + (count > 0 ? mainGap : 0);
+		cross = Math.max(cross, isRow ? height : width);
+		count++;
+	}
+
+	if (style.grid) return measureGrid(gridContainerOf(style), gridItems);
+
+	return isRow
+		? { width: main, height: cross }
+		: { width: cross, height: main };
+};
+
+// Caps in cells; a percentage max has no container to resolve against
+// while measuring
+const constrainMeasured = (
+	size: number,
+	min: number | undefined,
+	max: DimensionValue | undefined,
+): number =>
+	constrainFlexSize(size, min ?? 0, typeof max === "number" ? max : undefined);
+
+const measureNode = (pass: LayoutPass, eid: Entity): ResolvedDimensions => {
+	const cached = pass.intrinsic.get(eid);
+	if (cached) return cached;
+
+	const node = getHostNode(pass.world, eid);
+	let size: ResolvedDimensions;
+
+	if (isTextElement(node)) {
+		size = measureText(collectTextContent(pass.world, eid));
+	} else {
+		const style = getLayoutStyle(pass, eid);
+		const inner = measureContent(pass, eid, style);
+		const gutter = getScrollbarGutter(style);
+		const content = computeBorderBoxSize(
+			inner.width + gutter.width,
+			inner.height + gutter.height,
+			style.padding,
+			style.border,
+		);
+
+		const ratioSize = applyAspectRatio(
+			{
+				width:
+					typeof style.width === "number"
+						? style.width
+						: style.width === "min-content"
+							? measureMinContent(pass, eid)
+							: content.width,
+				height:
+					typeof style.height === "number" ? style.height : content.height,
+			},
+			style.aspectRatio,
+			{
+				width: typeof style.width === "number",
+				height: typeof style.height === "number",
+			},
+		);
+
+		size = {
+			width: constrainMeasured(ratioSize.width, style.minWidth, style.maxWidth),
+			height: constrainMeasured(
+				ratioSize.height,
+				style.minHeight,
+				style.maxHeight,
+			),
+		};
+	}
+
+	pass.intrinsic.set(eid, size);
+	return size;
+};
+
+// The narrowest border-box width that fits the content: a text's widest
+// word, a row's children side by side and a column's widest child
+const measureMinContent = (pass: LayoutPass, eid: Entity): number => {
+	const cached = pass.minContentWidths.get(eid);
+	if (cached !== undefined) return cached;
+
+	const node = getHostNode(pass.world, eid);
+	let width: number;
+
+	if (isTextElement(node)) {
+		width = measureMinContentWidth(collectTextContent(pass.world, eid));
+	} else {
+		const style = getLayoutStyle(pass, eid);
+		const isRow = isRowDirection(style.flexDirection);
+
+		let inner = 0;
+		let count = 0;
+		const gridItems: GridItem[] = [];
+		for (const child of getChildren(pass.world, eid)) {
+			const childStyle = getLayoutStyle(pass, child);
+			if (!isInFlow(childStyle)) continue;
+
+			const childWidth =
+				measureMinContent(pass, child) +
+				childStyle.margin.left +
+				childStyle.margin.right;
+			gridItems.push({
+				...buildGridItem(pass, child, childStyle),
+				width: childWidth,
+				minWidth: childWidth,
+			});
+			inner = isRow
+				? inner + childWidth + (count > 0 ? style.columnGap : 0)
+				: Math.max(inner, childWidth);
+			count++;
+		}
+
+		if (style.grid) {
+			inner = measureGrid(gridContainerOf(style), gridItems).width;
+		}
+
+		const content =
+			inner +
+			getScrollbarGutter(style).width +
+			style.padding.left +
+			style.padding.right +
+			style.border.left +
+			style.border.right;
+
+		width = constrainMeasured(
+			typeof style.width === "number" ? style.width : content,
+			style.minWidth,
+			style.maxWidth,
+		);
+	}
+
+	pass.minContentWidths.set(eid, width);
+	return width;
+};
+
+// The height a node takes at a border-box width. Text wraps to the width,
+// so a box narrower than its content is taller than measureNode says.
+const measureHeightAt = (
+	pass: LayoutPass,
+	eid: Entity,
+	width: number,
+): number => {
+	const key = `${eid}:${width}`;
+	const cached = pass.heights.get(key);
+	if (cached !== undefined) return cached;
+
+	const intrinsic = measureNode(pass, eid);
+	const node = getHostNode(pass.world, eid);
+	let height: number;
+
+	if (isTextElement(node)) {
+		// Nothing wraps once the text fits
+		height =
+			width < intrinsic.width && width > 0 && wrapModeOf(node) === "wrap"
+				? wrapText(collectTextContent(pass.world, eid), width).split("\n")
+						.length
+				: intrinsic.height;
+	} else {
+		const style = getLayoutStyle(pass, eid);
+		if (typeof style.height === "number") {
+			height = intrinsic.height;
+		} else if (style.aspectRatio !== undefined) {
+			height = constrainMeasured(
+				Math.round(width / style.aspectRatio),
+				style.minHeight,
+				style.maxHeight,
+			);
+		} else {
+			const gutter = getScrollbarGutter(style);
+			const edges = computeBorderBoxSize(
+				gutter.width,
+				gutter.height,
+				style.padding,
+				style.border,
+			);
+			height = constrainMeasured(
+				measureContentHeight(
+					pass,
+					eid,
+					style,
+					Math.max(0, width - edges.width),
+				) + edges.height,
+				style.minHeight,
+				style.maxHeight,
+			);
+		}
+	}
+
+	pass.heights.set(key, height);
+	return height;
+};
+
+// Rows from the top of the border box to the first line of text: a text's
+// own first line, or that of a box's first in-flow child
+const measureBaseline = (pass: LayoutPass, eid: Entity): number => {
+	if (isTextElement(getHostNode(pass.world, eid))) return 0;
+
+	const style = getLayoutStyle(pass, eid);
+	const edge = style.border.top + style.padding.top;
+	for (const child of getChildren(pass.world, eid)) {
+		const childStyle = getLayoutStyle(pass, child);
+		if (!isInFlow(childStyle)) continue;
+		return edge + childStyle.margin.top + measureBaseline(pass, child);
+	}
+	return edge;
+};
+
+// Nested text inherits the wrap mode of the outermost <Text>
+const wrapModeOf = (node: HostNode | undefined): unknown =>
+	node?.elementType === "blecsdui-text" ? (node.props.wrap ?? "wrap") : "wrap";
+
+// Height of the in-flow children laid out across innerWidth, without
+// padding or border
+const measureContentHeight = (
+	pass: LayoutPass,
+	eid: Entity,
+	style: LayoutStyle,
+	innerWidth: number,
+): number => {
+	if (style.grid) {
+		const items = getChildren(pass.world, eid).map((child) =>
+			buildGridItem(pass, child, getLayoutStyle(pass, child)),
+		);
+		return measureGrid(
+			gridContainerOf(style, innerWidth),
+			items,
+			measureGridItemHeight(pass),
+		).height;
+	}
+
+	const pending: PendingChild[] = [];
+	for (const child of getChildren(pass.world, eid)) {
+		const childStyle = getLayoutStyle(pass, child);
+		if (!isInFlow(childStyle)) continue;
+		pending.push({
+			eid: child,
+			style: childStyle,
+			item: buildFlexItem(
+				pass,
+				child,
+				childStyle,
+				style,
+				innerWidth,
+				undefined,
+			),
+		});
+	}
+
+	const items = pending.map((child) => child.item);
+	if (isRowDirection(style.flexDirection)) {
+		return measureLinesCrossSize(
+			flexContainerOf(style, innerWidth, 0),
+			items,
+			remeasureCrossSize(pass, pending, undefined, new Map()),
+		);
+	}
+
+	// A column of indefinite height does not flex, so its items keep their
+	// base sizes
+	return items.reduce(
+		(sum, item, index) =>
+			sum + item.baseMainSize + (index > 0 ? style.rowGap : 0),
+		0,
+	);
+};
+
+// ---------------------------------------------------------------------------
+// Layout pass (top-down): position children inside a sized box
+// ---------------------------------------------------------------------------
+
+type PendingChild = {
+	readonly eid: Entity;
+	readonly style: LayoutStyle;
+	readonly item: FlexItem;
+};
+
+// Percentages of a height that depends on the content have nothing to
+// resolve against, so they size like auto
+const definite = <T>(
+	value: T,
+	containerSize: number | undefined,
+): T | undefined =>
+	containerSize === undefined &&
+	typeof value === "string" &&
+	value.endsWith("%")
+		? undefined
+		: value;
+
+// innerHeight is undefined while measuring a box whose height comes from
+// its content
+const buildFlexItem = (
+	pass: LayoutPass,
+	eid: Entity,
+	style: LayoutStyle,
+	parent: LayoutStyle,
+	innerWidth: number,
+	innerHeight: number | undefined,
+): FlexItem => {
+	const isRow = isRowDirection(parent.flexDirection);
+	const intrinsic = measureNode(pass, eid);
+
+	const mainMargins = getMainAxisMargins(style.margin, parent.flexDirection);
+	const crossMargins = getCrossAxisMargins(style.margin, parent.flexDirection);
+
+	// An explicit cross size, or one derived through aspectRatio, wins over
+	// stretch
+	const hasCrossSize =
+		(isRow ? style.height : style.width) !== undefined ||
+		style.aspectRatio !== undefined;
+	const stretches =
+		style.alignSelf === "stretch" ||
+		((style.alignSelf ?? "auto") === "auto" && parent.alignItems === "stretch");
+
+	// fit-content fills the space left beside the margins
+	const available = Math.max(
+		0,
+		innerWidth - style.margin.left - style.margin.right,
+	);
+	const resolvedWidth =
+		style.width !== undefined
+			? resolveSize(
+					style.width,
+					style.width === "fit-content" ? available : innerWidth,
+					{
+						minContent: measureMinContent(pass, eid),
+						maxContent: intrinsic.width,
+					},
+				)
+			: intrinsic.width;
+
+	// Across a column an auto width is held to the space available, and the
+	// height is measured at the width the box ends up with
+	const autoColumnWidth = !isRow && !hasCrossSize;
+	const width = autoColumnWidth
+		? Math.min(resolvedWidth, available)
+		: resolvedWidth;
+	const measuredWidth = autoColumnWidth && stretches ? available : width;
+
+	const heightValue = definite(style.height, innerHeight);
+	const contentHeight = measureHeightAt(pass, eid, measuredWidth);
+	const height =
+		heightValue !== undefined
+			? resolveSize(heightValue, innerHeight ?? 0, {
+					minContent: contentHeight,
+					maxContent: contentHeight,
+				})
+			: contentHeight;
+
+	const size = applyAspectRatio({ width, height }, style.aspectRatio, {
+		width: isFixedSize(style.width),
+		height: isFixedSize(heightValue),
+	});
+
+	const minWidth = style.minWidth ?? 0;
+	const minHeight = style.minHeight ?? 0;
+	const maxWidth = resolveConstraint(style.maxWidth, innerWidth);
+	const maxHeight = resolveConstraint(
+		definite(style.maxHeight, innerHeight),
+		innerHeight ?? 0,
+	);
+
+	const minMain = isRow ? minWidth : minHeight;
+	const maxMain = isRow ? maxWidth : maxHeight;
+	const maxCross = isRow ? maxHeight : maxWidth;
+
+	const mainSize = constrainFlexSize(
+		resolveFlexBasis(
+			definite(style.flexBasis, isRow ? innerWidth : innerHeight),
+			isRow ? size.width : size.height,
+			(isRow ? innerWidth : innerHeight) ?? 0,
+		),
+		minMain,
+		maxMain,
+	);
+	const crossSize = constrainFlexSize(
+		isRow ? size.height : size.width,
+		isRow ? minHeight : minWidth,
+		maxCross,
+	);
+
+	const mainMarginSize = mainMargins.before + mainMargins.after;
+	const crossMarginSize = crossMargins.before + crossMargins.after;
+
+	return {
+		eid,
+		baseMainSize: mainSize + mainMarginSize,
+		baseCrossSize: crossSize + crossMarginSize,
+		flexGrow: style.flexGrow,
+		flexShrink: style.flexShrink,
+		hidden: style.hidden,
+		absolute: style.absolute || style.overlay,
+		alignSelf: hasCrossSize && stretches ? "flex-start" : style.alignSelf,
+		minMainSize: minMain > 0 ? minMain + mainMarginSize : undefined,
+		maxMainSize: maxMain === undefined ? undefined : maxMain + mainMarginSize,
+		maxCrossSize:
+			maxCross === undefined ? undefined : maxCross + crossMarginSize,
+		baseline: isRow ? style.margin.top + measureBaseline(pass, eid) : undefined,
+	};
+};
+
+// In a row, measures the height of each item whose height comes from its
+// content again at the width flexing gave it. The heights are also
+// recorded in crossSizes.
+const remeasureCrossSize = (
+	pass: LayoutPass,
+	pending: readonly PendingChild[],
+	innerHeight: number | undefined,
+	crossSizes: Map<Entity, number>,
+): MeasureCrossSize => {
+	const children = new Map(pending.map((child) => [child.eid, child]));
+
+	return (eid, mainSize) => {
+		const child = children.get(eid);
+		if (!child) return 0;
+
+		const { style, item } = child;
+		if (
+			style.aspectRatio !== undefined ||
+			isFixedSize(definite(style.height, innerHeight))
+		) {
+			return item.baseCrossSize;
+		}
+
+		const margin = style.margin;
+		const height = measureHeightAt(
+			pass,
+			eid,
+			Math.max(0, mainSize - margin.left - margin.right),
+		);
+		const crossSize = constrainFlexSize(
+			height + margin.top + margin.bottom,
+			undefined,
+			item.maxCrossSize,
+		);
+		crossSizes.set(eid, crossSize);
+		return crossSize;
+	};
+};
+
+const flexContainerOf = (
+	style: LayoutStyle,
+	mainSize: number,
+	crossSize: number,
+): FlexContainer => ({
+	mainSize,
+	crossSize,
+	flexDirection: style.flexDirection,
+	flexWrap: style.flexWrap,
+	justifyContent: style.justifyContent,
+	alignItems: style.alignItems,
+	alignContent: style.alignContent,
+	gap: 0,
+	columnGap: style.columnGap,
+	rowGap: style.rowGap,
+});
+
+// ---------------------------------------------------------------------------
+// Grid containers
+// ---------------------------------------------------------------------------
+
+// A grid item at its max-content size, margins included
+const buildGridItem = (
+	pass: LayoutPass,
+	eid: Entity,
+	style: LayoutStyle,
+): GridItem => {
+	const size = measureNode(pass, eid);
+	const margin = style.margin;
+	return {
+		eid,
+		column: style.gridColumn,
+		row: style.gridRow,
+		width: size.width + margin.left + margin.right,
+		height: size.height + margin.top + margin.bottom,
+		minWidth: measureMinContent(pass, eid) + margin.left + margin.right,
+		hasWidth: typeof style.width === "number",
+		hasHeight: typeof style.height === "number",
+		hidden: style.hidden,
+		absolute: style.absolute || style.overlay,
+	};
+};
+
+const gridContainerOf = (
+	style: LayoutStyle,
+	width?: number,
+	height?: number,
+): GridContainer => ({
+	width,
+	height,
+	columns: [...style.gridTemplateColumns],
+	rows: [...style.gridTemplateRows],
+	gap: { columnGap: style.columnGap, rowGap: style.rowGap },
+});
+
+// Measures a grid item again at the width of its area
+const measureGridItemHeight =
+	(pass: LayoutPass): MeasureHeight =>
+	(eid, width) => {
+		const margin = getLayoutStyle(pass, eid).margin;
+		return (
+			measureHeightAt(
+				pass,
+				eid,
+				Math.max(0, width - margin.left - margin.right),
+			) +
+			margin.top +
+			margin.bottom
+		);
+	};
+
+// originX/originY place the box within the frame, for overlays and
+// absolute children; containing is, in frame cells, the padding box their
+// offsets resolve against
+const layoutChildren = (
+	pass: LayoutPass,
+	eid: Entity,
+	width: number,
+	height: number,
+	originX: number,
+	originY: number,
+	containing: RenderLayout,
+): void => {
+	if (isTextElement(getHostNode(pass.world, eid))) return;
+
+	const style = getLayoutStyle(pass, eid);
+	const inner = scrollArea(
+		pass,
+		eid,
+		style,
+		computeContentSize(width, height, style.padding, style.border),
+	);
+	const isRow = isRowDirection(style.flexDirection);
+
+	const pending: PendingChild[] = [];
+	for (const child of getChildren(pass.world, eid)) {
+		const childStyle = getLayoutStyle(pass, child);
+		pending.push({
+			eid: child,
+			style: childStyle,
+			item: buildFlexItem(
+				pass,
+				child,
+				childStyle,
+				style,
+				inner.width,
+				inner.height,
+			),
+		});
+	}
+
+	if (pending.length === 0) return;
+
+	const mainSize = isRow ? inner.width : inner.height;
+	const crossSize = isRow ? inner.height : inner.width;
+
+	// Row items are measured again once flexing has settled their widths
+	const crossSizes = new Map<Entity, number>();
+	const childLayouts = style.grid
+		? calculateGridLayout(
+				gridContainerOf(style, inner.width, inner.height),
+				pending.map((child) => buildGridItem(pass, child.eid, child.style)),
+				measureGridItemHeight(pass),
+			)
+		: calculateFlexLayout(
+				flexContainerOf(style, mainSize, crossSize),
+				pending.map((child) => child.item),
+				isRow
+					? remeasureCrossSize(pass, pending, inner.height, crossSizes)
+					: undefined,
+			);
+
+	for (const child of pending) {
+		const computed = childLayouts.get(child.eid);
+		if (!computed) continue;
+
+		if (child.style.overlay) {
+			layoutOverlay(pass, child.eid, originX, originY);
+			continue;
+		}
+
+		const item = {
+			...child.item,
+			baseCrossSize: crossSizes.get(child.eid) ?? child.item.baseCrossSize,
+		};
+		const outer = style.grid
+			? computed
+			: alignSingleLine(computed, item, style, crossSize);
+		const margin = child.style.margin;
+
+		const flowLayout: RenderLayout = {
+			x: outer.x + style.border.left + style.padding.left + margin.left,
+			y: outer.y + style.border.top + style.padding.top + margin.top,
+			width: Math.max(0, outer.width - margin.left - margin.right),
+			height: Math.max(0, outer.height - margin.top - margin.bottom),
+		};
+		const layout = child.style.absolute
+			? placeAbsolute(flowLayout, child.style, containing, originX, originY)
+			: shiftRelative(flowLayout, child.style, inner);
+
+		pass.layouts.set(child.eid, layout);
+		layoutChildren(
+			pass,
+			child.eid,
+			layout.width,
+			layout.height,
+			originX + layout.x,
+			originY + layout.y,
+			child.style.positioned
+				? paddingBox(child.style, layout, originX, originY)
+				: containing,
+		);
+	}
+};
+
+// ---------------------------------------------------------------------------
+// Positioned boxes
+// ---------------------------------------------------------------------------
+
+const resolveOffset = (offset: PositionOffset, size: number): number =>
+	typeof offset === "number"
+		? offset
+		: Math.trunc((Number.parseFloat(offset) / 100) * size);
+
+// The frame cells inside a positioned box's border, which its absolute
+// descendants are placed against
+const paddingBox = (
+	style: LayoutStyle,
+	layout: RenderLayout,
+	parentX: number,
+	parentY: number,
+): RenderLayout => ({
+	x: parentX + layout.x + style.border.left,
+	y: parentY + layout.y + style.border.top,
+	width: Math.max(0, layout.width - style.border.left - style.border.right),
+	height: Math.max(0, layout.height - style.border.top - style.border.bottom),
+});
+
+// Places one axis of an absolute box in the containing block. With both
+// offsets set and no explicit size the box stretches between them; with
+// neither it stays where the flow would have started it.
+const placeOnAxis = (
+	pos: number,
+	size: number,
+	start: PositionOffset | undefined,
+	end: PositionOffset | undefined,
+	hasSize: boolean,
+	blockStart: number,
+	blockSize: number,
+	marginStart: number,
+	marginEnd: number,
+): { readonly pos: number; readonly size: number } => {
+	if (start === undefined && end === undefined) return { pos, size };
+
+	const before =
+		start === undefined ? undefined : resolveOffset(start, blockSize);
+	const after = end === undefined ? undefined : resolveOffset(end, blockSize);
+
+	if (before !== undefined && after !== undefined && !hasSize) {
+		return {
+			pos: blockStart + before + marginStart,
+			size: Math.max(0, blockSize - before - after - marginStart - marginEnd),
+		};
+	}
+	if (before !== undefined) {
+		return { pos: blockStart + before + marginStart, size };
+	}
+	return {
+		pos: blockStart + blockSize - (after ?? 0) - marginEnd - size,
+		size,
+	};
+};
+
+// Layouts stay relative to the parent, so the containing block (in frame
+// cells) is moved by the parent's position
+const placeAbsolute = (
+	layout: RenderLayout,
+	style: LayoutStyle,
+	containing: RenderLayout,
+	parentX: number,
+	parentY: number,
+): RenderLayout => {
+	const horizontal = placeOnAxis(
+		layout.x,
+		layout.width,
+		style.left,
+		style.right,
+		style.width !== undefined,
+		containing.x - parentX,
+		containing.width,
+		style.margin.left,
+		style.margin.right,
+	);
+	const vertical = placeOnAxis(
+		layout.y,
+		layout.height,
+		style.top,
+		style.bottom,
+		style.height !== undefined,
+		containing.y - parentY,
+		containing.height,
+		style.margin.top,
+		style.margin.bottom,
+	);
+
+	return {
+		x: horizontal.pos,
+		y: vertical.pos,
+		width: horizontal.size,
+		height: vertical.size,
+	};
+};
+
+// A relative box keeps its place in the flow and is drawn shifted from it;
+// left wins over right and top over bottom
+const shiftRelative = (
+	layout: RenderLayout,
+	style: LayoutStyle,
+	inner: ResolvedDimensions,
+): RenderLayout => {
+	if (!style.positioned) return layout;
+
+	const dx =
+		style.left !== undefined
+			? resolveOffset(style.left, inner.width)
+			: style.right !== undefined
+				? -resolveOffset(style.right, inner.width)
+				: 0;
+	const dy =
+		style.top !== undefined
+			? resolveOffset(style.top, inner.height)
+			: style.bottom !== undefined
+				? -resolveOffset(style.bottom, inner.height)
+				: 0;
+
+	return dx === 0 && dy === 0
+		? layout
+		: { ...layout, x: layout.x + dx, y: layout.y + dy };
+};
+
+// The space children are laid out in. A scrolling axis is as long as the
+// content needs, less the scrollbar gutter, so children never shrink to fit.
+const scrollArea = (
+	pass: LayoutPass,
+	eid: Entity,
+	style: LayoutStyle,
+	inner: ResolvedDimensions,
+): ResolvedDimensions => {
+	if (!style.scrollX && !style.scrollY) return inner;
+
+	const gutter = getScrollbarGutter(style);
+	const view = {
+		width: Math.max(0, inner.width - gutter.width),
+		height: Math.max(0, inner.height - gutter.height),
+	};
+	const content = measureContent(pass, eid, style);
+	const width = style.scrollX
+		? Math.max(view.width, content.width)
+		: view.width;
+
+	return {
+		width,
+		height: style.scrollY
+			? Math.max(view.height, measureContentHeight(pass, eid, style, width))
+			: view.height,
+	};
+};
+
+// An overlay covers the frame wherever it sits in the tree, so its layout
+// cancels out its parent's position
+const layoutOverlay = (
+	pass: LayoutPass,
+	eid: Entity,
+	parentX: number,
+	parentY: number,
+): void => {
+	const frame = pass.layouts.get(pass.rootEid);
+	if (!frame) return;
+
+	pass.layouts.set(eid, {
+		x: -parentX,
+		y: -parentY,
+		width: frame.width,
+		height: frame.height,
+	});
+	layoutChildren(pass, eid, frame.width, frame.height, 0, 0, {
+		x: 0,
+		y: 0,
+		width: frame.width,
+		height: frame.height,
+	});
+};
+
+// A single-line container's line spans its whole cross size, so align
+// in-flow items against the container instead of the tallest sibling.
+const alignSingleLine = (
+	computed: ChildLayout,
+	item: FlexItem,
+	parent: LayoutStyle,
+	crossSize: number,
+): ChildLayout => {
+	if (parent.flexWrap !== "nowrap" || item.absolute) return computed;
+	// Baseline-aligned items already sit against the line's start
+	const align = item.alignSelf ?? "auto";
+	if ((align === "auto" ? parent.alignItems : align) === "baseline") {
+		return computed;
+	}
+
+	const isRow = isRowDirection(parent.flexDirection);
+	const cross = positionItemOnCrossAxis(
+		{
+			eid: item.eid,
+			mainSize: isRow ? computed.width : computed.height,
+			crossSize: item.baseCrossSize,
+			alignSelf: item.alignSelf,
+			maxCrossSize: item.maxCrossSize,
+		},
+		crossSize,
+		parent.alignItems,
+	);
+
+	const pos = Math.floor(cross.pos);
+	const size = Math.floor(cross.size);
+
+	return isRow
+		? { ...computed, y: pos, height: size }
+		: { ...computed, x: pos, width: size };
+};
+
+// ---------------------------------------------------------------------------
+// Computed sizes
+// ---------------------------------------------------------------------------
+
+// Mirrors each box's computed size onto its Dimensions so measureElement
+// reports what was laid out rather than the width/height props. The root
+// keeps the terminal size.
+const syncDimensions = (pass: LayoutPass): void => {
+	for (const [eid, layout] of pass.layouts) {
+		if (eid === pass.rootEid) continue;
+		if (!hasComponent(pass.world, eid, Dimensions)) continue;
+		setDimensions(pass.world, eid, layout.width, layout.height);
+	}
+};
+
+// Without a fixed height the frame grows to fit its content and any overlay,
+// so a dialog over a short app is not cut off
+const measureFrameHeight = (pass: LayoutPass, width: number): number => {
+	let height = measureHeightAt(pass, pass.rootEid, width);
+	// Measuring an overlay may find more nested inside it, which the loop
+	// then visits too
+	for (const overlay of pass.overlays) {
+		height = Math.max(height, measureHeightAt(pass, overlay, width));
+	}
+	return height;
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const computeLayout = (
+	container: Container,
+	width: number,
+	height?: number,
+): NodeLayoutMap => {
+	const pass: LayoutPass = {
+		world: container.world,
+		rootEid: container.rootEid,
+		styles: new Map(),
+		intrinsic: new Map(),
+		minContentWidths: new Map(),
+		heights: new Map(),
+		layouts: new Map(),
+		overlays: new Set(),
+	};
+
+	const rootHeight = height ?? measureFrameHeight(pass, width);
+
+	const frame: RenderLayout = { x: 0, y: 0, width, height: rootHeight };
+	pass.layouts.set(container.rootEid, frame);
+	layoutChildren(pass, container.rootEid, width, rootHeight, 0, 0, frame);
+	syncDimensions(pass);
+
+	return pass.layouts;
+};
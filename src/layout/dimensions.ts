@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { type IntrinsicSize, IntrinsicSizeSchema } from "../styles";
 
 // ---------------------------------------------------------------------------
 // Zod schemas
@@ -12,11 +13,21 @@ export const DimensionValueSchema = z.union([
 
 export type DimensionValue = z.infer<typeof DimensionValueSchema>;
 
+// A width or height, which may also size to the content
+export const SizeValueSchema = z.union([
+	DimensionValueSchema,
+	IntrinsicSizeSchema,
+]);
+
+export type SizeValue = z.infer<typeof SizeValueSchema>;
+
 export const DimensionConstraintsSchema = z.object({
 	minWidth: z.number().min(0).optional(),
 	minHeight: z.number().min(0).optional(),
 	maxWidth: z.number().min(0).optional(),
 	maxHeight: z.number().min(0).optional(),
+	// Width over height
+	aspectRatio: z.number().positive().optional(),
 });
 
 export type DimensionConstraints = z.infer<typeof DimensionConstraintsSchema>;
@@ -37,6 +48,15 @@ export const ResolvedDimensionsSchema = z.object({
 
 export type ResolvedDimensions = z.infer<typeof ResolvedDimensionsSchema>;
 
+// How narrow the content can go without overflowing, and how wide it is
+// laid out without wrapping
+export const ContentSizesSchema = z.object({
+	minContent: z.number().min(0),
+	maxContent: z.number().min(0),
+});
+
+export type ContentSizes = z.infer<typeof ContentSizesSchema>;
+
 // ---------------------------------------------------------------------------
 // Percentage resolution
 // ---------------------------------------------------------------------------
@@ -67,6 +87,60 @@ export const resolveDimension = (
 	return resolvePercentage(value, containerSize);
 };
 
+// ---------------------------------------------------------------------------
+// Content-based sizes
+// ---------------------------------------------------------------------------
+
+export const isIntrinsicSize = (value: unknown): value is IntrinsicSize =>
+	IntrinsicSizeSchema.safeParse(value).success;
+
+// Like resolveDimension, with the content keywords; "auto" takes the
+// max-content size, and fit-content fills containerSize within the content's
+// bounds
+export const resolveSize = (
+	value: SizeValue,
+	containerSize: number,
+	content: ContentSizes,
+): number => {
+	switch (value) {
+		case "min-content":
+			return content.minContent;
+		case "max-content":
+			return content.maxContent;
+		case "fit-content":
+			return constrainFlexSize(
+				containerSize,
+				content.minContent,
+				content.maxContent,
+			);
+		default:
+			return resolveDimension(value, containerSize, content.maxContent);
+	}
+};
+
+// A min or max constraint in cells, or undefined when there is none
+export const resolveConstraint = (
+	value: DimensionValue | undefined,
+	containerSize: number,
+): number | undefined =>
+	value === undefined || value === "auto"
+		? undefined
+		: resolveDimension(value, containerSize, 0);
+
+// Derives the side that is not fixed from the one that is. With neither
+// fixed the height follows the width.
+export const applyAspectRatio = (
+	size: ResolvedDimensions,
+	aspectRatio: number | undefined,
+	fixed: { readonly width: boolean; readonly height: boolean },
+): ResolvedDimensions => {
+	if (aspectRatio === undefined || (fixed.width && fixed.height)) return size;
+	if (fixed.height && !fixed.width) {
+		return { ...size, width: Math.round(size.height * aspectRatio) };
+	}
+	return { ...size, height: Math.round(size.width / aspectRatio) };
+};
+
 // ---------------------------------------------------------------------------
 // Apply min/max constraints
 // ---------------------------------------------------------------------------
@@ -195,9 +269,11 @@ export const constrainFlexSize = (
 // Full dimension resolution for a single element
 // ---------------------------------------------------------------------------
 
+// contentWidth and contentHeight are the content's max-content size;
+// minContentWidth, for width "min-content" and "fit-content", defaults to it
 export const resolveElementDimensions = (
-	width: DimensionValue | undefined,
-	height: DimensionValue | undefined,
+	width: SizeValue | undefined,
+	height: SizeValue | undefined,
 	containerWidth: number,
 	containerHeight: number,
 	contentWidth: number,
@@ -205,6 +281,7 @@ export const resolveElementDimensions = (
 	constraints: DimensionConstraints,
 	padding: BoxEdges,
 	border: BoxEdges,
+	minContentWidth = contentWidth,
 ): ResolvedDimensions => {
 	DimensionConstraintsSchema.parse(constraints);
 	const validPadding = BoxEdgesSchema.parse(padding);
@@ -212,16 +289,32 @@ export const resolveElementDimensions = (
 
 	const resolvedWidth =
 		width !== undefined
-			? resolveDimension(width, containerWidth, contentWidth)
+			? resolveSize(width, containerWidth, {
+					minContent: minContentWidth,
+					maxContent: contentWidth,
+				})
 			: contentWidth;
 
 	const resolvedHeight =
 		height !== undefined
-			? resolveDimension(height, containerHeight, contentHeight)
+			? resolveSize(height, containerHeight, {
+					minContent: contentHeight,
+					maxContent: contentHeight,
+				})
 			: contentHeight;
 
-	const constrainedWidth = applyConstraints(resolvedWidth, constraints);
-	const constrainedHeight = applyHeightConstraints(resolvedHeight, constraints);
+	// A ratio derives a side only from one given in cells or percent
+	const ratioSize = applyAspectRatio(
+		{ width: resolvedWidth, height: resolvedHeight },
+		constraints.aspectRatio,
+		{ width: isFixedSize(width), height: isFixedSize(height) },
+	);
+
+	const constrainedWidth = applyConstraints(ratioSize.width, constraints);
+	const constrainedHeight = applyHeightConstraints(
+		ratioSize.height,
+		constraints,
+	);
 
 	return computeBorderBoxSize(
 		constrainedWidth,
@@ -231,6 +324,10 @@ export const resolveElementDimensions = (
 	);
 };
 
+// Whether a size is set in cells or percent rather than from the content
+export const isFixedSize = (value: SizeValue | undefined): boolean =>
+	value !== undefined && value !== "auto" && !isIntrinsicSize(value);
+
 // ---------------------------------------------------------------------------
 // Zero edges constant
 // ---------------------------------------------------------------------------
@@ -1,5 +1,7 @@
 import { z } from "zod";
 import {
+	AlignContentSchema,
+	type AlignContent as AlignContentType,
 	AlignItemsSchema,
 	type AlignItems as AlignItemsType,
 	AlignSelfSchema,
@@ -11,6 +13,7 @@ import {
 	JustifyContentSchema,
 	type JustifyContent as JustifyContentType,
 } from "../styles";
+import { constrainFlexSize } from "./dimensions";
 
 // ---------------------------------------------------------------------------
 // Public Zod schemas
@@ -25,6 +28,14 @@ export const FlexItemSchema = z.object({
 	hidden: z.boolean(),
 	absolute: z.boolean(),
 	alignSelf: AlignSelfSchema.optional(),
+	// Limits on the flexed main size and the stretched cross size, margins
+	// included like the base sizes
+	minMainSize: z.number().min(0).optional(),
+	maxMainSize: z.number().min(0).optional(),
+	maxCrossSize: z.number().min(0).optional(),
+	// Cells from the item's cross start, margin included, to its first line
+	// of text, for baseline alignment
+	baseline: z.number().min(0).optional(),
 });
 
 export type FlexItem = z.infer<typeof FlexItemSchema>;
@@ -36,6 +47,9 @@ export const FlexContainerSchema = z.object({
 	flexWrap: FlexWrapSchema,
 	justifyContent: JustifyContentSchema,
 	alignItems: AlignItemsSchema,
+	// Only wrapping containers have lines to distribute; defaults to
+	// flex-start
+	alignContent: AlignContentSchema.optional(),
 	gap: z.number().min(0),
 	columnGap: z.number().min(0).optional(),
 	rowGap: z.number().min(0).optional(),
@@ -52,6 +66,11 @@ export const ChildLayoutSchema = z.object({
 
 export type ChildLayout = z.infer<typeof ChildLayoutSchema>;
 
+// Called with an item's resolved main size, margins included, to measure
+// its cross size again: text wrapped to a narrower width takes more lines.
+// Returns the new cross size with margins.
+export type MeasureCrossSize = (eid: number, mainSize: number) => number;
+
 // ---------------------------------------------------------------------------
 // Internal types
 // ---------------------------------------------------------------------------
@@ -61,6 +80,8 @@ interface ResolvedItem {
 	readonly mainSize: number;
 	readonly crossSize: number;
 	readonly alignSelf: AlignSelfType | undefined;
+	readonly maxCrossSize?: number;
+	readonly baseline?: number;
 }
 
 interface PositionedItem extends ResolvedItem {
@@ -131,6 +152,12 @@ export const createFlexLines = (
 // Step 2: Resolve flex grow/shrink for a line
 // ---------------------------------------------------------------------------
 
+const clampMainSize = (item: FlexItem, size: number): number =>
+	constrainFlexSize(size, item.minMainSize ?? 0, item.maxMainSize);
+
+// Grows or shrinks the items to fill the line. An item stopped by its
+// min or max size is frozen there and the rest share what is left, until
+// no item is past a limit.
 export const resolveFlexSizes = (
 	lineItems: readonly FlexItem[],
 	mainSize: number,
@@ -141,46 +168,66 @@ export const resolveFlexSizes = (
 		(sum, item) => sum + item.baseMainSize,
 		0,
 	);
-	const remaining = mainSize - totalBaseSize - totalGaps;
-
-	if (remaining > 0) {
-		const totalGrow = lineItems.reduce((sum, item) => sum + item.flexGrow, 0);
-		return lineItems.map((item) => ({
-			eid: item.eid,
-			mainSize:
-				totalGrow > 0
-					? item.baseMainSize + (item.flexGrow / totalGrow) * remaining
-					: item.baseMainSize,
-			crossSize: item.baseCrossSize,
-			alignSelf: item.alignSelf,
-		}));
-	}
+	const isGrowing = mainSize - totalBaseSize - totalGaps > 0;
+
+	const sizes = lineItems.map((item) => clampMainSize(item, item.baseMainSize));
+	const frozen = lineItems.map(() => false);
+
+	for (let pass = 0; pass < lineItems.length; pass++) {
+		let used = totalGaps;
+		let totalFactor = 0;
+		for (let i = 0; i < lineItems.length; i++) {
+			const item = lineItems[i];
+			used += frozen[i] ? sizes[i] : item.baseMainSize;
+			if (!frozen[i]) {
+				totalFactor += isGrowing
+					? item.flexGrow
+					: item.flexShrink * item.baseMainSize;
+			}
+		}
 
-	if (remaining < 0) {
-		const totalShrink = lineItems.reduce(
-			(sum, item) => sum + item.flexShrink * item.baseMainSize,
-			0,
-		);
-		return lineItems.map((item) => {
-			const shrinkAmount =
-				totalShrink > 0
-					? ((item.flexShrink * item.baseMainSize) / totalShrink) *
-						Math.abs(remaining)
-					: 0;
-			return {
-				eid: item.eid,
-				mainSize: Math.max(0, item.baseMainSize - shrinkAmount),
-				crossSize: item.baseCrossSize,
-				alignSelf: item.alignSelf,
-			};
-		});
+		const remaining = mainSize - used;
+		if (totalFactor === 0 || remaining === 0) {
+			for (let i = 0; i < lineItems.length; i++) {
+				if (!frozen[i]) {
+					sizes[i] = clampMainSize(lineItems[i], lineItems[i].baseMainSize);
+				}
+			}
+			break;
+		}
+
+		// Positive when items were held up by a min size, negative when
+		// held back by a max size
+		let violation = 0;
+		const targets: number[] = [];
+		for (let i = 0; i < lineItems.length; i++) {
+			if (frozen[i]) continue;
+			const item = lineItems[i];
+			const factor = isGrowing
+				? item.flexGrow
+				: item.flexShrink * item.baseMainSize;
+			const share = isGrowing ? Math.max(0, remaining) : Math.min(0, remaining);
+			targets[i] = item.baseMainSize + (factor / totalFactor) * share;
+			sizes[i] = clampMainSize(item, targets[i]);
+			violation += sizes[i] - targets[i];
+		}
+
+		if (violation === 0) break;
+		for (let i = 0; i < lineItems.length; i++) {
+			if (frozen[i]) continue;
+			if (violation > 0 ? sizes[i] > targets[i] : sizes[i] < targets[i]) {
+				frozen[i] = true;
+			}
+		}
 	}
 
-	return lineItems.map((item) => ({
+	return lineItems.map((item, i) => ({
 		eid: item.eid,
-		mainSize: item.baseMainSize,
+		mainSize: sizes[i],
 		crossSize: item.baseCrossSize,
 		alignSelf: item.alignSelf,
+		maxCrossSize: item.maxCrossSize,
+		baseline: item.baseline,
 	}));
 };
 
@@ -249,29 +296,114 @@ export const positionOnMainAxis = (
 // Step 4: Calculate line cross size
 // ---------------------------------------------------------------------------
 
+const alignOf = (
+	item: ResolvedItem,
+	alignItems: AlignItemsType,
+): AlignItemsType =>
+	item.alignSelf === undefined || item.alignSelf === "auto"
+		? alignItems
+		: item.alignSelf;
+
+// The deepest baseline among the line's baseline-aligned items; they are
+// shifted down to meet it
+export const calculateLineBaseline = (
+	lineItems: readonly ResolvedItem[],
+	alignItems: AlignItemsType,
+): number =>
+	Math.max(
+		0,
+		...lineItems
+			.filter((item) => alignOf(item, alignItems) === "baseline")
+			.map((item) => item.baseline ?? 0),
+	);
+
 export const calculateLineCrossSize = (
 	lineItems: readonly ResolvedItem[],
+	alignItems: AlignItemsType = "flex-start",
 ): number => {
 	if (lineItems.length === 0) return 0;
-	return Math.max(...lineItems.map((item) => item.crossSize));
+	const baseline = calculateLineBaseline(lineItems, alignItems);
+	return Math.max(
+		...lineItems.map((item) =>
+			alignOf(item, alignItems) === "baseline"
+				? baseline - (item.baseline ?? 0) + item.crossSize
+				: item.crossSize,
+		),
+	);
 };
 
 // ---------------------------------------------------------------------------
 // Step 5: Position lines on cross axis
 // ---------------------------------------------------------------------------
 
+// Splits the free cross space evenly between the lines, the first lines
+// taking any cells left over from rounding down
+const stretchLines = (
+	lineCrossSizes: readonly number[],
+	crossSize: number,
+	crossGap: number,
+): number[] => {
+	const count = lineCrossSizes.length;
+	const used =
+		lineCrossSizes.reduce((sum, size) => sum + size, 0) +
+		Math.max(0, count - 1) * crossGap;
+	const freeSpace = Math.max(0, Math.floor(crossSize - used));
+	const share = Math.floor(freeSpace / count);
+	const extra = freeSpace - share * count;
+
+	return lineCrossSizes.map((size, i) => size + share + (i < extra ? 1 : 0));
+};
+
 export const positionLinesOnCrossAxis = (
 	lineCrossSizes: readonly number[],
 	crossSize: number,
 	crossGap: number,
 	wrap: FlexWrapType,
+	alignContent: AlignContentType = "flex-start",
 ): number[] => {
+	const count = lineCrossSizes.length;
+	if (count === 0) return [];
+
+	const totalLineSize = lineCrossSizes.reduce((sum, size) => sum + size, 0);
+	const totalGaps = (count - 1) * crossGap;
+	const freeSpace = Math.max(0, crossSize - totalLineSize - totalGaps);
+
+	let offset = 0;
+	let gap = crossGap;
+
+	switch (alignContent) {
+		case "flex-start":
+		case "stretch":
+			break;
+		case "flex-end":
+			offset = freeSpace;
+			break;
+		case "center":
+			offset = freeSpace / 2;
+			break;
+		case "space-between":
+			gap = count > 1 ? crossGap + freeSpace / (count - 1) : crossGap;
+			break;
+		case "space-around": {
+			const lineSpace = freeSpace / count;
+			offset = lineSpace / 2;
+			gap = crossGap + lineSpace;
+			break;
+		}
+		case "space-evenly": {
+			const evenSpace = freeSpace / (count + 1);
+			offset = evenSpace;
+			gap = crossGap + evenSpace;
+			break;
+		}
+	}
+
 	const offsets: number[] = [];
-	let pos = 0;
+	let pos = offset;
 
-	for (let i = 0; i < lineCrossSizes.length; i++) {
+	for (let i = 0; i < count; i++) {
 		offsets.push(pos);
-		pos += lineCrossSizes[i] + crossGap;
+		pos += lineCrossSizes[i] + gap;
 	}
 
 	if (wrap === "wrap-reverse") {
@@ -289,13 +421,9 @@ export const positionItemOnCrossAxis = (
 	item: ResolvedItem,
 	lineCrossSize: number,
 	alignItems: AlignItemsType,
+	lineBaseline = 0,
 ): { readonly pos: number; readonly size: number } => {
-	const align: AlignItemsType =
-		item.alignSelf === undefined || item.alignSelf === "auto"
-			? alignItems
-			: (item.alignSelf as AlignItemsType);
-
-	switch (align) {
+	switch (alignOf(item, alignItems)) {
 		case "flex-start":
 			return { pos: 0, size: item.crossSize };
 		case "flex-end":
@@ -309,10 +437,76 @@ export const positionItemOnCrossAxis = (
 				size: item.crossSize,
 			};
 		case "stretch":
-			return { pos: 0, size: lineCrossSize };
+			return {
+				pos: 0,
+				size: constrainFlexSize(lineCrossSize, undefined, item.maxCrossSize),
+			};
+		case "baseline":
+			return {
+				pos: lineBaseline - (item.baseline ?? 0),
+				size: item.crossSize,
+			};
 	}
 };
 
+// ---------------------------------------------------------------------------
+// Lines with resolved sizes (steps 1 and 2, then re-measuring)
+// ---------------------------------------------------------------------------
+
+const resolveLines = (
+	container: FlexContainer,
+	flowItems: readonly FlexItem[],
+	measureCrossSize: MeasureCrossSize | undefined,
+): ResolvedItem[][] => {
+	const mainGap = getMainGap(container);
+	const isRow = isRowDirection(container.flexDirection);
+	const lines = createFlexLines(
+		flowItems,
+		container.mainSize,
+		mainGap,
+		container.flexWrap,
+	);
+
+	return lines.map((line) =>
+		resolveFlexSizes(line, container.mainSize, mainGap).map((item) => ({
+			...item,
+			crossSize: measureCrossSize
+				? measureCrossSize(item.eid, item.mainSize)
+				: item.crossSize,
+			// Text only shares a baseline across a row; in a column baseline
+			// alignment falls back to flex-start
+			baseline: isRow ? item.baseline : undefined,
+		})),
+	);
+};
+
+/**
+ * The cross size the container's lines take together, for sizing it to
+ * its content along the cross axis.
+ */
+export const measureLinesCrossSize = (
+	container: FlexContainer,
+	items: readonly FlexItem[],
+	measureCrossSize?: MeasureCrossSize,
+): number => {
+	const validContainer = FlexContainerSchema.parse(container);
+	const flowItems = items
+		.map((item) => FlexItemSchema.parse(item))
+		.filter((item) => !item.hidden && !item.absolute);
+
+	const lineCrossSizes = resolveLines(
+		validContainer,
+		flowItems,
+		measureCrossSize,
+	).map((line) => calculateLineCrossSize(line, validContainer.alignItems));
+	if (lineCrossSizes.length === 0) return 0;
+
+	return (
+		lineCrossSizes.reduce((sum, size) => sum + size, 0) +
+		(lineCrossSizes.length - 1) * getCrossGap(validContainer)
+	);
+};
+
 // ---------------------------------------------------------------------------
 // Main: calculateFlexLayout
 // ---------------------------------------------------------------------------
@@ -320,6 +514,7 @@ export const positionItemOnCrossAxis = (
 export const calculateFlexLayout = (
 	container: FlexContainer,
 	items: readonly FlexItem[],
+	measureCrossSize?: MeasureCrossSize,
 ): ReadonlyMap<number, ChildLayout> => {
 	const validContainer = FlexContainerSchema.parse(container);
 	const validItems = items.map((item) => FlexItemSchema.parse(item));
@@ -337,15 +532,10 @@ export const calculateFlexLayout = (
 	const mainGap = getMainGap(validContainer);
 	const crossGap = getCrossGap(validContainer);
 
-	const lines = createFlexLines(
+	const resolvedLines = resolveLines(
+		validContainer,
 		flowItems,
-		validContainer.mainSize,
-		mainGap,
-		validContainer.flexWrap,
-	);
-
-	const resolvedLines = lines.map((line) =>
-		resolveFlexSizes(line, validContainer.mainSize, mainGap),
+		measureCrossSize,
 	);
 
 	const positionedLines = resolvedLines.map((line) =>
@@ -357,27 +547,40 @@ export const calculateFlexLayout = (
 		),
 	);
 
-	const lineCrossSizes = resolvedLines.map((line) =>
-		calculateLineCrossSize(line),
+	const { alignItems } = validContainer;
+	const alignContent =
+		validContainer.flexWrap === "nowrap"
+			? "flex-start"
+			: (validContainer.alignContent ?? "flex-start");
+
+	const contentSizes = resolvedLines.map((line) =>
+		calculateLineCrossSize(line, alignItems),
 	);
+	const lineCrossSizes =
+		alignContent === "stretch"
+			? stretchLines(contentSizes, validContainer.crossSize, crossGap)
+			: contentSizes;
 
 	const lineOffsets = positionLinesOnCrossAxis(
 		lineCrossSizes,
 		validContainer.crossSize,
 		crossGap,
 		validContainer.flexWrap,
+		alignContent,
 	);
 
 	for (let i = 0; i < positionedLines.length; i++) {
 		const line = positionedLines[i];
 		const lineCrossSize = lineCrossSizes[i];
 		const lineOffset = lineOffsets[i];
+		const lineBaseline = calculateLineBaseline(line, alignItems);
 
 		for (const item of line) {
 			const cross = positionItemOnCrossAxis(
 				item,
 				lineCrossSize,
-				validContainer.alignItems,
+				alignItems,
+				lineBaseline,
 			);
 
 			let mainPos = item.mainPos;
@@ -0,0 +1,577 @@
+import { z } from "zod";
+import type { GridPlacementValue, GridTemplate } from "../styles";
+import type { ChildLayout } from "./flex";
+import { ResolvedGapSchema, totalMainGapSpace } from "./gap";
+
+// ---------------------------------------------------------------------------
+// Public Zod schemas
+// ---------------------------------------------------------------------------
+
+export const GridTrackSchema = z.discriminatedUnion("kind", [
+	z.object({ kind: z.literal("fixed"), size: z.number().int().min(0) }),
+	z.object({ kind: z.literal("fr"), fr: z.number().min(0) }),
+	z.object({ kind: z.literal("auto") }),
+]);
+
+export type GridTrack = z.infer<typeof GridTrackSchema>;
+
+// Tracks an item covers on one axis; start is the 1-based line, or
+// undefined to auto-place the item
+export const GridSpanSchema = z.object({
+	start: z.number().int().min(1).optional(),
+	span: z.number().int().min(1),
+});
+
+export type GridSpan = z.infer<typeof GridSpanSchema>;
+
+export const GridItemSchema = z.object({
+	eid: z.number().int().min(0),
+	column: GridSpanSchema,
+	row: GridSpanSchema,
+	// Content size, margins included
+	width: z.number().min(0),
+	height: z.number().min(0),
+	// Narrowest width the content wraps to; fr columns shrink down to it
+	minWidth: z.number().min(0),
+	// An item with its own width or height keeps it rather than stretching
+	// across its area
+	hasWidth: z.boolean(),
+	hasHeight: z.boolean(),
+	hidden: z.boolean(),
+	absolute: z.boolean(),
+});
+
+export type GridItem = z.infer<typeof GridItemSchema>;
+
+export const GridContainerSchema = z.object({
+	// Undefined while the container is sized by its content; fr tracks then
+	// fit the content in proportion to their fractions
+	width: z.number().min(0).optional(),
+	height: z.number().min(0).optional(),
+	columns: z.array(GridTrackSchema),
+	rows: z.array(GridTrackSchema),
+	gap: ResolvedGapSchema,
+});
+
+export type GridContainer = z.infer<typeof GridContainerSchema>;
+
+// Where an item was placed, in 0-based tracks
+export const GridAreaSchema = z.object({
+	eid: z.number().int().min(0),
+	column: z.number().int().min(0),
+	row: z.number().int().min(0),
+	columnSpan: z.number().int().min(1),
+	rowSpan: z.number().int().min(1),
+});
+
+export type GridArea = z.infer<typeof GridAreaSchema>;
+
+// Called with the width an item gets, margins included, to measure its
+// height at that width. Returns the height with margins.
+export type MeasureHeight = (eid: number, width: number) => number;
+
+// ---------------------------------------------------------------------------
+// Parsing style values
+// ---------------------------------------------------------------------------
+
+const AUTO_TRACK: GridTrack = { kind: "auto" };
+
+const parseTrack = (token: number | string): GridTrack => {
+	if (typeof token === "number") return { kind: "fixed", size: token };
+	if (token === "auto") return AUTO_TRACK;
+	if (token.endsWith("fr")) {
+		return { kind: "fr", fr: Number.parseFloat(token) };
+	}
+	return { kind: "fixed", size: Number.parseInt(token, 10) };
+};
+
+export const parseGridTemplate = (
+	template: GridTemplate | undefined,
+): GridTrack[] => {
+	if (template === undefined) return [];
+	const tokens =
+		typeof template === "string" ? template.trim().split(/\s+/) : template;
+	return tokens.map(parseTrack);
+};
+
+type GridLine =
+	| { readonly line: number; readonly span?: undefined }
+	| { readonly span: number; readonly line?: undefined };
+
+const parseLine = (part: string): GridLine => {
+	const match = part.match(/^span\s+(\d+)$/);
+	if (match) return { span: Math.max(1, Number.parseInt(match[1], 10)) };
+	return { line: Math.max(1, Number.parseInt(part, 10)) };
+};
+
+// Turns "2", "span 2", "1 / 3", "1 / span 2" or "span 2 / 4" into a start
+// line and a span
+export const parseGridPlacement = (
+	value: GridPlacementValue | undefined,
+): GridSpan => {
+	if (value === undefined) return { start: undefined, span: 1 };
+	if (typeof value === "number") return { start: value, span: 1 };
+
+	const [startPart, endPart] = value.split("/").map((part) => part.trim());
+	const start = parseLine(startPart);
+	const end = endPart === undefined ? undefined : parseLine(endPart);
+
+	if (start.line === undefined) {
+		// "span 2 / 4" ends before line 4
+		return end?.line === undefined
+			? { start: undefined, span: start.span }
+			: { start: Math.max(1, end.line - start.span), span: start.span };
+	}
+	if (end === undefined) return { start: start.line, span: 1 };
+	if (end.line === undefined) return { start: start.line, span: end.span };
+	return {
+		start: Math.min(start.line, end.line),
+		span: Math.max(1, Math.abs(end.line - start.line)),
+	};
+};
+
+// ---------------------------------------------------------------------------
+// Step 1: Place items
+// ---------------------------------------------------------------------------
+
+/**
+ * Places each item in the grid. Items with both lines set go where they
+ * say; the rest fill the free cells row by row in order, adding rows as
+ * needed. An item fixed to a column moves down to the next row with room
+ * there; one fixed to a row takes the first free cells in it.
+ */
+export const placeGridItems = (
+	items: readonly GridItem[],
+	columnCount: number,
+): GridArea[] => {
+	const columns = Math.max(
+		1,
+		columnCount,
+		...items.map((item) =>
+			item.column.start === undefined
+				? 0
+				: item.column.start - 1 + item.column.span,
+		),
+	);
+
+	const occupied = new Set<string>();
+	const fits = (area: Omit<GridArea, "eid">): boolean => {
+		if (area.column + area.columnSpan > columns) return false;
+		for (let row = area.row; row < area.row + area.rowSpan; row++) {
+			for (let col = area.column; col < area.column + area.columnSpan; col++) {
+				if (occupied.has(`${row}:${col}`)) return false;
+			}
+		}
+		return true;
+	};
+	const occupy = (area: GridArea): void => {
+		for (let row = area.row; row < area.row + area.rowSpan; row++) {
+			for (let col = area.column; col < area.column + area.columnSpan; col++) {
+				occupied.add(`${row}:${col}`);
+			}
+		}
+	};
+
+	const areas = new Map<number, GridArea>();
+	for (const item of items) {
+		if (item.column.start === undefined || item.row.start === undefined) {
+			continue;
+		}
+		const area = {
+			eid: item.eid,
+			column: item.column.start - 1,
+			row: item.row.start - 1,
+			columnSpan: item.column.span,
+			rowSpan: item.row.span,
+		};
+		occupy(area);
+		areas.set(item.eid, area);
+	}
+
+	let cursorRow = 0;
+	let cursorColumn = 0;
+
+	for (const item of items) {
+		if (areas.has(item.eid)) continue;
+
+		const area = {
+			eid: item.eid,
+			column: 0,
+			row: 0,
+			columnSpan: Math.min(item.column.span, columns),
+			rowSpan: item.row.span,
+		};
+
+		if (item.row.start !== undefined) {
+			area.row = item.row.start - 1;
+			while (area.column + area.columnSpan < columns && !fits(area)) {
+				area.column++;
+			}
+			if (!fits(area)) area.column = 0;
+		} else if (item.column.start !== undefined) {
+			area.column = item.column.start - 1;
+			area.row = area.column < cursorColumn ? cursorRow + 1 : cursorRow;
+			while (!fits(area)) area.row++;
+		} else {
+			area.row = cursorRow;
+			area.column = cursorColumn;
+			while (!fits(area)) {
+				area.column++;
+				if (area.column + area.columnSpan > columns) {
+					area.column = 0;
+					area.row++;
+				}
+			}
+		}
+
+		occupy(area);
+		areas.set(item.eid, area);
+		if (item.row.start === undefined) {
+			cursorRow = area.row;
+			cursorColumn = area.column + area.columnSpan;
+		}
+	}
+
+	return items.map((item) => areas.get(item.eid) as GridArea);
+};
+
+// ---------------------------------------------------------------------------
+// Step 2: Size tracks
+// ---------------------------------------------------------------------------
+
+type TrackContribution = {
+	readonly start: number;
+	readonly span: number;
+	readonly size: number;
+	// Smallest size an fr track may shrink the item to; defaults to size
+	readonly minSize?: number;
+};
+
+// Splits whole cells between tracks by weight, the first tracks taking
+// any cells left over from rounding down
+const distribute = (
+	sizes: number[],
+	tracks: readonly number[],
+	amount: number,
+	weights: readonly number[],
+): void => {
+	const total = weights.reduce((sum, weight) => sum + weight, 0);
+	if (amount <= 0 || total <= 0) return;
+
+	let left = amount;
+	tracks.forEach((track, i) => {
+		const share = Math.floor((amount * weights[i]) / total);
+		sizes[track] += share;
+		left -= share;
+	});
+	for (let i = 0; left > 0; i = (i + 1) % tracks.length) {
+		if (weights[i] > 0) {
+			sizes[tracks[i]]++;
+			left--;
+		}
+	}
+};
+
+// Grows the tracks sized by content until each item fits, narrowest spans
+// first; items across several tracks grow them evenly
+const fitContent = (
+	tracks: readonly GridTrack[],
+	gap: number,
+	contributions: readonly TrackContribution[],
+	sizeOf: (contribution: TrackContribution) => number,
+): number[] => {
+	const sizes = tracks.map((track) =>
+		track.kind === "fixed" ? track.size : 0,
+	);
+	const fitsContent = (index: number): boolean =>
+		tracks[index].kind !== "fixed";
+
+	const bySpan = [...contributions].sort((a, b) => a.span - b.span);
+	for (const contribution of bySpan) {
+		const { start, span } = contribution;
+		const size = sizeOf(contribution);
+		if (span === 1) {
+			if (fitsContent(start)) sizes[start] = Math.max(sizes[start], size);
+			continue;
+		}
+
+		const spanned = sizes.slice(start, start + span);
+		const current =
+			spanned.reduce((sum, track) => sum + track, 0) +
+			totalMainGapSpace(gap, span);
+		const growable = spanned
+			.map((_, i) => start + i)
+			.filter((index) => fitsContent(index));
+		distribute(
+			sizes,
+			growable,
+			size - current,
+			growable.map(() => 1),
+		);
+	}
+	return sizes;
+};
+
+/**
+ * Sizes a grid axis. Fixed tracks keep their size and auto tracks fit the
+ * largest item in them. With the space known, fr tracks share what is left
+ * by their fractions, but never below the minimum size of their content;
+ * with no fr tracks the auto tracks share it instead. Without it, each fr
+ * track fits its content and the others grow to keep their fractions.
+ */
+export const resolveTrackSizes = (
+	tracks: readonly GridTrack[],
+	available: number | undefined,
+	gap: number,
+	contributions: readonly TrackContribution[],
+): number[] => {
+	const sizes = fitContent(tracks, gap, contributions, ({ size }) => size);
+
+	const frTracks = tracks.flatMap((track, index) =>
+		track.kind === "fr" ? [index] : [],
+	);
+	const frOf = (index: number): number => {
+		const track = tracks[index];
+		return track.kind === "fr" ? track.fr : 0;
+	};
+
+	if (available === undefined) {
+		// One fr is as large as the content of any fr track needs
+		const unit = Math.max(
+			0,
+			...frTracks.map((index) =>
+				frOf(index) > 0 ? sizes[index] / frOf(index) : 0,
+			),
+		);
+		for (const index of frTracks) {
+			sizes[index] = Math.max(sizes[index], Math.ceil(unit * frOf(index)));
+		}
+		return sizes;
+	}
+
+	let free =
+		available -
+		sizes.reduce(
+			(sum, size, index) => (tracks[index].kind === "fr" ? sum : sum + size),
+			0,
+		) -
+		totalMainGapSpace(gap, tracks.length);
+
+	if (frTracks.length === 0) {
+		const autoTracks = tracks.flatMap((track, index) =>
+			track.kind === "auto" ? [index] : [],
+		);
+		distribute(
+			sizes,
+			autoTracks,
+			free,
+			autoTracks.map(() => 1),
+		);
+		return sizes;
+	}
+
+	// Tracks whose content needs more than their share keep its size, and
+	// the rest split what remains
+	const minSizes = fitContent(
+		tracks,
+		gap,
+		contributions,
+		({ size, minSize }) => minSize ?? size,
+	);
+	for (const index of frTracks) sizes[index] = minSizes[index];
+
+	let flexible = frTracks;
+	for (;;) {
+		const totalFr = flexible.reduce((sum, index) => sum + frOf(index), 0);
+		const unit = totalFr > 0 ? Math.max(0, free) / totalFr : 0;
+		const rigid = flexible.filter((index) => sizes[index] > unit * frOf(index));
+		if (rigid.length === 0) break;
+		for (const index of rigid) free -= sizes[index];
+		flexible = flexible.filter((index) => !rigid.includes(index));
+	}
+
+	for (const index of flexible) sizes[index] = 0;
+	distribute(sizes, flexible, free, flexible.map(frOf));
+	return sizes;
+};
+
+// ---------------------------------------------------------------------------
+// Resolved grid
+// ---------------------------------------------------------------------------
+
+type ResolvedGrid = {
+	readonly flowItems: readonly GridItem[];
+	readonly areas: readonly GridArea[];
+	readonly columns: readonly number[];
+	readonly rows: readonly number[];
+	readonly heights: readonly number[];
+};
+
+const spanSize = (
+	sizes: readonly number[],
+	start: number,
+	span: number,
+	gap: number,
+): number =>
+	sizes.slice(start, start + span).reduce((sum, size) => sum + size, 0) +
+	totalMainGapSpace(gap, span);
+
+const trackOffsets = (sizes: readonly number[], gap: number): number[] => {
+	const offsets: number[] = [];
+	let pos = 0;
+	for (const size of sizes) {
+		offsets.push(pos);
+		pos += size + gap;
+	}
+	return offsets;
+};
+
+// Pads the template with auto tracks up to count
+const implicitTracks = (
+	template: readonly GridTrack[],
+	count: number,
+): GridTrack[] => [
+	...template,
+	...Array.from(
+		{ length: Math.max(0, count - template.length) },
+		() => AUTO_TRACK,
+	),
+];
+
+// Columns are sized first, so items can be measured at the width of their
+// area before the rows are sized
+const resolveGrid = (
+	container: GridContainer,
+	items: readonly GridItem[],
+	measureHeight: MeasureHeight | undefined,
+): ResolvedGrid => {
+	const flowItems = items.filter((item) => !item.hidden && !item.absolute);
+	const areas = placeGridItems(flowItems, container.columns.length);
+
+	const columnCount = Math.max(
+		1,
+		container.columns.length,
+		...areas.map((area) => area.column + area.columnSpan),
+	);
+	const rowCount = Math.max(
+		container.rows.length,
+		...areas.map((area) => area.row + area.rowSpan),
+	);
+
+	const { columnGap, rowGap } = container.gap;
+	const columns = resolveTrackSizes(
+		implicitTracks(container.columns, columnCount),
+		container.width,
+		columnGap,
+		areas.map((area, i) => ({
+			start: area.column,
+			span: area.columnSpan,
+			size: flowItems[i].width,
+			minSize: Math.min(flowItems[i].minWidth, flowItems[i].width),
+		})),
+	);
+
+	const heights = flowItems.map((item, i) => {
+		if (!measureHeight || item.hasHeight) return item.height;
+		const area = areas[i];
+		return measureHeight(
+			item.eid,
+			item.hasWidth
+				? item.width
+				: spanSize(columns, area.column, area.columnSpan, columnGap),
+		);
+	});
+
+	const rows = resolveTrackSizes(
+		implicitTracks(container.rows, rowCount),
+		container.height,
+		rowGap,
+		areas.map((area, i) => ({
+			start: area.row,
+			span: area.rowSpan,
+			size: heights[i],
+		})),
+	);
+
+	return { flowItems, areas, columns, rows, heights };
+};
+
+// ---------------------------------------------------------------------------
+// Main: measureGrid and calculateGridLayout
+// ---------------------------------------------------------------------------
+
+// The size of the grid's tracks and the gaps between them
+export const measureGrid = (
+	container: GridContainer,
+	items: readonly GridItem[],
+	measureHeight?: MeasureHeight,
+): { readonly width: number; readonly height: number } => {
+	const validContainer = GridContainerSchema.parse(container);
+	const validItems = items.map((item) => GridItemSchema.parse(item));
+	const { columns, rows } = resolveGrid(
+		validContainer,
+		validItems,
+		measureHeight,
+	);
+	const { columnGap, rowGap } = validContainer.gap;
+
+	return {
+		width: spanSize(columns, 0, columns.length, columnGap),
+		height: rows.length === 0 ? 0 : spanSize(rows, 0, rows.length, rowGap),
+	};
+};
+
+/**
+ * Lays items out in the container's grid, each stretched over its area
+ * unless it has its own size. Absolute items keep their size at the
+ * container's origin and hidden items get no layout, as in
+ * calculateFlexLayout.
+ */
+export const calculateGridLayout = (
+	container: GridContainer,
+	items: readonly GridItem[],
+	measureHeight?: MeasureHeight,
+): ReadonlyMap<number, ChildLayout> => {
+	const validContainer = GridContainerSchema.parse(container);
+	const validItems = items.map((item) => GridItemSchema.parse(item));
+	const { flowItems, areas, columns, rows, heights } = resolveGrid(
+		validContainer,
+		validItems,
+		measureHeight,
+	);
+	const { columnGap, rowGap } = validContainer.gap;
+
+	const columnOffsets = trackOffsets(columns, columnGap);
+	const rowOffsets = trackOffsets(rows, rowGap);
+	const result = new Map<number, ChildLayout>();
+
+	flowItems.forEach((item, i) => {
+		const area = areas[i];
+		result.set(item.eid, {
+			x: Math.floor(columnOffsets[area.column]),
+			y: Math.floor(rowOffsets[area.row]),
+			width: Math.floor(
+				item.hasWidth
+					? item.width
+					: spanSize(columns, area.column, area.columnSpan, columnGap),
+			),
+			height: Math.floor(
+				item.hasHeight
+					? heights[i]
+					: spanSize(rows, area.row, area.rowSpan, rowGap),
+			),
+		});
+	});
+
+	for (const item of validItems) {
+		if (item.hidden || !item.absolute) continue;
+		result.set(item.eid, {
+			x: 0,
+			y: 0,
+			width: Math.floor(item.width),
+			height: Math.floor(item.height),
+		});
+	}
+
+	return result;
+};
@@ -73,14 +73,15 @@ export const resolveOverflow = (config: OverflowConfig): ResolvedOverflow => {
 // Check if clipping is needed
 // ---------------------------------------------------------------------------
 
-export const shouldClip = (resolved: ResolvedOverflow): boolean =>
-	resolved.overflowX === "hidden" || resolved.overflowY === "hidden";
-
+// Scroll containers clip too; their content moves inside the clip
 export const shouldClipX = (resolved: ResolvedOverflow): boolean =>
-	resolved.overflowX === "hidden";
+	resolved.overflowX !== "visible";
 
 export const shouldClipY = (resolved: ResolvedOverflow): boolean =>
-	resolved.overflowY === "hidden";
+	resolved.overflowY !== "visible";
+
+export const shouldClip = (resolved: ResolvedOverflow): boolean =>
+	shouldClipX(resolved) || shouldClipY(resolved);
 
 // ---------------------------------------------------------------------------
 // Compute clip region from element bounds (content area inside padding/border)
@@ -116,13 +117,14 @@ export const computeClipRegion = (
 			validPadding.bottom,
 	);
 
+	const clipX = shouldClipX(resolved);
+	const clipY = shouldClipY(resolved);
+
 	return {
-		x: resolved.overflowX === "hidden" ? contentX : -Infinity,
-		y: resolved.overflowY === "hidden" ? contentY : -Infinity,
-		width:
-			resolved.overflowX === "hidden" ? contentWidth : Number.MAX_SAFE_INTEGER,
-		height:
-			resolved.overflowY === "hidden" ? contentHeight : Number.MAX_SAFE_INTEGER,
+		x: clipX ? contentX : -Infinity,
+		y: clipY ? contentY : -Infinity,
+		width: clipX ? contentWidth : Number.MAX_SAFE_INTEGER,
+		height: clipY ? contentHeight : Number.MAX_SAFE_INTEGER,
 	};
 };
 
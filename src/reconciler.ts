@@ -1,6 +1,5 @@
 import {
 	Dimensions,
-	Hierarchy,
 	markDirty,
 	Position,
 	Renderable,
@@ -20,6 +19,7 @@ import {
 import * as Scheduler from "scheduler";
 
 import {
+	addHierarchy,
 	appendChild,
 	type Container,
 	createInstance,
@@ -88,30 +88,19 @@ const reconciler = (createReconciler as any)({
 	insertBefore,
 	insertInContainerBefore: insertBefore,
 
-	prepareUpdate(
-		instance: EcsInstance,
-		type: string,
-		oldProps: Props,
-		newProps: Props,
-	) {
-		return prepareUpdate(instance, type, oldProps, newProps);
-	},
-
+	// React 19 dropped prepareUpdate: the payload is diffed at commit time
 	commitUpdate(
 		instance: EcsInstance,
-		updatePayload: Props | null,
 		type: string,
 		oldProps: Props,
 		newProps: Props,
-		container: Container,
 	): void {
 		hostCommitUpdate(
 			instance,
-			updatePayload,
+			prepareUpdate(instance, type, oldProps, newProps),
 			type,
 			oldProps,
 			newProps,
-			container,
 		);
 	},
 
@@ -119,9 +108,8 @@ const reconciler = (createReconciler as any)({
 		instance: TextInstance,
 		oldText: string,
 		newText: string,
-		container: Container,
 	): void {
-		hostCommitTextUpdate(instance, oldText, newText, container);
+		hostCommitTextUpdate(instance, oldText, newText);
 	},
 
 	resetAfterCommit(container: Container): void {
@@ -205,17 +193,31 @@ export const createContainer = (world: World, rootEid: Entity): Container => {
 	};
 };
 
-export const createRootContainer = (): Container => {
+// Used when no terminal size is known
+const DEFAULT_ROOT_WIDTH = 80;
+const DEFAULT_ROOT_HEIGHT = 24;
+
+export type RootContainerSize = {
+	readonly width?: number;
+	readonly height?: number;
+};
+
+export const createRootContainer = (size?: RootContainerSize): Container => {
 	const world = createWorld();
 	const rootEid = addEntity(world);
 
 	addComponent(world, rootEid, Position);
 	addComponent(world, rootEid, Dimensions);
-	addComponent(world, rootEid, Hierarchy);
+	addHierarchy(world, rootEid);
 	addComponent(world, rootEid, Renderable);
 
 	setPosition(world, rootEid, 0, 0);
-	setDimensions(world, rootEid, 80, 24);
+	setDimensions(
+		world,
+		rootEid,
+		size?.width ?? DEFAULT_ROOT_WIDTH,
+		size?.height ?? DEFAULT_ROOT_HEIGHT,
+	);
 	setVisible(world, rootEid, true);
 	markDirty(world, rootEid);
 
@@ -157,6 +157,83 @@ export const BORDER_STYLES: Readonly<Record<BorderStyleName, BorderCharset>> =
 		}),
 	});
 
+// ---------------------------------------------------------------------------
+// Junctions, where inner separators meet a border or each other
+// ---------------------------------------------------------------------------
+
+export const BorderJunctionsSchema = z.object({
+	// A vertical separator meeting the top edge
+	top: z.string(),
+	bottom: z.string(),
+	// A horizontal separator meeting the left edge
+	left: z.string(),
+	right: z.string(),
+	cross: z.string(),
+});
+
+export type BorderJunctions = z.infer<typeof BorderJunctionsSchema>;
+
+const SINGLE_JUNCTIONS = Object.freeze({
+	top: "\u252c",
+	bottom: "\u2534",
+	left: "\u251c",
+	right: "\u2524",
+	cross: "\u253c",
+});
+
+const HEAVY_JUNCTIONS = Object.freeze({
+	top: "\u2533",
+	bottom: "\u253b",
+	left: "\u2523",
+	right: "\u252b",
+	cross: "\u254b",
+});
+
+const ASCII_JUNCTIONS = Object.freeze({
+	top: "+",
+	bottom: "+",
+	left: "+",
+	right: "+",
+	cross: "+",
+});
+
+export const BORDER_JUNCTIONS: Readonly<
+	Record<BorderStyleName, BorderJunctions>
+> = Object.freeze({
+	single: SINGLE_JUNCTIONS,
+	double: Object.freeze({
+		top: "\u2566",
+		bottom: "\u2569",
+		left: "\u2560",
+		right: "\u2563",
+		cross: "\u256c",
+	}),
+	round: SINGLE_JUNCTIONS,
+	bold: HEAVY_JUNCTIONS,
+	// Single horizontal lines, double vertical lines
+	singleDouble: Object.freeze({
+		top: "\u2565",
+		bottom: "\u2568",
+		left: "\u255f",
+		right: "\u2562",
+		cross: "\u256b",
+	}),
+	// Double horizontal lines, single vertical lines
+	doubleSingle: Object.freeze({
+		top: "\u2564",
+		bottom: "\u2567",
+		left: "\u255e",
+		right: "\u2561",
+		cross: "\u256a",
+	}),
+	classic: ASCII_JUNCTIONS,
+	// Arrows have no junction glyphs; single lines read best between them
+	arrow: SINGLE_JUNCTIONS,
+	heavy: HEAVY_JUNCTIONS,
+	heavyWide: HEAVY_JUNCTIONS,
+	ascii: ASCII_JUNCTIONS,
+});
+
 // ---------------------------------------------------------------------------
 // Border config schema
 // ---------------------------------------------------------------------------
@@ -243,6 +320,14 @@ export const resolveBorderCharset = (
 	return BorderCharsetSchema.parse(style);
 };
 
+// Junctions for a named style; a custom charset falls back to single lines
+export const resolveBorderJunctions = (
+	style: BorderStyleName | BorderCharset,
+): BorderJunctions =>
+	typeof style === "string"
+		? (BORDER_JUNCTIONS[style] ?? SINGLE_JUNCTIONS)
+		: SINGLE_JUNCTIONS;
+
 // ---------------------------------------------------------------------------
 // Render border
 // ---------------------------------------------------------------------------
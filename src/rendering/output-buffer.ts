@@ -27,9 +27,15 @@ export type WriteOptions = z.infer<typeof WriteOptionsSchema>;
 // Buffer cell
 // ---------------------------------------------------------------------------
 
+// Where content sits in the paint order: the zIndex of each stacking
+// context it is inside, outermost first. [] is the frame itself.
+export type StackingOrder = readonly number[];
+
 type Cell = {
 	value: string;
 	width: number;
+	// Unset until something paints the cell, so any layer may
+	order?: StackingOrder;
 };
 
 // ---------------------------------------------------------------------------
@@ -41,6 +47,8 @@ export type OutputBuffer = {
 	readonly height: number;
 	readonly grid: Cell[][];
 	readonly clips: ClipRegion[];
+	// Stacking contexts being painted; writes go to the innermost
+	readonly layers: StackingOrder[];
 };
 
 // ---------------------------------------------------------------------------
@@ -113,7 +121,7 @@ export const createOutputBuffer = (
 		grid.push(row);
 	}
 
-	return { width, height, grid, clips: [] };
+	return { width, height, grid, clips: [], layers: [] };
 };
 
 // ---------------------------------------------------------------------------
@@ -129,6 +137,57 @@ export const popClip = (buffer: OutputBuffer): void => {
 	buffer.clips.pop();
 };
 
+// ---------------------------------------------------------------------------
+// Stacking layers
+// ---------------------------------------------------------------------------
+
+const FRAME_ORDER: StackingOrder = [];
+
+/**
+ * Orders two stacking orders level by level, a missing level counting as
+ * zIndex 0: negative if `a` paints below `b`, 0 if they share a level.
+ */
+export const compareStackingOrder = (
+	a: StackingOrder,
+	b: StackingOrder,
+): number => {
+	if (a === b) return 0;
+	for (let level = 0; level < Math.max(a.length, b.length); level++) {
+		const diff = (a[level] ?? 0) - (b[level] ?? 0);
+		if (diff !== 0) return diff;
+	}
+	return 0;
+};
+
+/**
+ * Starts a stacking context with the given zIndex inside the current one.
+ * Until popLayer, writes leave cells painted from higher up alone, so a
+ * layer shows above or below others whatever order they are painted in.
+ */
+export const pushLayer = (buffer: OutputBuffer, zIndex: number): void => {
+	z.number().int().parse(zIndex);
+	buffer.layers.push([...(buffer.layers.at(-1) ?? FRAME_ORDER), zIndex]);
+};
+
+export const popLayer = (buffer: OutputBuffer): void => {
+	buffer.layers.pop();
+};
+
+// Whether any of the cells a character of the given width would take is
+// painted from a higher layer
+const isCovered = (
+	row: readonly Cell[],
+	x: number,
+	width: number,
+	order: StackingOrder,
+): boolean => {
+	for (let cellX = x; cellX < x + Math.max(1, width); cellX++) {
+		const cellOrder = row[cellX]?.order;
+		if (cellOrder && compareStackingOrder(order, cellOrder) < 0) return true;
+	}
+	return false;
+};
+
 // ---------------------------------------------------------------------------
 // Write to buffer
 // ---------------------------------------------------------------------------
@@ -145,6 +204,7 @@ export const writeToBuffer = (
 	const parsed = WriteOptionsSchema.parse(options ?? {});
 	const lines = text.split("\n");
 	const clip = buffer.clips.at(-1);
+	const order = buffer.layers.at(-1) ?? FRAME_ORDER;
 
 	let startX = x;
 	let startY = y;
@@ -217,6 +277,10 @@ export const writeToBuffer = (
 		// We track visible character positions
 		let charIdx = 0;
 		let strPos = 0;
+		// Styles opened in cells a higher layer covers, for the next cell
+		// written
+		let carried = "";
+		let lastWritten = -1;
 
 		while (strPos < line.length && offsetX < buffer.width) {
 			// Collect any ANSI sequences
@@ -246,19 +310,29 @@ export const writeToBuffer = (
 			const ch = plain[charIdx];
 			if (ch === undefined) break;
 
-			cellValue += line[strPos]!;
+			const glyph = line[strPos]!;
 			strPos++;
 			charIdx++;
 
 			const charW = stringWidth(ch);
 
 			if (offsetX >= 0 && offsetX < buffer.width) {
-				row[offsetX] = { value: cellValue, width: charW || 1 };
-
-				// For wide characters, fill following cells
-				if (charW > 1) {
-					for (let w = 1; w < charW && offsetX + w < buffer.width; w++) {
-						row[offsetX + w] = { value: "", width: 0 };
+				if (isCovered(row, offsetX, charW, order)) {
+					carried += cellValue;
+				} else {
+					row[offsetX] = {
+						value: carried + cellValue + glyph,
+						width: charW || 1,
+						order,
+					};
+					carried = "";
+					lastWritten = offsetX;
+
+					// For wide characters, fill following cells
+					if (charW > 1) {
+						for (let w = 1; w < charW && offsetX + w < buffer.width; w++) {
+							row[offsetX + w] = { value: "", width: 0, order };
+						}
 					}
 				}
 			}
@@ -266,18 +340,76 @@ export const writeToBuffer = (
 			offsetX += Math.max(1, charW);
 		}
 
-		// Ensure ANSI reset at end of line if we had sequences
-		if (line.includes("\x1b[") && offsetX > startX) {
-			const lastCellIdx = Math.min(offsetX - 1, buffer.width - 1);
-			if (lastCellIdx >= 0 && row[lastCellIdx]) {
-				if (!row[lastCellIdx]?.value.endsWith("\x1b[0m")) {
-					row[lastCellIdx]!.value += "\x1b[0m";
-				}
+		// Ensure ANSI reset at end of line if we had sequences. It goes in
+		// the last cell written, so styles do not run into a higher layer.
+		if (line.includes("\x1b[") && lastWritten >= 0) {
+			const last = row[lastWritten];
+			if (last && !last.value.endsWith("\x1b[0m")) {
+				last.value += "\x1b[0m";
 			}
 		}
 	}
 };
 
+// ---------------------------------------------------------------------------
+// Layer operations
+// ---------------------------------------------------------------------------
+
+const DIM = "\x1b[2m";
+const RESET = "\x1b[0m";
+
+const BLANK: Cell = { value: " ", width: 1 };
+
+/**
+ * Dims everything painted so far, as the backdrop of an overlay. Each cell
+ * re-applies dim, since styles written earlier may reset it. The backdrop
+ * sits below every layer painted after it.
+ */
+export const dimBuffer = (buffer: OutputBuffer): void => {
+	for (const row of buffer.grid) {
+		let last: Cell | undefined;
+		for (const cell of row) {
+			cell.order = undefined;
+			if (cell.value === " " || cell.value === "") continue;
+			cell.value = DIM + cell.value;
+			last = cell;
+		}
+		if (last && !last.value.endsWith(RESET)) last.value += RESET;
+	}
+};
+
+/**
+ * Blanks a rectangle so a layer painted over it does not show what is
+ * underneath. Wide characters cut by an edge are blanked whole.
+ */
+export const clearRegion = (
+	buffer: OutputBuffer,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+): void => {
+	const left = Math.max(0, x);
+	const right = Math.min(buffer.width, x + width);
+	if (right <= left) return;
+
+	const top = Math.max(0, y);
+	const bottom = Math.min(buffer.height, y + height);
+
+	for (const row of buffer.grid.slice(top, bottom)) {
+		let start = left;
+		while (start > 0 && row[start]?.width === 0) start--;
+		let end = right;
+		while (end < buffer.width && row[end]?.width === 0) end++;
+
+		for (let cellX = start; cellX < end; cellX++) {
+			row[cellX] = { ...BLANK };
+		}
+		// Styles left open by the cells before must not run into the layer
+		row[start] = { value: RESET + BLANK.value, width: 1 };
+	}
+};
+
 // ---------------------------------------------------------------------------
 // Read buffer
 // ---------------------------------------------------------------------------
@@ -0,0 +1,197 @@
+import { getChildren } from "blecsd/components";
+import type { Entity } from "blecsd/core";
+import type { ElementNode, TreeNode } from "../element-tree";
+import type { Container, EcsInstance, HostNode } from "../host-config";
+import { getHostNode } from "../host-config";
+import {
+	getBorderEdges,
+	getBorderStyle,
+	getFlexItem,
+	getOverflow,
+	getPositioning,
+	hasStyleComponents,
+} from "../style-components";
+import type { OutputTransformer } from "./output-buffer";
+import { createOutputBuffer, getBufferContent } from "./output-buffer";
+import type {
+	NodeLayoutMap,
+	NodeRegistry,
+	NodeStyleInfo,
+	NodeStyleMap,
+} from "./render-tree";
+import { renderTree } from "./render-tree";
+
+// ---------------------------------------------------------------------------
+// Host node -> render tree node
+// ---------------------------------------------------------------------------
+
+const ELEMENT_NODE_TYPES: Readonly<Record<string, ElementNode["type"]>> = {
+	"blecsdui-box": "box",
+	"blecsdui-text": "text",
+	"blecsdui-virtual-text": "virtual-text",
+};
+
+const toTreeNode = (node: HostNode): TreeNode => {
+	if (node.elementType === "#text") {
+		return {
+			type: "#text",
+			world: node.world,
+			eid: node.eid,
+			value: node.text,
+		};
+	}
+
+	return {
+		type: ELEMENT_NODE_TYPES[node.elementType] ?? "box",
+		world: node.world,
+		eid: node.eid,
+		props: node.props,
+	};
+};
+
+// ---------------------------------------------------------------------------
+// Host props -> paint styles
+// ---------------------------------------------------------------------------
+
+// Structural box styles come from the style components; only colors and
+// the transform are still read from props.
+const BOX_PAINT_KEYS = [
+	"borderColor",
+	"borderTopColor",
+	"borderBottomColor",
+	"borderLeftColor",
+	"borderRightColor",
+	"borderDimColor",
+	"borderTopDimColor",
+	"borderBottomDimColor",
+	"borderLeftDimColor",
+	"borderRightDimColor",
+	"backgroundColor",
+	"backdrop",
+	"scrollTop",
+	"scrollLeft",
+] as const;
+
+const TEXT_STYLE_KEYS = [
+	"color",
+	"backgroundColor",
+	"bold",
+	"italic",
+	"underline",
+	"strikethrough",
+	"dimColor",
+	"inverse",
+] as const;
+
+const pickStyles = (
+	props: Record<string, unknown>,
+	keys: readonly string[],
+): Record<string, unknown> => {
+	const picked: Record<string, unknown> = {};
+	for (const key of keys) {
+		if (props[key] !== undefined) picked[key] = props[key];
+	}
+	return picked;
+};
+
+const readBoxComponents = (node: EcsInstance): Record<string, unknown> => {
+	if (!hasStyleComponents(node.world, node.eid)) return {};
+
+	const item = getFlexItem(node.eid);
+	const overflow = getOverflow(node.eid);
+	const border = getBorderEdges(node.eid);
+
+	return {
+		display: item.hidden ? "none" : "flex",
+		overlay: item.overlay,
+		overflowX: overflow.x,
+		overflowY: overflow.y,
+		borderStyle: getBorderStyle(node.eid),
+		borderTop: border.top === 1,
+		borderRight: border.right === 1,
+		borderBottom: border.bottom === 1,
+		borderLeft: border.left === 1,
+		zIndex: getPositioning(node.eid).zIndex,
+	};
+};
+
+const toStyleInfo = (node: HostNode): NodeStyleInfo => {
+	if (node.elementType === "#text") return {};
+
+	if (node.elementType === "blecsdui-box") {
+		const style = {
+			...readBoxComponents(node),
+			...pickStyles(node.props, BOX_PAINT_KEYS),
+		};
+		if (typeof node.props.transform === "function") {
+			style.transform = node.props.transform as OutputTransformer;
+		}
+		return style as NodeStyleInfo;
+	}
+
+	const style = pickStyles(node.props, TEXT_STYLE_KEYS);
+	// Nested text inherits the wrap mode of the outermost <Text>
+	if (node.elementType === "blecsdui-text") {
+		style.textWrap = node.props.wrap ?? "wrap";
+	}
+	return style as NodeStyleInfo;
+};
+
+// ---------------------------------------------------------------------------
+// Registry + style map collection
+// ---------------------------------------------------------------------------
+
+type FrameTree = {
+	readonly registry: Map<number, TreeNode>;
+	readonly styles: Map<number, NodeStyleInfo>;
+};
+
+const collectFrameTree = (
+	container: Container,
+	eid: Entity,
+	tree: FrameTree,
+): void => {
+	for (const child of getChildren(container.world, eid)) {
+		const node = getHostNode(container.world, child);
+		if (!node) continue;
+
+		tree.registry.set(child, toTreeNode(node));
+		tree.styles.set(child, toStyleInfo(node));
+		collectFrameTree(container, child, tree);
+	}
+};
+
+export const collectRenderTree = (
+	container: Container,
+): { readonly registry: NodeRegistry; readonly styles: NodeStyleMap } => {
+	const tree: FrameTree = { registry: new Map(), styles: new Map() };
+	collectFrameTree(container, container.rootEid, tree);
+	return tree;
+};
+
+// ---------------------------------------------------------------------------
+// renderFrame: paint a laid-out container into a string
+// ---------------------------------------------------------------------------
+
+export const renderFrame = (
+	container: Container,
+	layouts: NodeLayoutMap,
+): string => {
+	const rootLayout = layouts.get(container.rootEid);
+	if (!rootLayout || rootLayout.width <= 0 || rootLayout.height <= 0) {
+		return "";
+	}
+
+	const { registry, styles } = collectRenderTree(container);
+	const root: TreeNode = {
+		type: "root",
+		world: container.world,
+		eid: container.rootEid,
+		props: {},
+	};
+
+	const output = createOutputBuffer(rootLayout.width, rootLayout.height);
+	renderTree(root, output, layouts, styles, registry);
+
+	return getBufferContent(output);
+};
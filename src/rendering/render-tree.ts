@@ -1,16 +1,31 @@
 import { getContent } from "blecsd/components";
 import { z } from "zod";
+import type { ColorSpec } from "../color";
 import type { TextNode, TreeNode } from "../element-tree";
 import { getChildren } from "../element-tree";
+import {
+	applyStyle,
+	getTextSegments,
+	type TextNodeData,
+	type TextSegment,
+	type TextStyle,
+} from "../text/squash-text-nodes";
+import { type WrapMode, wrapText } from "../text/wrap-text";
 import { renderBackground } from "./background";
 import { renderBorder } from "./border";
 import type { OutputTransformer } from "./output-buffer";
 import {
+	type ClipRegion,
+	clearRegion,
+	dimBuffer,
 	type OutputBuffer,
 	popClip,
+	popLayer,
 	pushClip,
+	pushLayer,
 	writeToBuffer,
 } from "./output-buffer";
+import { renderScrollbar } from "./scrollbar";
 
 // ---------------------------------------------------------------------------
 // Render node types (layout-computed)
@@ -45,9 +60,14 @@ export type NodeLayoutMap = ReadonlyMap<number, RenderLayout>;
 
 export type NodeStyleInfo = {
 	readonly display?: "flex" | "none";
-	readonly overflowX?: "visible" | "hidden";
-	readonly overflowY?: "visible" | "hidden";
-	readonly overflow?: "visible" | "hidden";
+	readonly overlay?: boolean;
+	readonly backdrop?: "none" | "dim";
+	readonly overflowX?: "visible" | "hidden" | "scroll";
+	readonly overflowY?: "visible" | "hidden" | "scroll";
+	readonly overflow?: "visible" | "hidden" | "scroll";
+	readonly scrollTop?: number;
+	readonly scrollLeft?: number;
+	readonly zIndex?: number;
 	readonly borderStyle?: string;
 	readonly borderColor?: string;
 	readonly borderTopColor?: string;
@@ -99,6 +119,162 @@ const hasBorderSide = (
 	return style.borderStyle !== undefined && style[side] !== false;
 };
 
+// ---------------------------------------------------------------------------
+// Clipping and scrolling
+// ---------------------------------------------------------------------------
+
+export type ScrollState = {
+	// Axes with a scrollbar; hidden axes scroll too, without one
+	readonly scrollX: boolean;
+	readonly scrollY: boolean;
+	// Content offset, clamped to how far the content reaches
+	readonly left: number;
+	readonly top: number;
+	readonly maxLeft: number;
+	readonly maxTop: number;
+	// The visible part of the box relative to it, inside the borders and
+	// clear of the scrollbars
+	readonly view: RenderLayout;
+};
+
+const clipsOn = (value: NodeStyleInfo["overflow"]): boolean =>
+	value === "hidden" || value === "scroll";
+
+const clamp = (value: number, max: number): number =>
+	Math.max(0, Math.min(value, max));
+
+export const getScrollState = (
+	node: TreeNode,
+	layout: RenderLayout,
+	style: NodeStyleInfo,
+	layouts: NodeLayoutMap,
+	styles: NodeStyleMap,
+): ScrollState | undefined => {
+	const clipH = clipsOn(style.overflowX) || clipsOn(style.overflow);
+	const clipV = clipsOn(style.overflowY) || clipsOn(style.overflow);
+	if (!clipH && !clipV) return undefined;
+
+	const scrollX = (style.overflowX ?? style.overflow) === "scroll";
+	const scrollY = (style.overflowY ?? style.overflow) === "scroll";
+
+	const bLeft = hasBorderSide(style, "borderLeft") ? 1 : 0;
+	const bRight = hasBorderSide(style, "borderRight") ? 1 : 0;
+	const bTop = hasBorderSide(style, "borderTop") ? 1 : 0;
+	const bBottom = hasBorderSide(style, "borderBottom") ? 1 : 0;
+	const view: RenderLayout = {
+		x: bLeft,
+		y: bTop,
+		width: Math.max(0, layout.width - bLeft - bRight - (scrollY ? 1 : 0)),
+		height: Math.max(0, layout.height - bTop - bBottom - (scrollX ? 1 : 0)),
+	};
+
+	// How far the children reach past the top-left of the view
+	let right = 0;
+	let bottom = 0;
+	for (const childEid of getChildren(node)) {
+		const child = getNodeLayout(childEid, layouts);
+		if (!child || getNodeStyle(childEid, styles).overlay) continue;
+		right = Math.max(right, child.x + child.width - bLeft);
+		bottom = Math.max(bottom, child.y + child.height - bTop);
+	}
+
+	const maxLeft = clipH ? Math.max(0, right - view.width) : 0;
+	const maxTop = clipV ? Math.max(0, bottom - view.height) : 0;
+
+	return {
+		scrollX,
+		scrollY,
+		left: clamp(style.scrollLeft ?? 0, maxLeft),
+		top: clamp(style.scrollTop ?? 0, maxTop),
+		maxLeft,
+		maxTop,
+		view,
+	};
+};
+
+// The region a box at (x, y) clips its children to for overflow hidden or
+// scroll. Scrolling axes clip to the view, leaving the scrollbars out.
+export const getOverflowClip = (
+	x: number,
+	y: number,
+	layout: RenderLayout,
+	style: NodeStyleInfo,
+	scroll: ScrollState | undefined,
+): ClipRegion | undefined => {
+	const clipH = clipsOn(style.overflowX) || clipsOn(style.overflow);
+	const clipV = clipsOn(style.overflowY) || clipsOn(style.overflow);
+	if (!clipH && !clipV) return undefined;
+
+	const bLeft = hasBorderSide(style, "borderLeft") ? 1 : 0;
+	const bRight = hasBorderSide(style, "borderRight") ? 1 : 0;
+	const bTop = hasBorderSide(style, "borderTop") ? 1 : 0;
+	const bBottom = hasBorderSide(style, "borderBottom") ? 1 : 0;
+
+	const x2 = scroll?.scrollY
+		? x + scroll.view.x + scroll.view.width
+		: x + layout.width - bRight;
+	const y2 = scroll?.scrollX
+		? y + scroll.view.y + scroll.view.height
+		: y + layout.height - bBottom;
+
+	return {
+		x1: clipH ? x + bLeft : undefined,
+		x2: clipH ? x2 : undefined,
+		y1: clipV ? y + bTop : undefined,
+		y2: clipV ? y2 : undefined,
+	};
+};
+
+// Clips a box's children; true if a clip was pushed
+const pushOverflowClip = (
+	output: OutputBuffer,
+	x: number,
+	y: number,
+	layout: RenderLayout,
+	style: NodeStyleInfo,
+	scroll: ScrollState | undefined,
+): boolean => {
+	const clip = getOverflowClip(x, y, layout, style, scroll);
+	if (!clip) return false;
+	pushClip(output, clip);
+	return true;
+};
+
+// Scrollbars show only while the content overflows on their axis
+const renderScrollbars = (
+	output: OutputBuffer,
+	x: number,
+	y: number,
+	scroll: ScrollState,
+): void => {
+	const { view } = scroll;
+
+	if (scroll.scrollY && scroll.maxTop > 0 && view.height > 0) {
+		renderScrollbar(
+			{
+				x: x + view.x + view.width,
+				y: y + view.y,
+				length: view.height,
+				fraction: scroll.top / scroll.maxTop,
+			},
+			output,
+		);
+	}
+
+	if (scroll.scrollX && scroll.maxLeft > 0 && view.width > 0) {
+		renderScrollbar(
+			{
+				x: x + view.x,
+				y: y + view.y + view.height,
+				length: view.width,
+				fraction: scroll.left / scroll.maxLeft,
+				orientation: "horizontal",
+			},
+			output,
+		);
+	}
+};
+
 // ---------------------------------------------------------------------------
 // Squash text nodes: collect text content from text node and its children
 // ---------------------------------------------------------------------------
@@ -227,6 +403,7 @@ export const renderNodeToOutput = (
 
 	// Box/root node: render background, border, clip, then children
 	let clipped = false;
+	let scroll: ScrollState | undefined;
 
 	if (node.type === "box" || node.type === "root") {
 		// Background
@@ -279,24 +456,9 @@ export const renderNodeToOutput = (
 			);
 		}
 
-		// Clipping for overflow: hidden
-		const clipH = style.overflowX === "hidden" || style.overflow === "hidden";
-		const clipV = style.overflowY === "hidden" || style.overflow === "hidden";
-
-		if (clipH || clipV) {
-			const borderLeft = hasBorderSide(style, "borderLeft") ? 1 : 0;
-			const borderRight = hasBorderSide(style, "borderRight") ? 1 : 0;
-			const borderTop = hasBorderSide(style, "borderTop") ? 1 : 0;
-			const borderBottom = hasBorderSide(style, "borderBottom") ? 1 : 0;
-
-			pushClip(output, {
-				x1: clipH ? x + borderLeft : undefined,
-				x2: clipH ? x + layout.width - borderRight : undefined,
-				y1: clipV ? y + borderTop : undefined,
-				y2: clipV ? y + layout.height - borderBottom : undefined,
-			});
-			clipped = true;
-		}
+		// Clipping for overflow: hidden / scroll
+		scroll = getScrollState(node, layout, style, layouts, styles);
+		clipped = pushOverflowClip(output, x, y, layout, style, scroll);
 	}
 
 	// Recurse children (painter's algorithm: later children on top)
@@ -309,8 +471,8 @@ export const renderNodeToOutput = (
 			const childNode = findChildNode(node, childEid);
 			if (childNode) {
 				renderNodeToOutput(childNode, output, layouts, styles, {
-					offsetX: x,
-					offsetY: y,
+					offsetX: x - (scroll?.left ?? 0),
+					offsetY: y - (scroll?.top ?? 0),
 					transformers: newTransformers,
 				});
 			}
@@ -319,6 +481,8 @@ export const renderNodeToOutput = (
 		if (clipped) {
 			popClip(output);
 		}
+
+		if (scroll) renderScrollbars(output, x, y, scroll);
 	}
 };
 
@@ -340,10 +504,135 @@ const findChildNode = (
 	return undefined;
 };
 
+// ---------------------------------------------------------------------------
+// Styled text layout (registry-based rendering)
+// ---------------------------------------------------------------------------
+
+const pickTextStyle = (style: NodeStyleInfo): TextStyle => ({
+	bold: style.bold,
+	italic: style.italic,
+	underline: style.underline,
+	strikethrough: style.strikethrough,
+	inverse: style.inverse,
+	dimColor: style.dimColor,
+	color: style.color as ColorSpec | undefined,
+	backgroundColor: style.backgroundColor as ColorSpec | undefined,
+});
+
+const toTextNodeData = (
+	node: TreeNode,
+	styles: NodeStyleMap,
+	registry: NodeRegistry,
+): TextNodeData => {
+	if (node.type === "#text") {
+		return { type: "#text", text: node.value };
+	}
+
+	const children: TextNodeData[] = [];
+	for (const childEid of getChildren(node)) {
+		const child = registry.get(childEid);
+		if (child) {
+			children.push(toTextNodeData(child, styles, registry));
+			continue;
+		}
+		// Unregistered leaves still carry their text in the ECS
+		const content = getContent(node.world, childEid);
+		if (content) {
+			children.push({ type: "#text", text: content });
+		}
+	}
+
+	return {
+		type: node.type === "virtual-text" ? "virtual-text" : "text",
+		style: pickTextStyle(getNodeStyle(node.eid, styles)),
+		children,
+	};
+};
+
+// Wraps the plain text, then maps every output character back to the
+// segment it came from so styles never straddle a line break.
+const layoutTextSegments = (
+	segments: readonly TextSegment[],
+	maxWidth: number,
+	wrapMode: string | undefined,
+): string => {
+	const chars: string[] = [];
+	const owners: number[] = [];
+	for (let i = 0; i < segments.length; i++) {
+		for (const ch of segments[i].text) {
+			chars.push(ch);
+			owners.push(i);
+		}
+	}
+
+	const plain = chars.join("");
+	if (plain === "") return "";
+
+	const wrapped =
+		wrapMode === undefined
+			? plain
+			: wrapText(plain, maxWidth, wrapMode as WrapMode);
+
+	const lines: string[] = [];
+	let line = "";
+	let run = "";
+	let runOwner = owners[0];
+	let cursor = 0;
+
+	const flushRun = (): void => {
+		if (run !== "") line += applyStyle(run, segments[runOwner].style);
+		run = "";
+	};
+
+	for (const ch of wrapped) {
+		// Whitespace swallowed at a wrap point has no output character
+		while (
+			cursor < chars.length &&
+			chars[cursor] !== ch &&
+			/\s/.test(chars[cursor])
+		) {
+			cursor++;
+		}
+
+		let owner = runOwner;
+		if (cursor < chars.length && chars[cursor] === ch) {
+			owner = owners[cursor];
+			cursor++;
+		}
+
+		if (ch === "\n") {
+			flushRun();
+			lines.push(line);
+			line = "";
+			runOwner = owner;
+			continue;
+		}
+
+		if (owner !== runOwner) {
+			flushRun();
+			runOwner = owner;
+		}
+		run += ch;
+	}
+
+	flushRun();
+	lines.push(line);
+
+	return lines.join("\n");
+};
+
 // ---------------------------------------------------------------------------
 // renderTree: high-level render with node registry
 // ---------------------------------------------------------------------------
 
+// An overlay box reached during the walk, painted once the tree is done
+type OverlayLayer = {
+	readonly node: TreeNode;
+	readonly offsetX: number;
+	readonly offsetY: number;
+	readonly transformers: OutputTransformer[];
+};
+
 export const renderTree = (
 	root: TreeNode,
 	output: OutputBuffer,
@@ -351,7 +640,74 @@ export const renderTree = (
 	styles: NodeStyleMap,
 	registry: NodeRegistry,
 ): void => {
-	renderTreeNode(root, output, layouts, styles, registry, 0, 0, []);
+	const layers: OverlayLayer[] = [];
+	renderTreeNode(root, output, layouts, styles, registry, 0, 0, [], layers);
+
+	// Layers found while painting a layer go above it
+	for (let index = 0; index < layers.length; index++) {
+		renderOverlayLayer(
+			layers[index],
+			output,
+			layouts,
+			styles,
+			registry,
+			layers,
+		);
+	}
+};
+
+// The overlay itself paints only its backdrop. Each of its children is
+// opaque: the cells under it are blanked before it paints.
+const renderOverlayLayer = (
+	layer: OverlayLayer,
+	output: OutputBuffer,
+	layouts: NodeLayoutMap,
+	styles: NodeStyleMap,
+	registry: NodeRegistry,
+	layers: OverlayLayer[],
+): void => {
+	const { node } = layer;
+	const layout = getNodeLayout(node.eid, layouts);
+	if (!layout) return;
+
+	const style = getNodeStyle(node.eid, styles);
+	const x = layer.offsetX + layout.x;
+	const y = layer.offsetY + layout.y;
+	const transformers =
+		typeof style.transform === "function"
+			? [style.transform, ...layer.transformers]
+			: layer.transformers;
+
+	if (style.backdrop === "dim") dimBuffer(output);
+
+	for (const childEid of getChildren(node)) {
+		const childNode = registry.get(childEid);
+		const childLayout = getNodeLayout(childEid, layouts);
+		if (!childNode || !childLayout) continue;
+
+		const childStyle = getNodeStyle(childEid, styles);
+		if (childStyle.display !== "none" && !childStyle.overlay) {
+			clearRegion(
+				output,
+				x + childLayout.x,
+				y + childLayout.y,
+				childLayout.width,
+				childLayout.height,
+			);
+		}
+
+		renderTreeNode(
+			childNode,
+			output,
+			layouts,
+			styles,
+			registry,
+			x,
+			y,
+			transformers,
+			layers,
+		);
+	}
 };
 
 const renderTreeNode = (
@@ -363,6 +719,7 @@ const renderTreeNode = (
 	offsetX: number,
 	offsetY: number,
 	transformers: OutputTransformer[],
+	layers: OverlayLayer[],
 ): void => {
 	const layout = getNodeLayout(node.eid, layouts);
 	if (!layout) return;
@@ -372,6 +729,12 @@ const renderTreeNode = (
 	// Skip display: none
 	if (style.display === "none") return;
 
+	// Overlays paint after the rest of the tree, free of its clipping
+	if (style.overlay) {
+		layers.push({ node, offsetX, offsetY, transformers });
+		return;
+	}
+
 	const x = offsetX + layout.x;
 	const y = offsetY + layout.y;
 
@@ -381,11 +744,11 @@ const renderTreeNode = (
 		newTransformers = [style.transform, ...transformers];
 	}
 
-	// Text node: render text content
+	// Text node: squash nested text with inherited styles, then wrap
 	if (node.type === "text" || node.type === "virtual-text") {
-		let text = squashTextNodes(node, node.world);
+		const segments = getTextSegments(toTextNodeData(node, styles, registry));
+		const text = layoutTextSegments(segments, layout.width, style.textWrap);
 		if (text.length > 0) {
-			text = applyTextStyle(text, style);
 			writeToBuffer(output, x, y, text, { transformers: newTransformers });
 		}
 		return;
@@ -402,9 +765,11 @@ const renderTreeNode = (
 		return;
 	}
 
-	// Box/root: background, border, clip, children
-	let clipped = false;
+	// A zIndex stacks the box and everything inside it as one layer
+	const layered = style.zIndex !== undefined;
+	if (style.zIndex !== undefined) pushLayer(output, style.zIndex);
 
+	// Box/root: background, border, clip, children
 	if (style.backgroundColor) {
 		renderBackground(
 			{
@@ -453,23 +818,8 @@ const renderTreeNode = (
 		);
 	}
 
-	const clipH = style.overflowX === "hidden" || style.overflow === "hidden";
-	const clipV = style.overflowY === "hidden" || style.overflow === "hidden";
-
-	if (clipH || clipV) {
-		const bLeft = hasBorderSide(style, "borderLeft") ? 1 : 0;
-		const bRight = hasBorderSide(style, "borderRight") ? 1 : 0;
-		const bTop = hasBorderSide(style, "borderTop") ? 1 : 0;
-		const bBottom = hasBorderSide(style, "borderBottom") ? 1 : 0;
-
-		pushClip(output, {
-			x1: clipH ? x + bLeft : undefined,
-			x2: clipH ? x + layout.width - bRight : undefined,
-			y1: clipV ? y + bTop : undefined,
-			y2: clipV ? y + layout.height - bBottom : undefined,
-		});
-		clipped = true;
-	}
+	const scroll = getScrollState(node, layout, style, layouts, styles);
+	const clipped = pushOverflowClip(output, x, y, layout, style, scroll);
 
 	// Recurse children via registry
 	const childEids = getChildren(node);
@@ -482,9 +832,10 @@ const renderTreeNode = (
 				layouts,
 				styles,
 				registry,
-				x,
-				y,
+				x - (scroll?.left ?? 0),
+				y - (scroll?.top ?? 0),
 				newTransformers,
+				layers,
 			);
 		}
 	}
@@ -492,4 +843,7 @@ const renderTreeNode = (
 	if (clipped) {
 		popClip(output);
 	}
+
+	if (scroll) renderScrollbars(output, x, y, scroll);
+	if (layered) popLayer(output);
 };
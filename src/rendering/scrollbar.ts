@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { type OutputBuffer, writeToBuffer } from "./output-buffer";
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+export const ScrollbarOrientationSchema = z.enum(["vertical", "horizontal"]);
+
+export type ScrollbarOrientation = z.infer<typeof ScrollbarOrientationSchema>;
+
+export const RenderScrollbarOptionsSchema = z.object({
+	x: z.number().int(),
+	y: z.number().int(),
+	// Cells along the track
+	length: z.number().int().positive(),
+	// Scroll position, 0 at the start and 1 at the end
+	fraction: z.number().min(0).max(1),
+	orientation: ScrollbarOrientationSchema.default("vertical"),
+});
+
+export type RenderScrollbarOptions = z.input<
+	typeof RenderScrollbarOptionsSchema
+>;
+
+// ---------------------------------------------------------------------------
+// Characters
+// ---------------------------------------------------------------------------
+
+const THUMB = "█";
+
+const TRACK: Readonly<Record<ScrollbarOrientation, string>> = {
+	vertical: "│",
+	horizontal: "─",
+};
+
+// ---------------------------------------------------------------------------
+// Render scrollbar
+// ---------------------------------------------------------------------------
+
+/**
+ * Draws a track with a one-cell thumb at `fraction` along it, the same way
+ * VirtualizedList's scroll indicator does.
+ */
+export const renderScrollbar = (
+	options: RenderScrollbarOptions,
+	output: OutputBuffer,
+): void => {
+	const parsed = RenderScrollbarOptionsSchema.parse(options);
+	const thumb = Math.round(parsed.fraction * (parsed.length - 1));
+	const track = TRACK[parsed.orientation];
+
+	if (parsed.orientation === "horizontal") {
+		const line =
+			track.repeat(thumb) + THUMB + track.repeat(parsed.length - thumb - 1);
+		writeToBuffer(output, parsed.x, parsed.y, line);
+		return;
+	}
+
+	for (let index = 0; index < parsed.length; index++) {
+		writeToBuffer(
+			output,
+			parsed.x,
+			parsed.y + index,
+			index === thumb ? THUMB : track,
+		);
+	}
+};
@@ -0,0 +1,629 @@
+import {
+	AUTO_DIMENSION,
+	decodePercentage,
+	encodePercentage,
+} from "blecsd/components";
+import type { Entity, World } from "blecsd/core";
+import { addComponent, hasComponent } from "blecsd/core";
+import { resolveShorthands } from "./apply-styles";
+import { resolveGap } from "./layout/gap";
+import {
+	type GridSpan,
+	type GridTrack,
+	parseGridPlacement,
+	parseGridTemplate,
+} from "./layout/grid";
+import {
+	type AlignContent,
+	AlignContentSchema,
+	type AlignItems,
+	AlignItemsSchema,
+	type AlignSelf,
+	AlignSelfSchema,
+	type BorderStyle,
+	BorderStyleSchema,
+	type FlexDirection,
+	FlexDirectionSchema,
+	type FlexWrap,
+	FlexWrapSchema,
+	type IntrinsicSize,
+	IntrinsicSizeSchema,
+	type JustifyContent,
+	JustifyContentSchema,
+	type Overflow,
+	OverflowSchema,
+	type PositionOffset,
+	type Styles,
+} from "./styles";
+
+// ---------------------------------------------------------------------------
+// Component stores (SoA, indexed by entity id like blecsd's own components)
+// ---------------------------------------------------------------------------
+
+// Matches the capacity of blecsd's built-in stores
+const MAX_ENTITIES = 10_000;
+
+export const FlexContainerComponent = {
+	direction: new Uint8Array(MAX_ENTITIES),
+	wrap: new Uint8Array(MAX_ENTITIES),
+	justifyContent: new Uint8Array(MAX_ENTITIES),
+	alignItems: new Uint8Array(MAX_ENTITIES),
+	alignContent: new Uint8Array(MAX_ENTITIES),
+	columnGap: new Uint16Array(MAX_ENTITIES),
+	rowGap: new Uint16Array(MAX_ENTITIES),
+};
+
+export const FlexItemComponent = {
+	grow: new Float32Array(MAX_ENTITIES),
+	shrink: new Float32Array(MAX_ENTITIES),
+	/** AUTO_DIMENSION, a cell count or an encoded percentage */
+	basis: new Float32Array(MAX_ENTITIES),
+	/** 0 = auto, otherwise index + 1 into AlignSelfSchema options */
+	alignSelf: new Uint8Array(MAX_ENTITIES),
+	width: new Float32Array(MAX_ENTITIES),
+	height: new Float32Array(MAX_ENTITIES),
+	/** 0 = none, otherwise index + 1 into IntrinsicSizeSchema options */
+	widthKeyword: new Uint8Array(MAX_ENTITIES),
+	heightKeyword: new Uint8Array(MAX_ENTITIES),
+	minWidth: new Uint16Array(MAX_ENTITIES),
+	minHeight: new Uint16Array(MAX_ENTITIES),
+	/** AUTO_DIMENSION when unset */
+	maxWidth: new Float32Array(MAX_ENTITIES),
+	maxHeight: new Float32Array(MAX_ENTITIES),
+	/** 0 = unset */
+	aspectRatio: new Float32Array(MAX_ENTITIES),
+	hidden: new Uint8Array(MAX_ENTITIES),
+	absolute: new Uint8Array(MAX_ENTITIES),
+	overlay: new Uint8Array(MAX_ENTITIES),
+};
+
+export const SpacingComponent = {
+	marginTop: new Uint16Array(MAX_ENTITIES),
+	marginRight: new Uint16Array(MAX_ENTITIES),
+	marginBottom: new Uint16Array(MAX_ENTITIES),
+	marginLeft: new Uint16Array(MAX_ENTITIES),
+	paddingTop: new Uint16Array(MAX_ENTITIES),
+	paddingRight: new Uint16Array(MAX_ENTITIES),
+	paddingBottom: new Uint16Array(MAX_ENTITIES),
+	paddingLeft: new Uint16Array(MAX_ENTITIES),
+};
+
+export const BorderComponent = {
+	/** 0 = no border, otherwise index + 1 into BorderStyleSchema options */
+	style: new Uint8Array(MAX_ENTITIES),
+	top: new Uint8Array(MAX_ENTITIES),
+	right: new Uint8Array(MAX_ENTITIES),
+	bottom: new Uint8Array(MAX_ENTITIES),
+	left: new Uint8Array(MAX_ENTITIES),
+};
+
+export const OverflowComponent = {
+	x: new Uint8Array(MAX_ENTITIES),
+	y: new Uint8Array(MAX_ENTITIES),
+};
+
+export const PositionComponent = {
+	/** 1 when the box sets position, making it a containing block */
+	positioned: new Uint8Array(MAX_ENTITIES),
+	/** Per side: 0 = unset, 1 = cells, 2 = percentage */
+	topUnit: new Uint8Array(MAX_ENTITIES),
+	rightUnit: new Uint8Array(MAX_ENTITIES),
+	bottomUnit: new Uint8Array(MAX_ENTITIES),
+	leftUnit: new Uint8Array(MAX_ENTITIES),
+	top: new Float32Array(MAX_ENTITIES),
+	right: new Float32Array(MAX_ENTITIES),
+	bottom: new Float32Array(MAX_ENTITIES),
+	left: new Float32Array(MAX_ENTITIES),
+	/** 1 when zIndex is set */
+	hasZIndex: new Uint8Array(MAX_ENTITIES),
+	zIndex: new Int32Array(MAX_ENTITIES),
+};
+
+export const GridComponent = {
+	/** 1 when display is "grid" */
+	isGrid: new Uint8Array(MAX_ENTITIES),
+	/** Parsed templates; they vary in length, so they are kept whole */
+	columns: new Array<readonly GridTrack[] | undefined>(MAX_ENTITIES),
+	rows: new Array<readonly GridTrack[] | undefined>(MAX_ENTITIES),
+	/** 0 = auto-placed, otherwise the 1-based start line */
+	columnStart: new Uint16Array(MAX_ENTITIES),
+	columnSpan: new Uint16Array(MAX_ENTITIES),
+	rowStart: new Uint16Array(MAX_ENTITIES),
+	rowSpan: new Uint16Array(MAX_ENTITIES),
+};
+
+// ---------------------------------------------------------------------------
+// Enum <-> index encoding
+// ---------------------------------------------------------------------------
+
+const FLEX_DIRECTIONS = FlexDirectionSchema.options;
+const FLEX_WRAPS = FlexWrapSchema.options;
+const JUSTIFY_CONTENTS = JustifyContentSchema.options;
+const ALIGN_ITEMS = AlignItemsSchema.options;
+const ALIGN_SELVES = AlignSelfSchema.options;
+const ALIGN_CONTENTS = AlignContentSchema.options;
+const BORDER_STYLES = BorderStyleSchema.options;
+const INTRINSIC_SIZES = IntrinsicSizeSchema.options;
+const OVERFLOWS = OverflowSchema.options;
+
+const indexOf = <T>(options: readonly T[], value: T | undefined): number => {
+	if (value === undefined) return -1;
+	return options.indexOf(value);
+};
+
+// ---------------------------------------------------------------------------
+// Dimension encoding (shares blecsd's percentage encoding)
+// ---------------------------------------------------------------------------
+
+const encodeDimension = (value: number | string | undefined): number => {
+	if (typeof value === "number") return value;
+	if (typeof value === "string" && value.endsWith("%")) {
+		return encodePercentage(Number.parseFloat(value));
+	}
+	return AUTO_DIMENSION;
+};
+
+const decodeDimension = (value: number): number | `${number}%` | undefined => {
+	if (value === AUTO_DIMENSION) return undefined;
+	const percent = decodePercentage(value);
+	return percent === null ? value : `${percent}%`;
+};
+
+// ---------------------------------------------------------------------------
+// Offset encoding: offsets may be negative, so they keep their unit beside
+// the value instead of sharing the percentage encoding
+// ---------------------------------------------------------------------------
+
+const OFFSET_UNSET = 0;
+const OFFSET_CELLS = 1;
+const OFFSET_PERCENT = 2;
+
+type OffsetSide = "top" | "right" | "bottom" | "left";
+
+const OFFSET_SIDES: readonly OffsetSide[] = ["top", "right", "bottom", "left"];
+
+const writeOffset = (
+	eid: Entity,
+	side: OffsetSide,
+	value: PositionOffset | undefined,
+): void => {
+	const units = PositionComponent[`${side}Unit`];
+	if (value === undefined) {
+		units[eid] = OFFSET_UNSET;
+		PositionComponent[side][eid] = 0;
+	} else if (typeof value === "number") {
+		units[eid] = OFFSET_CELLS;
+		PositionComponent[side][eid] = value;
+	} else {
+		units[eid] = OFFSET_PERCENT;
+		PositionComponent[side][eid] = Number.parseFloat(value);
+	}
+};
+
+const readOffset = (
+	eid: Entity,
+	side: OffsetSide,
+): PositionOffset | undefined => {
+	const value = PositionComponent[side][eid];
+	switch (PositionComponent[`${side}Unit`][eid]) {
+		case OFFSET_CELLS:
+			return value;
+		case OFFSET_PERCENT:
+			return `${value}%`;
+		default:
+			return undefined;
+	}
+};
+
+// ---------------------------------------------------------------------------
+// Style key groups: an update only rewrites the groups it touches
+// ---------------------------------------------------------------------------
+
+const FLEX_CONTAINER_KEYS: ReadonlySet<string> = new Set([
+	"flexDirection",
+	"flexWrap",
+	"justifyContent",
+	"alignItems",
+	"alignContent",
+	"gap",
+	"columnGap",
+	"rowGap",
+]);
+
+const FLEX_ITEM_KEYS: ReadonlySet<string> = new Set([
+	"flexGrow",
+	"flexShrink",
+	"flexBasis",
+	"alignSelf",
+	"width",
+	"height",
+	"minWidth",
+	"minHeight",
+	"maxWidth",
+	"maxHeight",
+	"aspectRatio",
+	"display",
+	"position",
+	"overlay",
+]);
+
+const SPACING_KEYS: ReadonlySet<string> = new Set([
+	"margin",
+	"marginX",
+	"marginY",
+	"marginTop",
+	"marginBottom",
+	"marginLeft",
+	"marginRight",
+	"padding",
+	"paddingX",
+	"paddingY",
+	"paddingTop",
+	"paddingBottom",
+	"paddingLeft",
+	"paddingRight",
+]);
+
+const BORDER_KEYS: ReadonlySet<string> = new Set([
+	"borderStyle",
+	"borderTop",
+	"borderRight",
+	"borderBottom",
+	"borderLeft",
+]);
+
+const OVERFLOW_KEYS: ReadonlySet<string> = new Set([
+	"overflow",
+	"overflowX",
+	"overflowY",
+]);
+
+const POSITION_KEYS: ReadonlySet<string> = new Set([
+	"position",
+	"top",
+	"right",
+	"bottom",
+	"left",
+	"zIndex",
+]);
+
+const GRID_KEYS: ReadonlySet<string> = new Set([
+	"display",
+	"gridTemplateColumns",
+	"gridTemplateRows",
+	"gridColumn",
+	"gridRow",
+]);
+
+// ---------------------------------------------------------------------------
+// Writers
+// ---------------------------------------------------------------------------
+
+const writeFlexContainer = (eid: Entity, styles: Styles): void => {
+	const gap = resolveGap({
+		gap: styles.gap,
+		columnGap: styles.columnGap,
+		rowGap: styles.rowGap,
+	});
+
+	FlexContainerComponent.direction[eid] = Math.max(
+		0,
+		indexOf(FLEX_DIRECTIONS, styles.flexDirection ?? "row"),
+	);
+	FlexContainerComponent.wrap[eid] = Math.max(
+		0,
+		indexOf(FLEX_WRAPS, styles.flexWrap),
+	);
+	FlexContainerComponent.justifyContent[eid] = Math.max(
+		0,
+		indexOf(JUSTIFY_CONTENTS, styles.justifyContent),
+	);
+	FlexContainerComponent.alignItems[eid] = Math.max(
+		0,
+		indexOf(ALIGN_ITEMS, styles.alignItems ?? "stretch"),
+	);
+	FlexContainerComponent.alignContent[eid] = Math.max(
+		0,
+		indexOf(ALIGN_CONTENTS, styles.alignContent),
+	);
+	FlexContainerComponent.columnGap[eid] = gap.columnGap;
+	FlexContainerComponent.rowGap[eid] = gap.rowGap;
+};
+
+const intrinsicSizeOf = (value: unknown): IntrinsicSize | undefined =>
+	INTRINSIC_SIZES.find((size) => size === value);
+
+const writeFlexItem = (eid: Entity, styles: Styles): void => {
+	FlexItemComponent.grow[eid] = styles.flexGrow ?? 0;
+	FlexItemComponent.shrink[eid] = styles.flexShrink ?? 1;
+	FlexItemComponent.basis[eid] = encodeDimension(styles.flexBasis);
+	FlexItemComponent.alignSelf[eid] =
+		indexOf(ALIGN_SELVES, styles.alignSelf) + 1;
+	FlexItemComponent.width[eid] = encodeDimension(styles.width);
+	FlexItemComponent.height[eid] = encodeDimension(styles.height);
+	FlexItemComponent.widthKeyword[eid] =
+		indexOf(INTRINSIC_SIZES, intrinsicSizeOf(styles.width)) + 1;
+	FlexItemComponent.heightKeyword[eid] =
+		indexOf(INTRINSIC_SIZES, intrinsicSizeOf(styles.height)) + 1;
+	FlexItemComponent.minWidth[eid] =
+		typeof styles.minWidth === "number" ? styles.minWidth : 0;
+	FlexItemComponent.minHeight[eid] =
+		typeof styles.minHeight === "number" ? styles.minHeight : 0;
+	FlexItemComponent.maxWidth[eid] = encodeDimension(styles.maxWidth);
+	FlexItemComponent.maxHeight[eid] = encodeDimension(styles.maxHeight);
+	FlexItemComponent.aspectRatio[eid] = styles.aspectRatio ?? 0;
+	FlexItemComponent.hidden[eid] = styles.display === "none" ? 1 : 0;
+	FlexItemComponent.absolute[eid] = styles.position === "absolute" ? 1 : 0;
+	FlexItemComponent.overlay[eid] = styles.overlay === true ? 1 : 0;
+};
+
+const writeSpacing = (eid: Entity, styles: Styles): void => {
+	const { margin, padding } = resolveShorthands(styles);
+
+	SpacingComponent.marginTop[eid] = margin.top;
+	SpacingComponent.marginRight[eid] = margin.right;
+	SpacingComponent.marginBottom[eid] = margin.bottom;
+	SpacingComponent.marginLeft[eid] = margin.left;
+	SpacingComponent.paddingTop[eid] = padding.top;
+	SpacingComponent.paddingRight[eid] = padding.right;
+	SpacingComponent.paddingBottom[eid] = padding.bottom;
+	SpacingComponent.paddingLeft[eid] = padding.left;
+};
+
+const writeBorder = (eid: Entity, styles: Styles): void => {
+	const hasBorder = styles.borderStyle !== undefined;
+
+	BorderComponent.style[eid] = indexOf(BORDER_STYLES, styles.borderStyle) + 1;
+	BorderComponent.top[eid] = hasBorder && styles.borderTop !== false ? 1 : 0;
+	BorderComponent.right[eid] =
+		hasBorder && styles.borderRight !== false ? 1 : 0;
+	BorderComponent.bottom[eid] =
+		hasBorder && styles.borderBottom !== false ? 1 : 0;
+	BorderComponent.left[eid] = hasBorder && styles.borderLeft !== false ? 1 : 0;
+};
+
+const writeOverflow = (eid: Entity, styles: Styles): void => {
+	OverflowComponent.x[eid] = Math.max(
+		0,
+		indexOf(OVERFLOWS, styles.overflowX ?? styles.overflow),
+	);
+	OverflowComponent.y[eid] = Math.max(
+		0,
+		indexOf(OVERFLOWS, styles.overflowY ?? styles.overflow),
+	);
+};
+
+const writePosition = (eid: Entity, styles: Styles): void => {
+	PositionComponent.positioned[eid] = styles.position === undefined ? 0 : 1;
+	for (const side of OFFSET_SIDES) {
+		writeOffset(eid, side, styles[side]);
+	}
+	PositionComponent.hasZIndex[eid] = styles.zIndex === undefined ? 0 : 1;
+	PositionComponent.zIndex[eid] = styles.zIndex ?? 0;
+};
+
+const writeGrid = (eid: Entity, styles: Styles): void => {
+	const column = parseGridPlacement(styles.gridColumn);
+	const row = parseGridPlacement(styles.gridRow);
+	GridComponent.isGrid[eid] = styles.display === "grid" ? 1 : 0;
+	GridComponent.columns[eid] = parseGridTemplate(styles.gridTemplateColumns);
+	GridComponent.rows[eid] = parseGridTemplate(styles.gridTemplateRows);
+	GridComponent.columnStart[eid] = column.start ?? 0;
+	GridComponent.columnSpan[eid] = column.span;
+	GridComponent.rowStart[eid] = row.start ?? 0;
+	GridComponent.rowSpan[eid] = row.span;
+};
+
+type ComponentGroup = {
+	readonly component: Record<string, unknown>;
+	readonly keys: ReadonlySet<string>;
+	readonly write: (eid: Entity, styles: Styles) => void;
+};
+
+const COMPONENT_GROUPS: readonly ComponentGroup[] = [
+	{
+		component: FlexContainerComponent,
+		keys: FLEX_CONTAINER_KEYS,
+		write: writeFlexContainer,
+	},
+	{ component: FlexItemComponent, keys: FLEX_ITEM_KEYS, write: writeFlexItem },
+	{ component: SpacingComponent, keys: SPACING_KEYS, write: writeSpacing },
+	{ component: BorderComponent, keys: BORDER_KEYS, write: writeBorder },
+	{ component: OverflowComponent, keys: OVERFLOW_KEYS, write: writeOverflow },
+	{ component: PositionComponent, keys: POSITION_KEYS, write: writePosition },
+	{ component: GridComponent, keys: GRID_KEYS, write: writeGrid },
+];
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Writes a Box's styles into its style components. With `changedKeys`, only
+ * the groups containing one of those keys are rewritten; returns whether any
+ * component was written, so callers know when to mark the entity dirty.
+ */
+export const syncStyleComponents = (
+	world: World,
+	eid: Entity,
+	styles: Styles,
+	changedKeys?: Iterable<string>,
+): boolean => {
+	const changed = changedKeys ? new Set(changedKeys) : undefined;
+	let wrote = false;
+
+	for (const group of COMPONENT_GROUPS) {
+		const isNew = !hasComponent(world, eid, group.component);
+		if (isNew) {
+			addComponent(world, eid, group.component);
+		}
+
+		const touched =
+			changed === undefined || [...group.keys].some((key) => changed.has(key));
+
+		if (isNew || touched) {
+			group.write(eid, styles);
+			wrote = true;
+		}
+	}
+
+	return wrote;
+};
+
+export const hasStyleComponents = (world: World, eid: Entity): boolean =>
+	hasComponent(world, eid, FlexItemComponent);
+
+// ---------------------------------------------------------------------------
+// Readers
+// ---------------------------------------------------------------------------
+
+export type FlexContainerData = {
+	readonly flexDirection: FlexDirection;
+	readonly flexWrap: FlexWrap;
+	readonly justifyContent: JustifyContent;
+	readonly alignItems: AlignItems;
+	readonly alignContent: AlignContent;
+	readonly columnGap: number;
+	readonly rowGap: number;
+};
+
+export const getFlexContainer = (eid: Entity): FlexContainerData => ({
+	flexDirection: FLEX_DIRECTIONS[FlexContainerComponent.direction[eid]],
+	flexWrap: FLEX_WRAPS[FlexContainerComponent.wrap[eid]],
+	justifyContent: JUSTIFY_CONTENTS[FlexContainerComponent.justifyContent[eid]],
+	alignItems: ALIGN_ITEMS[FlexContainerComponent.alignItems[eid]],
+	alignContent: ALIGN_CONTENTS[FlexContainerComponent.alignContent[eid]],
+	columnGap: FlexContainerComponent.columnGap[eid],
+	rowGap: FlexContainerComponent.rowGap[eid],
+});
+
+export type FlexItemData = {
+	readonly flexGrow: number;
+	readonly flexShrink: number;
+	readonly flexBasis: number | `${number}%` | undefined;
+	readonly alignSelf: AlignSelf | undefined;
+	readonly width: number | `${number}%` | IntrinsicSize | undefined;
+	readonly height: number | `${number}%` | IntrinsicSize | undefined;
+	readonly minWidth: number;
+	readonly minHeight: number;
+	readonly maxWidth: number | `${number}%` | undefined;
+	readonly maxHeight: number | `${number}%` | undefined;
+	readonly aspectRatio: number | undefined;
+	readonly hidden: boolean;
+	readonly absolute: boolean;
+	readonly overlay: boolean;
+};
+
+export const getFlexItem = (eid: Entity): FlexItemData => {
+	const alignSelf = FlexItemComponent.alignSelf[eid];
+	const widthKeyword = FlexItemComponent.widthKeyword[eid];
+	const heightKeyword = FlexItemComponent.heightKeyword[eid];
+	const aspectRatio = FlexItemComponent.aspectRatio[eid];
+	return {
+		flexGrow: FlexItemComponent.grow[eid],
+		flexShrink: FlexItemComponent.shrink[eid],
+		flexBasis: decodeDimension(FlexItemComponent.basis[eid]),
+		alignSelf: alignSelf === 0 ? undefined : ALIGN_SELVES[alignSelf - 1],
+		width:
+			widthKeyword === 0
+				? decodeDimension(FlexItemComponent.width[eid])
+				: INTRINSIC_SIZES[widthKeyword - 1],
+		height:
+			heightKeyword === 0
+				? decodeDimension(FlexItemComponent.height[eid])
+				: INTRINSIC_SIZES[heightKeyword - 1],
+		minWidth: FlexItemComponent.minWidth[eid],
+		minHeight: FlexItemComponent.minHeight[eid],
+		maxWidth: decodeDimension(FlexItemComponent.maxWidth[eid]),
+		maxHeight: decodeDimension(FlexItemComponent.maxHeight[eid]),
+		aspectRatio: aspectRatio === 0 ? undefined : aspectRatio,
+		hidden: FlexItemComponent.hidden[eid] === 1,
+		absolute: FlexItemComponent.absolute[eid] === 1,
+		overlay: FlexItemComponent.overlay[eid] === 1,
+	};
+};
+
+type Edges = {
+	readonly top: number;
+	readonly right: number;
+	readonly bottom: number;
+	readonly left: number;
+};
+
+export const getMarginEdges = (eid: Entity): Edges => ({
+	top: SpacingComponent.marginTop[eid],
+	right: SpacingComponent.marginRight[eid],
+	bottom: SpacingComponent.marginBottom[eid],
+	left: SpacingComponent.marginLeft[eid],
+});
+
+export const getPaddingEdges = (eid: Entity): Edges => ({
+	top: SpacingComponent.paddingTop[eid],
+	right: SpacingComponent.paddingRight[eid],
+	bottom: SpacingComponent.paddingBottom[eid],
+	left: SpacingComponent.paddingLeft[eid],
+});
+
+export const getBorderStyle = (eid: Entity): BorderStyle | undefined => {
+	const style = BorderComponent.style[eid];
+	return style === 0 ? undefined : BORDER_STYLES[style - 1];
+};
+
+export const getBorderEdges = (eid: Entity): Edges => ({
+	top: BorderComponent.top[eid],
+	right: BorderComponent.right[eid],
+	bottom: BorderComponent.bottom[eid],
+	left: BorderComponent.left[eid],
+});
+
+export const getOverflow = (
+	eid: Entity,
+): { readonly x: Overflow; readonly y: Overflow } => ({
+	x: OVERFLOWS[OverflowComponent.x[eid]],
+	y: OVERFLOWS[OverflowComponent.y[eid]],
+});
+
+export type PositioningData = {
+	readonly positioned: boolean;
+	readonly top: PositionOffset | undefined;
+	readonly right: PositionOffset | undefined;
+	readonly bottom: PositionOffset | undefined;
+	readonly left: PositionOffset | undefined;
+	readonly zIndex: number | undefined;
+};
+
+export const getPositioning = (eid: Entity): PositioningData => ({
+	positioned: PositionComponent.positioned[eid] === 1,
+	top: readOffset(eid, "top"),
+	right: readOffset(eid, "right"),
+	bottom: readOffset(eid, "bottom"),
+	left: readOffset(eid, "left"),
+	zIndex:
+		PositionComponent.hasZIndex[eid] === 1
+			? PositionComponent.zIndex[eid]
+			: undefined,
+});
+
+export type GridData = {
+	readonly isGrid: boolean;
+	readonly columns: readonly GridTrack[];
+	readonly rows: readonly GridTrack[];
+	readonly column: GridSpan;
+	readonly row: GridSpan;
+};
+
+const readGridSpan = (start: number, span: number): GridSpan => ({
+	start: start === 0 ? undefined : start,
+	span: Math.max(1, span),
+});
+
+export const getGrid = (eid: Entity): GridData => ({
+	isGrid: GridComponent.isGrid[eid] === 1,
+	columns: GridComponent.columns[eid] ?? [],
+	rows: GridComponent.rows[eid] ?? [],
+	column: readGridSpan(
+		GridComponent.columnStart[eid],
+		GridComponent.columnSpan[eid],
+	),
+	row: readGridSpan(GridComponent.rowStart[eid], GridComponent.rowSpan[eid]),
+});
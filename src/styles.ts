@@ -9,8 +9,59 @@ const DimensionValueSchema = z.union([
 	z.string().regex(/^\d+%$/, "Must be a percentage string like '50%'"),
 ]);
 
+// Sizes fitted to the content: "min-content" is as narrow as the content
+// goes without overflowing, "max-content" as wide as it is laid out on one
+// line, and "fit-content" the available space clamped between the two
+export const IntrinsicSizeSchema = z.enum([
+	"fit-content",
+	"min-content",
+	"max-content",
+]);
+
+const SizeValueSchema = z.union([
+	DimensionValueSchema,
+	z.literal("auto"),
+	IntrinsicSizeSchema,
+]);
+
 const SpacingValueSchema = z.number().int().min(0);
 
+// Cells, or a percentage of the containing block; either may be negative
+export const PositionOffsetSchema = z.union([
+	z.number().int(),
+	z.string().regex(/^-?\d+%$/, "Must be a percentage string like '50%'"),
+]);
+
+// Grid tracks as cells, a share of the space left ("1fr") or "auto" to fit
+// the content; a template is a list of them or a string like "20 1fr auto"
+export const GridTemplateSchema = z.union([
+	z.array(
+		z.union([
+			z.number().int().min(0),
+			z.string().regex(/^\d+(\.\d+)?fr$/, "Must be a fraction like '1fr'"),
+			z.literal("auto"),
+		]),
+	),
+	z
+		.string()
+		.regex(
+			/^\s*(\d+(\.\d+)?fr|\d+|auto)(\s+(\d+(\.\d+)?fr|\d+|auto))*\s*$/,
+			"Must be tracks like '20 1fr auto'",
+		),
+]);
+
+// A 1-based start line, or a CSS-style placement: "2", "span 2", "1 / 3",
+// "1 / span 2" or "span 2 / 4"
+export const GridPlacementSchema = z.union([
+	z.number().int().min(1),
+	z
+		.string()
+		.regex(
+			/^\s*(\d+|span\s+\d+)(\s*\/\s*(\d+|span\s+\d+))?\s*$/,
+			"Must be a placement like '1 / span 2'",
+		),
+]);
+
 // ---------------------------------------------------------------------------
 // Flexbox enums
 // ---------------------------------------------------------------------------
@@ -24,11 +75,13 @@ export const FlexDirectionSchema = z.enum([
 
 export const FlexWrapSchema = z.enum(["nowrap", "wrap", "wrap-reverse"]);
 
+// "baseline" lines up the first row of text in each item of a row
 export const AlignItemsSchema = z.enum([
 	"flex-start",
 	"center",
 	"flex-end",
 	"stretch",
+	"baseline",
 ]);
 
 export const AlignSelfSchema = z.enum([
@@ -36,6 +89,19 @@ export const AlignSelfSchema = z.enum([
 	"flex-start",
 	"center",
 	"flex-end",
+	"stretch",
+	"baseline",
+]);
+
+// How the lines of a wrapping container share its cross size
+export const AlignContentSchema = z.enum([
+	"flex-start",
+	"center",
+	"flex-end",
+	"space-between",
+	"space-around",
+	"space-evenly",
+	"stretch",
 ]);
 
 export const JustifyContentSchema = z.enum([
@@ -53,9 +119,14 @@ export const JustifyContentSchema = z.enum([
 
 export const PositionSchema = z.enum(["absolute", "relative"]);
 
-export const DisplaySchema = z.enum(["flex", "none"]);
+export const DisplaySchema = z.enum(["flex", "grid", "none"]);
+
+// What shows through around an overlay's content
+export const BackdropSchema = z.enum(["none", "dim"]);
 
-export const OverflowSchema = z.enum(["visible", "hidden"]);
+// Both "hidden" and "scroll" clip and offset the content by
+// scrollTop/scrollLeft; "scroll" also keeps a row or column for the scrollbar
+export const OverflowSchema = z.enum(["visible", "hidden", "scroll"]);
 
 export const TextWrapSchema = z.enum([
 	"wrap",
@@ -95,12 +166,37 @@ export const StylesSchema = z.object({
 
 	// Layout
 	position: PositionSchema.optional(),
+	// Offsets of a box with a position. An absolute box is placed against
+	// the padding box of its nearest ancestor with a position, or the frame;
+	// a relative box is shifted from where the flow put it.
+	top: PositionOffsetSchema.optional(),
+	right: PositionOffsetSchema.optional(),
+	bottom: PositionOffsetSchema.optional(),
+	left: PositionOffsetSchema.optional(),
+	// Overlapping boxes paint in zIndex order, tree order breaking ties. A
+	// box with a zIndex carries its descendants with it, so they stack
+	// against its siblings by its zIndex and among themselves by theirs.
+	zIndex: z.number().int().optional(),
 	display: DisplaySchema.optional(),
+	// Tracks of a display "grid" box; rows beyond gridTemplateRows, and
+	// columns when it has none, fit their content
+	gridTemplateColumns: GridTemplateSchema.optional(),
+	gridTemplateRows: GridTemplateSchema.optional(),
+	// Where a grid item goes; unplaced items fill the free cells row by row
+	gridColumn: GridPlacementSchema.optional(),
+	gridRow: GridPlacementSchema.optional(),
+	// Lifts the box out of the layout into a layer that covers the whole
+	// frame and paints above everything else
+	overlay: z.boolean().optional(),
+	backdrop: BackdropSchema.optional(),
 
 	// Overflow
 	overflow: OverflowSchema.optional(),
 	overflowX: OverflowSchema.optional(),
 	overflowY: OverflowSchema.optional(),
+	// Cells the content of a scroll or hidden container is moved up / left by
+	scrollTop: z.number().int().min(0).optional(),
+	scrollLeft: z.number().int().min(0).optional(),
 
 	// Flexbox
 	flexDirection: FlexDirectionSchema.optional(),
@@ -110,13 +206,19 @@ export const StylesSchema = z.object({
 	flexWrap: FlexWrapSchema.optional(),
 	alignItems: AlignItemsSchema.optional(),
 	alignSelf: AlignSelfSchema.optional(),
+	alignContent: AlignContentSchema.optional(),
 	justifyContent: JustifyContentSchema.optional(),
 
 	// Dimensions
-	width: DimensionValueSchema.optional(),
-	height: DimensionValueSchema.optional(),
+	width: SizeValueSchema.optional(),
+	height: SizeValueSchema.optional(),
 	minWidth: DimensionValueSchema.optional(),
 	minHeight: DimensionValueSchema.optional(),
+	// Caps that flexing, content and aspectRatio never take the box past
+	maxWidth: DimensionValueSchema.optional(),
+	maxHeight: DimensionValueSchema.optional(),
+	// Width over height; the side not set is derived from the other
+	aspectRatio: z.number().positive().optional(),
 
 	// Margin
 	margin: SpacingValueSchema.optional(),
@@ -172,9 +274,15 @@ export type FlexDirection = z.infer<typeof FlexDirectionSchema>;
 export type FlexWrap = z.infer<typeof FlexWrapSchema>;
 export type AlignItems = z.infer<typeof AlignItemsSchema>;
 export type AlignSelf = z.infer<typeof AlignSelfSchema>;
+export type AlignContent = z.infer<typeof AlignContentSchema>;
 export type JustifyContent = z.infer<typeof JustifyContentSchema>;
+export type IntrinsicSize = z.infer<typeof IntrinsicSizeSchema>;
 export type Position = z.infer<typeof PositionSchema>;
+export type PositionOffset = z.infer<typeof PositionOffsetSchema>;
 export type Display = z.infer<typeof DisplaySchema>;
+export type GridTemplate = z.infer<typeof GridTemplateSchema>;
+export type GridPlacementValue = z.infer<typeof GridPlacementSchema>;
+export type Backdrop = z.infer<typeof BackdropSchema>;
 export type Overflow = z.infer<typeof OverflowSchema>;
 export type TextWrap = z.infer<typeof TextWrapSchema>;
 export type BorderStyle = z.infer<typeof BorderStyleSchema>;
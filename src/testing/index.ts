@@ -1,12 +1,25 @@
 import EventEmitter from "node:events";
 import { act, createElement, type ReactElement } from "react";
 import { z } from "zod";
+import { type AnimationClock, createAnimationClock } from "../animation-clock";
+import { AnimationContext } from "../contexts/animation";
 import { AppContext, type AppContextValue } from "../contexts/app";
+import {
+	createLayoutNotifier,
+	LayoutContext,
+	type LayoutSubscribe,
+} from "../contexts/layout";
 import { StderrContext, type StderrContextValue } from "../contexts/stderr";
 import { StdinContext, type StdinContextValue } from "../contexts/stdin";
 import { StdoutContext, type StdoutContextValue } from "../contexts/stdout";
+import { FocusProvider } from "../focus/focus-provider";
 import type { Container } from "../host-config";
+import { createPasteBuffer } from "../input/bracketed-paste";
+import { createMouseDispatcher } from "../input/mouse-dispatch";
+import { computeLayout } from "../layout/compute-layout";
 import { createRootContainer, reconciler, renderElement } from "../reconciler";
+import { renderFrame } from "../rendering/render-frame";
+import type { NodeLayoutMap } from "../rendering/render-tree";
 
 // ---------------------------------------------------------------------------
 // Enable React act() environment
@@ -86,9 +99,23 @@ const createMockStdout = (
 };
 
 const createMockStdin = (eventEmitter: EventEmitter): MockStdin => {
+	const pasteBuffer = createPasteBuffer();
 	return {
 		write(data: string): void {
-			eventEmitter.emit("input", data);
+			// Flush state updates from input handlers before write() returns
+			// Each write is whole, so nothing held back waits for more data
+			act(() => {
+				for (const chunk of [
+					...pasteBuffer.push(data),
+					...pasteBuffer.flush(),
+				]) {
+					if (chunk.type === "paste") {
+						eventEmitter.emit("paste", chunk.text);
+					} else {
+						eventEmitter.emit("input", chunk.data);
+					}
+				}
+			});
 		},
 	};
 };
@@ -111,6 +138,8 @@ const wrapWithProviders = (
 	stdinCtx: StdinContextValue,
 	stdoutCtx: StdoutContextValue,
 	stderrCtx: StderrContextValue,
+	clock: AnimationClock,
+	subscribeLayout: LayoutSubscribe,
 ): ReactElement => {
 	return createElement(
 		AppContext.Provider,
@@ -121,7 +150,23 @@ const wrapWithProviders = (
 			createElement(
 				StdoutContext.Provider,
 				{ value: stdoutCtx },
-				createElement(StderrContext.Provider, { value: stderrCtx }, element),
+				createElement(
+					StderrContext.Provider,
+					{ value: stderrCtx },
+					createElement(
+						FocusProvider,
+						null,
+						createElement(
+							AnimationContext.Provider,
+							{ value: clock },
+							createElement(
+								LayoutContext.Provider,
+								{ value: subscribeLayout },
+								element,
+							),
+						),
+					),
+				),
 			),
 		),
 	);
@@ -204,6 +249,34 @@ export const create = (
 		},
 	};
 
+	// Animations tick at the default frame rate; each tick's state updates
+	// flush inside act() like stdin writes do
+	const animationClock = createAnimationClock({
+		interval: Math.floor(1000 / 30),
+	});
+	const clock: AnimationClock = Object.freeze({
+		...animationClock,
+		subscribe: (listener: (now: number) => void) =>
+			animationClock.subscribe((now) => {
+				act(() => {
+					listener(now);
+				});
+			}),
+	});
+
+	// Every commit paints a frame, unthrottled so assertions see it at once
+	let layouts: NodeLayoutMap = new Map();
+	const layoutNotifier = createLayoutNotifier();
+	container.onRender = (): void => {
+		layouts = computeLayout(container, parsed.columns);
+		mockStdout.write(renderFrame(container, layouts));
+		layoutNotifier.notify();
+	};
+
+	// Mouse reports written to stdin reach Box handlers via the last layout
+	const mouseDispatcher = createMouseDispatcher(container, () => layouts);
+	inputEmitter.on("input", mouseDispatcher.handleInput);
+
 	// Render with providers
 	const renderWrapped = (el: ReactElement): void => {
 		const wrapped = wrapWithProviders(
@@ -212,6 +285,8 @@ export const create = (
 			stdinCtx,
 			stdoutCtx,
 			stderrCtx,
+			clock,
+			layoutNotifier.subscribe,
 		);
 
 		act(() => {
@@ -232,6 +307,7 @@ export const create = (
 				reconciler.updateContainer(null, fiberRoot, null, null);
 			}
 		});
+		animationClock.destroy();
 	};
 
 	const rerender = (el: ReactElement): void => {
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type { TextEditState } from "./edit-text";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// Typing and deleting coalesce into runs; anything else is its own entry
+export const EditKindSchema = z.enum(["insert", "delete", "other"]);
+
+export type EditKind = z.infer<typeof EditKindSchema>;
+
+// The run the latest edit belongs to, and where its cursor ended up
+type EditRun = Readonly<{
+	kind: EditKind;
+	cursor: number;
+}>;
+
+export type EditHistory = Readonly<{
+	undo: readonly TextEditState[];
+	redo: readonly TextEditState[];
+	run: EditRun | undefined;
+}>;
+
+export type HistoryStep = Readonly<{
+	history: EditHistory;
+	state: TextEditState;
+}>;
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export const EMPTY_EDIT_HISTORY: EditHistory = Object.freeze({
+	undo: [],
+	redo: [],
+	run: undefined,
+});
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Records the edit from `before` to `after`. An insert or delete that picks
+ * up where the previous one of the same kind left off joins its run, so one
+ * undo reverts a whole burst of typing. Recording clears the redo stack.
+ */
+export const recordEdit = (
+	history: EditHistory,
+	before: TextEditState,
+	after: TextEditState,
+	kind: EditKind,
+	limit = DEFAULT_HISTORY_LIMIT,
+): EditHistory => {
+	const run = kind === "other" ? undefined : { kind, cursor: after.cursor };
+
+	const continuesRun =
+		history.run !== undefined &&
+		kind !== "other" &&
+		history.run.kind === kind &&
+		history.run.cursor === before.cursor;
+
+	if (continuesRun) {
+		return { undo: history.undo, redo: [], run };
+	}
+
+	return {
+		undo: [...history.undo, before].slice(-limit),
+		redo: [],
+		run,
+	};
+};
+
+/**
+ * Ends the current run, e.g. when the cursor moves, so the next edit starts
+ * a new undo entry.
+ */
+export const breakRun = (history: EditHistory): EditHistory =>
+	history.run === undefined ? history : { ...history, run: undefined };
+
+// ---------------------------------------------------------------------------
+// Undo / redo
+// ---------------------------------------------------------------------------
+
+export const undoEdit = (
+	history: EditHistory,
+	current: TextEditState,
+): HistoryStep | undefined => {
+	const state = history.undo[history.undo.length - 1];
+	if (state === undefined) return undefined;
+
+	return {
+		history: {
+			undo: history.undo.slice(0, -1),
+			redo: [...history.redo, current],
+			run: undefined,
+		},
+		state,
+	};
+};
+
+export const redoEdit = (
+	history: EditHistory,
+	current: TextEditState,
+): HistoryStep | undefined => {
+	const state = history.redo[history.redo.length - 1];
+	if (state === undefined) return undefined;
+
+	return {
+		history: {
+			undo: [...history.undo, current],
+			redo: history.redo.slice(0, -1),
+			run: undefined,
+		},
+		state,
+	};
+};
@@ -0,0 +1,303 @@
+import { stringWidth, toGraphemes } from "blecsd/utils";
+import { wrapText } from "./wrap-text";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// `cursor` is a UTF-16 offset into `value` that always sits on a grapheme
+// cluster boundary, so an emoji or a combining sequence moves as one unit.
+export type TextEditState = Readonly<{
+	value: string;
+	cursor: number;
+}>;
+
+// ---------------------------------------------------------------------------
+// Grapheme boundaries
+// ---------------------------------------------------------------------------
+
+const graphemeBoundaries = (value: string): readonly number[] => {
+	const boundaries = [0];
+	let offset = 0;
+	for (const grapheme of toGraphemes(value)) {
+		offset += grapheme.length;
+		boundaries.push(offset);
+	}
+	return boundaries;
+};
+
+const previousBoundary = (value: string, cursor: number): number => {
+	const boundaries = graphemeBoundaries(value);
+	for (let i = boundaries.length - 1; i >= 0; i--) {
+		if (boundaries[i] < cursor) return boundaries[i];
+	}
+	return 0;
+};
+
+const nextBoundary = (value: string, cursor: number): number => {
+	for (const boundary of graphemeBoundaries(value)) {
+		if (boundary > cursor) return boundary;
+	}
+	return value.length;
+};
+
+/**
+ * Clamps an offset into `value` and snaps it back onto the grapheme
+ * boundary at or before it.
+ */
+export const clampCursor = (value: string, cursor: number): number => {
+	if (cursor <= 0) return 0;
+	if (cursor >= value.length) return value.length;
+
+	const boundaries = graphemeBoundaries(value);
+	for (let i = boundaries.length - 1; i >= 0; i--) {
+		if (boundaries[i] <= cursor) return boundaries[i];
+	}
+	return 0;
+};
+
+// ---------------------------------------------------------------------------
+// Word and line boundaries
+// ---------------------------------------------------------------------------
+
+const isSpace = (grapheme: string): boolean => /^\s+$/.test(grapheme);
+
+// Skips whitespace, then the word before it (readline's Ctrl+W / Alt+B)
+const previousWordStart = (value: string, cursor: number): number => {
+	const graphemes = toGraphemes(value.slice(0, cursor));
+	let i = graphemes.length;
+	while (i > 0 && isSpace(graphemes[i - 1])) i--;
+	while (i > 0 && !isSpace(graphemes[i - 1])) i--;
+	return graphemes.slice(0, i).join("").length;
+};
+
+// Skips whitespace, then the word after it (readline's Alt+F)
+const nextWordEnd = (value: string, cursor: number): number => {
+	const graphemes = toGraphemes(value.slice(cursor));
+	let i = 0;
+	while (i < graphemes.length && isSpace(graphemes[i])) i++;
+	while (i < graphemes.length && !isSpace(graphemes[i])) i++;
+	return cursor + graphemes.slice(0, i).join("").length;
+};
+
+export const lineStart = (value: string, cursor: number): number =>
+	value.lastIndexOf("\n", cursor - 1) + 1;
+
+export const lineEnd = (value: string, cursor: number): number => {
+	const end = value.indexOf("\n", cursor);
+	return end === -1 ? value.length : end;
+};
+
+// ---------------------------------------------------------------------------
+// Columns (terminal cells, not code units)
+// ---------------------------------------------------------------------------
+
+/**
+ * Terminal column of the cursor within its line; wide CJK and emoji
+ * graphemes count as two cells.
+ */
+export const cursorColumn = (value: string, cursor: number): number =>
+	stringWidth(value.slice(lineStart(value, cursor), cursor));
+
+/**
+ * Offset into `line` of the grapheme boundary closest to `column` without
+ * passing it, so a cursor never lands inside a wide character.
+ */
+export const offsetAtColumn = (line: string, column: number): number => {
+	let width = 0;
+	let offset = 0;
+	for (const grapheme of toGraphemes(line)) {
+		const next = width + stringWidth(grapheme);
+		if (next > column) break;
+		width = next;
+		offset += grapheme.length;
+	}
+	return offset;
+};
+
+// ---------------------------------------------------------------------------
+// Visual lines (soft wrapping)
+// ---------------------------------------------------------------------------
+
+// One screen row of soft-wrapped text. `start` and `end` are offsets into the
+// whole value; whitespace wrapText drops at a wrap point lies between rows.
+export type VisualLine = Readonly<{
+	start: number;
+	end: number;
+	text: string;
+}>;
+
+/**
+ * Soft-wraps every line of `value` with wrapText and maps each wrapped row
+ * back onto its offsets. A width of 0 or less disables wrapping.
+ */
+export const layoutVisualLines = (
+	value: string,
+	width: number,
+): readonly VisualLine[] => {
+	const rows: VisualLine[] = [];
+	let lineOffset = 0;
+
+	for (const line of value.split("\n")) {
+		const wrapped = width > 0 ? wrapText(line, width).split("\n") : [line];
+		let position = 0;
+
+		for (const text of wrapped) {
+			const found = line.indexOf(text, position);
+			const start = found === -1 ? position : found;
+			position = start + text.length;
+			rows.push({
+				start: lineOffset + start,
+				end: lineOffset + position,
+				text,
+			});
+		}
+
+		// A full last row leaves no cell for a cursor at the end of the line,
+		// so that cursor gets an empty row of its own
+		const last = wrapped[wrapped.length - 1] ?? "";
+		if (width > 0 && stringWidth(last) >= width) {
+			const end = lineOffset + line.length;
+			rows.push({ start: end, end, text: "" });
+		}
+
+		lineOffset += line.length + 1;
+	}
+
+	return rows;
+};
+
+/**
+ * Index of the row the cursor is drawn on: the last row starting at or
+ * before it, so a cursor on a wrap point belongs to the row it begins.
+ */
+export const visualLineIndex = (
+	rows: readonly VisualLine[],
+	cursor: number,
+): number => {
+	let low = 0;
+	let high = rows.length - 1;
+	while (low < high) {
+		const middle = Math.ceil((low + high) / 2);
+		if (rows[middle].start <= cursor) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return Math.max(0, low);
+};
+
+/**
+ * Terminal column of the cursor within its row.
+ */
+export const visualColumn = (
+	value: string,
+	rows: readonly VisualLine[],
+	cursor: number,
+): number => {
+	const row = rows[visualLineIndex(rows, cursor)];
+	if (!row) return 0;
+	return stringWidth(value.slice(row.start, Math.min(cursor, row.end)));
+};
+
+// ---------------------------------------------------------------------------
+// Cursor movement
+// ---------------------------------------------------------------------------
+
+const moveTo = (state: TextEditState, cursor: number): TextEditState =>
+	cursor === state.cursor ? state : { value: state.value, cursor };
+
+export const moveLeft = (state: TextEditState): TextEditState =>
+	moveTo(state, previousBoundary(state.value, state.cursor));
+
+export const moveRight = (state: TextEditState): TextEditState =>
+	moveTo(state, nextBoundary(state.value, state.cursor));
+
+export const moveWordLeft = (state: TextEditState): TextEditState =>
+	moveTo(state, previousWordStart(state.value, state.cursor));
+
+export const moveWordRight = (state: TextEditState): TextEditState =>
+	moveTo(state, nextWordEnd(state.value, state.cursor));
+
+export const moveToLineStart = (state: TextEditState): TextEditState =>
+	moveTo(state, lineStart(state.value, state.cursor));
+
+export const moveToLineEnd = (state: TextEditState): TextEditState =>
+	moveTo(state, lineEnd(state.value, state.cursor));
+
+/**
+ * Moves the cursor `delta` rows up (negative) or down, landing as close to
+ * `column` as the target row allows. Moving past the first or last row goes
+ * to the start or end of the value.
+ */
+export const moveVisualLine = (
+	state: TextEditState,
+	rows: readonly VisualLine[],
+	delta: number,
+	column: number,
+): TextEditState => {
+	const current = visualLineIndex(rows, state.cursor);
+	const target = current + delta;
+	if (target < 0) return moveTo(state, 0);
+	if (target >= rows.length) return moveTo(state, state.value.length);
+
+	const row = rows[target];
+	const cursor = row.start + offsetAtColumn(row.text, column);
+
+	// When the next row continues this one without a gap, its start offset
+	// is drawn there, so the cursor stops one grapheme short of it
+	const next = rows[target + 1];
+	if (next !== undefined && cursor >= next.start && next.start > row.start) {
+		return moveTo(state, previousBoundary(state.value, next.start));
+	}
+
+	return moveTo(state, cursor);
+};
+
+// ---------------------------------------------------------------------------
+// Editing
+// ---------------------------------------------------------------------------
+
+const replaceRange = (
+	state: TextEditState,
+	from: number,
+	to: number,
+	text = "",
+): TextEditState => {
+	if (from === to && text.length === 0) return state;
+
+	return {
+		value: state.value.slice(0, from) + text + state.value.slice(to),
+		cursor: from + text.length,
+	};
+};
+
+export const insertText = (state: TextEditState, text: string): TextEditState =>
+	replaceRange(state, state.cursor, state.cursor, text);
+
+export const deleteBackward = (state: TextEditState): TextEditState =>
+	replaceRange(
+		state,
+		previousBoundary(state.value, state.cursor),
+		state.cursor,
+	);
+
+export const deleteForward = (state: TextEditState): TextEditState =>
+	replaceRange(state, state.cursor, nextBoundary(state.value, state.cursor));
+
+// Ctrl+W
+export const deleteWordBackward = (state: TextEditState): TextEditState =>
+	replaceRange(
+		state,
+		previousWordStart(state.value, state.cursor),
+		state.cursor,
+	);
+
+// Ctrl+U
+export const deleteToLineStart = (state: TextEditState): TextEditState =>
+	replaceRange(state, lineStart(state.value, state.cursor), state.cursor);
+
+// Ctrl+K
+export const deleteToLineEnd = (state: TextEditState): TextEditState =>
+	replaceRange(state, state.cursor, lineEnd(state.value, state.cursor));
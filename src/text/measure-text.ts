@@ -87,6 +87,20 @@ export const measureText = (text: string, tabWidth = 8): MeasureResult => {
 	return result;
 };
 
+// ---------------------------------------------------------------------------
+// measureMinContentWidth
+// ---------------------------------------------------------------------------
+
+// The widest word, which is as narrow as the text wraps without breaking
+// one
+export const measureMinContentWidth = (text: string, tabWidth = 8): number => {
+	let width = 0;
+	for (const word of stripAnsi(text).split(/\s+/)) {
+		width = Math.max(width, stringWidth(word, { tabWidth }));
+	}
+	return width;
+};
+
 // ---------------------------------------------------------------------------
 // Cache management
 // ---------------------------------------------------------------------------
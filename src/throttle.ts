@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { type AnimationClock, createAnimationClock } from "./animation-clock";
 
 // ---------------------------------------------------------------------------
 // Configuration schema
@@ -18,6 +19,8 @@ export type ThrottleConfig = z.infer<typeof ThrottleConfigSchema>;
 export type RenderThrottle = Readonly<{
 	scheduleRender: () => void;
 	destroy: () => void;
+	// Ticks at the frame rate while something is animating
+	clock: AnimationClock;
 }>;
 
 // ---------------------------------------------------------------------------
@@ -37,6 +40,9 @@ export const createRenderThrottle = (
 
 	const frameInterval = Math.floor(1000 / parsed.maxFps);
 
+	// Animations advance no faster than frames can be painted
+	const clock = createAnimationClock({ interval: frameInterval });
+
 	const tick = (): void => {
 		if (isDestroyed) return;
 
@@ -70,6 +76,7 @@ export const createRenderThrottle = (
 		if (isDestroyed) return;
 		isDestroyed = true;
 		needsRender = false;
+		clock.destroy();
 
 		if (timerId !== undefined) {
 			clearTimeout(timerId);
@@ -77,5 +84,5 @@ export const createRenderThrottle = (
 		}
 	};
 
-	return Object.freeze({ scheduleRender, destroy });
+	return Object.freeze({ scheduleRender, destroy, clock });
 };